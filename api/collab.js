@@ -0,0 +1,465 @@
+'use strict';
+
+/**
+ * Live Collaboration
+ *
+ * WebSocket endpoint for editing one project's load together in real time:
+ *
+ *   ws(s)://<host>/api/collab?project=<id>
+ *
+ * The JWT is not in the URL, where proxies and access logs would record it:
+ * the first message must be a hello carrying the token. Until it checks out
+ * nothing else is accepted, and a connection that does not send one in time
+ * is closed.
+ *
+ * Everyone connected to the same project shares a session ("room"). Only an
+ * editor can start one, with their load; later members receive it when they
+ * join. Members send item operations and presence (3D cursor and selection),
+ * which the server checks and relays to the rest of the room. Items are
+ * rebuilt from known fields only, and containers must be built-in types or
+ * equipment saved with the project.
+ *
+ * Conflicts are resolved per item: every accepted change gives the item a new
+ * version, a token chosen by the sender ("<clientId>.<n>") so it can keep
+ * editing before the server answers. Each operation names the version it was
+ * based on; if the item has changed since, the operation is rejected and the
+ * sender gets the item's current state back. Two people changing different
+ * items never get in each other's way.
+ *
+ * Messages are JSON objects with a `type`:
+ *
+ *   client → server
+ *     hello     { token, containers: [{ containerType, items }] }   the sender's load (seeds a new room)
+ *     ops       { ops: [{ kind: 'put', item, container, baseVersion, version }
+ *                      | { kind: 'delete', id, baseVersion, version }] }
+ *     presence  { cursor: { container, x, y, z } | null, selection: string[] }   position in inches
+ *
+ *   server → client
+ *     welcome   { clientId, color, containers: string[], items: [{ id, item | null, container, version }], peers }
+ *     join      { peer }
+ *     leave     { clientId }
+ *     ops       { from, ops: [{ kind: 'put', item, container, version } | { kind: 'delete', id, version }] }
+ *     reject    { id, item | null, container, version, by }
+ *     presence  { clientId, cursor, selection }
+ *
+ * Only items are shared: the containers are the ones the room started with,
+ * and operations into any other container are dropped. Crew notes stay with
+ * each user's local load.
+ *
+ * Viewers can join to watch; their item operations are ignored. Rooms live in
+ * memory only and are dropped when the last member leaves — saving is still
+ * done through the REST API.
+ *
+ * A refused hello closes the connection with a 4xxx code (4400 bad request,
+ * 4401 not authenticated, 4403 no access, 4404 no such project) and a reason
+ * the client can show.
+ */
+
+const jwt = require('jsonwebtoken');
+const { WebSocketServer } = require('ws');
+
+const { stmts }      = require('./db');
+const { JWT_SECRET } = require('./middleware/auth');
+
+const COLLAB_PATH     = '/api/collab';
+const HEARTBEAT_MS    = 30_000;
+const HELLO_TIMEOUT_MS = 10_000;
+const MAX_PAYLOAD     = 2 * 1024 * 1024;
+const MAX_CONTAINERS  = 50;
+const MAX_ITEMS       = 5_000;
+const MAX_CARTONS     = 500;
+const MAX_SELECTION   = 1_000;
+const MAX_ID_LENGTH   = 100;
+const MAX_TEXT_LENGTH = 200;
+/** Largest dimension or coordinate accepted, in inches */
+const MAX_INCHES      = 10_000;
+const MAX_WEIGHT_LBS  = 1_000_000;
+const PEER_COLORS     = ['#f472b6', '#22c5d6', '#fbbf24', '#fb923c', '#a78bfa', '#34d399'];
+
+// Allowed values, mirroring the types in src/definitions.ts
+const BUILT_IN_CONTAINERS = ['20ft', '40ft', '40hc'];
+const CATEGORIES          = ['general', 'fragile', 'heavy', 'hazardous', 'perishable'];
+const HAZMAT_LEVELS       = [
+  'none', '1-explosives', '2-gas', '3-flammable-liquid', '4-flammable-solid', '5-oxidizer',
+  '6-toxic', '7-radioactive', '8-corrosive', '9-miscellaneous',
+];
+const ORIENTATION_RULES   = ['any', 'upright', 'long-side-down'];
+const TOP_LOAD_UNITS      = ['lbs', 'lbs/sqft'];
+const PACKING_GROUPS      = ['I', 'II', 'III'];
+const PALLET_PATTERNS     = ['column', 'interlock'];
+
+/**
+ * projectId → { containers: string[], items: Map<id, { item, container, version, by }>, members: Map<clientId, member>, colorIndex }
+ * Deleted items stay in `items` with item null, so stale edits to them are rejected too.
+ */
+const rooms = new Map();
+let nextClientId = 1;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function send(ws, message) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+}
+
+function broadcast(room, message, exceptClientId) {
+  for (const [clientId, member] of room.members) {
+    if (clientId !== exceptClientId) send(member.ws, message);
+  }
+}
+
+function peerInfo(clientId, member) {
+  return {
+    clientId,
+    username:  member.user.username,
+    role:      member.user.role,
+    color:     member.color,
+    cursor:    member.cursor,
+    selection: member.selection,
+  };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+// Items and cursors are relayed to other members' browsers, so they are
+// rebuilt from the known fields only. Anything malformed is refused.
+
+const isText = (value, max = MAX_TEXT_LENGTH) => typeof value === 'string' && value.length <= max;
+/** IDs end up in HTML attributes, so they are limited to the characters the app generates */
+const isId = (value) => typeof value === 'string' && /^[\w.:-]+$/.test(value) && value.length <= MAX_ID_LENGTH;
+const isNumber = (value, min, max) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const isStackingRule = (value) =>
+  value === 'all' || value === 'none' ||
+  (Array.isArray(value) && value.length <= CATEGORIES.length && value.every(c => CATEGORIES.includes(c)));
+
+/** Pallet base and cartons of a built pallet, or null when malformed */
+function cleanPalletContents(raw) {
+  if (!raw || typeof raw !== 'object') return null;
+  const base = raw.base;
+  if (!base || !isId(base.name) || !isText(base.label)) return null;
+  if (!['lengthIn', 'widthIn', 'heightIn'].every(k => isNumber(base[k], 0, MAX_INCHES))) return null;
+  if (!isNumber(base.weightLbs, 0, MAX_WEIGHT_LBS)) return null;
+  if (!PALLET_PATTERNS.includes(raw.pattern) || !Number.isInteger(raw.layers) || raw.layers < 0 || raw.layers > MAX_CARTONS) return null;
+  if (!Array.isArray(raw.cartons) || raw.cartons.length > MAX_CARTONS) return null;
+
+  const cartons = raw.cartons.map(carton => cleanItem(carton, false));
+  if (cartons.includes(null)) return null;
+  return {
+    base: { name: base.name, label: base.label, lengthIn: base.lengthIn, widthIn: base.widthIn, heightIn: base.heightIn, weightLbs: base.weightLbs },
+    pattern: raw.pattern,
+    layers: raw.layers,
+    cartons,
+  };
+}
+
+/**
+ * Rebuilds a cargo item (see CargoItem in src/definitions.ts) from its known
+ * fields. Returns null when a field is missing, of the wrong type, out of
+ * range or not one of the allowed values. Pallet cartons may not be pallets.
+ */
+function cleanItem(raw, allowPallet = true) {
+  if (!raw || typeof raw !== 'object') return null;
+  if (!isId(raw.id) || !isText(raw.label)) return null;
+  if (typeof raw.color !== 'string' || !/^#[0-9a-f]{3,8}$/i.test(raw.color)) return null;
+
+  const sizes = ['lengthIn', 'widthIn', 'heightIn', 'origLengthIn', 'origWidthIn', 'origHeightIn'];
+  if (!sizes.every(k => isNumber(raw[k], 0, MAX_INCHES))) return null;
+  if (!['posX', 'posY', 'posZ'].every(k => isNumber(raw[k], -MAX_INCHES, MAX_INCHES))) return null;
+  if (!isNumber(raw.weightLbs, 0, MAX_WEIGHT_LBS)) return null;
+  if (![0, 1, 2, 3].includes(raw.rotationY) || typeof raw.visible !== 'boolean') return null;
+  if (!CATEGORIES.includes(raw.category) || !isStackingRule(raw.acceptsOnTop) || !isStackingRule(raw.canStackOn)) return null;
+
+  const item = {
+    id: raw.id,
+    label: raw.label,
+    lengthIn: raw.lengthIn,
+    widthIn: raw.widthIn,
+    heightIn: raw.heightIn,
+    origLengthIn: raw.origLengthIn,
+    origWidthIn: raw.origWidthIn,
+    origHeightIn: raw.origHeightIn,
+    weightLbs: raw.weightLbs,
+    category: raw.category,
+    color: raw.color,
+    posX: raw.posX,
+    posY: raw.posY,
+    posZ: raw.posZ,
+    visible: raw.visible,
+    rotationY: raw.rotationY,
+    acceptsOnTop: Array.isArray(raw.acceptsOnTop) ? [...raw.acceptsOnTop] : raw.acceptsOnTop,
+    canStackOn: Array.isArray(raw.canStackOn) ? [...raw.canStackOn] : raw.canStackOn,
+  };
+
+  // Optional fields: left out when absent, refused when present but invalid
+  const optional = {
+    allowedOrientations: (v) => ORIENTATION_RULES.includes(v),
+    maxTopLoad:          (v) => isNumber(v, 0, MAX_WEIGHT_LBS),
+    maxTopLoadUnit:      (v) => TOP_LOAD_UNITS.includes(v),
+    hazmatLevel:         (v) => HAZMAT_LEVELS.includes(v),
+    unNumber:            (v) => typeof v === 'string' && /^\d{4}$/.test(v),
+    properShippingName:  (v) => isText(v),
+    packingGroup:        (v) => PACKING_GROUPS.includes(v),
+    subsidiaryRisk:      (v) => isText(v, 20),
+    flashPointC:         (v) => isNumber(v, -273, 1000),
+    marinePollutant:     (v) => typeof v === 'boolean',
+    stagingReason:       (v) => isText(v),
+    sku:                 (v) => isText(v, MAX_ID_LENGTH),
+    lineId:              (v) => isId(v),
+  };
+  for (const [key, valid] of Object.entries(optional)) {
+    if (raw[key] === undefined || raw[key] === null) continue;
+    if (!valid(raw[key])) return null;
+    item[key] = raw[key];
+  }
+
+  if (raw.palletContents !== undefined && raw.palletContents !== null) {
+    const contents = allowPallet ? cleanPalletContents(raw.palletContents) : null;
+    if (!contents) return null;
+    item.palletContents = contents;
+  }
+  return item;
+}
+
+/** A presence cursor in one of the room's containers, or null */
+function cleanCursor(raw, room) {
+  if (!raw || typeof raw !== 'object') return null;
+  if (!Number.isInteger(raw.container) || raw.container < 0 || raw.container >= room.containers.length) return null;
+  if (!['x', 'y', 'z'].every(k => isNumber(raw[k], -MAX_INCHES, MAX_INCHES))) return null;
+  return { container: raw.container, x: raw.x, y: raw.y, z: raw.z };
+}
+
+// ── Rooms ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Checks the token sent in hello and the user's access to the project.
+ * Returns { user, project } or { code, reason } to close the connection with.
+ */
+function authorize(token, projectId) {
+  let user;
+  try {
+    user = jwt.verify(typeof token === 'string' ? token : '', JWT_SECRET);
+  } catch {
+    return { code: 4401, reason: 'Your session has expired — sign in again' };
+  }
+
+  const project = stmts.getProject.get(projectId);
+  if (!project) return { code: 4404, reason: 'This project no longer exists' };
+
+  // Same rule as GET /api/projects/:id
+  if (user.role === 'viewer' && project.visibility !== 'public' && !stmts.viewerCanAccess.get(projectId, user.id)) {
+    return { code: 4403, reason: 'You do not have access to this project' };
+  }
+  return { user, project };
+}
+
+/** Container types a project's load may use: the built-in ones and any equipment saved with it */
+function knownContainerTypes(project) {
+  let customs = [];
+  try {
+    const data = JSON.parse(project.data);
+    if (data && Array.isArray(data.customContainers)) customs = data.customContainers;
+  } catch {
+    // Unreadable project data: only the built-in types
+  }
+  return new Set([...BUILT_IN_CONTAINERS, ...customs.filter(spec => spec && isText(spec.name, MAX_ID_LENGTH)).map(spec => spec.name)]);
+}
+
+/**
+ * Creates a room from an editor's load; every item starts at version 'seed'.
+ * Returns { room } or { reason } when the load cannot be shared.
+ */
+function createRoom(load, project) {
+  const knownTypes = knownContainerTypes(project);
+
+  const containers = Array.isArray(load.containers) ? load.containers : [];
+  if (containers.length > MAX_CONTAINERS) return { reason: `A live session holds at most ${MAX_CONTAINERS} containers` };
+  const room = {
+    containers: [],
+    items: new Map(),
+    members: new Map(),
+    colorIndex: 0,
+  };
+
+  for (const [container, c] of containers.entries()) {
+    if (!c || !knownTypes.has(c.containerType)) {
+      return { reason: 'The load uses equipment that is not saved with the project — save it first' };
+    }
+    room.containers.push(c.containerType);
+    for (const raw of Array.isArray(c.items) ? c.items : []) {
+      const item = cleanItem(raw);
+      if (!item) return { reason: 'The load has an item that cannot be shared' };
+      if (room.items.size >= MAX_ITEMS) return { reason: `A live session holds at most ${MAX_ITEMS} items` };
+      room.items.set(item.id, { item, container, version: 'seed', by: null });
+    }
+  }
+  if (room.containers.length === 0) room.containers.push('20ft');
+  return { room };
+}
+
+/**
+ * Applies one item operation from a member to the room.
+ * Returns { applied } with the operation to relay, { rejected } with the
+ * item's current entry when the operation was based on an older version,
+ * or null when the operation is malformed.
+ */
+function applyOp(room, op, clientId, username) {
+  if (!op || (op.kind !== 'put' && op.kind !== 'delete')) return null;
+  const item = op.kind === 'put' ? cleanItem(op.item) : null;
+  if (op.kind === 'put' && !item) return null;
+  const id = item ? item.id : op.id;
+  if (!isId(id)) return null;
+  if (!isText(op.version, MAX_ID_LENGTH) || !op.version.startsWith(`${clientId}.`)) return null;
+  if (!room.items.has(id) && room.items.size >= MAX_ITEMS) return null;
+
+  const entry = room.items.get(id) || { item: null, container: 0, version: null, by: null };
+  if ((op.baseVersion ?? null) !== entry.version) {
+    return { rejected: { id, ...entry } };
+  }
+
+  if (op.kind === 'put') {
+    // Containers are fixed for the life of the room (clients refuse to change them while live)
+    const container = op.container;
+    if (!Number.isInteger(container) || container < 0 || container >= room.containers.length) return null;
+    room.items.set(id, { item, container, version: op.version, by: username });
+    return { applied: { kind: 'put', item, container, version: op.version } };
+  }
+
+  room.items.set(id, { item: null, container: entry.container, version: op.version, by: username });
+  return { applied: { kind: 'delete', id, version: op.version } };
+}
+
+// ── Connections ───────────────────────────────────────────────────────────────
+
+function onConnection(ws, projectId) {
+  const clientId = nextClientId++;
+  let user = null;
+  let room = null;
+  let member = null;
+
+  const refuse = (code, reason) => ws.close(code, reason);
+  const helloTimer = setTimeout(() => refuse(4401, 'Not signed in to the live session'), HELLO_TIMEOUT_MS);
+
+  ws.isAlive = true;
+  ws.on('pong', () => { ws.isAlive = true; });
+
+  ws.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message !== 'object') return;
+
+    // The first message must be hello with a valid token; it joins (or creates) the room
+    if (!room) {
+      if (ws.readyState !== ws.OPEN) return;
+      clearTimeout(helloTimer);
+      if (message.type !== 'hello') return refuse(4401, 'Not signed in to the live session');
+
+      const auth = authorize(message.token, projectId);
+      if (auth.reason) return refuse(auth.code, auth.reason);
+
+      let joined = rooms.get(projectId);
+      if (!joined) {
+        if (auth.user.role === 'viewer') return refuse(4403, 'Nobody is editing this project live yet');
+        const created = createRoom(message, auth.project);
+        if (created.reason) return refuse(4400, created.reason);
+        joined = created.room;
+        rooms.set(projectId, joined);
+      }
+
+      user = auth.user;
+      room = joined;
+      member = {
+        ws,
+        user,
+        color: PEER_COLORS[room.colorIndex++ % PEER_COLORS.length],
+        cursor: null,
+        selection: [],
+      };
+
+      const peers = Array.from(room.members, ([id, m]) => peerInfo(id, m));
+      room.members.set(clientId, member);
+      send(ws, {
+        type: 'welcome',
+        clientId,
+        color: member.color,
+        containers: room.containers,
+        items: Array.from(room.items, ([id, { item, container, version }]) => ({ id, item, container, version })),
+        peers,
+      });
+      broadcast(room, { type: 'join', peer: peerInfo(clientId, member) }, clientId);
+      return;
+    }
+
+    if (message.type === 'ops' && Array.isArray(message.ops)) {
+      if (user.role === 'viewer') return;
+      const applied = [];
+      for (const op of message.ops) {
+        const result = applyOp(room, op, clientId, user.username);
+        if (!result) continue;
+        if (result.applied) {
+          applied.push(result.applied);
+        } else {
+          const { id, item, container, version, by } = result.rejected;
+          send(ws, { type: 'reject', id, item, container, version, by });
+        }
+      }
+      if (applied.length > 0) broadcast(room, { type: 'ops', from: clientId, ops: applied }, clientId);
+    } else if (message.type === 'presence') {
+      member.cursor = cleanCursor(message.cursor, room);
+      member.selection = Array.isArray(message.selection)
+        ? message.selection.filter(isId).slice(0, MAX_SELECTION)
+        : [];
+      broadcast(room, { type: 'presence', clientId, cursor: member.cursor, selection: member.selection }, clientId);
+    }
+  });
+
+  ws.on('close', () => {
+    clearTimeout(helloTimer);
+    if (!room) return;
+    room.members.delete(clientId);
+    if (room.members.size === 0) {
+      rooms.delete(projectId);
+    } else {
+      broadcast(room, { type: 'leave', clientId });
+    }
+  });
+}
+
+/**
+ * Serves the collaboration WebSocket on an HTTP server. Upgrade requests for
+ * other paths, or without a project ID, are refused; the user is
+ * authenticated by the hello message once connected.
+ */
+function attachCollab(server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    const projectId = Number(url.searchParams.get('project'));
+    const status = url.pathname !== COLLAB_PATH ? 404 : Number.isInteger(projectId) && projectId > 0 ? 0 : 400;
+    if (status) {
+      socket.write(`HTTP/1.1 ${status} ${status === 404 ? 'Not Found' : 'Bad Request'}\r\nConnection: close\r\n\r\n`);
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => onConnection(ws, projectId));
+  });
+
+  // Drop connections that stopped answering pings (closed laptops, lost Wi-Fi)
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+module.exports = { attachCollab };
@@ -57,6 +57,18 @@ db.exec(`
     user_id     INTEGER NOT NULL REFERENCES users(id)    ON DELETE CASCADE,
     PRIMARY KEY (project_id, user_id)
   );
+
+  CREATE TABLE IF NOT EXISTS project_revisions (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id  INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    revision    INTEGER NOT NULL,
+    author_id   INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    name        TEXT    NOT NULL,
+    data        TEXT    NOT NULL,
+    note        TEXT,
+    created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (project_id, revision)
+  );
 `);
 
 // ── Migrations (must run BEFORE prepared statements are compiled) ─────────────
@@ -101,6 +113,20 @@ db.exec(`
   }
 })();
 
+// Migration: give projects saved before revision history a first revision
+// holding their current data, credited to the owner.
+(function migrateProjectRevisions() {
+  const info = db.prepare(`
+    INSERT INTO project_revisions (project_id, revision, author_id, name, data, created_at)
+    SELECT p.id, 1, p.owner_id, p.name, p.data, p.updated_at
+    FROM   projects p
+    WHERE  NOT EXISTS (SELECT 1 FROM project_revisions r WHERE r.project_id = p.id)
+  `).run();
+  if (info.changes > 0) {
+    console.log(`[db] Created initial revisions for ${info.changes} project(s).`);
+  }
+})();
+
 // ── Prepared statements ───────────────────────────────────────────────────────
 
 const stmts = {
@@ -120,14 +146,16 @@ const stmts = {
   `),
   listProjects:  db.prepare(`
     SELECT p.id, p.owner_id, p.name, p.visibility, p.created_at, p.updated_at,
-           u.username AS owner_name
+           u.username AS owner_name,
+           (SELECT MAX(r.revision) FROM project_revisions r WHERE r.project_id = p.id) AS revision
     FROM   projects p
     JOIN   users    u ON u.id = p.owner_id
     ORDER  BY p.updated_at DESC
   `),
   listProjectsForViewer: db.prepare(`
     SELECT p.id, p.owner_id, p.name, p.visibility, p.created_at, p.updated_at,
-           u.username AS owner_name
+           u.username AS owner_name,
+           (SELECT MAX(r.revision) FROM project_revisions r WHERE r.project_id = p.id) AS revision
     FROM   projects p
     JOIN   users    u ON u.id = p.owner_id
     WHERE  p.visibility = 'public'
@@ -138,7 +166,8 @@ const stmts = {
     ORDER  BY p.updated_at DESC
   `),
   getProject:    db.prepare(`
-    SELECT p.*, u.username AS owner_name
+    SELECT p.*, u.username AS owner_name,
+           (SELECT MAX(r.revision) FROM project_revisions r WHERE r.project_id = p.id) AS revision
     FROM   projects p
     JOIN   users    u ON u.id = p.owner_id
     WHERE  p.id = ?
@@ -173,6 +202,29 @@ const stmts = {
   viewerCanAccess: db.prepare(`
     SELECT 1 FROM project_viewers WHERE project_id = ? AND user_id = ?
   `),
+
+  // Project revisions
+  // Revision numbers count up from 1 per project.
+  createRevision: db.prepare(`
+    INSERT INTO project_revisions (project_id, revision, author_id, name, data, note)
+    SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?
+    FROM   project_revisions
+    WHERE  project_id = ?
+  `),
+  listRevisions: db.prepare(`
+    SELECT r.id, r.project_id, r.revision, r.author_id, r.name, r.note, r.created_at,
+           COALESCE(u.username, '(deleted user)') AS author_name
+    FROM   project_revisions r
+    LEFT   JOIN users u ON u.id = r.author_id
+    WHERE  r.project_id = ?
+    ORDER  BY r.revision DESC
+  `),
+  getRevision: db.prepare(`
+    SELECT r.*, COALESCE(u.username, '(deleted user)') AS author_name
+    FROM   project_revisions r
+    LEFT   JOIN users u ON u.id = r.author_id
+    WHERE  r.project_id = ? AND r.revision = ?
+  `),
 };
 
 // ── Default seed ──────────────────────────────────────────────────────────────
@@ -10,13 +10,59 @@
  * DELETE /api/projects/:id          — delete project (editor only)
  * GET    /api/projects/:id/viewers  — list viewer grants (admin only)
  * PUT    /api/projects/:id/viewers  — replace viewer grants (admin only)
+ * GET    /api/projects/:id/revisions               — list saved revisions (access-checked)
+ * GET    /api/projects/:id/revisions/:rev          — get one revision with data (access-checked)
+ * POST   /api/projects/:id/revisions/:rev/restore  — make a revision current (editor only)
+ * POST   /api/projects/:id/revisions/:rev/fork     — copy a revision into a new project (editor only)
+ *
+ * Every create, update, restore and fork stores a revision, so earlier saves
+ * are never lost when a project is overwritten.
+ *
+ * Projects carry their latest revision number. A PUT that sends it back as
+ * baseRevision is rejected with 409 when someone else saved in the meantime,
+ * so concurrent editors cannot silently overwrite each other.
  */
 
 const router = require('express').Router();
 
-const { stmts }                           = require('../db');
+const { db, stmts }                       = require('../db');
 const { requireAuth, requireEditor, requireAdmin } = require('../middleware/auth');
 
+/** Whether a viewer-role user may open the project (admins and editors always can). */
+function canView(user, project) {
+  if (user.role !== 'viewer' || project.visibility === 'public') return true;
+  return !!stmts.viewerCanAccess.get(project.id, user.id);
+}
+
+/** Parses the :rev route parameter; returns null when it is not a revision number. */
+function parseRevision(param) {
+  const rev = Number(param);
+  return Number.isInteger(rev) && rev > 0 ? rev : null;
+}
+
+// Project writes and their revision are stored together.
+const createProjectWithRevision = db.transaction((ownerId, name, dataStr, visibility, note) => {
+  const info = stmts.createProject.run(ownerId, name, dataStr, visibility);
+  stmts.createRevision.run(info.lastInsertRowid, ownerId, name, dataStr, note, info.lastInsertRowid);
+  return info.lastInsertRowid;
+});
+
+const updateProjectWithRevision = db.transaction((id, authorId, name, dataStr, note) => {
+  stmts.updateProject.run(name, dataStr, id);
+  stmts.createRevision.run(id, authorId, name, dataStr, note, id);
+});
+
+// Saves only when the project is still at baseRevision (any revision when
+// baseRevision is undefined). Returns the latest revision row on conflict.
+const saveProjectIfCurrent = db.transaction((id, authorId, name, dataStr, baseRevision) => {
+  const current = stmts.getProject.get(id).revision;
+  if (baseRevision !== undefined && baseRevision !== current) {
+    return stmts.getRevision.get(id, current);
+  }
+  updateProjectWithRevision(id, authorId, name, dataStr, null);
+  return null;
+});
+
 // ── GET /api/projects ─────────────────────────────────────────────────────────
 router.get('/', requireAuth, (req, res) => {
   let rows;
@@ -28,8 +74,8 @@ router.get('/', requireAuth, (req, res) => {
     rows = stmts.listProjects.all();
   }
 
-  const list = rows.map(({ id, owner_id, owner_name, name, visibility, created_at, updated_at }) => ({
-    id, owner_id, owner_name, name, visibility, created_at, updated_at,
+  const list = rows.map(({ id, owner_id, owner_name, name, visibility, created_at, updated_at, revision }) => ({
+    id, owner_id, owner_name, name, visibility, created_at, updated_at, revision,
   }));
   return res.json(list);
 });
@@ -50,8 +96,8 @@ router.post('/', requireAuth, requireEditor, (req, res) => {
 
   const dataStr = typeof data === 'string' ? data : JSON.stringify(data);
 
-  const info = stmts.createProject.run(req.user.id, name.trim(), dataStr, visibility);
-  const project = stmts.getProject.get(info.lastInsertRowid);
+  const projectId = createProjectWithRevision(req.user.id, name.trim(), dataStr, visibility, null);
+  const project = stmts.getProject.get(projectId);
 
   return res.status(201).json({
     ...project,
@@ -71,13 +117,8 @@ router.get('/:id', requireAuth, (req, res) => {
   }
 
   // Viewers must have access
-  if (req.user.role === 'viewer') {
-    if (project.visibility !== 'public') {
-      const grant = stmts.viewerCanAccess.get(project.id, req.user.id);
-      if (!grant) {
-        return res.status(403).json({ error: 'Access denied' });
-      }
-    }
+  if (!canView(req.user, project)) {
+    return res.status(403).json({ error: 'Access denied' });
   }
 
   return res.json({
@@ -97,13 +138,28 @@ router.put('/:id', requireAuth, requireEditor, (req, res) => {
     return res.status(404).json({ error: 'Project not found' });
   }
 
-  const { name, data, visibility } = req.body || {};
+  const { name, data, visibility, baseRevision } = req.body || {};
+  if (baseRevision !== undefined && !Number.isInteger(baseRevision)) {
+    return res.status(400).json({ error: 'baseRevision must be an integer' });
+  }
   const newName = (name && name.trim()) ? name.trim() : existing.name;
   const newData = data
     ? (typeof data === 'string' ? data : JSON.stringify(data))
     : existing.data;
 
-  stmts.updateProject.run(newName, newData, id);
+  // A visibility-only change is not a save and leaves the history alone.
+  // Clients that send no baseRevision (older clients) overwrite unconditionally.
+  if (data || newName !== existing.name) {
+    const conflict = saveProjectIfCurrent(id, req.user.id, newName, newData, baseRevision);
+    if (conflict) {
+      return res.status(409).json({
+        error: `"${existing.name}" was changed by ${conflict.author_name} since you opened it`,
+        revision: conflict.revision,
+        updated_at: conflict.created_at,
+        updated_by: conflict.author_name,
+      });
+    }
+  }
 
   if (visibility && ['public', 'restricted'].includes(visibility)) {
     stmts.updateProjectVisibility.run(visibility, id);
@@ -197,4 +253,110 @@ router.put('/:id/viewers', requireAuth, requireAdmin, (req, res) => {
   return res.json(viewers);
 });
 
+// ── GET /api/projects/:id/revisions ───────────────────────────────────────────
+// Newest first, without the data blobs.
+router.get('/:id/revisions', requireAuth, (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Invalid project id' });
+  }
+  const project = stmts.getProject.get(id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!canView(req.user, project)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  return res.json(stmts.listRevisions.all(id));
+});
+
+// ── GET /api/projects/:id/revisions/:rev ──────────────────────────────────────
+router.get('/:id/revisions/:rev', requireAuth, (req, res) => {
+  const id = Number(req.params.id);
+  const rev = parseRevision(req.params.rev);
+  if (!Number.isInteger(id) || id <= 0 || rev === null) {
+    return res.status(400).json({ error: 'Invalid project id or revision' });
+  }
+  const project = stmts.getProject.get(id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!canView(req.user, project)) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+  const revision = stmts.getRevision.get(id, rev);
+  if (!revision) {
+    return res.status(404).json({ error: 'Revision not found' });
+  }
+
+  return res.json({
+    ...revision,
+    data: JSON.parse(revision.data),
+  });
+});
+
+// ── POST /api/projects/:id/revisions/:rev/restore ─────────────────────────────
+// Makes an earlier revision the current project data. The restore is saved as
+// a new revision, so the revisions after it stay in the history.
+router.post('/:id/revisions/:rev/restore', requireAuth, requireEditor, (req, res) => {
+  const id = Number(req.params.id);
+  const rev = parseRevision(req.params.rev);
+  if (!Number.isInteger(id) || id <= 0 || rev === null) {
+    return res.status(400).json({ error: 'Invalid project id or revision' });
+  }
+  if (!stmts.getProject.get(id)) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  const revision = stmts.getRevision.get(id, rev);
+  if (!revision) {
+    return res.status(404).json({ error: 'Revision not found' });
+  }
+
+  updateProjectWithRevision(id, req.user.id, revision.name, revision.data, `Restored from revision ${rev}`);
+
+  const updated = stmts.getProject.get(id);
+  return res.json({
+    ...updated,
+    data: JSON.parse(updated.data),
+  });
+});
+
+// ── POST /api/projects/:id/revisions/:rev/fork ────────────────────────────────
+// Copies a revision into a new project owned by the caller.
+// Body: { name?: string, visibility?: 'public' | 'restricted' }
+// The name defaults to "<project name> (rev N)" and the visibility to the
+// source project's. Viewer grants are not copied.
+router.post('/:id/revisions/:rev/fork', requireAuth, requireEditor, (req, res) => {
+  const id = Number(req.params.id);
+  const rev = parseRevision(req.params.rev);
+  if (!Number.isInteger(id) || id <= 0 || rev === null) {
+    return res.status(400).json({ error: 'Invalid project id or revision' });
+  }
+  const source = stmts.getProject.get(id);
+  if (!source) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  const revision = stmts.getRevision.get(id, rev);
+  if (!revision) {
+    return res.status(404).json({ error: 'Revision not found' });
+  }
+
+  const { name, visibility = source.visibility } = req.body || {};
+  if (!['public', 'restricted'].includes(visibility)) {
+    return res.status(400).json({ error: 'visibility must be "public" or "restricted"' });
+  }
+  const newName = (name && name.trim()) ? name.trim() : `${revision.name} (rev ${rev})`;
+
+  const projectId = createProjectWithRevision(
+    req.user.id, newName, revision.data, visibility, `Forked from "${source.name}" revision ${rev}`,
+  );
+  const project = stmts.getProject.get(projectId);
+
+  return res.status(201).json({
+    ...project,
+    data: JSON.parse(project.data),
+  });
+});
+
 module.exports = router;
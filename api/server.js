@@ -7,6 +7,7 @@
  *   - User management (register / login / JWT auth)
  *   - Project CRUD (saved container loads)
  *   - Role-based access ('editor' can write; 'viewer' can read)
+ *   - Live collaboration sessions over WebSocket (/api/collab, see collab.js)
  *
  * Environment variables:
  *   PORT        — TCP port to listen on         (default: 3001)
@@ -17,6 +18,8 @@
 
 const express = require('express');
 
+const { attachCollab } = require('./collab');
+
 const app  = express();
 const PORT = process.env.PORT || 3001;
 
@@ -76,6 +79,9 @@ if (!process.env.ADMIN_KEY) {
 
 // Bind to 0.0.0.0 so the web container can reach this service over the
 // Docker bridge network (127.0.0.1 would be unreachable from other containers).
-app.listen(PORT, '0.0.0.0', () => {
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`A3 Cargo API listening on http://0.0.0.0:${PORT}`);
 });
+
+// Live collaboration WebSocket upgrades share the HTTP server
+attachCollab(server);
@@ -51,6 +51,20 @@ server {
     include             /etc/letsencrypt/options-ssl-nginx.conf;
     ssl_dhparam         /etc/letsencrypt/ssl-dhparams.pem;
 
+    # ── Live collaboration WebSocket ──────────────────────────────────────
+    # Long-lived upgraded connection; the API pings clients every 30 s.
+    location /api/collab {
+        proxy_pass         http://127.0.0.1:${API_PORT};
+        proxy_http_version 1.1;
+        proxy_set_header   Upgrade           \$http_upgrade;
+        proxy_set_header   Connection        'upgrade';
+        proxy_set_header   Host              \$host;
+        proxy_set_header   X-Real-IP         \$remote_addr;
+        proxy_set_header   X-Forwarded-For   \$proxy_add_x_forwarded_for;
+        proxy_set_header   X-Forwarded-Proto \$scheme;
+        proxy_read_timeout 120s;
+    }
+
     # ── API proxy ─────────────────────────────────────────────────────────
     # Route /api/* to the local Node.js Express server.
     # NOTE: No auth_basic here — authentication is handled by JWT.
@@ -0,0 +1,124 @@
+/**
+ * Annotations
+ *
+ * Notes for the loading crew pinned to cargo items or to points in a
+ * container ("shore here", "dunnage bag between rows 3-4"). This file contains:
+ * - Creating notes
+ * - Working out which notes still belong to the load
+ * - Placing the notes of one container (marker position and number)
+ * - Describing a note for the notes panel, manifest and load plan
+ *
+ * Item notes follow their item around, including into staging and other
+ * containers. A note whose item was deleted is kept in the editor state so
+ * undo brings both back, but it is not shown, reported or saved.
+ */
+
+import { Annotation, CargoItem, ShipmentContainer } from "./definitions";
+import { formatLength } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What a new note is pinned to */
+export type AnnotationAnchor =
+  | { itemId: string }
+  | { container: number; position: { x: number; y: number; z: number } };
+
+/** A note placed in the container on screen or in a report */
+export interface PlacedAnnotation {
+  /** Number shown on the marker, in the notes panel and in reports (1-based) */
+  number: number;
+  annotation: Annotation;
+  /** The item the note is pinned to (missing for point notes) */
+  item?: CargoItem;
+  /** Where the marker goes, in inches: on top of the item or at the note's point */
+  point: { x: number; y: number; z: number };
+}
+
+// ============================================================================
+// NOTES
+// ============================================================================
+
+/**
+ * Creates a note.
+ *
+ * @example
+ * const note = createAnnotation('Shore here', { itemId: item.id }, user.username);
+ */
+export function createAnnotation(text: string, anchor: AnnotationAnchor, author?: string): Annotation {
+  return {
+    id: 'note_' + Date.now().toString(36) + '_' + Math.random().toString(36).substr(2, 5),
+    text,
+    ...('itemId' in anchor
+      ? { itemId: anchor.itemId }
+      : { container: anchor.container, position: { ...anchor.position } }),
+    ...(author ? { author } : {}),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Notes that still belong to the load: item notes whose item is loaded or
+ * staged, and point notes in a container of the shipment. Their order gives
+ * the note numbers.
+ */
+export function liveAnnotations(
+  annotations: Annotation[],
+  shipment: ShipmentContainer[],
+  stagedItems: CargoItem[]
+): Annotation[] {
+  const itemIds = new Set<string>(stagedItems.map(i => i.id));
+  for (const c of shipment) {
+    for (const item of c.items) itemIds.add(item.id);
+  }
+  return annotations.filter(a => a.itemId !== undefined
+    ? itemIds.has(a.itemId)
+    : a.position !== undefined && a.container !== undefined && a.container < shipment.length);
+}
+
+/**
+ * Places the notes that belong to one container.
+ *
+ * @param annotations - Live notes of the whole load (see liveAnnotations), numbered in this order
+ * @param containerIndex - Shipment index of the container
+ * @param items - Items loaded in that container
+ */
+export function placeAnnotations(
+  annotations: Annotation[],
+  containerIndex: number,
+  items: CargoItem[]
+): PlacedAnnotation[] {
+  const placed: PlacedAnnotation[] = [];
+  annotations.forEach((annotation, index) => {
+    if (annotation.itemId !== undefined) {
+      const item = items.find(i => i.id === annotation.itemId);
+      if (!item) return;
+      placed.push({
+        number: index + 1,
+        annotation,
+        item,
+        point: { x: item.posX + item.lengthIn / 2, y: item.posY + item.heightIn, z: item.posZ + item.widthIn / 2 },
+      });
+    } else if (annotation.container === containerIndex && annotation.position) {
+      placed.push({ number: index + 1, annotation, point: { ...annotation.position } });
+    }
+  });
+  return placed;
+}
+
+/** Where a point note is, e.g. 'X 120", Y 0", Z 46"' */
+export function describeAnnotationPoint(position: { x: number; y: number; z: number }): string {
+  return `X ${formatLength(position.x)}, Y ${formatLength(position.y)}, Z ${formatLength(position.z)}`;
+}
+
+/**
+ * One line describing a placed note, for reports.
+ *
+ * @example
+ * formatAnnotation(note) // 'Note 2 (at X 120", Y 0", Z 46"): Dunnage bag between rows 3-4'
+ */
+export function formatAnnotation(placed: PlacedAnnotation): string {
+  const where = placed.item ? `on "${placed.item.label}"` : `at ${describeAnnotationPoint(placed.point)}`;
+  return `Note ${placed.number} (${where}): ${placed.annotation.text}`;
+}
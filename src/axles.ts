@@ -0,0 +1,120 @@
+/**
+ * Axle Load Calculation
+ *
+ * Works out how a loaded container's weight is shared between the kingpin
+ * and the rear axle group of the chassis it sits on. This file contains:
+ * - Per-support weights from item positions and weights (static moments)
+ * - Legal limit checks for each support
+ * - Formatting helpers for stats, manifests and reports
+ *
+ * The container is treated as a rigid beam resting on two supports. Cargo and
+ * container tare act at their own centers; chassis tare is split evenly.
+ */
+
+import { CargoItem, ContainerSpec, ChassisConfig } from "./definitions";
+import { formatMass, toDisplayWeight, weightUnit } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Weight on one support point of the chassis */
+export interface AxleLoad {
+  label: string;
+  weightLbs: number;
+  limitLbs: number;
+
+  /** weightLbs as a percentage of limitLbs */
+  pctOfLimit: number;
+}
+
+/**
+ * Result of an axle-load calculation.
+ */
+export interface AxleLoads {
+  kingpin: AxleLoad;
+  axleGroup: AxleLoad;
+
+  /** Cargo + container tare + chassis tare */
+  grossLbs: number;
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Computes kingpin and rear axle group weights for a load.
+ *
+ * @param items - Items in the container
+ * @param container - Container specifications
+ * @param chassis - Chassis geometry and legal limits
+ * @returns Weight on each support, or null when the geometry is invalid
+ *          (axle group at or ahead of the kingpin)
+ *
+ * @example
+ * const loads = calculateAxleLoads(items, CONTAINER_SPECS['40ft'], DEFAULT_CHASSIS_CONFIG);
+ * console.log(loads?.axleGroup.weightLbs);
+ */
+export function calculateAxleLoads(
+  items: CargoItem[],
+  container: ContainerSpec,
+  chassis: ChassisConfig
+): AxleLoads | null {
+  const kingpinX = chassis.kingpinFromFrontIn;
+  const axleX = container.lengthIn - chassis.axleFromRearIn;
+  const span = axleX - kingpinX;
+  if (span <= 0) return null;
+
+  // Total weight and moment about the kingpin, container tare at its center
+  let weight = container.tareWeightLbs;
+  let moment = container.tareWeightLbs * (container.lengthIn / 2 - kingpinX);
+  for (const item of items) {
+    weight += item.weightLbs;
+    moment += item.weightLbs * (item.posX + item.lengthIn / 2 - kingpinX);
+  }
+
+  const axleWeight = moment / span + chassis.chassisTareLbs / 2;
+  const kingpinWeight = weight - moment / span + chassis.chassisTareLbs / 2;
+
+  return {
+    kingpin: makeLoad('Kingpin', kingpinWeight, chassis.kingpinLimitLbs),
+    axleGroup: makeLoad('Rear axle group', axleWeight, chassis.axleLimitLbs),
+    grossLbs: weight + chassis.chassisTareLbs,
+  };
+}
+
+function makeLoad(label: string, weightLbs: number, limitLbs: number): AxleLoad {
+  return {
+    label,
+    weightLbs,
+    limitLbs,
+    pctOfLimit: limitLbs > 0 ? (weightLbs / limitLbs) * 100 : 0,
+  };
+}
+
+/**
+ * Checks each support against its legal limit.
+ *
+ * @returns Warning messages; empty when every support is within its limit
+ */
+export function checkAxleLimits(loads: AxleLoads): string[] {
+  const warnings: string[] = [];
+  for (const load of [loads.kingpin, loads.axleGroup]) {
+    if (load.weightLbs < 0) {
+      warnings.push(`${load.label} is unloaded: the load tips off this support`);
+    } else if (load.weightLbs > load.limitLbs) {
+      warnings.push(`${load.label} is ${formatMass(Math.round(load.weightLbs - load.limitLbs))} over its ${formatMass(load.limitLbs)} limit`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Formats one support load, e.g. 'Kingpin: 18,250 / 34,000 lbs (54%)'.
+ */
+export function formatAxleLoad(load: AxleLoad): string {
+  const weight = Math.round(toDisplayWeight(load.weightLbs)).toLocaleString();
+  const limit = Math.round(toDisplayWeight(load.limitLbs)).toLocaleString();
+  return `${load.label}: ${weight} / ${limit} ${weightUnit()} (${load.pctOfLimit.toFixed(0)}%)`;
+}
@@ -0,0 +1,274 @@
+/**
+ * Live Collaboration
+ *
+ * Client side of a live editing session on a cloud project. This file contains:
+ * - CollabSession, the WebSocket connection to a project's session on the API server
+ * - Per-item versions used by the server to reject edits based on stale state
+ *
+ * Only loaded items are shared. Staging stays local, so moving an item to
+ * staging deletes it for everyone and placing it again adds it back.
+ */
+
+import { CargoItem, ShipmentContainer } from "./definitions";
+import { collabSocketUrl, getToken } from "./libs/api";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A change to one loaded item */
+export type ItemOp =
+  | { kind: 'put'; item: CargoItem; container: number }
+  | { kind: 'delete'; id: string };
+
+/** Another user's 3D cursor, in inches within one of the shipment's containers */
+export interface PeerCursor {
+  container: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Another member of the session */
+export interface Peer {
+  clientId: number;
+  username: string;
+  role: string;
+  /** Color of the user's cursor and selection outlines */
+  color: string;
+  cursor: PeerCursor | null;
+  /** Selected item IDs */
+  selection: string[];
+}
+
+export interface CollabCallbacks {
+  /**
+   * Joined the session. The shipment is the session's load: the one sent on
+   * connect when this client opened the session, otherwise the other members'.
+   */
+  onWelcome: (shipment: ShipmentContainer[], peers: Peer[]) => void;
+  /** Item changes made by another member */
+  onRemoteOps: (ops: ItemOp[], username: string | null) => void;
+  /** A local change was refused because the item changed first; op restores the session's version */
+  onReject: (op: ItemOp, by: string | null) => void;
+  onPeerJoin: (peer: Peer) => void;
+  onPeerLeave: (peer: Peer) => void;
+  /** A member joined or left, or moved their cursor or selection */
+  onPeersChange: (peers: Peer[]) => void;
+  /** The connection ended; reason is null when closed with close() */
+  onClose: (reason: string | null) => void;
+}
+
+/** Wire format of item operations, see api/collab.js */
+type RemoteOp =
+  | { kind: 'put'; item: CargoItem; container: number; version: string }
+  | { kind: 'delete'; id: string; version: string };
+
+type ServerMessage =
+  | { type: 'welcome'; clientId: number; color: string; containers: string[]; items: { id: string; item: CargoItem | null; container: number; version: string }[]; peers: Peer[] }
+  | { type: 'join'; peer: Peer }
+  | { type: 'leave'; clientId: number }
+  | { type: 'ops'; from: number; ops: RemoteOp[] }
+  | { type: 'reject'; id: string; item: CargoItem | null; container: number; version: string | null; by: string | null }
+  | { type: 'presence'; clientId: number; cursor: PeerCursor | null; selection: string[] };
+
+/** Minimum time between presence updates (ms) */
+const PRESENCE_INTERVAL_MS = 100;
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * Connection to a project's live session.
+ *
+ * Every item the session knows has a version. Local changes are sent with
+ * the version they were based on and take a new version straight away, so
+ * the user can keep editing without waiting for the server.
+ *
+ * @example
+ * const session = new CollabSession(projectId, shipment, callbacks);
+ * session.sendChanges([{ kind: 'delete', id: item.id }]);
+ * session.close();
+ */
+export class CollabSession {
+  private ws: WebSocket;
+
+  /** Our ID in the session, assigned on welcome (0 until then) */
+  private clientId = 0;
+
+  /** Counter for the versions of our own changes */
+  private seq = 0;
+
+  /** Latest known version of every item in the session, including deleted ones */
+  private versions = new Map<string, string>();
+
+  private peers = new Map<number, Peer>();
+
+  /** Item messages received while held, applied on release */
+  private heldMessages: ServerMessage[] | null = null;
+
+  private pendingPresence: { cursor: PeerCursor | null; selection: string[] } | null = null;
+  private presenceTimer: number | null = null;
+
+  private closedByUser = false;
+
+  /**
+   * Connects to a project's session.
+   * @param projectId - Cloud project being edited
+   * @param shipment - The local load, which becomes the session's load if nobody else is connected
+   * @param callbacks - Session events
+   */
+  constructor(projectId: number, shipment: ShipmentContainer[], private callbacks: CollabCallbacks) {
+    const hello = {
+      type: 'hello',
+      token: getToken(),
+      containers: shipment.map(c => ({ containerType: c.containerType, items: c.items.map(i => ({ ...i })) })),
+    };
+
+    this.ws = new WebSocket(collabSocketUrl(projectId));
+    this.ws.addEventListener('open', () => this.send(hello));
+    this.ws.addEventListener('message', (e) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(e.data as string);
+      } catch {
+        return;
+      }
+      this.receive(message);
+    });
+    this.ws.addEventListener('close', (e) => {
+      if (this.presenceTimer !== null) window.clearTimeout(this.presenceTimer);
+      this.callbacks.onClose(
+        this.closedByUser ? null : this.clientId ? 'Connection to the live session was lost' : e.reason || 'Could not join the live session'
+      );
+    });
+  }
+
+  /** Whether the session has been joined */
+  get joined(): boolean {
+    return this.clientId !== 0;
+  }
+
+  /** Other members of the session */
+  get peerList(): Peer[] {
+    return Array.from(this.peers.values());
+  }
+
+  /** Sends local item changes to the other members */
+  sendChanges(ops: ItemOp[]): void {
+    if (!this.joined || ops.length === 0) return;
+    this.send({
+      type: 'ops',
+      ops: ops.map(op => {
+        const id = op.kind === 'put' ? op.item.id : op.id;
+        const version = `${this.clientId}.${++this.seq}`;
+        const baseVersion = this.versions.get(id) ?? null;
+        this.versions.set(id, version);
+        return { ...op, baseVersion, version };
+      }),
+    });
+  }
+
+  /**
+   * Shares this user's 3D cursor and selection. Updates are sent at most
+   * every PRESENCE_INTERVAL_MS; the latest one always goes out.
+   */
+  sendPresence(cursor: PeerCursor | null, selection: string[]): void {
+    this.pendingPresence = { cursor, selection };
+    if (this.presenceTimer !== null || !this.joined) return;
+
+    this.send({ type: 'presence', ...this.pendingPresence });
+    this.pendingPresence = null;
+    this.presenceTimer = window.setTimeout(() => {
+      this.presenceTimer = null;
+      if (this.pendingPresence) this.sendPresence(this.pendingPresence.cursor, this.pendingPresence.selection);
+    }, PRESENCE_INTERVAL_MS);
+  }
+
+  /**
+   * Holds back other members' item changes (e.g. while the user drags an
+   * item) so the scene does not change under the mouse. Changes sent while
+   * held are still checked against the latest version on the server.
+   */
+  hold(): void {
+    if (!this.heldMessages) this.heldMessages = [];
+  }
+
+  /** Applies the item changes received since hold() */
+  release(): void {
+    const messages = this.heldMessages;
+    this.heldMessages = null;
+    for (const message of messages ?? []) this.receive(message);
+  }
+
+  close(): void {
+    this.closedByUser = true;
+    this.ws.close();
+  }
+
+  private send(message: object): void {
+    if (this.ws.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(message));
+  }
+
+  private receive(message: ServerMessage): void {
+    if (this.heldMessages && (message.type === 'ops' || message.type === 'reject')) {
+      this.heldMessages.push(message);
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome': {
+        this.clientId = message.clientId;
+        const shipment: ShipmentContainer[] = message.containers.map(containerType => ({ containerType, items: [] }));
+        for (const entry of message.items) {
+          this.versions.set(entry.id, entry.version);
+          if (entry.item && shipment[entry.container]) shipment[entry.container].items.push(entry.item);
+        }
+        for (const peer of message.peers) this.peers.set(peer.clientId, peer);
+        this.callbacks.onWelcome(shipment, this.peerList);
+        break;
+      }
+      case 'join':
+        this.peers.set(message.peer.clientId, message.peer);
+        this.callbacks.onPeerJoin(message.peer);
+        this.callbacks.onPeersChange(this.peerList);
+        break;
+      case 'leave': {
+        const peer = this.peers.get(message.clientId);
+        if (!peer) return;
+        this.peers.delete(message.clientId);
+        this.callbacks.onPeerLeave(peer);
+        this.callbacks.onPeersChange(this.peerList);
+        break;
+      }
+      case 'presence': {
+        const peer = this.peers.get(message.clientId);
+        if (!peer) return;
+        peer.cursor = message.cursor;
+        peer.selection = message.selection;
+        this.callbacks.onPeersChange(this.peerList);
+        break;
+      }
+      case 'ops':
+        for (const op of message.ops) {
+          this.versions.set(op.kind === 'put' ? op.item.id : op.id, op.version);
+        }
+        this.callbacks.onRemoteOps(
+          message.ops.map(op => op.kind === 'put'
+            ? { kind: 'put', item: op.item, container: op.container }
+            : { kind: 'delete', id: op.id }),
+          this.peers.get(message.from)?.username ?? null
+        );
+        break;
+      case 'reject':
+        if (message.version === null) this.versions.delete(message.id);
+        else this.versions.set(message.id, message.version);
+        this.callbacks.onReject(
+          message.item ? { kind: 'put', item: message.item, container: message.container } : { kind: 'delete', id: message.id },
+          message.by
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Load Comparison
+ *
+ * Works out what changed between two versions of a load plan. This file contains:
+ * - Matching items across two SavedLoads by item ID
+ * - Classifying each item as added, removed, moved and/or rotated
+ * - Item count, weight and utilization totals for both versions and their deltas
+ *
+ * Only loaded items are compared; staging is not part of the plan. An item
+ * that went from a container to staging therefore counts as removed.
+ */
+
+import { CargoItem, ContainerSpec, SavedLoad, CONTAINER_SPECS } from "./definitions";
+import { calculateTotalWeight, containerSpecFromData } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Kinds of change, in the order they win when an item has more than one */
+export type ItemChangeKind = 'added' | 'removed' | 'moved' | 'rotated';
+
+/** Scene colors for each kind of change, plus unchanged items */
+export const CHANGE_COLORS: Record<ItemChangeKind | 'unchanged', string> = {
+  added: '#34d399',
+  removed: '#f87171',
+  moved: '#5b8af5',
+  rotated: '#a78bfa',
+  unchanged: '#6b7280',
+};
+
+export const CHANGE_LABELS: Record<ItemChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  rotated: 'Rotated',
+};
+
+/** One side of a comparison */
+export interface ComparisonSide {
+  /** Shown in the compare panel, e.g. 'Revision 3' or 'Current scene' */
+  label: string;
+  load: SavedLoad;
+}
+
+/** A loaded item that differs between the two versions */
+export interface ItemChange {
+  id: string;
+  /** Every change that applies; added and removed never combine with others */
+  kinds: ItemChangeKind[];
+  /** The item in the earlier version (missing when added) */
+  before?: CargoItem;
+  /** The item in the later version (missing when removed) */
+  after?: CargoItem;
+  /** Container index in each version (missing on the side without the item) */
+  containerBefore?: number;
+  containerAfter?: number;
+  /** Straight-line distance between the two positions, in inches (moves within one container only) */
+  distanceIn?: number;
+}
+
+/** Totals for one version of the load */
+export interface LoadTotals {
+  itemCount: number;
+  weightLbs: number;
+  /** Loaded item volume over the capacity of every container, 0-100+ */
+  utilizationPct: number;
+}
+
+/** Result of comparing two loads */
+export interface LoadComparison {
+  /** Changed items: removed, added, then moved/rotated, each in load order */
+  changes: ItemChange[];
+  /** Number of items present in both versions with no change */
+  unchangedCount: number;
+  before: LoadTotals;
+  after: LoadTotals;
+}
+
+/** Position tolerance below which an item is not considered moved (inches) */
+const MOVE_TOLERANCE_IN = 0.01;
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/** Every container of a load (v1.0 loads hold a single container in containerType/items) */
+function loadContainers(load: SavedLoad): { containerType: string; items: CargoItem[] }[] {
+  return load.containers && load.containers.length > 0
+    ? load.containers
+    : [{ containerType: load.containerType, items: load.items }];
+}
+
+/** Container spec for a saved container type, including equipment saved with the load */
+function findSpec(load: SavedLoad, name: string): ContainerSpec | undefined {
+  if (Object.prototype.hasOwnProperty.call(CONTAINER_SPECS, name)) return CONTAINER_SPECS[name];
+  const data = load.customContainers?.find(spec => spec.name === name);
+  return data ? containerSpecFromData(data) ?? undefined : undefined;
+}
+
+/**
+ * Item count, weight and volume utilization of a whole load.
+ */
+export function calculateLoadTotals(load: SavedLoad): LoadTotals {
+  const containers = loadContainers(load);
+  const items = containers.flatMap(c => c.items);
+  const capacity = containers.reduce((sum, c) => {
+    const spec = findSpec(load, c.containerType);
+    return sum + (spec ? spec.lengthIn * spec.widthIn * spec.heightIn : 0);
+  }, 0);
+  const volume = items.reduce((sum, item) => sum + item.lengthIn * item.widthIn * item.heightIn, 0);
+
+  return {
+    itemCount: items.length,
+    weightLbs: calculateTotalWeight(items),
+    utilizationPct: capacity > 0 ? (volume / capacity) * 100 : 0,
+  };
+}
+
+/**
+ * Whether an item was turned: its quarter turns differ, or it has the same
+ * dimensions in a different order (tipped). Resizing alone is not a rotation.
+ */
+function isRotated(before: CargoItem, after: CargoItem): boolean {
+  if ((before.rotationY ?? 0) % 4 !== (after.rotationY ?? 0) % 4) return true;
+  const dims = (i: CargoItem) => [i.lengthIn, i.widthIn, i.heightIn];
+  const sorted = (i: CargoItem) => dims(i).slice().sort((a, b) => a - b).join('x');
+  return sorted(before) === sorted(after) && dims(before).join('x') !== dims(after).join('x');
+}
+
+/**
+ * Compares two versions of a load, matching items by ID across all
+ * containers.
+ *
+ * @param before - The earlier version
+ * @param after - The later version
+ * @returns Changed items and the totals of both versions
+ *
+ * @example
+ * const diff = compareLoads(revision3, revision5);
+ * console.log(`${diff.changes.length} changes, ${diff.after.weightLbs - diff.before.weightLbs} lbs`);
+ */
+export function compareLoads(before: SavedLoad, after: SavedLoad): LoadComparison {
+  const index = (load: SavedLoad) => {
+    const map = new Map<string, { item: CargoItem; container: number }>();
+    loadContainers(load).forEach((c, container) => {
+      for (const item of c.items) map.set(item.id, { item, container });
+    });
+    return map;
+  };
+  const beforeItems = index(before);
+  const afterItems = index(after);
+
+  const removed: ItemChange[] = [];
+  const added: ItemChange[] = [];
+  const changed: ItemChange[] = [];
+  let unchangedCount = 0;
+
+  for (const [id, old] of beforeItems) {
+    if (!afterItems.has(id)) {
+      removed.push({ id, kinds: ['removed'], before: old.item, containerBefore: old.container });
+    }
+  }
+
+  for (const [id, now] of afterItems) {
+    const old = beforeItems.get(id);
+    if (!old) {
+      added.push({ id, kinds: ['added'], after: now.item, containerAfter: now.container });
+      continue;
+    }
+
+    const kinds: ItemChangeKind[] = [];
+    const distanceIn = Math.hypot(
+      now.item.posX - old.item.posX,
+      now.item.posY - old.item.posY,
+      now.item.posZ - old.item.posZ,
+    );
+    const sameContainer = now.container === old.container;
+    if (!sameContainer || distanceIn > MOVE_TOLERANCE_IN) kinds.push('moved');
+    if (isRotated(old.item, now.item)) kinds.push('rotated');
+
+    if (kinds.length === 0) {
+      unchangedCount++;
+    } else {
+      changed.push({
+        id,
+        kinds,
+        before: old.item,
+        after: now.item,
+        containerBefore: old.container,
+        containerAfter: now.container,
+        distanceIn: sameContainer && kinds.includes('moved') ? distanceIn : undefined,
+      });
+    }
+  }
+
+  return {
+    changes: [...removed, ...added, ...changed],
+    unchangedCount,
+    before: calculateLoadTotals(before),
+    after: calculateLoadTotals(after),
+  };
+}
+
+/** Scene color for an item in the later version: its first change, or the unchanged gray */
+export function changeColor(change: ItemChange | undefined): string {
+  return CHANGE_COLORS[change ? change.kinds[0] : 'unchanged'];
+}
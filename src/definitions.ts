@@ -43,11 +43,40 @@ export interface ContainerSpec {
   
   /** Internal height in inches (for precise calculations) */
   heightIn: number;
+
+  /** Clear width of the door opening in inches (omit when the door is the full interior width) */
+  doorWidthIn?: number;
+
+  /** Clear height of the door opening in inches (omit when the door is the full interior height) */
+  doorHeightIn?: number;
+
+  /** Kind of equipment (defaults to 'container' for the built-in ISO boxes) */
+  equipment?: EquipmentType;
+
+  /** True for user-defined equipment created in the container editor */
+  custom?: boolean;
 }
 
+/**
+ * Kinds of equipment a load can be planned for.
+ * Flatbeds have no walls or roof; heightIn is the maximum legal load height.
+ */
+export type EquipmentType = 'container' | 'reefer' | 'dry-van' | 'flatbed' | 'box-truck';
+
+/** Display names for each equipment type */
+export const EQUIPMENT_TYPES: Record<EquipmentType, string> = {
+  'container': 'Container',
+  'reefer': 'Reefer',
+  'dry-van': 'Dry Van Trailer',
+  'flatbed': 'Flatbed Trailer',
+  'box-truck': 'Box Truck',
+};
+
 /**
  * Standard shipping container specifications.
  * Based on ISO standard container dimensions with actual internal measurements.
+ * User-defined equipment is registered into this record at runtime, so any
+ * lookup by containerType also finds custom types.
  */
 export const CONTAINER_SPECS: Record<string, ContainerSpec> = {
   '20ft': {
@@ -61,6 +90,8 @@ export const CONTAINER_SPECS: Record<string, ContainerSpec> = {
     lengthIn: 232,
     widthIn: 92.5,
     heightIn: 94.5,
+    doorWidthIn: 92,
+    doorHeightIn: 89.5,
   },
   '40ft': {
     name: '40ft',
@@ -73,6 +104,8 @@ export const CONTAINER_SPECS: Record<string, ContainerSpec> = {
     lengthIn: 473.5,
     widthIn: 92.5,
     heightIn: 94.5,
+    doorWidthIn: 92,
+    doorHeightIn: 89.5,
   },
   '40hc': {
     name: '40hc',
@@ -85,9 +118,26 @@ export const CONTAINER_SPECS: Record<string, ContainerSpec> = {
     lengthIn: 473.5,
     widthIn: 92.5,
     heightIn: 106.3,
+    doorWidthIn: 92,
+    doorHeightIn: 101.5,
   },
 };
 
+/** Names of the built-in container types (custom equipment may not reuse them) */
+export const BUILT_IN_CONTAINER_TYPES: string[] = Object.keys(CONTAINER_SPECS);
+
+/**
+ * Starting points offered by the container editor for common equipment.
+ * Dimensions are typical interior (or deck) measurements and can be adjusted.
+ */
+export const EQUIPMENT_PRESETS: Omit<ContainerSpec, 'name' | 'lengthFt' | 'widthFt' | 'heightFt' | 'custom'>[] = [
+  { label: "45' High Cube",     equipment: 'container', lengthIn: 535.4, widthIn: 92.5,  heightIn: 106.3, doorWidthIn: 92, doorHeightIn: 101.5, tareWeightLbs: 10580, maxWeightLbs: 60000 },
+  { label: "40' Reefer HC",     equipment: 'reefer',    lengthIn: 455,   widthIn: 90,    heightIn: 100,   doorWidthIn: 90, doorHeightIn: 98.5,  tareWeightLbs: 10500, maxWeightLbs: 57000 },
+  { label: "53' Dry Van",       equipment: 'dry-van',   lengthIn: 630,   widthIn: 100,   heightIn: 108,   doorWidthIn: 98, doorHeightIn: 106,   tareWeightLbs: 14500, maxWeightLbs: 45000 },
+  { label: "48' Flatbed",       equipment: 'flatbed',   lengthIn: 576,   widthIn: 102,   heightIn: 102,   tareWeightLbs: 10000, maxWeightLbs: 48000 },
+  { label: "26' Box Truck",     equipment: 'box-truck', lengthIn: 312,   widthIn: 94,    heightIn: 96,    doorWidthIn: 90, doorHeightIn: 86,    tareWeightLbs: 16000, maxWeightLbs: 10000 },
+];
+
 // ============================================================================
 // CARGO ITEM DEFINITIONS
 // ============================================================================
@@ -146,11 +196,81 @@ export const HAZMAT_CLASSES: Record<HazmatLevel, HazmatClassInfo> = {
   '9-miscellaneous':    { label: 'Class 9 – Miscellaneous', shortLabel: 'Cl.9', color: '#888888', textColor: '#ffffff', classNum: 9 },
 };
 
+/**
+ * UN packing group, by degree of danger: I = great, II = medium, III = minor.
+ */
+export type PackingGroup = 'I' | 'II' | 'III';
+
+/**
+ * IMDG segregation requirement between two hazmat classes.
+ * - 'none'        → no general requirement
+ * - 'away'        → "away from": at least 3 m apart
+ * - 'separated'   → "separated from": at least 6 m apart
+ * - 'compartment' → "separated by a complete compartment": may not share a container
+ */
+export type SegregationLevel = 'none' | 'away' | 'separated' | 'compartment';
+
+/**
+ * Display label and minimum horizontal distance (inches) for each segregation level.
+ * Infinity means the two items may not be loaded in the same container at all.
+ */
+export const SEGREGATION_LEVELS: Record<SegregationLevel, { label: string; minDistanceIn: number }> = {
+  'none':        { label: 'No requirement',                     minDistanceIn: 0 },
+  'away':        { label: 'Away from',                          minDistanceIn: 118.1 },   // 3 m
+  'separated':   { label: 'Separated from',                     minDistanceIn: 236.2 },   // 6 m
+  'compartment': { label: 'Separated by a complete compartment', minDistanceIn: Infinity },
+};
+
+/**
+ * IMDG Code segregation table (7.2.4), reduced to the nine classes in
+ * HAZMAT_CLASSES using the main division of each (1.1, 2.1, 4.1, 5.1, 6.1).
+ * Indexed by classNum - 1. "Separated longitudinally by an intervening
+ * compartment" is folded into 'compartment', since neither may share a container.
+ */
+export const IMDG_SEGREGATION_TABLE: SegregationLevel[][] = (() => {
+  const codes = [
+    // 1  2  3  4  5  6  7  8  9
+    [0, 4, 4, 4, 4, 2, 2, 4, 0], // 1 Explosives
+    [4, 0, 2, 1, 2, 0, 2, 1, 0], // 2 Gas
+    [4, 2, 0, 0, 2, 0, 2, 0, 0], // 3 Flammable liquid
+    [4, 1, 0, 0, 1, 0, 2, 1, 0], // 4 Flammable solid
+    [4, 2, 2, 1, 0, 1, 1, 2, 0], // 5 Oxidizer
+    [2, 0, 0, 0, 1, 0, 0, 0, 0], // 6 Toxic
+    [2, 2, 2, 2, 1, 0, 0, 2, 0], // 7 Radioactive
+    [4, 1, 0, 1, 2, 0, 2, 0, 0], // 8 Corrosive
+    [0, 0, 0, 0, 0, 0, 0, 0, 0], // 9 Miscellaneous
+  ];
+  const levels: SegregationLevel[] = ['none', 'away', 'separated', 'compartment', 'compartment'];
+  return codes.map(row => row.map(code => levels[code]));
+})();
+
 /**
  * Stacking rule — either allow all categories, allow none, or allow a specific subset.
  */
 export type StackingRule = 'all' | 'none' | ItemCategory[];
 
+/**
+ * Unit of an item's maximum top load.
+ * - 'lbs'      → total weight the item can carry on top
+ * - 'lbs/sqft' → weight per square foot of the item's top face
+ */
+export type TopLoadUnit = 'lbs' | 'lbs/sqft';
+
+/**
+ * Which ways an item may be turned, relative to its original dimensions.
+ * - 'any'            → any orientation (default)
+ * - 'upright'        → this side up: may only be turned on the floor, never tipped
+ * - 'long-side-down' → never stood on end; the longest side stays horizontal
+ */
+export type OrientationRule = 'any' | 'upright' | 'long-side-down';
+
+/** Display labels for each orientation rule */
+export const ORIENTATION_RULES: Record<OrientationRule, string> = {
+  'any': 'Any orientation',
+  'upright': 'This side up',
+  'long-side-down': 'Long side down',
+};
+
 /**
  * Represents a single cargo item in the container.
  * Tracks both current and original dimensions to support rotation operations.
@@ -220,8 +340,240 @@ export interface CargoItem {
    */
   canStackOn: StackingRule;
 
+  /** Which orientations the item may be loaded in. Defaults to 'any'. */
+  allowedOrientations?: OrientationRule;
+
+  /** Maximum weight this item can carry on top (crush strength); unlimited when unset */
+  maxTopLoad?: number;
+
+  /** Unit of maxTopLoad. Defaults to 'lbs'. */
+  maxTopLoadUnit?: TopLoadUnit;
+
   /** UN/DOT hazmat classification level. Defaults to 'none'. */
   hazmatLevel?: HazmatLevel;
+
+  /** Dangerous goods: four-digit UN number without the "UN" prefix, e.g. "1263" */
+  unNumber?: string;
+
+  /** Dangerous goods: proper shipping name, e.g. "PAINT" */
+  properShippingName?: string;
+
+  /** Dangerous goods: packing group */
+  packingGroup?: PackingGroup;
+
+  /** Dangerous goods: subsidiary risk class(es), e.g. "6.1" or "6.1, 8" */
+  subsidiaryRisk?: string;
+
+  /** Dangerous goods: flash point in °C (closed cup) */
+  flashPointC?: number;
+
+  /** Dangerous goods: marine pollutant */
+  marinePollutant?: boolean;
+
+  /** Why the packer left this item in staging (cleared when it is loaded) */
+  stagingReason?: string;
+
+  /** SKU / part number from the packing list */
+  sku?: string;
+
+  /** Packing-list line this item belongs to; items entered together with a quantity share it */
+  lineId?: string;
+
+  /** Set on a built pallet: the base and the cartons stacked on it */
+  palletContents?: PalletContents;
+}
+
+/** The dangerous goods declaration fields of a CargoItem */
+export type DangerousGoodsField = 'unNumber' | 'properShippingName' | 'packingGroup' | 'subsidiaryRisk' | 'flashPointC' | 'marinePollutant';
+
+export const DANGEROUS_GOODS_FIELDS: DangerousGoodsField[] = [
+  'unNumber', 'properShippingName', 'packingGroup', 'subsidiaryRisk', 'flashPointC', 'marinePollutant',
+];
+
+// ============================================================================
+// SHIPMENTS
+// ============================================================================
+
+/**
+ * One container within a shipment.
+ * A shipment is an ordered list of these; the 3D view shows one at a time.
+ */
+export interface ShipmentContainer {
+  /** Container type identifier (key into CONTAINER_SPECS) */
+  containerType: string;
+
+  /** Cargo items loaded into this container */
+  items: CargoItem[];
+}
+
+// ============================================================================
+// ANNOTATIONS
+// ============================================================================
+
+/**
+ * A note for the loading crew, pinned either to a cargo item (it follows the
+ * item when it moves) or to a fixed point in one of the shipment's containers.
+ */
+export interface Annotation {
+  /** Unique identifier */
+  id: string;
+
+  /** Note text, e.g. "Shore here" or "Dunnage bag between rows 3-4" */
+  text: string;
+
+  /** Item the note is pinned to */
+  itemId?: string;
+
+  /** Shipment container index of a point note */
+  container?: number;
+
+  /** Position of a point note in inches (x = length, y = height, z = width) */
+  position?: { x: number; y: number; z: number };
+
+  /** Username of the person who wrote the note */
+  author?: string;
+
+  /** ISO timestamp of when the note was written */
+  createdAt: string;
+}
+
+// ============================================================================
+// LOAD BALANCE
+// ============================================================================
+
+/**
+ * Envelope the cargo's center of gravity must stay within.
+ * Offsets are measured from the container's geometric center and expressed
+ * as a percentage of the matching interior dimension.
+ */
+export interface CogTolerance {
+  /** Maximum CoG height above the floor (% of interior height) */
+  maxHeightPct: number;
+
+  /** Maximum fore/aft offset from the center (% of interior length) */
+  maxLongitudinalOffsetPct: number;
+
+  /** Maximum side-to-side offset from the center (% of interior width) */
+  maxLateralOffsetPct: number;
+}
+
+/** Default CoG envelope: below mid-height, within 10% fore/aft and 5% sideways */
+export const DEFAULT_COG_TOLERANCE: CogTolerance = {
+  maxHeightPct: 50,
+  maxLongitudinalOffsetPct: 10,
+  maxLateralOffsetPct: 5,
+};
+
+/**
+ * Geometry and legal limits of the chassis (or trailer) the load rides on.
+ * The kingpin is measured from the front wall, the axle group center from
+ * the door end, so the same setup works for any container length.
+ */
+export interface ChassisConfig {
+  /** Kingpin distance behind the container's front wall (inches) */
+  kingpinFromFrontIn: number;
+
+  /** Rear axle group center distance ahead of the door end (inches) */
+  axleFromRearIn: number;
+
+  /** Chassis tare weight, shared evenly by kingpin and axle group (lbs) */
+  chassisTareLbs: number;
+
+  /** Legal limit on the kingpin / tractor drive axles (lbs) */
+  kingpinLimitLbs: number;
+
+  /** Legal limit on the rear axle group (lbs) */
+  axleLimitLbs: number;
+}
+
+/** Default chassis: typical tandem container chassis with US 34,000 lbs tandem limits */
+export const DEFAULT_CHASSIS_CONFIG: ChassisConfig = {
+  kingpinFromFrontIn: 36,
+  axleFromRearIn: 48,
+  chassisTareLbs: 6500,
+  kingpinLimitLbs: 34000,
+  axleLimitLbs: 34000,
+};
+
+// ============================================================================
+// PALLETS
+// ============================================================================
+
+/**
+ * How carton layers are arranged on a pallet.
+ * - 'column'    → every layer uses the same layout, cartons sit directly on each other
+ * - 'interlock' → alternate layers are mirrored or turned so seams overlap
+ */
+export type PalletPattern = 'column' | 'interlock';
+
+/** Display labels for each stacking pattern */
+export const PALLET_PATTERNS: Record<PalletPattern, string> = {
+  'column': 'Column stack',
+  'interlock': 'Interlocked',
+};
+
+/** An empty pallet cartons are stacked on */
+export interface PalletBase {
+  /** Unique identifier (key into PALLET_BASES) */
+  name: string;
+
+  /** Display name */
+  label: string;
+
+  lengthIn: number;
+  widthIn: number;
+
+  /** Deck height: cartons start at this height */
+  heightIn: number;
+
+  /** Tare weight of the empty pallet */
+  weightLbs: number;
+}
+
+/** Common pallet bases */
+export const PALLET_BASES: Record<string, PalletBase> = {
+  'gma-48x40': { name: 'gma-48x40', label: '48" × 40" GMA', lengthIn: 48, widthIn: 40, heightIn: 6, weightLbs: 40 },
+  'sq-42x42': { name: 'sq-42x42', label: '42" × 42" Square', lengthIn: 42, widthIn: 42, heightIn: 6, weightLbs: 40 },
+  'sq-48x48': { name: 'sq-48x48', label: '48" × 48" Drum', lengthIn: 48, widthIn: 48, heightIn: 6, weightLbs: 50 },
+  'eur-1200x800': { name: 'eur-1200x800', label: 'EUR 1200 × 800 mm', lengthIn: 47.2, widthIn: 31.5, heightIn: 5.7, weightLbs: 55 },
+  'iso-1200x1000': { name: 'iso-1200x1000', label: 'ISO 1200 × 1000 mm', lengthIn: 47.2, widthIn: 39.4, heightIn: 5.7, weightLbs: 66 },
+};
+
+/** Pallet builder settings */
+export interface PalletConfig {
+  /** Key into PALLET_BASES */
+  baseName: string;
+
+  /** Maximum built height including the pallet deck (inches) */
+  maxHeightIn: number;
+
+  /** Maximum built weight including the pallet itself (lbs) */
+  maxWeightLbs: number;
+
+  pattern: PalletPattern;
+}
+
+/** Default builder settings: GMA pallet, 72" high, 2,500 lbs, interlocked */
+export const DEFAULT_PALLET_CONFIG: PalletConfig = {
+  baseName: 'gma-48x40',
+  maxHeightIn: 72,
+  maxWeightLbs: 2500,
+  pattern: 'interlock',
+};
+
+/** What a built pallet (a composite CargoItem) is made of */
+export interface PalletContents {
+  base: PalletBase;
+  pattern: PalletPattern;
+
+  /** Number of carton layers */
+  layers: number;
+
+  /**
+   * The stacked cartons. Positions are relative to the pallet's
+   * front-left-bottom corner, in the pallet's unrotated frame.
+   */
+  cartons: CargoItem[];
 }
 
 // ============================================================================
@@ -286,12 +638,42 @@ export const GRID_SIZES = [1, 2, 3, 4, 6, 8, 12, 24];
  */
 export const DEFAULT_GRID_SIZE = 1;
 
+/**
+ * Grid sizes in centimeters offered when metric units are selected.
+ * Converted to inches for snapping.
+ */
+export const METRIC_GRID_SIZES_CM = [1, 2, 5, 10, 20, 50];
+
 /**
  * Scale factor for converting inches to Three.js units.
  * 1 inch = 0.02 Three.js units
  */
 export const SCALE_FACTOR = 0.02;
 
+// ============================================================================
+// UNITS
+// ============================================================================
+
+/**
+ * Measurement system used for input and display.
+ * Items are always stored in inches and pounds; only presentation changes.
+ */
+export type UnitSystem = 'imperial' | 'metric';
+
+/** Display names for the unit-system setting */
+export const UNIT_SYSTEMS: Record<UnitSystem, string> = {
+  imperial: 'Imperial (in, lbs)',
+  metric: 'Metric (cm, kg)',
+};
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+
+/** Centimeters per inch */
+export const CM_PER_INCH = 2.54;
+
+/** Pounds per kilogram */
+export const LBS_PER_KG = 2.20462;
+
 // ============================================================================
 // ITEM LIBRARY
 // ============================================================================
@@ -331,6 +713,15 @@ export interface LibraryItemDef {
   /** Which categories this item may be stacked on top of (optional, defaults to 'all') */
   canStackOn?: StackingRule;
 
+  /** Which orientations the item may be loaded in (optional, defaults to 'any') */
+  allowedOrientations?: OrientationRule;
+
+  /** Maximum weight this item can carry on top (optional, unlimited when unset) */
+  maxTopLoad?: number;
+
+  /** Unit of maxTopLoad (optional, defaults to 'lbs') */
+  maxTopLoadUnit?: TopLoadUnit;
+
   /** UN/DOT hazmat classification level (optional, defaults to 'none') */
   hazmatLevel?: HazmatLevel;
 }
@@ -416,4 +807,38 @@ export interface SavedLoad {
   
   /** Optional user-provided name/description for the load */
   loadName?: string;
+
+  /**
+   * Every container in a multi-container shipment (in shipment order).
+   * When present, containerType/items mirror the first container so older
+   * readers still see a valid single-container load.
+   */
+  containers?: ShipmentContainer[];
+
+  /** Index of the container that was open when the load was saved */
+  activeContainer?: number;
+
+  /** Definitions of any user-defined equipment the load uses */
+  customContainers?: ContainerSpec[];
+
+  /** Notes pinned to items or points in the containers */
+  annotations?: Annotation[];
+}
+
+/**
+ * An unsaved session written to local storage by autosave and offered for
+ * restore on the next start.
+ */
+export interface AutosaveRecord {
+  /** ISO timestamp of the last autosave */
+  savedAt: string;
+
+  /** The full editor state */
+  data: SavedLoad;
 }
+
+/** Storage key prefix of autosaved sessions; each user's key ends in their username */
+export const AUTOSAVE_KEY = 'autosave:';
+
+/** How often unsaved changes are written to local storage, in milliseconds */
+export const AUTOSAVE_INTERVAL_MS = 30000;
@@ -6,6 +6,7 @@
  * - Shipping containers with walls, floors, and grids
  * - Cargo items with proper materials and lighting
  * - Selection highlights and interaction affordances
+ * - Freeing the GPU memory of objects taken out of the scene
  * - Environment lighting setup
  */
 
@@ -17,6 +18,7 @@ import {
   HAZMAT_CLASSES,
 } from "./definitions";
 import { inchesToUnits } from "./utils";
+import { palletCartonFootprint } from "./pallets";
 
 // ============================================================================
 // CONTAINER VISUALIZATION
@@ -24,7 +26,8 @@ import { inchesToUnits } from "./utils";
 
 /**
  * Creates a complete 3D representation of a shipping container.
- * Includes transparent walls with edges, floor plane, corner posts, and floor grid.
+ * Includes transparent walls with edges, floor plane, corner posts, floor grid,
+ * and the door frame at the loading end (x = length) when the spec has one.
  * The container is semi-transparent to allow viewing cargo inside.
  * 
  * @param spec - Container specifications (dimensions, capacity)
@@ -63,11 +66,16 @@ export function createContainerMesh(spec: ContainerSpec, gridSize: number): THRE
   edgeMesh.position.set(l / 2, h / 2, w / 2);
   group.add(edgeMesh);
 
+  // Flatbeds are an open deck: the edges only outline the legal load envelope
+  const isOpenDeck = spec.equipment === 'flatbed';
+
   // Translucent walls for depth perception
-  const wallGeom = new THREE.BoxGeometry(l, h, w);
-  const wallMesh = new THREE.Mesh(wallGeom, wallMaterial);
-  wallMesh.position.set(l / 2, h / 2, w / 2);
-  group.add(wallMesh);
+  if (!isOpenDeck) {
+    const wallGeom = new THREE.BoxGeometry(l, h, w);
+    const wallMesh = new THREE.Mesh(wallGeom, wallMaterial);
+    wallMesh.position.set(l / 2, h / 2, w / 2);
+    group.add(wallMesh);
+  }
 
   // Container floor plane - slightly visible to show base
   const floorMaterial = new THREE.MeshPhysicalMaterial({
@@ -88,6 +96,12 @@ export function createContainerMesh(spec: ContainerSpec, gridSize: number): THRE
   const gridGroup = createFloorGrid(spec, gridSize);
   group.add(gridGroup);
 
+  if (isOpenDeck) return group;
+
+  if (spec.doorWidthIn !== undefined || spec.doorHeightIn !== undefined) {
+    group.add(createDoorFrame(spec));
+  }
+
   // Corner posts for structural reference
   const postMat = new THREE.MeshBasicMaterial({ color: 0x5599dd, transparent: true, opacity: 0.5 });
   const postGeom = new THREE.CylinderGeometry(0.018, 0.018, h, 8);
@@ -106,6 +120,63 @@ export function createContainerMesh(spec: ContainerSpec, gridSize: number): THRE
   return group;
 }
 
+/**
+ * Creates the door end of the container: a translucent frame covering the
+ * part of the end wall outside the door opening, plus an outline of the
+ * opening itself. The door is centred on the width and starts at the floor.
+ *
+ * @param spec - Container specifications (uses doorWidthIn / doorHeightIn)
+ * @returns THREE.Group positioned at the loading end of the container
+ */
+function createDoorFrame(spec: ContainerSpec): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'container-door';
+
+  const w = inchesToUnits(spec.widthIn);
+  const h = inchesToUnits(spec.heightIn);
+  const dw = inchesToUnits(Math.min(spec.doorWidthIn ?? spec.widthIn, spec.widthIn));
+  const dh = inchesToUnits(Math.min(spec.doorHeightIn ?? spec.heightIn, spec.heightIn));
+  const dz = (w - dw) / 2;
+
+  // End wall with the door opening cut out (shape is drawn in Z/Y, then turned onto the end face)
+  const wallShape = new THREE.Shape();
+  wallShape.moveTo(0, 0);
+  wallShape.lineTo(w, 0);
+  wallShape.lineTo(w, h);
+  wallShape.lineTo(0, h);
+  wallShape.closePath();
+
+  const opening = new THREE.Path();
+  opening.moveTo(dz, 0);
+  opening.lineTo(dz, dh);
+  opening.lineTo(dz + dw, dh);
+  opening.lineTo(dz + dw, 0);
+  opening.closePath();
+  wallShape.holes.push(opening);
+
+  const frameMesh = new THREE.Mesh(
+    new THREE.ShapeGeometry(wallShape),
+    new THREE.MeshBasicMaterial({ color: 0x5588cc, transparent: true, opacity: 0.18, side: THREE.DoubleSide, depthWrite: false })
+  );
+  frameMesh.rotation.y = -Math.PI / 2;
+  group.add(frameMesh);
+
+  // Outline of the clear opening
+  const outline = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(0, 0, dz),
+      new THREE.Vector3(0, dh, dz),
+      new THREE.Vector3(0, dh, dz + dw),
+      new THREE.Vector3(0, 0, dz + dw),
+    ]),
+    new THREE.LineBasicMaterial({ color: 0xfbbf24, transparent: true, opacity: 0.8 })
+  );
+  group.add(outline);
+
+  group.position.x = inchesToUnits(spec.lengthIn);
+  return group;
+}
+
 /**
  * Creates a grid of lines on the container floor.
  * Provides visual reference for measurements and alignment.
@@ -159,17 +230,21 @@ export function createFloorGrid(spec: ContainerSpec, gridSize: number): THREE.Gr
  *   │  ▌▌▌ border stripe ▌▌▌  │  (textColor)
  *   │  ⬛  HAZMAT             │  (large, bold, textColor on bgColor)
  *   │      CLASS  X           │  (medium, classNum)
+ *   │    [ UN 1263 ]          │  (UN number panel, when set)
+ *   │    MARINE POLLUTANT     │  (small, when flagged)
  *   │  ▌▌▌ border stripe ▌▌▌  │
  *   └──────────────────────────┘
  *
  * @param faceW - Face width in Three.js units (used for aspect ratio)
  * @param faceH - Face height in Three.js units
  * @param info  - HAZMAT class metadata (colors, classNum, label)
+ * @param dg    - Dangerous goods details shown below the class
  */
 function createHazmatCanvasTexture(
   faceW: number,
   faceH: number,
-  info: { color: string; textColor: string; classNum: number; label: string }
+  info: { color: string; textColor: string; classNum: number; label: string },
+  dg: Pick<CargoItem, 'unNumber' | 'marinePollutant'> = {}
 ): THREE.CanvasTexture {
   const baseRes = 512;
   const aspect = faceW / Math.max(faceH, 0.001);
@@ -214,7 +289,7 @@ function createHazmatCanvasTexture(
   ctx.font = `900 ${hazFontSize}px Inter, Arial, sans-serif`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  const hazY = cH * 0.38;
+  const hazY = cH * (dg.unNumber || dg.marinePollutant ? 0.28 : 0.38);
   ctx.fillText('HAZMAT', cW / 2, hazY);
 
   // CLASS X  — class number below
@@ -225,6 +300,30 @@ function createHazmatCanvasTexture(
     ctx.fillText(`CLASS  ${info.classNum}`, cW / 2, clsY);
   }
 
+  // UN number in a white panel with black text, as on a placard's center band
+  let nextY = clsY + clsFontSize * 0.7;
+  if (dg.unNumber) {
+    const unText = `UN ${dg.unNumber}`;
+    const unFontSize = Math.round(clsFontSize * 1.1);
+    ctx.font = `800 ${unFontSize}px 'JetBrains Mono', monospace`;
+    const panelW = Math.min(cW - inset * 2 - 8, ctx.measureText(unText).width + unFontSize);
+    const panelH = unFontSize * 1.3;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect((cW - panelW) / 2, nextY, panelW, panelH);
+    ctx.strokeStyle = '#000000';
+    ctx.strokeRect((cW - panelW) / 2, nextY, panelW, panelH);
+    ctx.fillStyle = '#000000';
+    ctx.fillText(unText, cW / 2, nextY + panelH / 2);
+    nextY += panelH + clsFontSize * 0.3;
+  }
+
+  if (dg.marinePollutant) {
+    const mpFontSize = Math.round(clsFontSize * 0.6);
+    ctx.font = `800 ${mpFontSize}px Inter, Arial, sans-serif`;
+    ctx.fillStyle = info.textColor;
+    ctx.fillText('MARINE POLLUTANT', cW / 2, nextY + mpFontSize * 0.6);
+  }
+
   const texture = new THREE.CanvasTexture(canvas);
   texture.minFilter = THREE.LinearFilter;
   texture.magFilter = THREE.LinearFilter;
@@ -234,20 +333,22 @@ function createHazmatCanvasTexture(
 
 /**
  * Builds large HAZMAT text placards on all four vertical faces of a cargo box.
- * Each face shows "HAZMAT / CLASS X" in the UN/DOT standard placard colors,
+ * Each face shows "HAZMAT / CLASS X" (and the UN number when set) in the UN/DOT standard placard colors,
  * replacing the older diamond-shape geometry approach.
  *
  * @param l - Box length in Three.js units
  * @param h - Box height in Three.js units
  * @param w - Box width in Three.js units
  * @param hazmatLevel - The UN/DOT class to display
+ * @param dg - UN number and marine pollutant flag to show below the class
  * @returns THREE.Group containing all placard meshes
  */
 function createHazmatPlacardGroup(
   l: number,
   h: number,
   w: number,
-  hazmatLevel: HazmatLevel
+  hazmatLevel: HazmatLevel,
+  dg: Pick<CargoItem, 'unNumber' | 'marinePollutant'> = {}
 ): THREE.Group {
   const pGroup = new THREE.Group();
   pGroup.name = 'hazmat-placard';
@@ -268,7 +369,7 @@ function createHazmatPlacardGroup(
     px: number, py: number, pz: number,
     rotY: number,
   ) => {
-    const texture = createHazmatCanvasTexture(fw, fh, info);
+    const texture = createHazmatCanvasTexture(fw, fh, info, dg);
     const mat = new THREE.MeshBasicMaterial({
       map: texture,
       transparent: true,
@@ -301,6 +402,91 @@ function createHazmatPlacardGroup(
   return pGroup;
 }
 
+/**
+ * Builds a "this side up" mark (two upward arrows over a base line) on the
+ * front and back faces of an item, near its left edge so it stays clear of
+ * any hazmat placard in the middle of the face.
+ *
+ * @param l - Box length in Three.js units
+ * @param h - Box height in Three.js units
+ * @param w - Box width in Three.js units
+ * @returns THREE.Group containing the arrow lines
+ */
+function createThisSideUpGroup(l: number, h: number, w: number): THREE.Group {
+  const uGroup = new THREE.Group();
+  uGroup.name = 'this-side-up';
+
+  const eps = 0.004;
+  const size = Math.min(h * 0.4, l * 0.3);
+  const head = size * 0.3;
+  const gap = size * 0.35;
+  const x0 = Math.min(l * 0.12 + size * 0.2, l / 2 - gap);
+  const y0 = h / 2 - size / 2;
+  const mat = new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.9 });
+
+  for (const z of [-eps, w + eps]) {
+    const points: THREE.Vector3[] = [];
+    for (const x of [x0, x0 + gap]) {
+      points.push(
+        new THREE.Vector3(x, y0, z), new THREE.Vector3(x, y0 + size, z),
+        new THREE.Vector3(x - head / 2, y0 + size - head, z), new THREE.Vector3(x, y0 + size, z),
+        new THREE.Vector3(x + head / 2, y0 + size - head, z), new THREE.Vector3(x, y0 + size, z),
+      );
+    }
+    points.push(new THREE.Vector3(x0 - head / 2, y0, z), new THREE.Vector3(x0 + gap + head / 2, y0, z));
+    uGroup.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(points), mat));
+  }
+
+  return uGroup;
+}
+
+/**
+ * Creates the pallet deck and carton outlines drawn inside a built pallet.
+ * Cartons are placed by the pallet's current rotation so the outlines turn
+ * with the pallet.
+ *
+ * @param item - Pallet item (must have palletContents)
+ * @param color - Edge color for the cartons
+ * @returns THREE.Group in the item's local space
+ */
+function createPalletContentsGroup(item: CargoItem, color: THREE.Color): THREE.Group {
+  const pGroup = new THREE.Group();
+  pGroup.name = 'pallet-contents';
+  const contents = item.palletContents!;
+
+  // Wooden deck
+  const l = inchesToUnits(item.lengthIn);
+  const w = inchesToUnits(item.widthIn);
+  const deckH = inchesToUnits(contents.base.heightIn);
+  const deck = new THREE.Mesh(
+    new THREE.BoxGeometry(l, deckH, w),
+    new THREE.MeshStandardMaterial({ color: 0x9c7a4f, roughness: 0.8 })
+  );
+  deck.position.set(l / 2, deckH / 2, w / 2);
+  deck.castShadow = true;
+  deck.receiveShadow = true;
+  deck.userData = { itemId: item.id };
+  pGroup.add(deck);
+
+  // Carton outlines
+  const cartonMat = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.55 });
+  for (const carton of contents.cartons) {
+    const fp = palletCartonFootprint(carton, contents, item.rotationY);
+    const cl = inchesToUnits(fp.l);
+    const ch = inchesToUnits(carton.heightIn);
+    const cw = inchesToUnits(fp.w);
+    const lines = new THREE.LineSegments(new THREE.EdgesGeometry(new THREE.BoxGeometry(cl, ch, cw)), cartonMat);
+    lines.position.set(
+      inchesToUnits(fp.x) + cl / 2,
+      inchesToUnits(carton.posY) + ch / 2,
+      inchesToUnits(fp.z) + cw / 2
+    );
+    pGroup.add(lines);
+  }
+
+  return pGroup;
+}
+
 /**
  * Creates the 3D mesh for a cargo item.
  * Includes:
@@ -308,6 +494,8 @@ function createHazmatPlacardGroup(
  * - Edge wireframe for crisp definition
  * - Top plane indicator for stacking reference
  * - Rotation arrow (if item is rotated)
+ * - "This side up" arrows (if the item must stay upright)
+ * - Pallet deck and carton outlines (if the item is a built pallet)
  * 
  * The mesh is created with proper shadows and translucency for depth perception.
  * 
@@ -334,7 +522,7 @@ export function createItemMesh(item: CargoItem): THREE.Group {
   const boxMat = new THREE.MeshPhysicalMaterial({
     color: color,
     transparent: true,
-    opacity: 0.78,
+    opacity: item.palletContents ? 0.3 : 0.78,
     roughness: 0.35,
     metalness: 0.05,
     clearcoat: 0.3,
@@ -387,9 +575,16 @@ export function createItemMesh(item: CargoItem): THREE.Group {
     group.add(arrowLine);
   }
 
+  // Built pallets show their deck and cartons instead of "this side up" arrows
+  if (item.palletContents) {
+    group.add(createPalletContentsGroup(item, color.clone().multiplyScalar(1.6)));
+  } else if (item.allowedOrientations === 'upright') {
+    group.add(createThisSideUpGroup(l, h, w));
+  }
+
   // Add hazmat placard diamonds on all four vertical faces if classified
   if (item.hazmatLevel && item.hazmatLevel !== 'none') {
-    const placard = createHazmatPlacardGroup(l, h, w, item.hazmatLevel);
+    const placard = createHazmatPlacardGroup(l, h, w, item.hazmatLevel, item);
     group.add(placard);
   }
 
@@ -454,48 +649,326 @@ export function createGhostMesh(item: CargoItem): THREE.Group {
 }
 
 /**
- * Creates a visual highlight effect around a selected item.
- * White wireframe outline with subtle glow effect.
+ * Creates a see-through outline of where an item was in the earlier version
+ * of a load, used by compare mode for removed items and the old position of
+ * moved items. Ghosts are not selectable (no itemId in userData).
+ *
+ * @param item - The item as it was in the earlier version
+ * @param color - Change color (CSS hex string)
+ * @returns THREE.Group positioned at the item's old location
+ */
+export function createChangeGhostMesh(item: CargoItem, color: string): THREE.Group {
+  const group = new THREE.Group();
+  group.name = `change-ghost-${item.id}`;
+
+  const l = inchesToUnits(item.lengthIn);
+  const w = inchesToUnits(item.widthIn);
+  const h = inchesToUnits(item.heightIn);
+  const ghostColor = new THREE.Color(color);
+
+  const boxGeom = new THREE.BoxGeometry(l, h, w);
+  const box = new THREE.Mesh(boxGeom, new THREE.MeshBasicMaterial({
+    color: ghostColor,
+    transparent: true,
+    opacity: 0.12,
+    depthWrite: false,
+  }));
+  box.position.set(l / 2, h / 2, w / 2);
+  group.add(box);
+
+  const edges = new THREE.LineSegments(
+    new THREE.EdgesGeometry(boxGeom),
+    new THREE.LineDashedMaterial({ color: ghostColor, dashSize: 0.08, gapSize: 0.05, transparent: true, opacity: 0.9 })
+  );
+  edges.computeLineDistances();
+  edges.position.copy(box.position);
+  group.add(edges);
+
+  group.position.set(inchesToUnits(item.posX), inchesToUnits(item.posY), inchesToUnits(item.posZ));
+  return group;
+}
+
+/**
+ * Creates a visual highlight effect around the selected item(s).
+ * White wireframe outline with subtle glow effect on each item.
  * Slightly larger than the actual item for clear indication.
+ * A multi-item selection also gets a dashed box around the whole group.
  * 
- * @param item - The selected cargo item
+ * @param items - The selected cargo item, or every item in a multi-selection
  * @returns THREE.Group containing highlight meshes
  * 
  * @example
- * const highlight = createSelectionHighlight(selectedItem);
+ * const highlight = createSelectionHighlight([itemA, itemB]);
  * scene.add(highlight);
  */
-export function createSelectionHighlight(item: CargoItem): THREE.Group {
+export function createSelectionHighlight(items: CargoItem | CargoItem[]): THREE.Group {
   const group = new THREE.Group();
   group.name = 'selection-highlight';
+  const selected = Array.isArray(items) ? items : [items];
+
+  for (const item of selected) {
+    // Make highlight slightly larger than item
+    const l = inchesToUnits(item.lengthIn) + 0.025;
+    const w = inchesToUnits(item.widthIn) + 0.025;
+    const h = inchesToUnits(item.heightIn) + 0.025;
+
+    // Bright white edge outline
+    const boxGeom = new THREE.BoxGeometry(l, h, w);
+    const edgeGeom = new THREE.EdgesGeometry(boxGeom);
+    const edgeMat = new THREE.LineBasicMaterial({ color: 0xffffff, linewidth: 2, transparent: true, opacity: 0.92 });
+    const edges = new THREE.LineSegments(edgeGeom, edgeMat);
+    edges.position.set(
+      inchesToUnits(item.posX) + inchesToUnits(item.lengthIn) / 2,
+      inchesToUnits(item.posY) + inchesToUnits(item.heightIn) / 2,
+      inchesToUnits(item.posZ) + inchesToUnits(item.widthIn) / 2
+    );
+
+    group.add(edges);
+
+    // Subtle glow box around selection
+    const glowMat = new THREE.MeshBasicMaterial({
+      color: 0x5b8af5,
+      transparent: true,
+      opacity: 0.1,
+    });
+    const glowMesh = new THREE.Mesh(new THREE.BoxGeometry(l + 0.01, h + 0.01, w + 0.01), glowMat);
+    glowMesh.position.copy(edges.position);
+    group.add(glowMesh);
+  }
 
-  // Make highlight slightly larger than item
-  const l = inchesToUnits(item.lengthIn) + 0.025;
-  const w = inchesToUnits(item.widthIn) + 0.025;
-  const h = inchesToUnits(item.heightIn) + 0.025;
+  // Dashed bounding box around the whole group
+  if (selected.length > 1) {
+    const minX = Math.min(...selected.map(i => i.posX));
+    const minY = Math.min(...selected.map(i => i.posY));
+    const minZ = Math.min(...selected.map(i => i.posZ));
+    const maxX = Math.max(...selected.map(i => i.posX + i.lengthIn));
+    const maxY = Math.max(...selected.map(i => i.posY + i.heightIn));
+    const maxZ = Math.max(...selected.map(i => i.posZ + i.widthIn));
+
+    const boundsGeom = new THREE.BoxGeometry(
+      inchesToUnits(maxX - minX) + 0.06,
+      inchesToUnits(maxY - minY) + 0.06,
+      inchesToUnits(maxZ - minZ) + 0.06
+    );
+    const boundsMat = new THREE.LineDashedMaterial({ color: 0x8fb0ff, dashSize: 0.08, gapSize: 0.05 });
+    const bounds = new THREE.LineSegments(new THREE.EdgesGeometry(boundsGeom), boundsMat);
+    bounds.computeLineDistances();
+    bounds.position.set(
+      inchesToUnits((minX + maxX) / 2),
+      inchesToUnits((minY + maxY) / 2),
+      inchesToUnits((minZ + maxZ) / 2)
+    );
+    group.add(bounds);
+  }
 
-  // Bright white edge outline
-  const boxGeom = new THREE.BoxGeometry(l, h, w);
-  const edgeGeom = new THREE.EdgesGeometry(boxGeom);
-  const edgeMat = new THREE.LineBasicMaterial({ color: 0xffffff, linewidth: 2, transparent: true, opacity: 0.92 });
-  const edges = new THREE.LineSegments(edgeGeom, edgeMat);
-  edges.position.set(
-    inchesToUnits(item.posX) + inchesToUnits(item.lengthIn) / 2,
-    inchesToUnits(item.posY) + inchesToUnits(item.heightIn) / 2,
-    inchesToUnits(item.posZ) + inchesToUnits(item.widthIn) / 2
+  return group;
+}
+
+/**
+ * Creates another live-session user's 3D cursor: a small sphere with the
+ * user's name floating above it. Drawn on top of the cargo.
+ *
+ * @param x - Position along the container length in inches
+ * @param y - Height above the floor in inches
+ * @param z - Position across the container width in inches
+ * @param color - The user's session color
+ * @param username - Name shown above the cursor
+ * @returns THREE.Group to add to the scene
+ */
+export function createPeerCursor(x: number, y: number, z: number, color: string, username: string): THREE.Group {
+  const group = new THREE.Group();
+  group.name = `peer-cursor-${username}`;
+  group.position.set(inchesToUnits(x), inchesToUnits(y), inchesToUnits(z));
+
+  const sphere = new THREE.Mesh(
+    new THREE.SphereGeometry(inchesToUnits(3), 16, 12),
+    new THREE.MeshBasicMaterial({ color: new THREE.Color(color), depthTest: false, transparent: true, opacity: 0.95 })
   );
+  sphere.renderOrder = 11;
+  group.add(sphere);
 
-  group.add(edges);
+  // Name tag
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const fontSize = 28;
+  ctx.font = `bold ${fontSize}px Inter, system-ui, sans-serif`;
+  canvas.width = Math.ceil(ctx.measureText(username).width) + 24;
+  canvas.height = fontSize + 16;
+  ctx.font = `bold ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(username, 12, canvas.height / 2);
 
-  // Subtle glow box around selection
-  const glowMat = new THREE.MeshBasicMaterial({
-    color: 0x5b8af5,
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+    map: new THREE.CanvasTexture(canvas),
+    depthTest: false,
     transparent: true,
-    opacity: 0.1,
-  });
-  const glowMesh = new THREE.Mesh(new THREE.BoxGeometry(l + 0.01, h + 0.01, w + 0.01), glowMat);
-  glowMesh.position.copy(edges.position);
-  group.add(glowMesh);
+  }));
+  const tagHeight = 0.2;
+  sprite.scale.set(tagHeight * (canvas.width / canvas.height), tagHeight, 1);
+  sprite.position.set(0, inchesToUnits(3) + tagHeight, 0);
+  sprite.renderOrder = 11;
+  group.add(sprite);
+
+  return group;
+}
+
+/**
+ * Outlines the items another live-session user has selected, in their
+ * session color.
+ *
+ * @param items - The user's selected items in the container on screen
+ * @param color - The user's session color
+ * @returns THREE.Group to add to the scene
+ */
+export function createPeerSelection(items: CargoItem[], color: string): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'peer-selection';
+  const edgeMat = new THREE.LineBasicMaterial({ color: new THREE.Color(color), transparent: true, opacity: 0.95 });
+
+  for (const item of items) {
+    // A little larger than the local selection outline so both stay visible
+    const l = inchesToUnits(item.lengthIn) + 0.045;
+    const w = inchesToUnits(item.widthIn) + 0.045;
+    const h = inchesToUnits(item.heightIn) + 0.045;
+    const edges = new THREE.LineSegments(new THREE.EdgesGeometry(new THREE.BoxGeometry(l, h, w)), edgeMat);
+    edges.position.set(
+      inchesToUnits(item.posX) + inchesToUnits(item.lengthIn) / 2,
+      inchesToUnits(item.posY) + inchesToUnits(item.heightIn) / 2,
+      inchesToUnits(item.posZ) + inchesToUnits(item.widthIn) / 2
+    );
+    group.add(edges);
+  }
+
+  return group;
+}
+
+/**
+ * Creates the marker of a crew note: a pin standing on the note's point with
+ * a tag showing the note number and the start of its text. Drawn on top of
+ * the cargo so notes inside stacks stay visible.
+ *
+ * @param x - Position along the container length in inches
+ * @param y - Height above the floor in inches
+ * @param z - Position across the container width in inches
+ * @param number - Note number, as in the notes panel
+ * @param text - Note text (long notes are cut short on the tag)
+ * @returns THREE.Group to add to the scene
+ */
+export function createAnnotationMarker(x: number, y: number, z: number, number: number, text: string): THREE.Group {
+  const group = new THREE.Group();
+  group.name = `annotation-${number}`;
+  group.position.set(inchesToUnits(x), inchesToUnits(y), inchesToUnits(z));
+
+  const color = 0xfbbf24;
+  const stemHeight = inchesToUnits(14);
+
+  const head = new THREE.Mesh(
+    new THREE.SphereGeometry(inchesToUnits(2), 12, 8),
+    new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.95 })
+  );
+  head.renderOrder = 11;
+  group.add(head);
+
+  const stem = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, stemHeight, 0)]),
+    new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.95 })
+  );
+  stem.renderOrder = 11;
+  group.add(stem);
+
+  // Tag: number badge followed by the text
+  const shown = text.length > 28 ? `${text.slice(0, 27)}…` : text;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const fontSize = 28;
+  const badge = fontSize + 16;
+  ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+  canvas.width = badge + Math.ceil(ctx.measureText(shown).width) + 24;
+  canvas.height = badge;
+  ctx.fillStyle = 'rgba(17,24,39,0.88)';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#fbbf24';
+  ctx.fillRect(0, 0, badge, badge);
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.fillStyle = '#1a1a1a';
+  ctx.textAlign = 'center';
+  ctx.fillText(String(number), badge / 2, badge / 2);
+  ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'left';
+  ctx.fillText(shown, badge + 12, badge / 2);
+
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+    map: new THREE.CanvasTexture(canvas),
+    depthTest: false,
+    transparent: true,
+  }));
+  const tagHeight = 0.16;
+  sprite.scale.set(tagHeight * (canvas.width / canvas.height), tagHeight, 1);
+  // Anchored at its left edge so the tag starts at the pin
+  sprite.center.set(0, 0.5);
+  sprite.position.set(0, stemHeight + tagHeight / 2, 0);
+  sprite.renderOrder = 12;
+  group.add(sprite);
+
+  return group;
+}
+
+/**
+ * Creates the center-of-gravity marker: a sphere with crosshair lines at
+ * the CoG and a dashed plumb line down to the floor.
+ *
+ * @param x - CoG along the container length in inches
+ * @param y - CoG height above the floor in inches
+ * @param z - CoG across the container width in inches
+ * @param withinTolerance - Colors the marker green when true, red otherwise
+ * @returns THREE.Group to add to the scene
+ *
+ * @example
+ * const marker = createCogMarker(cog.x, cog.y, cog.z, warnings.length === 0);
+ * scene.add(marker);
+ */
+export function createCogMarker(x: number, y: number, z: number, withinTolerance: boolean): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'cog-marker';
+
+  const color = withinTolerance ? 0x34d399 : 0xf87171;
+  const ux = inchesToUnits(x);
+  const uy = inchesToUnits(y);
+  const uz = inchesToUnits(z);
+
+  // Drawn on top of the cargo so the marker stays visible inside stacks
+  const sphere = new THREE.Mesh(
+    new THREE.SphereGeometry(inchesToUnits(4), 16, 12),
+    new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.9 })
+  );
+  sphere.position.set(ux, uy, uz);
+  sphere.renderOrder = 10;
+  group.add(sphere);
+
+  const arm = inchesToUnits(10);
+  const crossMat = new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.9 });
+  const cross = new THREE.LineSegments(
+    new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(ux - arm, uy, uz), new THREE.Vector3(ux + arm, uy, uz),
+      new THREE.Vector3(ux, uy - arm, uz), new THREE.Vector3(ux, uy + arm, uz),
+      new THREE.Vector3(ux, uy, uz - arm), new THREE.Vector3(ux, uy, uz + arm),
+    ]),
+    crossMat
+  );
+  cross.renderOrder = 10;
+  group.add(cross);
+
+  const plumb = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(ux, uy, uz), new THREE.Vector3(ux, 0.003, uz)]),
+    new THREE.LineDashedMaterial({ color, dashSize: 0.04, gapSize: 0.03, transparent: true, opacity: 0.7 })
+  );
+  plumb.computeLineDistances();
+  group.add(plumb);
 
   return group;
 }
@@ -618,3 +1091,31 @@ export function createEnvironment(): THREE.Group {
 
   return group;
 }
+
+// ============================================================================
+// CLEANUP
+// ============================================================================
+
+/**
+ * Frees the geometries, materials and textures of an object that is taken
+ * out of the scene for good, the way the label manager disposes its labels.
+ * Used for marker groups that are rebuilt often (note markers, comparison
+ * outlines).
+ *
+ * @example
+ * scene.remove(markers);
+ * disposeObject(markers);
+ */
+export function disposeObject(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.geometry) mesh.geometry.dispose();
+    if (mesh.material) {
+      for (const mat of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+        const map = (mat as THREE.MeshBasicMaterial).map;
+        if (map) map.dispose();
+        mat.dispose();
+      }
+    }
+  });
+}
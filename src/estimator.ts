@@ -0,0 +1,237 @@
+/**
+ * Container Count Estimator
+ *
+ * Answers "what box do I need?" for a list of cargo. This file contains:
+ * - Volume and payload lower bounds per container type
+ * - Trial packing with the packing engine to get a realistic count
+ * - A cheapest-mix recommendation based on per-container rates
+ *
+ * All work is done on copies, so the caller's items are never moved.
+ */
+
+import { CargoItem, ContainerSpec } from "./definitions";
+import { packItems, UnplacedItem } from "./packing";
+import { calculateTotalWeight } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Freight rate per container, keyed by container type name; unrated types are never recommended */
+export type ContainerRates = Record<string, number>;
+
+/** Default freight rates (USD per container) used until the user edits them */
+export const DEFAULT_CONTAINER_RATES: ContainerRates = {
+  '20ft': 2000,
+  '40ft': 2600,
+  '40hc': 2800,
+};
+
+/**
+ * Estimate for loading all of the cargo into one container type only.
+ */
+export interface ContainerTypeEstimate {
+  spec: ContainerSpec;
+
+  /** Containers needed if volume were the only limit (lower bound) */
+  byVolume: number;
+
+  /** Containers needed if payload were the only limit (lower bound) */
+  byWeight: number;
+
+  /** Containers needed by trial packing, or null if some items never fit this type */
+  byPacking: number | null;
+
+  /** Average volume utilization of the packed containers (%) */
+  avgUtilization: number;
+
+  /** byPacking x rate, or null when byPacking is null or the type has no rate */
+  cost: number | null;
+}
+
+/** One line of a recommended container mix */
+export interface ContainerMixEntry {
+  spec: ContainerSpec;
+  count: number;
+}
+
+/**
+ * Full estimate for a list of cargo.
+ */
+export interface ContainerEstimate {
+  itemCount: number;
+  totalVolumeCuFt: number;
+  totalWeightLbs: number;
+  perType: ContainerTypeEstimate[];
+
+  /** Cheapest mix found, or null when nothing can be loaded */
+  recommended: { mix: ContainerMixEntry[]; cost: number } | null;
+
+  /** Items that do not fit any container type, even empty */
+  unpackable: UnplacedItem[];
+}
+
+// ============================================================================
+// TRIAL PACKING
+// ============================================================================
+
+/** Copies items with positions reset so packing never touches the originals */
+function cloneForPacking(items: CargoItem[]): CargoItem[] {
+  return items.map(item => ({ ...item, posX: 0, posY: 0, posZ: 0 }));
+}
+
+function itemVolume(item: CargoItem): number {
+  return item.lengthIn * item.widthIn * item.heightIn;
+}
+
+function containerVolume(spec: ContainerSpec): number {
+  return spec.lengthIn * spec.widthIn * spec.heightIn;
+}
+
+/**
+ * Fills containers of one type until every item is placed.
+ * Returns null when an empty container cannot take any of what is left.
+ */
+function packIntoType(items: CargoItem[], spec: ContainerSpec): CargoItem[][] | null {
+  const loads: CargoItem[][] = [];
+  let remaining = cloneForPacking(items);
+
+  while (remaining.length > 0) {
+    const result = packItems(remaining, [], spec, { orientations: 'all' });
+    if (result.placed.length === 0) return null;
+    loads.push(result.placed);
+    remaining = result.unplaced.map(u => u.item);
+  }
+  return loads;
+}
+
+/**
+ * Builds a mixed load greedily. Each step first checks whether a single
+ * container can take everything that is left (choosing the cheapest that
+ * can); otherwise it fills the container type with the lowest rate per
+ * cubic inch actually packed, and repeats with the rest.
+ */
+function packCheapestMix(
+  items: CargoItem[],
+  specs: ContainerSpec[],
+  rates: ContainerRates
+): { mix: ContainerMixEntry[]; cost: number } | null {
+  const counts = new Map<string, number>();
+  let cost = 0;
+  let remaining = items;
+  const rated = specs.filter(spec => rates[spec.name] !== undefined);
+
+  while (remaining.length > 0) {
+    let finish: ContainerSpec | null = null;
+    let bestStep: { spec: ContainerSpec; leftover: CargoItem[]; costPerVolume: number } | null = null;
+
+    for (const spec of rated) {
+      const result = packItems(cloneForPacking(remaining), [], spec, { orientations: 'all' });
+      if (result.placed.length === 0) continue;
+
+      const rate = rates[spec.name];
+      if (result.unplaced.length === 0) {
+        if (!finish || rate < rates[finish.name]) finish = spec;
+        continue;
+      }
+
+      const packedVolume = result.placed.reduce((sum, item) => sum + itemVolume(item), 0);
+      const costPerVolume = rate / packedVolume;
+      if (!bestStep || costPerVolume < bestStep.costPerVolume) {
+        const placedIds = new Set(result.placed.map(item => item.id));
+        bestStep = { spec, leftover: remaining.filter(item => !placedIds.has(item.id)), costPerVolume };
+      }
+    }
+
+    const chosen = finish ?? bestStep?.spec;
+    if (!chosen) return null;
+    counts.set(chosen.name, (counts.get(chosen.name) ?? 0) + 1);
+    cost += rates[chosen.name];
+    remaining = finish ? [] : bestStep!.leftover;
+  }
+
+  const mix = specs
+    .filter(spec => counts.has(spec.name))
+    .map(spec => ({ spec, count: counts.get(spec.name)! }));
+  return { mix, cost };
+}
+
+// ============================================================================
+// ESTIMATE
+// ============================================================================
+
+/**
+ * Estimates how many containers of each type the cargo needs and
+ * recommends the cheapest mix.
+ *
+ * @param items - Cargo to estimate (not modified)
+ * @param specs - Container types to consider
+ * @param rates - Freight rate per container type
+ * @returns Per-type counts, the recommended mix and any items that never fit
+ *
+ * @example
+ * const est = estimateContainers(items, Object.values(CONTAINER_SPECS), DEFAULT_CONTAINER_RATES);
+ * console.log(est.recommended?.mix.map(m => `${m.count} x ${m.spec.label}`).join(' + '));
+ */
+export function estimateContainers(
+  items: CargoItem[],
+  specs: ContainerSpec[],
+  rates: ContainerRates
+): ContainerEstimate {
+  // Items that an empty container of every type rejects are left out of all counts
+  const unpackable: UnplacedItem[] = [];
+  const packable: CargoItem[] = [];
+  for (const item of items) {
+    let failure: UnplacedItem | null = null;
+    for (const spec of specs) {
+      const result = packItems(cloneForPacking([item]), [], spec, { orientations: 'all' });
+      if (result.placed.length > 0) {
+        failure = null;
+        break;
+      }
+      failure = { ...result.unplaced[0], item };
+    }
+    if (failure) {
+      unpackable.push(failure);
+    } else {
+      packable.push(item);
+    }
+  }
+
+  const totalVolume = packable.reduce((sum, item) => sum + itemVolume(item), 0);
+  const totalWeight = calculateTotalWeight(packable);
+
+  const perType = specs.map(spec => {
+    const loads = packable.length > 0 ? packIntoType(packable, spec) : [];
+    const byPacking = loads ? loads.length : null;
+    const avgUtilization = loads && loads.length > 0
+      ? (totalVolume / (containerVolume(spec) * loads.length)) * 100
+      : 0;
+    return {
+      spec,
+      byVolume: Math.ceil(totalVolume / containerVolume(spec)),
+      byWeight: Math.ceil(totalWeight / spec.maxWeightLbs),
+      byPacking,
+      avgUtilization,
+      cost: byPacking !== null && rates[spec.name] !== undefined ? byPacking * rates[spec.name] : null,
+    };
+  });
+
+  // The greedy mix can lose to a single-type load, so keep whichever is cheaper
+  let recommended = packable.length > 0 ? packCheapestMix(packable, specs, rates) : null;
+  for (const est of perType) {
+    if (est.cost === null || est.byPacking === null || est.byPacking === 0) continue;
+    if (!recommended || est.cost < recommended.cost) {
+      recommended = { mix: [{ spec: est.spec, count: est.byPacking }], cost: est.cost };
+    }
+  }
+
+  return {
+    itemCount: packable.length,
+    totalVolumeCuFt: totalVolume / 1728,
+    totalWeightLbs: totalWeight,
+    perType,
+    recommended,
+    unpackable,
+  };
+}
@@ -22,10 +22,26 @@ import {
   CargoItem,
   CATEGORY_COLORS,
   ColorMode,
+  ItemCategory,
   ITEM_COLORS,
   DEFAULT_GRID_SIZE,
   LibraryItemDef,
   SavedLoad,
+  ShipmentContainer,
+  CogTolerance,
+  DEFAULT_COG_TOLERANCE,
+  ORIENTATION_RULES,
+  ChassisConfig,
+  DEFAULT_CHASSIS_CONFIG,
+  PalletConfig,
+  DEFAULT_PALLET_CONFIG,
+  UnitSystem,
+  DangerousGoodsField,
+  DANGEROUS_GOODS_FIELDS,
+  AutosaveRecord,
+  AUTOSAVE_KEY,
+  AUTOSAVE_INTERVAL_MS,
+  Annotation,
 } from "./definitions";
 import {
   createContainerMesh,
@@ -35,12 +51,19 @@ import {
   createStackingPlane,
   createGroundPlane,
   createEnvironment,
+  createCogMarker,
+  createChangeGhostMesh,
+  createPeerCursor,
+  createPeerSelection,
+  createAnnotationMarker,
+  disposeObject,
 } from "./entities";
 import {
   snapToGrid,
   inchesToUnits,
   unitsToInches,
   generateId,
+  generateLineId,
   validatePlacement,
   getWeightColor,
   findStackingY,
@@ -48,6 +71,14 @@ import {
   rotateItemY,
   rotateItemTipForward,
   rotateItemTipSide,
+  calculateCenterOfGravity,
+  checkCogTolerance,
+  isOrientationAllowed,
+  pointInPolygon,
+  formatDimensions,
+  formatLength,
+  formatMass,
+  containerSpecFromData,
 } from "./utils";
 import {
   buildUI,
@@ -60,17 +91,117 @@ import {
   showToast,
   showValidationWarnings,
   updateDropIndicator,
+  updateSelectionMarquee,
   getNextColor,
   updateThemeIcon,
   updateLabelsToggleUI,
   formatDateForFilename,
   showProjectsModal,
+  showPackReportModal,
+  showPalletBuilderModal,
+  showImportWizardModal,
+  showContainerEstimatorModal,
+  showContainerEditorModal,
+  refreshContainerSelector,
+  updateShipmentTabs,
+  updateContainerSelector,
+  showMoveToContainerModal,
+  setCogToleranceInputs,
+  setChassisInputs,
+  updateUndoButtons,
+  setColorModeSelect,
+  applyUnitSystem,
+  showRestoreSessionModal,
+  updateRevisionBanner,
+  updateComparePanel,
+  updateLiveButton,
+  updateNotesList,
+  escapeHtml,
+  ShipmentManifest,
   UICallbacks,
 } from "./ui";
 import { ItemLabelManager } from "./labels";
-import { generateLoadPlan, generateLoadPlanHTML, generatePrintableLoadPlan, smartSortItems, LoadStep } from "./loadplan";
+import {
+  generateLoadPlan,
+  generateLoadPlanHTML,
+  generatePrintableLoadPlan,
+  generateShipmentLoadPlan,
+  generateShipmentLoadPlanHTML,
+  generatePrintableShipmentLoadPlan,
+  smartSortItems,
+  LoadStep,
+  ContainerLoadPlan,
+} from "./loadplan";
+import { packItems, getOrientations, UnplacedItem } from "./packing";
+import { estimateContainers, ContainerRates, DEFAULT_CONTAINER_RATES } from "./estimator";
+import { UndoHistory } from "./history";
+import { buildPallet, palletItemData } from "./pallets";
+import { readPackingListFile, ImportRow } from "./importer";
+import { compareLoads, changeColor, ComparisonSide, LoadComparison, CHANGE_COLORS } from "./compare";
+import { CollabSession, ItemOp, Peer, PeerCursor } from "./collab";
+import {
+  createAnnotation,
+  liveAnnotations,
+  placeAnnotations,
+  describeAnnotationPoint,
+  AnnotationAnchor,
+  PlacedAnnotation,
+} from "./annotations";
 import { persistence } from "./libs/persistence";
-import { AuthUser } from "./libs/api";
+import {
+  AuthUser,
+  ProjectSummary,
+  ProjectFull,
+  ProjectRevisionFull,
+  apiRestoreProjectRevision,
+  apiForkProjectRevision,
+} from "./libs/api";
+
+/**
+ * Snapshot of a whole load in the editor: the shipment (with the active
+ * container's items), the staging list, the color mode and the notes.
+ * Revision previews and comparisons swap these in and out.
+ */
+interface EditorState {
+  shipment: ShipmentContainer[];
+  activeContainerIndex: number;
+  stagedItems: CargoItem[];
+  colorMode: ColorMode;
+  annotations: Annotation[];
+}
+
+/** An item and where it is: a shipment container index, or -1 for staging */
+interface ItemPlacement {
+  item: CargoItem;
+  container: number;
+  /** Position in that container's (or staging's) item list */
+  index: number;
+}
+
+/**
+ * The parts of the editor an edit can change, taken before the edit so the
+ * undo step can be worked out afterwards. Items are listed by ID.
+ */
+interface EditorSnapshot {
+  items: Map<string, ItemPlacement>;
+  containerTypes: string[];
+  activeContainerIndex: number;
+  colorMode: ColorMode;
+  annotations: Annotation[];
+}
+
+/**
+ * What one undo step changed: each changed item before and after (null when
+ * it did not exist), plus the container types, color mode and notes when
+ * those changed. Unchanged items are not kept.
+ */
+interface EditorChange {
+  items: { id: string; before: ItemPlacement | null; after: ItemPlacement | null }[];
+  activeContainerIndex: { before: number; after: number };
+  containerTypes?: { before: string[]; after: string[] };
+  colorMode?: { before: ColorMode; after: ColorMode };
+  annotations?: { before: Annotation[]; after: Annotation[] };
+}
 
 /**
  * Main application class for the A3 Shipping Pro container loading visualization.
@@ -130,6 +261,24 @@ export class ContainerVizApp {
   /** Environment lighting group */
   private envGroup: THREE.Group | null = null;
 
+  /** Every container in the shipment; the active one is mirrored by containerSpec/items */
+  private shipment: ShipmentContainer[] = [{ containerType: '20ft', items: [] }];
+
+  /** Index of the shipment container shown in the 3D view */
+  private activeContainerIndex = 0;
+
+  /** Freight rate per container type used by the container estimator */
+  private containerRates: ContainerRates = { ...DEFAULT_CONTAINER_RATES };
+
+  /** Limits the center of gravity is checked against */
+  private cogTolerance: CogTolerance = { ...DEFAULT_COG_TOLERANCE };
+
+  /** Chassis geometry and legal limits used for axle loads */
+  private chassis: ChassisConfig = { ...DEFAULT_CHASSIS_CONFIG };
+
+  /** Last pallet builder settings */
+  private palletConfig: PalletConfig = { ...DEFAULT_PALLET_CONFIG };
+
   // ========================================================================
   // CARGO ITEM STATE
   // ========================================================================
@@ -139,16 +288,25 @@ export class ContainerVizApp {
 
   /** Items removed from the container and held in staging for re-use */
   private stagedItems: CargoItem[] = [];
+
+  /** Crew notes pinned to items or points, in note-number order (see liveAnnotations) */
+  private annotations: Annotation[] = [];
   
   /** Map of item IDs to their 3D mesh groups */
   private itemMeshes: Map<string, THREE.Group> = new Map();
   
-  /** Currently selected item ID */
+  /** Primary selected item ID (shown in the info card, target of single-item actions) */
   private selectedItemId: string | null = null;
+
+  /** Every selected item ID, including the primary one */
+  private selectedIds = new Set<string>();
   
-  /** Visual highlight for selected item */
+  /** Visual highlight for selected items */
   private selectionHighlight: THREE.Group | null = null;
 
+  /** Marker showing the combined center of gravity of the load */
+  private cogMarker: THREE.Group | null = null;
+
   // ========================================================================
   // DRAG AND DROP STATE
   // ========================================================================
@@ -167,6 +325,15 @@ export class ContainerVizApp {
   
   /** Item position before drag started (for revert) */
   private dragStartPos = { x: 0, y: 0, z: 0 };
+
+  /** Editor snapshot from before the drag started (for undo) */
+  private dragStartState: EditorSnapshot | null = null;
+
+  /** Selected items moved along with dragItem and their start positions (empty for a single-item drag) */
+  private dragGroup: { item: CargoItem; start: { x: number; y: number; z: number } }[] = [];
+
+  /** Box or lasso selection in progress, in viewport-relative pixels */
+  private marquee: { mode: 'box' | 'lasso'; points: { x: number; y: number }[]; additive: boolean } | null = null;
   
   /** Preview mesh shown during drag */
   private ghostMesh: THREE.Group | null = null;
@@ -219,6 +386,85 @@ export class ContainerVizApp {
   /** Authenticated user (governs role-based UI restrictions) */
   private user!: AuthUser;
 
+  // ========================================================================
+  // UNDO / REDO
+  // ========================================================================
+
+  /** Undo/redo stacks for scene edits */
+  private history = new UndoHistory(100, () => updateUndoButtons(this.history.undoLabel, this.history.redoLabel));
+
+  /** Nesting depth of withHistory calls; only the outermost records a step */
+  private historyDepth = 0;
+
+  // ========================================================================
+  // AUTOSAVE
+  // ========================================================================
+
+  /** Whether the scene changed since it was last saved to or loaded from a project */
+  private unsavedChanges = false;
+
+  /** Whether the scene changed since the last autosave */
+  private autosavePending = false;
+
+  /**
+   * The cloud project the scene was opened from or last saved to. Its
+   * revision is the base of the next overwrite, so a newer save by someone
+   * else is reported as a conflict instead of being overwritten.
+   */
+  private currentProject: { id: number; revision: number } | null = null;
+
+  // ========================================================================
+  // REVISION PREVIEW
+  // ========================================================================
+
+  /**
+   * The project revision shown read-only in the scene, and the editor state
+   * to go back to when the preview ends. Null when not previewing.
+   */
+  private revisionPreview: { project: ProjectSummary; revision: ProjectRevisionFull; returnState: EditorState } | null = null;
+
+  /**
+   * Custom equipment registered only to show a revision preview or a
+   * comparison. It is not saved to localStorage unless a load using it is kept.
+   */
+  private unsavedContainerTypes = new Set<string>();
+
+  // ========================================================================
+  // COMPARE MODE
+  // ========================================================================
+
+  /**
+   * The two loads being compared (the later one is shown read-only, colored
+   * by change) and the editor state to go back to. Null when not comparing.
+   */
+  private comparison: { before: ComparisonSide; after: ComparisonSide; result: LoadComparison; returnState: EditorState } | null = null;
+
+  /** Outlines of removed items and old positions of moved items in the active container */
+  private comparisonGhosts: THREE.Group | null = null;
+
+  // ========================================================================
+  // LIVE COLLABORATION
+  // ========================================================================
+
+  /** Live editing session on currentProject, or null when editing alone */
+  private collab: CollabSession | null = null;
+
+  /** This user's 3D cursor as last shared with the session */
+  private collabCursor: PeerCursor | null = null;
+
+  /** Other members' cursors and selection outlines in the active container */
+  private peerMarkers: THREE.Group | null = null;
+
+  // ========================================================================
+  // ANNOTATIONS
+  // ========================================================================
+
+  /** Markers of the notes in the active container */
+  private annotationMarkers: THREE.Group | null = null;
+
+  /** Whether the next click in the container places a new point note */
+  private placingPointNote = false;
+
   // ========================================================================
   // INITIALIZATION
   // ========================================================================
@@ -230,11 +476,19 @@ export class ContainerVizApp {
   constructor(user: AuthUser) {
     this.user = user;
     this.loadTheme();
+    this.loadContainerRates();
+    this.loadCustomContainers();
     this.initUI();
+    this.loadCogTolerance();
+    this.loadChassis();
+    this.loadPalletConfig();
     this.initThreeJS();
+    this.loadUnitSystem();
     this.buildContainer();
     this.setupEventListeners();
     this.animate();
+    this.startAutosave();
+    this.offerSessionRestore();
   }
 
   /**
@@ -261,6 +515,83 @@ export class ContainerVizApp {
     }
   }
 
+  /**
+   * Loads the user's container rates for the estimator from localStorage.
+   */
+  private async loadContainerRates(): Promise<void> {
+    try {
+      const raw = await persistence.getItem('containerRates');
+      if (raw) this.containerRates = { ...DEFAULT_CONTAINER_RATES, ...JSON.parse(raw) };
+    } catch (e) { /* ignore */ }
+  }
+
+  /**
+   * Loads user-defined equipment from localStorage and registers it
+   * alongside the built-in container types.
+   */
+  private async loadCustomContainers(): Promise<void> {
+    try {
+      const raw = await persistence.getItem('customContainers');
+      if (!raw) return;
+      for (const data of JSON.parse(raw) as unknown[]) {
+        const spec = containerSpecFromData(data);
+        if (spec) CONTAINER_SPECS[spec.name] = spec;
+      }
+      refreshContainerSelector();
+    } catch (e) { /* ignore */ }
+  }
+
+  /**
+   * Loads the user's center of gravity limits from localStorage.
+   */
+  private async loadCogTolerance(): Promise<void> {
+    try {
+      const raw = await persistence.getItem('cogTolerance');
+      if (raw) this.cogTolerance = { ...DEFAULT_COG_TOLERANCE, ...JSON.parse(raw) };
+    } catch (e) { /* ignore */ }
+    setCogToleranceInputs(this.cogTolerance);
+    this.refreshUI();
+  }
+
+  /**
+   * Loads the user's chassis geometry and axle limits from localStorage.
+   */
+  private async loadChassis(): Promise<void> {
+    try {
+      const raw = await persistence.getItem('chassisConfig');
+      if (raw) this.chassis = { ...DEFAULT_CHASSIS_CONFIG, ...JSON.parse(raw) };
+    } catch (e) { /* ignore */ }
+    setChassisInputs(this.chassis);
+    this.refreshUI();
+  }
+
+  /**
+   * Loads the user's unit system preference from localStorage.
+   */
+  private async loadUnitSystem(): Promise<void> {
+    try {
+      const saved = await persistence.getItem('unitSystem');
+      if (saved === 'metric') this.changeUnitSystem(saved);
+    } catch (e) { /* ignore */ }
+  }
+
+  /**
+   * Loads the user's last pallet builder settings from localStorage.
+   */
+  private async loadPalletConfig(): Promise<void> {
+    try {
+      const raw = await persistence.getItem('palletConfig');
+      if (raw) this.palletConfig = { ...DEFAULT_PALLET_CONFIG, ...JSON.parse(raw) };
+    } catch (e) { /* ignore */ }
+  }
+
+  private async saveCustomContainers(): Promise<void> {
+    try {
+      const customs = Object.values(CONTAINER_SPECS).filter(spec => spec.custom && !this.unsavedContainerTypes.has(spec.name));
+      await persistence.setItem('customContainers', JSON.stringify(customs));
+    } catch (e) { /* ignore */ }
+  }
+
   private async toggleTheme(): Promise<void> {
     this.isDarkMode = !this.isDarkMode;
     if (this.isDarkMode) {
@@ -343,34 +674,56 @@ export class ContainerVizApp {
 
   private initUI(): void {
     this.callbacks = {
-      onContainerChange: (name) => this.changeContainer(name),
-      onAddItem: (data) => this.addItem(data),
-      onAddItemFromLibrary: (def) => this.addItemFromLibrary(def),
+      onContainerChange: (name) => this.withHistory('container change', () => this.changeContainer(name)),
+      onAddItem: (data, quantity) => this.withHistory(quantity && quantity > 1 ? 'add item line' : 'add item', () => this.addItem(data, quantity)),
+      onAddItemFromLibrary: (def, quantity, sku) => this.withHistory(quantity > 1 ? 'add item line' : 'add item', () => this.addItemFromLibrary(def, quantity, sku)),
       onSelectItem: (id) => this.selectItem(id),
-      onDeleteItem: (id) => this.deleteItem(id),
+      onDeleteItem: (id) => this.withHistory('delete item', () => this.deleteItem(id)),
       onToggleVisibility: (id) => this.toggleItemVisibility(id),
       onToggleGrid: (show) => this.toggleGrid(show),
       onToggleSnap: (snap) => { this.snapEnabled = snap; },
       onGridSizeChange: (size) => this.changeGridSize(size),
-      onColorModeChange: (mode) => this.changeColorMode(mode),
+      onUnitSystemChange: (system) => this.changeUnitSystem(system),
+      onColorModeChange: (mode) => this.withHistory('color mode change', () => this.changeColorMode(mode)),
       onResetView: () => this.resetView(),
       onExportImage: () => this.exportImage(),
       onShowManifest: () => this.showManifest(),
       onShowLoadPlan: () => this.showLoadPlan(),
-      onMoveItem: (id, axis, delta) => this.moveItem(id, axis, delta),
+      onMoveItem: (id, axis, delta) => this.withHistory('move item', () => this.moveItem(id, axis, delta), `nudge:${id}`),
       onToggleAllVisibility: (vis) => this.toggleAllVisibility(vis),
-      onClearAll: () => this.clearAll(),
-      onRotateItem: (id, type) => this.rotateItem(id, type),
+      onClearAll: () => this.withHistory('clear all', () => this.clearAll()),
+      onRotateItem: (id, type) => this.withHistory('rotate item', () => this.rotateItem(id, type)),
       onToggleTheme: () => this.toggleTheme(),
       onToggleLabels: () => this.toggleLabels(),
-      onEditItem: (id, changes) => this.editItem(id, changes),
+      onEditItem: (id, changes) => this.withHistory('edit item', () => this.editItem(id, changes)),
       onSaveLoad: () => this.saveLoad(),
       onLoadFile: () => this.loadFile(),
       onImportFile: () => this.importLocalFile(),
-      onStageItem: (id) => this.stageItem(id),
-      onLoadFromStaging: (id) => this.loadFromStaging(id),
-      onRemoveFromStaging: (id) => this.removeFromStaging(id),
-      onClearStaging: () => this.clearStaging(),
+      onImportPackingList: () => this.importPackingList(),
+      onStageItem: (id) => this.withHistory('stage item', () => this.stageItem(id)),
+      onLoadFromStaging: (id) => this.withHistory('load from staging', () => this.loadFromStaging(id)),
+      onRemoveFromStaging: (id) => this.withHistory('remove staged item', () => this.removeFromStaging(id)),
+      onClearStaging: () => this.withHistory('clear staging', () => this.clearStaging()),
+      onAutoPackAll: () => this.withHistory('auto-pack', () => this.autoPackAll()),
+      onPackStaging: () => this.withHistory('pack staging', () => this.packStaging()),
+      onOpenPalletBuilder: () => this.openPalletBuilder(),
+      onShowEstimator: () => this.showEstimator(),
+      onManageContainers: () => this.showContainerEditor(),
+      onCogToleranceChange: (tolerance) => {
+        this.cogTolerance = tolerance;
+        persistence.setItem('cogTolerance', JSON.stringify(tolerance)).catch(() => { /* ignore */ });
+        this.refreshUI();
+      },
+      onChassisChange: (chassis) => {
+        this.chassis = chassis;
+        persistence.setItem('chassisConfig', JSON.stringify(chassis)).catch(() => { /* ignore */ });
+        this.refreshUI();
+      },
+      onUndo: () => this.undo(),
+      onRedo: () => this.redo(),
+      onToggleLive: () => this.collab ? this.stopLive() : this.startLive(),
+      onAddItemNote: () => this.addItemNote(),
+      onAddPointNote: () => this.startPointNote(),
     };
     buildUI(this.callbacks, this.user);
   }
@@ -456,6 +809,10 @@ export class ContainerVizApp {
   }
 
   private changeContainer(name: string): void {
+    if (this.refuseWhileLive('change the container type')) {
+      updateContainerSelector(this.containerSpec.name);
+      return;
+    }
     this.containerSpec = CONTAINER_SPECS[name];
     this.buildContainer();
     
@@ -482,7 +839,12 @@ export class ContainerVizApp {
     }
   }
 
-  private addItem(data: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>): void {
+  /**
+   * Adds an item, or a packing-list line of `quantity` identical items.
+   * Line items share a line ID and SKU, are numbered "#1".."#n" and are
+   * packed together; any that do not fit go to staging with the reason.
+   */
+  private addItem(data: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>, quantity = 1): void {
     if (data.lengthIn > this.containerSpec.lengthIn ||
         data.widthIn > this.containerSpec.widthIn ||
         data.heightIn > this.containerSpec.heightIn) {
@@ -490,14 +852,38 @@ export class ContainerVizApp {
       return;
     }
 
-    const item: CargoItem = {
+    if (quantity > 1) {
+      this.addItemLine(data, quantity);
+      return;
+    }
+
+    const item = this.createItem(data);
+
+    this.autoPlace(item);
+
+    this.items.push(item);
+    this.createItemMeshInternal(item);
+    this.labelManager.createLabel(item);
+    this.selectItem(item.id);
+    this.refreshUI();
+
+    const result = validatePlacement(item, this.items, this.containerSpec);
+    showValidationWarnings(result);
+  }
+
+  /**
+   * Builds a new unplaced item, colored for the current color mode.
+   * @param color - Fixed custom color (used so all items of a line match)
+   */
+  private createItem(data: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>, color?: string): CargoItem {
+    return {
       ...data,
       id: generateId(),
       posX: 0,
       posY: 0,
       posZ: 0,
       visible: true,
-      color: this.colorMode === 'custom' ? getNextColor() :
+      color: this.colorMode === 'custom' ? color ?? getNextColor() :
              this.colorMode === 'category' ? CATEGORY_COLORS[data.category] :
              getWeightColor(data.weightLbs),
       rotationY: 0,
@@ -505,20 +891,42 @@ export class ContainerVizApp {
       origWidthIn: data.widthIn,
       origHeightIn: data.heightIn,
     };
+  }
 
-    this.autoPlace(item);
+  private addItemLine(data: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>, quantity: number): void {
+    const lineId = generateLineId();
+    const color = this.colorMode === 'custom' ? getNextColor() : undefined;
+    const lineItems = Array.from({ length: quantity }, (_, i) =>
+      this.createItem({ ...data, label: `${data.label} #${i + 1}`, lineId }, color)
+    );
 
-    this.items.push(item);
-    this.createItemMeshInternal(item);
-    this.labelManager.createLabel(item);
-    this.selectItem(item.id);
+    const result = packItems(lineItems, this.items, this.containerSpec, {
+      orientations: 'horizontal',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+      sortItems: false,
+    });
+
+    for (const item of result.placed) {
+      this.items.push(item);
+      this.createItemMeshInternal(item);
+      this.labelManager.createLabel(item);
+    }
+    for (const { item, message } of result.unplaced) {
+      this.stagedItems.push({ ...item, posX: 0, posY: 0, posZ: 0, stagingReason: message });
+    }
+
+    this.setSelection(result.placed.map(i => i.id), false);
     this.refreshUI();
+    this.refreshStagingList();
 
-    const result = validatePlacement(item, this.items, this.containerSpec);
-    showValidationWarnings(result);
+    if (result.unplaced.length === 0) {
+      showToast(`Added ${quantity} × "${data.label}"`, 'success');
+    } else {
+      showPackReportModal(`Add "${data.label}" ×${quantity}`, result.placed.length, result.unplaced);
+    }
   }
 
-  private addItemFromLibrary(def: LibraryItemDef): void {
+  private addItemFromLibrary(def: LibraryItemDef, quantity = 1, sku?: string): void {
     this.addItem({
       label: def.name,
       lengthIn: def.lengthIn,
@@ -528,27 +936,27 @@ export class ContainerVizApp {
       category: def.category,
       acceptsOnTop: def.acceptsOnTop ?? 'all',
       canStackOn: def.canStackOn ?? 'all',
+      allowedOrientations: def.allowedOrientations ?? 'any',
+      maxTopLoad: def.maxTopLoad,
+      maxTopLoadUnit: def.maxTopLoadUnit,
       hazmatLevel: def.hazmatLevel ?? 'none',
-    });
+      sku,
+    }, quantity);
   }
 
+  /**
+   * Places a single item at the best free position using the packing engine,
+   * keeping its current orientation. Falls back to the floor corner (stacked
+   * if necessary) when no clean position exists.
+   */
   private autoPlace(item: CargoItem): void {
-    const gridStep = this.snapEnabled ? this.gridSize : 1;
-    
-    for (let y = 0; y <= this.containerSpec.heightIn - item.heightIn; y += gridStep) {
-      for (let x = 0; x <= this.containerSpec.lengthIn - item.lengthIn; x += gridStep) {
-        for (let z = 0; z <= this.containerSpec.widthIn - item.widthIn; z += gridStep) {
-          item.posX = x;
-          item.posY = y;
-          item.posZ = z;
-          
-          const result = validatePlacement(item, this.items, this.containerSpec);
-          if (result.valid && result.warnings.length === 0) {
-            return;
-          }
-        }
-      }
-    }
+    const result = packItems([item], this.items, this.containerSpec, {
+      orientations: 'fixed',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+      sortItems: false,
+      enforcePayload: false,
+    });
+    if (result.placed.length > 0) return;
 
     item.posX = 0;
     item.posY = 0;
@@ -557,6 +965,45 @@ export class ContainerVizApp {
     item.posY = stack.y;
   }
 
+  /**
+   * Re-packs every loaded item from scratch, trying all orientations.
+   * Items that no longer fit are moved to staging and listed in a report.
+   */
+  private autoPackAll(): void {
+    if (this.items.length === 0) {
+      showToast('Add items to the container before auto-packing', 'warning');
+      return;
+    }
+
+    const toPack = this.items;
+    for (const item of toPack) {
+      item.posX = 0;
+      item.posY = 0;
+      item.posZ = 0;
+    }
+
+    const result = packItems(toPack, [], this.containerSpec, {
+      orientations: 'all',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+    });
+
+    this.items = result.placed;
+    for (const { item, message } of result.unplaced) {
+      this.stagedItems.push({ ...item, posX: 0, posY: 0, posZ: 0, visible: true, stagingReason: message });
+    }
+
+    this.updateAllItemMeshes();
+    this.refreshSelection();
+    this.refreshUI();
+    this.refreshStagingList();
+
+    if (result.unplaced.length === 0) {
+      showToast(`Auto-packed ${result.placed.length} items`, 'success');
+    } else {
+      showPackReportModal('Auto-pack Results', result.placed.length, result.unplaced);
+    }
+  }
+
   private createItemMeshInternal(item: CargoItem): void {
     const mesh = createItemMesh(item);
     this.scene.add(mesh);
@@ -564,13 +1011,19 @@ export class ContainerVizApp {
   }
 
   private updateItemMesh(item: CargoItem): void {
+    this.replaceItemMesh(item);
+    this.updateAnnotationMarkers();
+    this.updateSelectionHighlight();
+  }
+
+  /** Rebuilds an item's mesh and label only; callers updating many items redraw the markers once after */
+  private replaceItemMesh(item: CargoItem): void {
     const oldMesh = this.itemMeshes.get(item.id);
     if (oldMesh) {
       this.scene.remove(oldMesh);
     }
     this.createItemMeshInternal(item);
     this.labelManager.updateLabel(item);
-    this.updateSelectionHighlight();
   }
 
   private updateAllItemMeshes(): void {
@@ -583,29 +1036,104 @@ export class ContainerVizApp {
       this.createItemMeshInternal(item);
       this.labelManager.createLabel(item);
     }
+    this.updateComparisonGhosts();
+    this.updatePeerMarkers();
+    this.updateAnnotationMarkers();
     this.updateSelectionHighlight();
   }
 
+  /**
+   * Selects a single item (or clears the selection when id is null).
+   */
   private selectItem(id: string | null): void {
     this.selectedItemId = id;
+    this.selectedIds = new Set(id ? [id] : []);
     const item = id ? this.items.find(i => i.id === id) || null : null;
     showItemInfo(item, this.gridSize);
     this.updateSelectionHighlight();
     this.refreshItemsList();
   }
 
+  /**
+   * Adds an item to the selection, or removes it if already selected (Ctrl/Cmd+click).
+   */
+  private toggleItemSelection(id: string): void {
+    if (this.selectedIds.has(id)) {
+      this.selectedIds.delete(id);
+      if (this.selectedItemId === id) {
+        this.selectedItemId = Array.from(this.selectedIds).pop() ?? null;
+      }
+    } else {
+      this.selectedIds.add(id);
+      this.selectedItemId = id;
+    }
+    this.refreshSelection();
+  }
+
+  /**
+   * Selects several items at once (box/lasso selection).
+   * @param additive - Add to the current selection instead of replacing it
+   */
+  private setSelection(ids: string[], additive: boolean): void {
+    if (!additive) this.selectedIds.clear();
+    for (const id of ids) this.selectedIds.add(id);
+    this.selectedItemId = ids.length > 0 ? ids[ids.length - 1] : (additive ? this.selectedItemId : null);
+    this.refreshSelection();
+  }
+
+  /** Loaded items in the current selection, in load order */
+  private getSelectedItems(): CargoItem[] {
+    return this.items.filter(i => this.selectedIds.has(i.id));
+  }
+
+  /**
+   * Drops selected IDs that are no longer loaded and redraws the
+   * info card, highlight and items list for the remaining selection.
+   */
+  private refreshSelection(): void {
+    const loaded = new Set(this.items.map(i => i.id));
+    for (const id of this.selectedIds) {
+      if (!loaded.has(id)) this.selectedIds.delete(id);
+    }
+    if (this.selectedItemId && !this.selectedIds.has(this.selectedItemId)) {
+      this.selectedItemId = Array.from(this.selectedIds).pop() ?? null;
+    }
+
+    const primary = this.selectedItemId ? this.items.find(i => i.id === this.selectedItemId) || null : null;
+    showItemInfo(primary, this.gridSize);
+    this.updateSelectionHighlight();
+    this.refreshItemsList();
+  }
+
   private updateSelectionHighlight(): void {
     if (this.selectionHighlight) {
       this.scene.remove(this.selectionHighlight);
       this.selectionHighlight = null;
     }
 
-    if (this.selectedItemId) {
-      const item = this.items.find(i => i.id === this.selectedItemId);
-      if (item) {
-        this.selectionHighlight = createSelectionHighlight(item);
-        this.scene.add(this.selectionHighlight);
-      }
+    const selected = this.getSelectedItems();
+    if (selected.length > 0) {
+      this.selectionHighlight = createSelectionHighlight(selected);
+      this.scene.add(this.selectionHighlight);
+    }
+    this.sharePresence();
+  }
+
+  /**
+   * Redraws the center of gravity marker for the current load.
+   */
+  private updateCogMarker(): void {
+    if (!this.scene) return;
+    if (this.cogMarker) {
+      this.scene.remove(this.cogMarker);
+      this.cogMarker = null;
+    }
+
+    const cog = calculateCenterOfGravity(this.items, this.containerSpec);
+    if (cog) {
+      const withinTolerance = checkCogTolerance(cog, this.containerSpec, this.cogTolerance).length === 0;
+      this.cogMarker = createCogMarker(cog.x, cog.y, cog.z, withinTolerance);
+      this.scene.add(this.cogMarker);
     }
   }
 
@@ -617,8 +1145,9 @@ export class ContainerVizApp {
       this.itemMeshes.delete(id);
     }
     this.labelManager.removeLabel(id);
-    if (this.selectedItemId === id) {
-      this.selectItem(null);
+    if (this.selectedIds.has(id)) {
+      this.selectedIds.delete(id);
+      this.refreshSelection();
     }
     this.refreshUI();
   }
@@ -630,6 +1159,7 @@ export class ContainerVizApp {
       const mesh = this.itemMeshes.get(id);
       if (mesh) mesh.visible = item.visible;
       this.labelManager.syncVisibility(item);
+      this.updateAnnotationMarkers();
       this.refreshItemsList();
     }
   }
@@ -641,6 +1171,7 @@ export class ContainerVizApp {
       if (mesh) mesh.visible = visible;
       this.labelManager.syncVisibility(item);
     }
+    this.updateAnnotationMarkers();
     this.refreshItemsList();
   }
 
@@ -654,10 +1185,25 @@ export class ContainerVizApp {
 
   private toggleLabels(): void {
     const isVisible = this.labelManager.toggle();
+    if (this.annotationMarkers) this.annotationMarkers.visible = isVisible;
     updateLabelsToggleUI(isVisible);
     showToast(isVisible ? '3D item labels enabled' : '3D item labels disabled', 'success');
   }
 
+  /**
+   * Switches the display units. Stored dimensions stay in inches and lbs;
+   * the grid snaps to the nearest size in the new system.
+   */
+  private changeUnitSystem(system: UnitSystem): void {
+    this.changeGridSize(applyUnitSystem(system, this.gridSize));
+    persistence.setItem('unitSystem', system).catch(() => { /* ignore */ });
+    this.items.forEach(item => this.labelManager.updateLabel(item));
+    this.refreshUI();
+    this.refreshComparePanel();
+    const selected = this.selectedItemId ? this.items.find(i => i.id === this.selectedItemId) || null : null;
+    if (selected) showItemInfo(selected, this.gridSize);
+  }
+
   private changeColorMode(mode: ColorMode): void {
     this.colorMode = mode;
     for (const item of this.items) {
@@ -672,15 +1218,20 @@ export class ContainerVizApp {
   }
 
   /**
-   * Edit an existing item's properties (label, dims, weight, category, color, stacking rules, hazmat).
+   * Edit an existing item's properties (label, dims, weight, category, color, stacking rules, top load, hazmat and dangerous goods details).
    */
   private editItem(
     id: string,
-    changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'hazmatLevel'>>
+    changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'allowedOrientations' | 'maxTopLoad' | 'maxTopLoadUnit' | 'hazmatLevel' | DangerousGoodsField>>
   ): void {
     const item = this.items.find(i => i.id === id);
     if (!item) return;
 
+    // A pallet's size comes from its build, and its cartons are laid out for its current turn
+    if (item.palletContents) {
+      changes = { ...changes, lengthIn: undefined, widthIn: undefined, heightIn: undefined };
+    }
+
     const oldLabel = item.label;
     const oldLengthIn = item.lengthIn;
     const oldWidthIn = item.widthIn;
@@ -691,6 +1242,8 @@ export class ContainerVizApp {
     const oldOrigL = item.origLengthIn;
     const oldOrigW = item.origWidthIn;
     const oldOrigH = item.origHeightIn;
+    const oldRotationY = item.rotationY;
+    const oldOrientationRule = item.allowedOrientations;
 
     if (changes.label !== undefined) item.label = changes.label;
     if (changes.weightLbs !== undefined) item.weightLbs = changes.weightLbs;
@@ -698,7 +1251,13 @@ export class ContainerVizApp {
     if (changes.color !== undefined) item.color = changes.color;
     if (changes.acceptsOnTop !== undefined) item.acceptsOnTop = changes.acceptsOnTop;
     if (changes.canStackOn !== undefined) item.canStackOn = changes.canStackOn;
+    if (changes.allowedOrientations !== undefined) item.allowedOrientations = changes.allowedOrientations;
+    if ('maxTopLoad' in changes) item.maxTopLoad = changes.maxTopLoad;
+    if (changes.maxTopLoadUnit !== undefined) item.maxTopLoadUnit = changes.maxTopLoadUnit;
     if (changes.hazmatLevel !== undefined) item.hazmatLevel = changes.hazmatLevel;
+    for (const field of DANGEROUS_GOODS_FIELDS) {
+      if (field in changes) Object.assign(item, { [field]: changes[field] });
+    }
 
     const dimsChanged = changes.lengthIn !== undefined || changes.widthIn !== undefined || changes.heightIn !== undefined;
 
@@ -716,7 +1275,20 @@ export class ContainerVizApp {
         item.origHeightIn = changes.heightIn;
       }
       item.rotationY = 0;
+    }
+
+    // A stricter orientation rule may forbid the way the item is currently turned
+    let reoriented = false;
+    if (!dimsChanged && !isOrientationAllowed(item, item)) {
+      const allowed = getOrientations(item, 'all')[0];
+      item.lengthIn = allowed.lengthIn;
+      item.widthIn = allowed.widthIn;
+      item.heightIn = allowed.heightIn;
+      item.rotationY = allowed.rotationY;
+      reoriented = true;
+    }
 
+    if (dimsChanged || reoriented) {
       item.posX = Math.max(0, Math.min(item.posX, this.containerSpec.lengthIn - item.lengthIn));
       item.posZ = Math.max(0, Math.min(item.posZ, this.containerSpec.widthIn - item.widthIn));
       item.posY = Math.max(0, Math.min(item.posY, this.containerSpec.heightIn - item.heightIn));
@@ -735,7 +1307,7 @@ export class ContainerVizApp {
     }
 
     const result = validatePlacement(item, this.items, this.containerSpec);
-    if (!result.valid && dimsChanged) {
+    if (!result.valid && (dimsChanged || reoriented)) {
       const savedX = item.posX, savedY = item.posY, savedZ = item.posZ;
       
       const otherItems = this.items.filter(i => i.id !== item.id);
@@ -775,10 +1347,14 @@ export class ContainerVizApp {
           item.origLengthIn = oldOrigL;
           item.origWidthIn = oldOrigW;
           item.origHeightIn = oldOrigH;
+          item.rotationY = oldRotationY;
+          item.allowedOrientations = oldOrientationRule;
           item.posX = savedX;
           item.posY = savedY;
           item.posZ = savedZ;
-          showToast('Cannot resize — new dimensions would cause overlap or exceed container bounds', 'error');
+          showToast(reoriented
+            ? 'Cannot change orientation rule — the item has no room to be turned'
+            : 'Cannot resize — new dimensions would cause overlap or exceed container bounds', 'error');
           return;
         }
       }
@@ -796,12 +1372,13 @@ export class ContainerVizApp {
 
     const changeSummary: string[] = [];
     if (changes.label !== undefined && changes.label !== oldLabel) changeSummary.push(`label -> "${changes.label}"`);
-    if (changes.weightLbs !== undefined && changes.weightLbs !== oldWeightLbs) changeSummary.push(`weight -> ${changes.weightLbs.toLocaleString()} lbs`);
+    if (changes.weightLbs !== undefined && changes.weightLbs !== oldWeightLbs) changeSummary.push(`weight -> ${formatMass(changes.weightLbs)}`);
     if (changes.category !== undefined && changes.category !== oldCategory) changeSummary.push(`category -> ${changes.category}`);
-    if (changes.lengthIn !== undefined && changes.lengthIn !== oldLengthIn) changeSummary.push(`L -> ${changes.lengthIn}"`);
-    if (changes.widthIn !== undefined && changes.widthIn !== oldWidthIn) changeSummary.push(`W -> ${changes.widthIn}"`);
-    if (changes.heightIn !== undefined && changes.heightIn !== oldHeightIn) changeSummary.push(`H -> ${changes.heightIn}"`);
+    if (changes.lengthIn !== undefined && changes.lengthIn !== oldLengthIn) changeSummary.push(`L -> ${formatLength(changes.lengthIn, 1)}`);
+    if (changes.widthIn !== undefined && changes.widthIn !== oldWidthIn) changeSummary.push(`W -> ${formatLength(changes.widthIn, 1)}`);
+    if (changes.heightIn !== undefined && changes.heightIn !== oldHeightIn) changeSummary.push(`H -> ${formatLength(changes.heightIn, 1)}`);
     if (changes.color !== undefined && changes.color !== oldColor) changeSummary.push(`color updated`);
+    if (changes.allowedOrientations !== undefined) changeSummary.push(`orientation -> ${ORIENTATION_RULES[changes.allowedOrientations].toLowerCase()}`);
 
     if (changeSummary.length > 0) {
       showToast(`Updated "${item.label}": ${changeSummary.join(', ')}`, 'success');
@@ -834,6 +1411,16 @@ export class ContainerVizApp {
     const oldPosZ = item.posZ;
     const oldRot = item.rotationY;
 
+    if (rotationType !== 'y') {
+      const tipped = { ...item };
+      if (rotationType === 'tipForward') rotateItemTipForward(tipped);
+      else rotateItemTipSide(tipped);
+      if (!isOrientationAllowed(item, tipped)) {
+        showToast(`Cannot tip "${item.label}" — it must be loaded ${ORIENTATION_RULES[item.allowedOrientations!].toLowerCase()}`, 'warning');
+        return;
+      }
+    }
+
     if (rotationType === 'y') {
       rotateItemY(item);
     } else if (rotationType === 'tipForward') {
@@ -880,7 +1467,7 @@ export class ContainerVizApp {
     this.refreshUI();
     
     const rotDeg = item.rotationY * 90;
-    showToast(`Rotated "${item.label}" → ${item.lengthIn}"×${item.widthIn}"×${item.heightIn}" (${rotDeg}°)`, 'success');
+    showToast(`Rotated "${item.label}" → ${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)} (${rotDeg}°)`, 'success');
   }
 
   private moveItem(id: string, axis: 'x' | 'y' | 'z', delta: number): void {
@@ -929,17 +1516,74 @@ export class ContainerVizApp {
   }
 
   // ========================================================================
-  // STAGING FUNCTIONALITY
+  // GROUP OPERATIONS
   // ========================================================================
 
+  private deleteSelected(): void {
+    const selected = this.getSelectedItems();
+    for (const item of selected) {
+      this.deleteItem(item.id);
+    }
+    showToast(`Removed ${selected.length} items`, 'success');
+  }
+
+  private stageSelected(): void {
+    const selected = this.getSelectedItems();
+    for (const item of selected) {
+      this.stageItem(item.id, false);
+    }
+    showToast(`${selected.length} items moved to staging`, 'success');
+  }
+
   /**
-   * Moves a loaded item from the container into staging.
-   * The item is removed from the 3D scene but preserved in stagedItems
-   * so it can be loaded back later.
+   * Gives every selected item the same color. Derived colors would
+   * overwrite it, so the color mode switches to custom.
    */
-  private stageItem(id: string): void {
-    const item = this.items.find(i => i.id === id);
-    if (!item) return;
+  private recolorSelected(color: string): void {
+    if (this.colorMode !== 'custom') {
+      this.colorMode = 'custom';
+      setColorModeSelect(this.colorMode);
+    }
+    for (const item of this.getSelectedItems()) {
+      item.color = color;
+    }
+    this.updateAllItemMeshes();
+    this.refreshItemsList();
+  }
+
+  private setSelectedCategory(category: ItemCategory): void {
+    const selected = this.getSelectedItems();
+    for (const item of selected) {
+      item.category = category;
+      if (this.colorMode === 'category') item.color = CATEGORY_COLORS[category];
+    }
+    this.updateAllItemMeshes();
+    this.refreshUI();
+    showToast(`Set ${selected.length} items to ${category}`, 'success');
+
+    // A new category can break stacking rules for items above or below
+    for (const item of selected) {
+      const result = validatePlacement(item, this.items, this.containerSpec);
+      if (!result.valid || result.warnings.length > 0) {
+        showValidationWarnings(result);
+        break;
+      }
+    }
+  }
+
+  // ========================================================================
+  // STAGING FUNCTIONALITY
+  // ========================================================================
+
+  /**
+   * Moves a loaded item from the container into staging.
+   * The item is removed from the 3D scene but preserved in stagedItems
+   * so it can be loaded back later.
+   * @param notify - Show a toast for the item (bulk staging shows one summary instead)
+   */
+  private stageItem(id: string, notify = true): void {
+    const item = this.items.find(i => i.id === id);
+    if (!item) return;
 
     // Remove from active items and 3D scene
     this.items = this.items.filter(i => i.id !== id);
@@ -949,15 +1593,15 @@ export class ContainerVizApp {
       this.itemMeshes.delete(id);
     }
     this.labelManager.removeLabel(id);
-    if (this.selectedItemId === id) {
-      this.selectedItemId = null;
-      showItemInfo(null, this.gridSize);
+    if (this.selectedIds.has(id)) {
+      this.selectedIds.delete(id);
+      this.refreshSelection();
     }
 
     // Add to staging (reset position so autoPlace works cleanly when loading back)
-    const staged: CargoItem = { ...item, posX: 0, posY: 0, posZ: 0, visible: true };
+    const staged: CargoItem = { ...item, posX: 0, posY: 0, posZ: 0, visible: true, stagingReason: undefined };
     this.stagedItems.push(staged);
-    showToast(`"${item.label}" moved to staging`, 'success');
+    if (notify) showToast(`"${item.label}" moved to staging`, 'success');
     this.refreshUI();
     this.refreshStagingList();
   }
@@ -981,6 +1625,7 @@ export class ContainerVizApp {
     }
 
     this.stagedItems.splice(idx, 1);
+    item.stagingReason = undefined;
     this.autoPlace(item);
     this.items.push(item);
     this.createItemMeshInternal(item);
@@ -993,7 +1638,107 @@ export class ContainerVizApp {
   }
 
   /**
-   * Permanently removes a staged item (no undo).
+   * Packs the whole staging list into the current container around the
+   * items already loaded. Leftovers stay in staging with the reason they
+   * could not be packed (too heavy, no space, stacking rule).
+   */
+  private packStaging(): void {
+    if (this.stagedItems.length === 0) {
+      showToast('Staging is empty', 'warning');
+      return;
+    }
+
+    const result = packItems(this.stagedItems, this.items, this.containerSpec, {
+      orientations: 'all',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+    });
+
+    for (const item of result.placed) {
+      item.stagingReason = undefined;
+      this.items.push(item);
+      this.createItemMeshInternal(item);
+      this.labelManager.createLabel(item);
+    }
+    for (const { item, message } of result.unplaced) {
+      item.stagingReason = message;
+    }
+    this.stagedItems = result.unplaced.map(u => u.item);
+
+    this.refreshUI();
+    this.refreshStagingList();
+
+    if (result.unplaced.length === 0) {
+      showToast(`Packed ${result.placed.length} staged items into the container`, 'success');
+    } else {
+      showPackReportModal('Pack Staging Results', result.placed.length, result.unplaced);
+    }
+  }
+
+  /**
+   * Opens the pallet builder for the staged items and remembers its settings.
+   */
+  private openPalletBuilder(): void {
+    const cartons = this.stagedItems.filter(i => !i.palletContents);
+    if (cartons.length === 0) {
+      showToast('Stage some cartons to build a pallet from', 'warning');
+      return;
+    }
+
+    showPalletBuilderModal(cartons, this.palletConfig, (ids, config, label) => {
+      this.palletConfig = config;
+      persistence.setItem('palletConfig', JSON.stringify(config)).catch(() => { /* ignore */ });
+      this.withHistory('build pallet', () => this.buildPalletFromStaging(ids, config, label));
+    });
+  }
+
+  /**
+   * Stacks the chosen staged cartons onto a pallet and stages the built
+   * pallet as one item in their place. Cartons that don't fit stay staged
+   * with the reason.
+   */
+  private buildPalletFromStaging(ids: string[], config: PalletConfig, label: string): void {
+    const cartons = this.stagedItems.filter(i => ids.includes(i.id));
+    const result = buildPallet(cartons, config);
+    if (result.contents.cartons.length === 0) {
+      showPackReportModal(`Build "${label}"`, 0, result.unplaced);
+      return;
+    }
+
+    const stackedIds = new Set(result.contents.cartons.map(c => c.id));
+    for (const { item, message } of result.unplaced) item.stagingReason = message;
+    const pallet = this.createItem(palletItemData(result, label));
+    this.stagedItems = [...this.stagedItems.filter(i => !stackedIds.has(i.id)), pallet];
+    this.refreshStagingList();
+
+    const summary = `${result.contents.cartons.length} cartons, ${result.contents.layers} layers`;
+    if (result.unplaced.length === 0) {
+      showToast(`Built "${label}" (${summary})`, 'success');
+    } else {
+      showPackReportModal(`Build "${label}" (${summary})`, result.contents.cartons.length, result.unplaced);
+    }
+  }
+
+  /**
+   * Breaks a built pallet back into its cartons, which go to staging.
+   * Works on pallets in the container or in staging.
+   */
+  private unpackPallet(id: string): void {
+    const pallet = this.items.find(i => i.id === id) ?? this.stagedItems.find(i => i.id === id);
+    if (!pallet?.palletContents) return;
+
+    if (this.items.includes(pallet)) this.stageItem(id, false);
+    this.stagedItems = this.stagedItems.filter(i => i.id !== id);
+    for (const carton of pallet.palletContents.cartons) {
+      this.stagedItems.push({ ...carton, posX: 0, posY: 0, posZ: 0, visible: true, stagingReason: undefined });
+    }
+
+    showToast(`Unpacked "${pallet.label}" into ${pallet.palletContents.cartons.length} cartons in staging`, 'success');
+    this.refreshUI();
+    this.refreshStagingList();
+  }
+
+  /**
+   * Removes a staged item from the load.
    */
   private removeFromStaging(id: string): void {
     const item = this.stagedItems.find(i => i.id === id);
@@ -1004,7 +1749,7 @@ export class ContainerVizApp {
   }
 
   /**
-   * Permanently clears all staged items.
+   * Removes all staged items from the load.
    */
   private clearStaging(): void {
     this.stagedItems = [];
@@ -1012,6 +1757,542 @@ export class ContainerVizApp {
     showToast('Staging cleared', 'success');
   }
 
+  // ========================================================================
+  // MULTI-CONTAINER SHIPMENT
+  // ========================================================================
+
+  /**
+   * Writes the active container's type and items back into the shipment.
+   * The 3D view works on containerSpec/items directly, so call this before
+   * reading the shipment as a whole.
+   */
+  private syncActiveContainer(): void {
+    const active = this.shipment[this.activeContainerIndex];
+    active.containerType = this.containerSpec.name;
+    active.items = this.items;
+  }
+
+  /**
+   * Builds the shipment overview for the manifest, or undefined for a
+   * single-container load so the manifest keeps its original layout.
+   */
+  private getShipmentManifest(): ShipmentManifest | undefined {
+    this.syncActiveContainer();
+    if (this.shipment.length <= 1) return undefined;
+    return {
+      containers: this.shipment.map(c => ({
+        label: this.containerLabel(c),
+        spec: CONTAINER_SPECS[c.containerType],
+        items: c.items,
+      })),
+      activeIndex: this.activeContainerIndex,
+    };
+  }
+
+  /**
+   * Returns the definitions of custom equipment used anywhere in the
+   * shipment, or undefined when only built-in types are used.
+   */
+  private getUsedCustomContainers(): ContainerSpec[] | undefined {
+    const used = new Set(this.shipment.map(c => c.containerType));
+    const customs = Object.values(CONTAINER_SPECS).filter(spec => spec.custom && used.has(spec.name));
+    return customs.length > 0 ? customs : undefined;
+  }
+
+  private containerLabel(container: ShipmentContainer): string {
+    return CONTAINER_SPECS[container.containerType]?.label ?? container.containerType;
+  }
+
+  /**
+   * Loads the active shipment container into the 3D view.
+   */
+  private showActiveContainer(): void {
+    const active = this.shipment[this.activeContainerIndex];
+    this.containerSpec = CONTAINER_SPECS[active.containerType] ?? this.containerSpec;
+    this.items = active.items;
+    this.selectedItemId = null;
+    this.selectedIds.clear();
+    showItemInfo(null, this.gridSize);
+    updateContainerSelector(this.containerSpec.name);
+    this.buildContainer();
+    this.resetView();
+  }
+
+  private switchContainer(index: number): void {
+    if (index === this.activeContainerIndex || !this.shipment[index]) return;
+    this.syncActiveContainer();
+    this.activeContainerIndex = index;
+    this.showActiveContainer();
+  }
+
+  /**
+   * Appends an empty container (same type as the active one) and opens it.
+   */
+  private addContainer(): void {
+    if (this.refuseWhileLive('add containers')) return;
+    this.syncActiveContainer();
+    this.shipment.push({ containerType: this.containerSpec.name, items: [] });
+    this.activeContainerIndex = this.shipment.length - 1;
+    this.showActiveContainer();
+    showToast(`Container #${this.shipment.length} added to the shipment`, 'success');
+  }
+
+  /**
+   * Removes a container from the shipment. Its items are moved to staging
+   * (with their notes); point notes in it are deleted.
+   */
+  private removeContainer(index: number): void {
+    if (this.shipment.length <= 1 || !this.shipment[index]) return;
+    if (this.refuseWhileLive('remove containers')) return;
+    this.syncActiveContainer();
+
+    const removed = this.shipment[index];
+    if (removed.items.length > 0 &&
+        !confirm(`Remove container #${index + 1}? Its ${removed.items.length} items will be moved to staging.`)) {
+      return;
+    }
+
+    for (const item of removed.items) {
+      this.stagedItems.push({ ...item, posX: 0, posY: 0, posZ: 0, visible: true, stagingReason: undefined });
+    }
+    this.shipment.splice(index, 1);
+    this.annotations = this.annotations
+      .filter(a => a.container !== index)
+      .map(a => a.container !== undefined && a.container > index ? { ...a, container: a.container - 1 } : a);
+    if (index < this.activeContainerIndex || this.activeContainerIndex >= this.shipment.length) {
+      this.activeContainerIndex = Math.max(0, this.activeContainerIndex - 1);
+    }
+    this.showActiveContainer();
+    showToast(`Container #${index + 1} removed`, 'success');
+  }
+
+  private openMoveToContainer(id: string): void {
+    const item = this.items.find(i => i.id === id);
+    if (!item) return;
+    const targets = this.shipment
+      .map((c, index) => ({ index, label: this.containerLabel(c) }))
+      .filter(t => t.index !== this.activeContainerIndex);
+    showMoveToContainerModal(item, targets, (index) =>
+      this.withHistory('move to container', () => this.moveItemToContainer(id, index))
+    );
+  }
+
+  /**
+   * Moves an item from the active container into another shipment container,
+   * placing it at the first free position there.
+   */
+  private moveItemToContainer(id: string, targetIndex: number): void {
+    const item = this.items.find(i => i.id === id);
+    const target = this.shipment[targetIndex];
+    if (!item || !target || targetIndex === this.activeContainerIndex) return;
+
+    const moved: CargoItem = { ...item, posX: 0, posY: 0, posZ: 0 };
+    const result = packItems([moved], target.items, CONTAINER_SPECS[target.containerType], {
+      orientations: 'horizontal',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+      sortItems: false,
+    });
+    if (result.unplaced.length > 0) {
+      showToast(`Cannot move to container #${targetIndex + 1}: ${result.unplaced[0].message}`, 'error');
+      return;
+    }
+
+    target.items.push(moved);
+    this.deleteItem(id);
+    showToast(`"${item.label}" moved to container #${targetIndex + 1}`, 'success');
+  }
+
+  /**
+   * Re-packs every item in the shipment container by container, spilling
+   * whatever does not fit into the next one. New containers (same type as
+   * the last) are added until everything is loaded; items that cannot fit
+   * even an empty container go to staging.
+   */
+  private autoSplitShipment(): void {
+    if (this.refuseWhileLive('auto-split the shipment')) return;
+    this.syncActiveContainer();
+    let remaining = this.shipment.flatMap(c => c.items);
+    if (remaining.length === 0) {
+      showToast('Add items to the shipment before auto-splitting', 'warning');
+      return;
+    }
+
+    for (const item of remaining) {
+      item.posX = 0;
+      item.posY = 0;
+      item.posZ = 0;
+    }
+
+    const options = { orientations: 'all' as const, gridSize: this.snapEnabled ? this.gridSize : undefined };
+    const containers: ShipmentContainer[] = [];
+    let leftovers: UnplacedItem[] = [];
+
+    for (const existing of this.shipment) {
+      const result = packItems(remaining, [], CONTAINER_SPECS[existing.containerType], options);
+      containers.push({ containerType: existing.containerType, items: result.placed });
+      remaining = result.unplaced.map(u => u.item);
+    }
+
+    const overflowType = this.shipment[this.shipment.length - 1].containerType;
+    while (remaining.length > 0) {
+      const result = packItems(remaining, [], CONTAINER_SPECS[overflowType], options);
+      if (result.placed.length === 0) {
+        // An empty container took nothing, so another one would not help
+        leftovers = result.unplaced;
+        break;
+      }
+      containers.push({ containerType: overflowType, items: result.placed });
+      remaining = result.unplaced.map(u => u.item);
+    }
+
+    for (const { item, message } of leftovers) {
+      this.stagedItems.push({ ...item, posX: 0, posY: 0, posZ: 0, visible: true, stagingReason: message });
+    }
+
+    this.shipment = containers;
+    this.activeContainerIndex = Math.min(this.activeContainerIndex, containers.length - 1);
+    this.showActiveContainer();
+
+    const placedCount = containers.reduce((sum, c) => sum + c.items.length, 0);
+    if (leftovers.length === 0) {
+      showToast(`Shipment split across ${containers.length} containers`, 'success');
+    } else {
+      showPackReportModal('Auto-split Results', placedCount, leftovers);
+    }
+  }
+
+  // ========================================================================
+  // UNDO / REDO
+  // ========================================================================
+
+  /**
+   * Copies the editor state so later edits cannot change a recorded snapshot.
+   */
+  private cloneState(state: EditorState): EditorState {
+    return {
+      shipment: state.shipment.map(c => ({ containerType: c.containerType, items: c.items.map(i => ({ ...i })) })),
+      activeContainerIndex: state.activeContainerIndex,
+      stagedItems: state.stagedItems.map(i => ({ ...i })),
+      colorMode: state.colorMode,
+      annotations: state.annotations.map(a => ({ ...a, ...(a.position ? { position: { ...a.position } } : {}) })),
+    };
+  }
+
+  private captureState(): EditorState {
+    this.syncActiveContainer();
+    return this.cloneState({
+      shipment: this.shipment,
+      activeContainerIndex: this.activeContainerIndex,
+      stagedItems: this.stagedItems,
+      colorMode: this.colorMode,
+      annotations: this.annotations,
+    });
+  }
+
+  /**
+   * Puts the editor back into a recorded state and rebuilds the scene.
+   * Item visibility is a view setting, so the current show/hide choices are kept.
+   */
+  private restoreState(state: EditorState): void {
+    const snapshot = this.cloneState(state);
+    const visibility = new Map(this.items.map(i => [i.id, i.visible]));
+
+    this.shipment = snapshot.shipment;
+    this.activeContainerIndex = snapshot.activeContainerIndex;
+    this.stagedItems = snapshot.stagedItems;
+    this.colorMode = snapshot.colorMode;
+    this.annotations = snapshot.annotations;
+    setColorModeSelect(this.colorMode);
+    for (const item of this.shipment[this.activeContainerIndex].items) {
+      item.visible = visibility.get(item.id) ?? item.visible;
+    }
+    this.showRestoredContainer();
+  }
+
+  /** Shows the active container after the shipment was replaced or changed by undo/redo */
+  private showRestoredContainer(): void {
+    const active = this.shipment[this.activeContainerIndex];
+    const typeChanged = active.containerType !== this.containerSpec.name;
+    this.containerSpec = CONTAINER_SPECS[active.containerType] ?? this.containerSpec;
+    this.items = active.items;
+
+    updateContainerSelector(this.containerSpec.name);
+    if (typeChanged) {
+      this.buildContainer();
+    } else {
+      this.updateAllItemMeshes();
+      this.refreshUI();
+    }
+    this.refreshSelection();
+  }
+
+  /**
+   * Notes where every item is, and the rest of what an edit can change.
+   * Items are shallow copies, so edits made in place do not reach the snapshot.
+   */
+  private snapshotEditor(): EditorSnapshot {
+    this.syncActiveContainer();
+    const items = new Map<string, ItemPlacement>();
+    this.shipment.forEach((c, container) => {
+      c.items.forEach((item, index) => items.set(item.id, { item: { ...item }, container, index }));
+    });
+    this.stagedItems.forEach((item, index) => items.set(item.id, { item: { ...item }, container: -1, index }));
+    return {
+      items,
+      containerTypes: this.shipment.map(c => c.containerType),
+      activeContainerIndex: this.activeContainerIndex,
+      colorMode: this.colorMode,
+      annotations: this.annotations.slice(),
+    };
+  }
+
+  /** Whether two copies of an item match, ignoring visibility (a view setting kept out of undo) */
+  private itemsMatch(a: CargoItem, b: CargoItem): boolean {
+    const keys = Object.keys(a) as (keyof CargoItem)[];
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(key => key === 'visible' || a[key] === b[key] ||
+      (typeof a[key] === 'object' && JSON.stringify(a[key]) === JSON.stringify(b[key])));
+  }
+
+  /**
+   * Works out what changed since a snapshot, copying only the items that
+   * were added, removed, moved between containers or changed. Returns null
+   * when nothing changed (e.g. the edit was rejected by validation).
+   */
+  private diffEditor(before: EditorSnapshot): EditorChange | null {
+    this.syncActiveContainer();
+    const items: EditorChange['items'] = [];
+    const seen = new Set<string>();
+    const visit = (item: CargoItem, container: number, index: number) => {
+      seen.add(item.id);
+      const old = before.items.get(item.id) ?? null;
+      if (old && old.container === container && this.itemsMatch(old.item, item)) return;
+      items.push({ id: item.id, before: old, after: { item: { ...item }, container, index } });
+    };
+    this.shipment.forEach((c, container) => c.items.forEach((item, index) => visit(item, container, index)));
+    this.stagedItems.forEach((item, index) => visit(item, -1, index));
+    for (const [id, old] of before.items) {
+      if (!seen.has(id)) items.push({ id, before: old, after: null });
+    }
+
+    const change: EditorChange = {
+      items,
+      activeContainerIndex: { before: before.activeContainerIndex, after: this.activeContainerIndex },
+    };
+    const containerTypes = this.shipment.map(c => c.containerType);
+    if (containerTypes.length !== before.containerTypes.length || containerTypes.some((type, i) => type !== before.containerTypes[i])) {
+      change.containerTypes = { before: before.containerTypes, after: containerTypes };
+    }
+    if (this.colorMode !== before.colorMode) {
+      change.colorMode = { before: before.colorMode, after: this.colorMode };
+    }
+    if (this.annotations.length !== before.annotations.length || this.annotations.some((a, i) => a !== before.annotations[i])) {
+      change.annotations = { before: before.annotations, after: this.annotations.slice() };
+    }
+    return items.length > 0 || change.containerTypes || change.colorMode || change.annotations ? change : null;
+  }
+
+  /**
+   * Puts one side of a recorded step back: the changed items go back to
+   * their container (or staging) and list position, and the container
+   * types, color mode and notes are set when the step changed them. The
+   * items are shared with the live session. Item visibility is a view
+   * setting, so the current show/hide choices are kept.
+   */
+  private applyChange(change: EditorChange, side: 'before' | 'after'): void {
+    this.syncActiveContainer();
+    const ids = new Set(change.items.map(entry => entry.id));
+    const visibility = new Map<string, boolean>();
+    const without = (items: CargoItem[]) => items.filter(item => {
+      if (!ids.has(item.id)) return true;
+      visibility.set(item.id, item.visible);
+      return false;
+    });
+
+    if (change.containerTypes) {
+      this.shipment = change.containerTypes[side].map((containerType, i) => ({ containerType, items: this.shipment[i]?.items ?? [] }));
+    }
+    for (const container of this.shipment) container.items = without(container.items);
+    this.stagedItems = without(this.stagedItems);
+
+    // Inserting in list order puts every item back at its recorded position
+    const placements = change.items
+      .map(entry => entry[side])
+      .filter((placement): placement is ItemPlacement => placement !== null)
+      .sort((a, b) => a.index - b.index);
+    for (const { item, container, index } of placements) {
+      const list = container < 0 ? this.stagedItems : this.shipment[container]?.items;
+      if (!list) continue;
+      list.splice(Math.min(index, list.length), 0, { ...item, visible: visibility.get(item.id) ?? item.visible });
+    }
+
+    if (change.colorMode) {
+      this.colorMode = change.colorMode[side];
+      setColorModeSelect(this.colorMode);
+    }
+    if (change.annotations) this.annotations = change.annotations[side].slice();
+    this.activeContainerIndex = Math.min(change.activeContainerIndex[side], this.shipment.length - 1);
+
+    this.collab?.sendChanges(this.changeOps(change, side));
+    this.showRestoredContainer();
+  }
+
+  /**
+   * Item operations that share one side of a recorded step with the live
+   * session. Staging is not shared, so an item going to staging is a delete.
+   */
+  private changeOps(change: EditorChange, side: 'before' | 'after'): ItemOp[] {
+    const ops: ItemOp[] = [];
+    for (const entry of change.items) {
+      const now = entry[side];
+      const then = entry[side === 'before' ? 'after' : 'before'];
+      if (now && now.container >= 0) {
+        ops.push({ kind: 'put', item: { ...now.item }, container: now.container });
+      } else if (then && then.container >= 0) {
+        ops.push({ kind: 'delete', id: entry.id });
+      }
+    }
+    return ops;
+  }
+
+  /**
+   * Records one undo step from a snapshot taken before an edit. The step
+   * keeps only the items the edit changed. Nothing is recorded when the
+   * edit changed nothing (e.g. it was rejected by validation).
+   */
+  private recordHistory(label: string, before: EditorSnapshot, mergeKey?: string): void {
+    const change = this.diffEditor(before);
+    if (!change) return;
+    this.collab?.sendChanges(this.changeOps(change, 'after'));
+    this.history.push({
+      label,
+      mergeKey,
+      itemIds: new Set(change.items.map(entry => entry.id)),
+      undo: () => this.applyChange(change, 'before'),
+      redo: () => this.applyChange(change, 'after'),
+    });
+    this.markUnsaved();
+  }
+
+  /**
+   * Runs a user edit as a single undo step. Edits made inside another
+   * withHistory call (e.g. deleteItem during a move to another container)
+   * belong to the outer step.
+   *
+   * @param label - Step name shown in the Undo/Redo tooltips
+   * @param action - The edit to perform
+   * @param mergeKey - Consecutive steps with the same key merge into one (used for nudges)
+   */
+  private withHistory(label: string, action: () => void, mergeKey?: string): void {
+    if (this.historyDepth > 0) {
+      action();
+      return;
+    }
+    if (this.isReadOnlyView()) {
+      showToast('Read-only view — exit the preview or comparison to edit', 'warning');
+      return;
+    }
+
+    const before = this.snapshotEditor();
+    this.historyDepth++;
+    try {
+      action();
+    } finally {
+      this.historyDepth--;
+    }
+    this.recordHistory(label, before, mergeKey);
+  }
+
+  private undo(): void {
+    if (this.isReadOnlyView()) return;
+    const command = this.history.undo();
+    if (command) {
+      this.markUnsaved();
+      showToast(`Undid ${command.label}`, 'success');
+    } else {
+      showToast('Nothing to undo', 'warning');
+    }
+  }
+
+  private redo(): void {
+    if (this.isReadOnlyView()) return;
+    const command = this.history.redo();
+    if (command) {
+      this.markUnsaved();
+      showToast(`Redid ${command.label}`, 'success');
+    } else {
+      showToast('Nothing to redo', 'warning');
+    }
+  }
+
+  // ========================================================================
+  // CUSTOM EQUIPMENT
+  // ========================================================================
+
+  /**
+   * Opens the editor for user-defined container, truck and trailer types.
+   */
+  private showContainerEditor(): void {
+    if (this.user.role !== 'editor' && this.user.role !== 'admin') return;
+
+    showContainerEditorModal({
+      onSave: (spec) => {
+        const isNew = !CONTAINER_SPECS[spec.name];
+        CONTAINER_SPECS[spec.name] = spec;
+        this.unsavedContainerTypes.delete(spec.name);
+        this.saveCustomContainers();
+        refreshContainerSelector();
+
+        // Re-render straight away if the edited type is the one on screen
+        if (this.containerSpec.name === spec.name) {
+          this.containerSpec = spec;
+          this.buildContainer();
+        }
+        showToast(`"${spec.label}" ${isNew ? 'added' : 'updated'}`, 'success');
+        return true;
+      },
+      onDelete: (name) => {
+        this.syncActiveContainer();
+        if (this.shipment.some(c => c.containerType === name)) {
+          showToast('This equipment is used by the current shipment — switch those containers first', 'warning');
+          return false;
+        }
+        delete CONTAINER_SPECS[name];
+        this.unsavedContainerTypes.delete(name);
+        this.saveCustomContainers();
+        refreshContainerSelector();
+        return true;
+      },
+    });
+  }
+
+  // ========================================================================
+  // CONTAINER ESTIMATOR
+  // ========================================================================
+
+  /**
+   * Opens the container estimator for everything in the shipment plus staging.
+   */
+  private showEstimator(): void {
+    this.syncActiveContainer();
+    const cargo = [...this.shipment.flatMap(c => c.items), ...this.stagedItems];
+    if (cargo.length === 0) {
+      showToast('Add or stage items before estimating containers', 'warning');
+      return;
+    }
+
+    const specs = Object.values(CONTAINER_SPECS);
+    showContainerEstimatorModal(
+      estimateContainers(cargo, specs, this.containerRates),
+      this.containerRates,
+      (rates) => {
+        this.containerRates = rates;
+        persistence.setItem('containerRates', JSON.stringify(rates)).catch(() => { /* ignore */ });
+        return estimateContainers(cargo, specs, rates);
+      }
+    );
+  }
+
   // ========================================================================
   // SAVE/LOAD FUNCTIONALITY
   // ========================================================================
@@ -1025,16 +2306,48 @@ export class ContainerVizApp {
       showToast('View-only access — saving is not permitted', 'warning');
       return;
     }
-    if (this.items.length === 0) {
+    if (this.isReadOnlyView()) {
+      showToast('Exit the revision preview or comparison before saving', 'warning');
+      return;
+    }
+    this.syncActiveContainer();
+    if (this.shipment.every(c => c.items.length === 0)) {
       showToast('Add items to the container before saving', 'warning');
       return;
     }
 
-    const data: SavedLoad = {
-      version: '1.0',
-      containerType: this.containerSpec.name,
-      items: this.items,
+    showProjectsModal({
+      mode: 'save',
+      user: this.user,
+      saveData: this.buildSavedLoad(),
+      currentProject: this.currentProject,
+      onSaved: (project) => {
+        this.currentProject = { id: project.id, revision: project.revision };
+        this.markSaved();
+      },
+      onLoad: (savedLoad, project) => this.applyLoadedData(savedLoad, project),
+      onPreviewRevision: (project, revision) => this.previewRevision(project, revision),
+      onCompare: (before, after) => this.startComparison(before, after),
+    });
+  }
+
+  /**
+   * Captures the whole editor state (every container, staging, notes and
+   * view preferences) as a SavedLoad.
+   */
+  private buildSavedLoad(): SavedLoad {
+    this.syncActiveContainer();
+    const isMulti = this.shipment.length > 1;
+    const annotations = liveAnnotations(this.annotations, this.shipment, this.stagedItems);
+    return {
+      version: isMulti ? '1.1' : '1.0',
+      containerType: this.shipment[0].containerType,
+      items: this.shipment[0].items,
+      containers: isMulti ? this.shipment : undefined,
+      activeContainer: isMulti ? this.activeContainerIndex : undefined,
+      customContainers: this.getUsedCustomContainers(),
       staged: this.stagedItems.length > 0 ? this.stagedItems : undefined,
+      annotations: annotations.length > 0 ? annotations : undefined,
       preferences: {
         gridSize: this.gridSize,
         colorMode: this.colorMode,
@@ -1042,83 +2355,738 @@ export class ContainerVizApp {
       },
       exportDate: new Date().toISOString(),
     };
+  }
+
+  // ========================================================================
+  // AUTOSAVE AND SESSION RESTORE
+  // ========================================================================
+
+  /** Notes an edit for the next autosave and the unsaved-changes warning */
+  private markUnsaved(): void {
+    this.unsavedChanges = true;
+    this.autosavePending = true;
+  }
+
+  /** The scene matches a saved or freshly loaded project; drops the autosaved session */
+  private markSaved(): void {
+    this.unsavedChanges = false;
+    this.autosavePending = false;
+    persistence.removeItem(AUTOSAVE_KEY + this.user.username).catch(() => { /* ignore */ });
+  }
+
+  /**
+   * Writes unsaved changes to local storage every AUTOSAVE_INTERVAL_MS and
+   * when the tab is closed, and asks for confirmation before closing a tab
+   * with unsaved changes.
+   */
+  private startAutosave(): void {
+    window.setInterval(() => this.autosave(), AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', (e) => {
+      this.autosave();
+      if (this.unsavedChanges) {
+        e.preventDefault();
+        e.returnValue = '';
+      }
+    });
+  }
+
+  /** Writes the current session to local storage if it changed since the last autosave */
+  private autosave(): void {
+    if (!this.autosavePending || this.isReadOnlyView()) return;
+    const record: AutosaveRecord = {
+      savedAt: new Date().toISOString(),
+      data: this.buildSavedLoad(),
+    };
+    this.autosavePending = false;
+    persistence.setItem(AUTOSAVE_KEY + this.user.username, JSON.stringify(record)).catch(() => { /* ignore */ });
+  }
+
+  /**
+   * Offers to restore this user's autosaved session when a previous tab was
+   * closed with unsaved changes.
+   */
+  private async offerSessionRestore(): Promise<void> {
+    let record: AutosaveRecord | null = null;
+    try {
+      const raw = await persistence.getItem(AUTOSAVE_KEY + this.user.username);
+      if (raw) record = JSON.parse(raw);
+    } catch (e) { /* ignore */ }
+    if (!record || !record.data) return;
+
+    showRestoreSessionModal(
+      record,
+      () => {
+        this.applyLoadedData({ ...record!.data, loadName: 'unsaved session' });
+        this.markUnsaved();
+      },
+      () => this.markSaved()
+    );
+  }
+
+  /**
+   * Opens the cloud Projects modal to load a saved project.
+   * Both editors and viewers can load; editors can also delete projects.
+   */
+  private loadFile(): void {
+    showProjectsModal({
+      mode: 'load',
+      user: this.user,
+      onLoad: (savedLoad, project) => this.applyLoadedData(savedLoad, project),
+      onPreviewRevision: (project, revision) => this.previewRevision(project, revision),
+      onCompare: (before, after) => this.startComparison(before, after),
+    });
+  }
+
+  /**
+   * Applies a SavedLoad object to the current scene.
+   * Used by cloud load, local import and session restore.
+   *
+   * @param savedLoad - The load to show
+   * @param project - The cloud project it came from, if any (base of the next overwrite)
+   */
+  private applyLoadedData(savedLoad: SavedLoad, project: ProjectFull | null = null): void {
+    if (!savedLoad.version || !savedLoad.containerType || !savedLoad.items) {
+      showToast('Invalid project data', 'error');
+      return;
+    }
+
+    this.exitRevisionPreview();
+    this.exitComparison();
+    this.syncActiveContainer();
+    if (this.shipment.some(c => c.items.length > 0)) {
+      if (!confirm('Loading this project will replace your current items. Continue?')) return;
+    }
+
+    if (this.collab) this.stopLive();
+    this.clearAll();
+
+    if (savedLoad.preferences) {
+      if (savedLoad.preferences.gridSize) this.gridSize = savedLoad.preferences.gridSize;
+      if (savedLoad.preferences.colorMode) this.colorMode = savedLoad.preferences.colorMode;
+      if (savedLoad.preferences.snapEnabled !== undefined) this.snapEnabled = savedLoad.preferences.snapEnabled;
+    }
+
+    this.registerSavedContainers(savedLoad, true);
+    const state = this.editorStateFromSavedLoad(savedLoad);
+    this.shipment = state.shipment;
+    this.activeContainerIndex = state.activeContainerIndex;
+    this.stagedItems = state.stagedItems;
+    this.annotations = state.annotations;
+    this.refreshStagingList();
+
+    this.showActiveContainer();
+    this.history.clear();
+    this.markSaved();
+    this.currentProject = project ? { id: project.id, revision: project.revision } : null;
+    const itemCount = this.shipment.reduce((sum, c) => sum + c.items.length, 0);
+    const containerNote = this.shipment.length > 1 ? ` in ${this.shipment.length} containers` : '';
+    const stagingNote = this.stagedItems.length > 0 ? ` (${this.stagedItems.length} in staging)` : '';
+    showToast(
+      `Loaded "${savedLoad.loadName || savedLoad.containerType}" — ${itemCount} items${containerNote}${stagingNote}`,
+      'success'
+    );
+  }
+
+  /**
+   * Registers equipment defined on another machine so a saved load can be shown.
+   * Specs that fail the checks of containerSpecFromData are skipped.
+   *
+   * @param keep - Whether the load becomes the working load; equipment
+   *   registered for a preview or comparison is not saved to localStorage
+   */
+  private registerSavedContainers(savedLoad: SavedLoad, keep: boolean): void {
+    let added = false;
+    let kept = false;
+    for (const data of savedLoad.customContainers ?? []) {
+      const spec = containerSpecFromData(data);
+      if (!spec) continue;
+      if (!Object.prototype.hasOwnProperty.call(CONTAINER_SPECS, spec.name)) {
+        CONTAINER_SPECS[spec.name] = spec;
+        added = true;
+        if (keep) kept = true;
+        else this.unsavedContainerTypes.add(spec.name);
+      } else if (keep && this.unsavedContainerTypes.delete(spec.name)) {
+        kept = true;
+      }
+    }
+    if (kept) this.saveCustomContainers();
+    if (added) refreshContainerSelector();
+  }
+
+  /**
+   * Reads the shipment, staging, color mode and notes of a SavedLoad,
+   * filling in fields that older saves lack.
+   */
+  private editorStateFromSavedLoad(savedLoad: SavedLoad): EditorState {
+    // v1.0 files hold a single container in containerType/items
+    const containers = savedLoad.containers && savedLoad.containers.length > 0
+      ? savedLoad.containers
+      : [{ containerType: savedLoad.containerType, items: savedLoad.items }];
+    const shipment = containers.map(c => ({
+      containerType: Object.prototype.hasOwnProperty.call(CONTAINER_SPECS, c.containerType) ? c.containerType : this.containerSpec.name,
+      items: c.items.map(itemData => ({
+        ...itemData,
+        acceptsOnTop: itemData.acceptsOnTop ?? 'all',
+        canStackOn: itemData.canStackOn ?? 'all',
+      })),
+    }));
+    const active = savedLoad.activeContainer ?? 0;
+
+    return {
+      shipment,
+      activeContainerIndex: active >= 0 && active < shipment.length ? active : 0,
+      stagedItems: (savedLoad.staged ?? []).map(itemData => ({
+        ...itemData,
+        acceptsOnTop: itemData.acceptsOnTop ?? 'all',
+        canStackOn: itemData.canStackOn ?? 'all',
+      })),
+      colorMode: savedLoad.preferences?.colorMode ?? this.colorMode,
+      annotations: savedLoad.annotations ?? [],
+    };
+  }
+
+  // ========================================================================
+  // REVISION PREVIEW
+  // ========================================================================
+
+  /**
+   * Shows a project revision in the scene without touching the current load.
+   * Editing is blocked until the preview is exited, restored or forked.
+   */
+  private previewRevision(project: ProjectSummary, revision: ProjectRevisionFull): void {
+    if (this.collab) {
+      showToast('Leave the live session before previewing revisions', 'warning');
+      return;
+    }
+    const savedLoad = revision.data as SavedLoad;
+    if (!savedLoad.version || !savedLoad.containerType || !savedLoad.items) {
+      showToast('Invalid revision data', 'error');
+      return;
+    }
+
+    this.exitComparison();
+
+    // Previewing another revision keeps the original load to return to
+    const returnState = this.revisionPreview?.returnState ?? this.captureState();
+    this.selectItem(null);
+    this.registerSavedContainers(savedLoad, false);
+    this.revisionPreview = { project, revision, returnState };
+    this.restoreState(this.editorStateFromSavedLoad(savedLoad));
+    this.refreshRevisionBanner();
+    showToast(`Previewing revision ${revision.revision} of "${project.name}" (read-only)`, 'success');
+  }
+
+  /** Ends the preview and puts the load from before it back */
+  private exitRevisionPreview(): void {
+    if (!this.revisionPreview) return;
+    const { returnState } = this.revisionPreview;
+    this.revisionPreview = null;
+    this.selectItem(null);
+    this.restoreState(returnState);
+    this.refreshRevisionBanner();
+  }
+
+  /** Keeps the previewed revision as the working load once it has been restored or forked */
+  private adoptRevisionPreview(): void {
+    if (this.revisionPreview) this.registerSavedContainers(this.revisionPreview.revision.data as SavedLoad, true);
+    this.revisionPreview = null;
+    this.history.clear();
+    this.markSaved();
+    this.refreshRevisionBanner();
+    this.refreshUI();
+  }
+
+  private async restorePreviewedRevision(): Promise<void> {
+    const preview = this.revisionPreview;
+    if (!preview) return;
+    const rev = preview.revision.revision;
+    const unsavedNote = this.unsavedChanges ? ' Your unsaved changes to the current load will be discarded.' : '';
+    if (!confirm(`Restore revision ${rev} of "${preview.project.name}"? The current project data stays in the history.${unsavedNote}`)) return;
+
+    try {
+      const restored = await apiRestoreProjectRevision(preview.project.id, rev);
+      if (this.revisionPreview !== preview) return;
+      this.adoptRevisionPreview();
+      this.currentProject = { id: restored.id, revision: restored.revision };
+      showToast(`Restored revision ${rev} of "${restored.name}"`, 'success');
+    } catch (err) {
+      showToast((err as Error).message || 'Could not restore revision', 'error');
+    }
+  }
+
+  private async forkPreviewedRevision(): Promise<void> {
+    const preview = this.revisionPreview;
+    if (!preview) return;
+    const rev = preview.revision.revision;
+    const name = prompt('Name for the new project:', `${preview.project.name} (rev ${rev})`);
+    if (name === null) return;
+    if (this.unsavedChanges && !confirm('Your unsaved changes to the current load will be discarded. Continue?')) return;
+
+    try {
+      const fork = await apiForkProjectRevision(preview.project.id, rev, name.trim() || undefined);
+      if (this.revisionPreview !== preview) return;
+      this.adoptRevisionPreview();
+      this.currentProject = { id: fork.id, revision: fork.revision };
+      showToast(`Forked revision ${rev} as "${fork.name}"`, 'success');
+    } catch (err) {
+      showToast((err as Error).message || 'Could not fork revision', 'error');
+    }
+  }
+
+  private refreshRevisionBanner(): void {
+    const preview = this.revisionPreview;
+    updateRevisionBanner(
+      preview ? {
+        projectName: preview.project.name,
+        revision: preview.revision.revision,
+        author: preview.revision.author_name,
+        savedAt: preview.revision.created_at,
+      } : null,
+      this.user.role === 'editor' || this.user.role === 'admin',
+      {
+        onRestore: () => this.restorePreviewedRevision(),
+        onFork: () => this.forkPreviewedRevision(),
+        onExit: () => this.exitRevisionPreview(),
+      }
+    );
+  }
+
+  /** Whether the scene shows a revision preview or comparison rather than the user's load */
+  private isReadOnlyView(): boolean {
+    return this.revisionPreview !== null || this.comparison !== null;
+  }
+
+  /** Whether the user may edit the scene (editors, and not in a read-only view) */
+  private canEdit(): boolean {
+    return (this.user.role === 'editor' || this.user.role === 'admin') && !this.isReadOnlyView();
+  }
+
+  // ========================================================================
+  // COMPARE MODE
+  // ========================================================================
+
+  /**
+   * Compares two loads and shows the later one read-only, each item colored
+   * by its change, with outlines where removed and moved items used to be.
+   *
+   * @param before - The earlier version
+   * @param after - The later version, or null for the current scene
+   */
+  private startComparison(before: ComparisonSide, after: ComparisonSide | null): void {
+    if (this.collab) {
+      showToast('Leave the live session before comparing loads', 'warning');
+      return;
+    }
+    this.exitRevisionPreview();
+    this.exitComparison();
+
+    const later = after ?? { label: 'Current scene', load: this.buildSavedLoad() };
+    for (const side of [before, later]) {
+      if (!side.load.version || !side.load.containerType || !side.load.items) {
+        showToast(`Invalid data in ${side.label}`, 'error');
+        return;
+      }
+      this.registerSavedContainers(side.load, false);
+    }
+
+    const result = compareLoads(before.load, later.load);
+    const changes = new Map(result.changes.map(change => [change.id, change]));
+    const state = this.editorStateFromSavedLoad(later.load);
+    for (const container of state.shipment) {
+      for (const item of container.items) item.color = changeColor(changes.get(item.id));
+    }
+
+    this.selectItem(null);
+    this.comparison = { before, after: later, result, returnState: this.captureState() };
+    this.restoreState(state);
+    this.refreshComparePanel();
+    showToast(`Comparing ${before.label} with ${later.label} — ${result.changes.length} change${result.changes.length === 1 ? '' : 's'}`, 'success');
+  }
+
+  /** Ends compare mode and puts the load from before it back */
+  private exitComparison(): void {
+    if (!this.comparison) return;
+    const { returnState } = this.comparison;
+    this.comparison = null;
+    this.selectItem(null);
+    this.restoreState(returnState);
+    this.refreshComparePanel();
+  }
+
+  /** Selects a compared item, switching to its container first */
+  private selectComparedItem(id: string): void {
+    this.syncActiveContainer();
+    const index = this.shipment.findIndex(c => c.items.some(i => i.id === id));
+    if (index < 0) return;
+    this.switchContainer(index);
+    this.selectItem(id);
+  }
+
+  /**
+   * Redraws the outlines of removed items and of moved items' old positions
+   * for the active container.
+   */
+  private updateComparisonGhosts(): void {
+    if (!this.scene) return;
+    if (this.comparisonGhosts) {
+      this.scene.remove(this.comparisonGhosts);
+      disposeObject(this.comparisonGhosts);
+      this.comparisonGhosts = null;
+    }
+    if (!this.comparison) return;
+
+    const group = new THREE.Group();
+    group.name = 'comparison-ghosts';
+    for (const change of this.comparison.result.changes) {
+      const kind = change.kinds[0];
+      if ((kind === 'removed' || kind === 'moved') && change.before && change.containerBefore === this.activeContainerIndex) {
+        group.add(createChangeGhostMesh(change.before, CHANGE_COLORS[kind]));
+      }
+    }
+    this.comparisonGhosts = group;
+    this.scene.add(group);
+  }
+
+  private refreshComparePanel(): void {
+    const comparison = this.comparison;
+    updateComparePanel(
+      comparison ? {
+        before: comparison.before.label,
+        after: comparison.after.label,
+        comparison: comparison.result,
+        containerCount: Math.max(this.shipment.length, comparison.before.load.containers?.length ?? 1),
+      } : null,
+      {
+        onSelect: (id) => this.selectComparedItem(id),
+        onExit: () => this.exitComparison(),
+      }
+    );
+  }
+
+  // ========================================================================
+  // LIVE COLLABORATION
+  // ========================================================================
+
+  /**
+   * Joins the live session of the open cloud project. The first user in
+   * starts the session with their load; later users switch to the session's
+   * load. Item edits are then shared both ways as they happen.
+   */
+  private startLive(): void {
+    if (!this.currentProject) {
+      showToast('Open or save a cloud project first — live sessions are per project', 'warning');
+      return;
+    }
+    if (this.isReadOnlyView()) {
+      showToast('Exit the revision preview or comparison before going live', 'warning');
+      return;
+    }
+    if (this.unsavedChanges && !confirm('If others are already editing this project live, their load replaces your unsaved changes. Continue?')) return;
+
+    this.syncActiveContainer();
+    const session = new CollabSession(this.currentProject.id, this.shipment, {
+      onWelcome: (shipment, peers) => this.joinLiveSession(shipment, peers),
+      onRemoteOps: (ops) => this.applyItemOps(ops),
+      onReject: (op, by) => this.rejectItemOp(op, by),
+      onPeerJoin: (peer) => showToast(`${peer.username} joined the live session`, 'success'),
+      onPeerLeave: (peer) => showToast(`${peer.username} left the live session`, 'success'),
+      onPeersChange: (peers) => {
+        updateLiveButton(peers);
+        this.updatePeerMarkers();
+      },
+      onClose: (reason) => {
+        if (this.collab !== session) return;
+        this.endLive();
+        if (reason) showToast(reason, 'error');
+      },
+    });
+    this.collab = session;
+    updateLiveButton([]);
+  }
+
+  private stopLive(): void {
+    const session = this.collab;
+    if (!session) return;
+    this.endLive();
+    session.close();
+    showToast('Left the live session', 'success');
+  }
+
+  private endLive(): void {
+    this.collab = null;
+    this.collabCursor = null;
+    updateLiveButton(null);
+    this.updatePeerMarkers();
+  }
+
+  /**
+   * Only item changes are shared, so containers and notes stay as they are
+   * while the session is open (see refuseWhileLive).
+   */
+  private refuseWhileLive(action: string): boolean {
+    if (!this.collab) return false;
+    showToast(`Leave the live session to ${action}`, 'warning');
+    return true;
+  }
+
+  /**
+   * Switches to the session's load when joining others who are already
+   * editing. Undo history is cleared either way: earlier steps may change
+   * containers or notes, which the session does not share.
+   */
+  private joinLiveSession(shipment: ShipmentContainer[], peers: Peer[]): void {
+    if (peers.length === 0) {
+      showToast('Live session started — others who open this project and click Live will join you', 'success');
+    } else {
+      const state = this.captureState();
+      const sessionIds = new Set(shipment.flatMap(c => c.items.map(i => i.id)));
+      this.selectItem(null);
+      this.restoreState({
+        ...state,
+        shipment,
+        activeContainerIndex: Math.min(state.activeContainerIndex, shipment.length - 1),
+        stagedItems: state.stagedItems.filter(i => !sessionIds.has(i.id)),
+      });
+      showToast(`Joined the live session with ${peers.map(p => p.username).join(', ')}`, 'success');
+    }
+    this.history.clear();
+    updateLiveButton(peers);
+    this.updatePeerMarkers();
+    this.sharePresence();
+  }
+
+  /**
+   * Applies item changes from the live session to the scene. Undo steps
+   * that touch the changed items are dropped so undo never reverts other
+   * users' work; steps on other items stay.
+   */
+  private applyItemOps(ops: ItemOp[]): void {
+    this.syncActiveContainer();
+    const visibility = new Map(this.shipment.flatMap(c => c.items.map(i => [i.id, i.visible] as const)));
+
+    for (const op of ops) {
+      if (op.kind === 'delete') {
+        for (const container of this.shipment) container.items = container.items.filter(i => i.id !== op.id);
+        continue;
+      }
+
+      // The session's containers do not change while it is open
+      if (!this.shipment[op.container]) continue;
+      const item = { ...op.item, visible: visibility.get(op.item.id) ?? true };
+      let replaced = false;
+      this.shipment.forEach((container, index) => {
+        const at = container.items.findIndex(i => i.id === item.id);
+        if (at < 0) return;
+        if (index === op.container) {
+          container.items[at] = item;
+          replaced = true;
+        } else {
+          container.items.splice(at, 1);
+        }
+      });
+      if (!replaced) this.shipment[op.container].items.push(item);
+      this.stagedItems = this.stagedItems.filter(i => i.id !== item.id);
+    }
+
+    this.items = this.shipment[this.activeContainerIndex].items;
+    this.history.forgetItems(new Set(ops.map(op => op.kind === 'put' ? op.item.id : op.id)));
+    this.markUnsaved();
+    this.updateAllItemMeshes();
+    this.refreshSelection();
+    this.refreshUI();
+  }
+
+  /** Puts back the session's version of an item another user changed first */
+  private rejectItemOp(op: ItemOp, by: string | null): void {
+    this.syncActiveContainer();
+    const id = op.kind === 'put' ? op.item.id : op.id;
+    const local = this.shipment.flatMap(c => c.items).find(i => i.id === id);
+    const label = op.kind === 'put' ? op.item.label : local?.label ?? 'item';
+    this.applyItemOps([op]);
+    showToast(`${by ?? 'Another user'} changed "${label}" first — your edit to it was undone`, 'warning');
+  }
+
+  /**
+   * Shares the point under the mouse (an item or the container floor) as
+   * this user's cursor, or hides it when event is null.
+   */
+  private shareCursor(event: MouseEvent | null): void {
+    if (!this.collab) return;
+    const point = event ? this.containerPointAt(event) : null;
+    this.collabCursor = point ? { container: this.activeContainerIndex, ...point } : null;
+    this.sharePresence();
+  }
+
+  private sharePresence(): void {
+    this.collab?.sendPresence(this.collabCursor, Array.from(this.selectedIds));
+  }
+
+  /** Redraws other members' cursors and selections in the active container */
+  private updatePeerMarkers(): void {
+    if (!this.scene) return;
+    if (this.peerMarkers) {
+      this.scene.remove(this.peerMarkers);
+      disposeObject(this.peerMarkers);
+      this.peerMarkers = null;
+    }
+    if (!this.collab) return;
+
+    const group = new THREE.Group();
+    group.name = 'peer-markers';
+    for (const peer of this.collab.peerList) {
+      const selection = new Set(peer.selection);
+      const selected = this.items.filter(i => selection.has(i.id));
+      if (selected.length > 0) group.add(createPeerSelection(selected, peer.color));
+      if (peer.cursor && peer.cursor.container === this.activeContainerIndex) {
+        group.add(createPeerCursor(peer.cursor.x, peer.cursor.y, peer.cursor.z, peer.color, peer.username));
+      }
+    }
+    this.peerMarkers = group;
+    this.scene.add(group);
+  }
+
+  // ========================================================================
+  // ANNOTATIONS
+  // ========================================================================
+
+  /** Notes of the active container with their numbers and marker positions */
+  private placedAnnotations(): PlacedAnnotation[] {
+    this.syncActiveContainer();
+    const live = liveAnnotations(this.annotations, this.shipment, this.stagedItems);
+    return placeAnnotations(live, this.activeContainerIndex, this.items);
+  }
+
+  /** Pins a new note to the selected item */
+  private addItemNote(): void {
+    if (!this.canEdit()) {
+      showToast('Read-only view — exit the preview or comparison to edit', 'warning');
+      return;
+    }
+    const item = this.selectedItemId ? this.items.find(i => i.id === this.selectedItemId) : undefined;
+    if (!item) {
+      showToast('Select an item first to pin a note to it', 'warning');
+      return;
+    }
+    if (this.refuseWhileLive('add notes')) return;
+    this.promptNewNote({ itemId: item.id }, `"${item.label}"`);
+  }
+
+  /** Waits for a click in the container to place a new point note */
+  private startPointNote(): void {
+    if (!this.canEdit()) {
+      showToast('Read-only view — exit the preview or comparison to edit', 'warning');
+      return;
+    }
+    if (this.refuseWhileLive('add notes')) return;
+    this.placingPointNote = true;
+    updateDropIndicator('Click in the container to place the note — Esc to cancel');
+  }
+
+  private endPointNote(): void {
+    this.placingPointNote = false;
+    updateDropIndicator(null);
+  }
 
-    showProjectsModal({
-      mode: 'save',
-      user: this.user,
-      saveData: data,
-    });
+  private placePointNote(point: { x: number; y: number; z: number }): void {
+    this.endPointNote();
+    const position = { x: Math.round(point.x), y: Math.round(point.y), z: Math.round(point.z) };
+    this.promptNewNote({ container: this.activeContainerIndex, position }, 'this point');
   }
 
-  /**
-   * Opens the cloud Projects modal to load a saved project.
-   * Both editors and viewers can load; editors can also delete projects.
-   */
-  private loadFile(): void {
-    showProjectsModal({
-      mode: 'load',
-      user: this.user,
-      onLoad: (savedLoad: SavedLoad) => this.applyLoadedData(savedLoad),
+  private promptNewNote(anchor: AnnotationAnchor, where: string): void {
+    const text = prompt(`Note for ${where}:`)?.trim();
+    if (!text) return;
+    this.withHistory('add note', () => {
+      this.annotations.push(createAnnotation(text, anchor, this.user.username));
+      this.updateAnnotationMarkers();
+      this.refreshNotesList();
     });
   }
 
-  /**
-   * Applies a SavedLoad object to the current scene.
-   * Used by cloud load and (if needed) any future import path.
-   */
-  private applyLoadedData(savedLoad: SavedLoad): void {
-    if (!savedLoad.version || !savedLoad.containerType || !savedLoad.items) {
-      showToast('Invalid project data', 'error');
-      return;
-    }
+  private editNote(id: string): void {
+    const note = this.annotations.find(a => a.id === id);
+    if (!note) return;
+    if (this.refuseWhileLive('edit notes')) return;
+    const text = prompt('Edit note:', note.text)?.trim();
+    if (!text || text === note.text) return;
+    this.withHistory('edit note', () => {
+      this.annotations = this.annotations.map(a => a.id === id ? { ...a, text } : a);
+      this.updateAnnotationMarkers();
+      this.refreshNotesList();
+    });
+  }
 
-    if (this.items.length > 0) {
-      if (!confirm('Loading this project will replace your current items. Continue?')) return;
-    }
+  private deleteNote(id: string): void {
+    if (this.refuseWhileLive('delete notes')) return;
+    this.withHistory('delete note', () => {
+      this.annotations = this.annotations.filter(a => a.id !== id);
+      this.updateAnnotationMarkers();
+      this.refreshNotesList();
+    });
+  }
 
-    this.clearAll();
+  /** Opens the container a note is in and selects its item */
+  private showNote(id: string): void {
+    const note = this.annotations.find(a => a.id === id);
+    if (!note) return;
+    this.syncActiveContainer();
 
-    if (CONTAINER_SPECS[savedLoad.containerType]) {
-      this.containerSpec = CONTAINER_SPECS[savedLoad.containerType];
-      this.buildContainer();
+    if (note.itemId === undefined) {
+      if (note.container !== undefined) this.switchContainer(note.container);
+      return;
     }
-
-    if (savedLoad.preferences) {
-      if (savedLoad.preferences.gridSize) this.gridSize = savedLoad.preferences.gridSize;
-      if (savedLoad.preferences.colorMode) this.colorMode = savedLoad.preferences.colorMode;
-      if (savedLoad.preferences.snapEnabled !== undefined) this.snapEnabled = savedLoad.preferences.snapEnabled;
+    const container = this.shipment.findIndex(c => c.items.some(i => i.id === note.itemId));
+    if (container < 0) {
+      showToast('That item is in staging', 'warning');
+      return;
     }
+    this.switchContainer(container);
+    this.selectItem(note.itemId);
+  }
 
-    for (const itemData of savedLoad.items) {
-      const item: CargoItem = {
-        ...itemData,
-        acceptsOnTop: itemData.acceptsOnTop ?? 'all',
-        canStackOn: itemData.canStackOn ?? 'all',
-      };
-      this.items.push(item);
-      this.createItemMeshInternal(item);
-      this.labelManager.createLabel(item);
+  /** Redraws the note markers in the active container; they show and hide with the item labels */
+  private updateAnnotationMarkers(): void {
+    if (!this.scene) return;
+    if (this.annotationMarkers) {
+      this.scene.remove(this.annotationMarkers);
+      disposeObject(this.annotationMarkers);
+      this.annotationMarkers = null;
     }
 
-    // Restore staged items if any were saved
-    if (savedLoad.staged && savedLoad.staged.length > 0) {
-      this.stagedItems = savedLoad.staged.map(itemData => ({
-        ...itemData,
-        acceptsOnTop: itemData.acceptsOnTop ?? 'all',
-        canStackOn: itemData.canStackOn ?? 'all',
-      }));
-    } else {
-      this.stagedItems = [];
+    const group = new THREE.Group();
+    group.name = 'annotation-markers';
+    for (const placed of this.placedAnnotations()) {
+      if (placed.item && !placed.item.visible) continue;
+      const { x, y, z } = placed.point;
+      group.add(createAnnotationMarker(x, y, z, placed.number, placed.annotation.text));
     }
-    this.refreshStagingList();
+    group.visible = this.labelManager.isVisible;
+    this.annotationMarkers = group;
+    this.scene.add(group);
+  }
 
-    this.refreshUI();
-    this.resetView();
-    const stagingNote = this.stagedItems.length > 0 ? ` (${this.stagedItems.length} in staging)` : '';
-    showToast(
-      `Loaded "${savedLoad.loadName || savedLoad.containerType}" — ${savedLoad.items.length} items${stagingNote}`,
-      'success'
-    );
+  private refreshNotesList(): void {
+    this.syncActiveContainer();
+    const multi = this.shipment.length > 1;
+    const notes = liveAnnotations(this.annotations, this.shipment, this.stagedItems).map((note, index) => {
+      let where: string;
+      if (note.itemId !== undefined) {
+        const container = this.shipment.findIndex(c => c.items.some(i => i.id === note.itemId));
+        const item = container >= 0
+          ? this.shipment[container].items.find(i => i.id === note.itemId)!
+          : this.stagedItems.find(i => i.id === note.itemId)!;
+        where = container < 0 ? `${item.label} (staging)` : multi ? `${item.label} in #${container + 1}` : item.label;
+      } else {
+        where = `Point${multi ? ` in #${note.container! + 1}` : ''} at ${describeAnnotationPoint(note.position!)}`;
+      }
+      return { id: note.id, number: index + 1, text: note.text, where, author: note.author };
+    });
+
+    updateNotesList(notes, this.canEdit(), {
+      onShow: (id) => this.showNote(id),
+      onEdit: (id) => this.editNote(id),
+      onDelete: (id) => this.deleteNote(id),
+    });
   }
 
   /**
@@ -1171,6 +3139,92 @@ export class ContainerVizApp {
     input.click();
   }
 
+  /**
+   * Opens a CSV or Excel packing list and shows the import wizard for it.
+   */
+  private importPackingList(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    input.style.display = 'none';
+    document.body.appendChild(input);
+
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      document.body.removeChild(input);
+      if (!file) return;
+
+      try {
+        const table = await readPackingListFile(file);
+        if (table.length === 0) {
+          showToast(`"${file.name}" has no rows`, 'warning');
+          return;
+        }
+        showImportWizardModal(file.name, table, (rows, destination) =>
+          this.withHistory('import packing list', () => this.importRows(rows, destination))
+        );
+      } catch (e) {
+        showToast((e as Error).message || 'Could not read the packing list', 'error');
+      }
+    });
+
+    input.addEventListener('cancel', () => {
+      if (document.body.contains(input)) document.body.removeChild(input);
+    });
+
+    input.click();
+  }
+
+  /**
+   * Creates the items of imported packing-list rows. Rows with a quantity
+   * become item lines. Items go to staging, or are packed into the current
+   * container with any leftovers staged with the reason.
+   */
+  private importRows(rows: ImportRow[], destination: 'staging' | 'place'): void {
+    const newItems: CargoItem[] = [];
+    for (const row of rows) {
+      if (!row.item) continue;
+      if (row.quantity === 1) {
+        newItems.push(this.createItem(row.item));
+        continue;
+      }
+      const lineId = generateLineId();
+      const color = this.colorMode === 'custom' ? getNextColor() : undefined;
+      for (let i = 0; i < row.quantity; i++) {
+        newItems.push(this.createItem({ ...row.item, label: `${row.item.label} #${i + 1}`, lineId }, color));
+      }
+    }
+
+    if (destination === 'staging') {
+      this.stagedItems.push(...newItems);
+      this.refreshStagingList();
+      showToast(`Imported ${newItems.length} items into staging`, 'success');
+      return;
+    }
+
+    const result = packItems(newItems, this.items, this.containerSpec, {
+      orientations: 'horizontal',
+      gridSize: this.snapEnabled ? this.gridSize : undefined,
+    });
+    for (const item of result.placed) {
+      this.items.push(item);
+      this.createItemMeshInternal(item);
+      this.labelManager.createLabel(item);
+    }
+    for (const { item, message } of result.unplaced) {
+      this.stagedItems.push({ ...item, posX: 0, posY: 0, posZ: 0, stagingReason: message });
+    }
+
+    this.refreshUI();
+    this.refreshStagingList();
+
+    if (result.unplaced.length === 0) {
+      showToast(`Imported and placed ${result.placed.length} items`, 'success');
+    } else {
+      showPackReportModal('Packing List Import', result.placed.length, result.unplaced);
+    }
+  }
+
   private resetView(): void {
     const cx = inchesToUnits(this.containerSpec.lengthIn) / 2;
     const cy = inchesToUnits(this.containerSpec.heightIn) / 2;
@@ -1397,7 +3451,7 @@ export class ContainerVizApp {
         dataUrl: this.captureViewSnapshot(s.view),
       }));
 
-      showManifestModal(this.items, this.containerSpec, snapshots, () => {});
+      showManifestModal(this.items, this.containerSpec, snapshots, () => {}, this.getShipmentManifest(), this.cogTolerance, this.chassis, this.placedAnnotations());
     };
 
     document.getElementById('snap-cancel')!.addEventListener('click', () => overlay.remove());
@@ -1409,7 +3463,13 @@ export class ContainerVizApp {
    * Opens the load plan order configuration modal first, then generates the plan.
    */
   private showLoadPlan(): void {
+    this.syncActiveContainer();
     if (this.items.length === 0) {
+      if (this.shipment.some(c => c.items.length > 0)) {
+        // Nothing to order here, but other containers are loaded
+        this.generateAndShowShipmentLoadPlan([], smartSortItems);
+        return;
+      }
       showToast('Add items to the container first to generate a load plan', 'warning');
       return;
     }
@@ -1419,47 +3479,50 @@ export class ContainerVizApp {
   /**
    * Shows the load order configuration step.
    * Lets the user choose a sort preset or manually reorder items before generating the plan.
+   * In a multi-container shipment it also offers a plan for the whole shipment;
+   * the other containers then use the chosen preset (smart sort after manual reordering).
    */
   private showLoadPlanOrderModal(): void {
-    // Work with a mutable copy of items in desired order
-    let orderedItems: CargoItem[] = smartSortItems(this.items);
-
     const CATEGORY_PRIORITY: Record<string, number> = {
       heavy: 0, hazardous: 1, general: 2, perishable: 3, fragile: 4,
     };
 
-    const applySort = (mode: string) => {
+    const sortItems = (items: CargoItem[], mode: string): CargoItem[] => {
       switch (mode) {
-        case 'smart':
-          orderedItems = smartSortItems(this.items);
-          break;
         case 'heaviest':
-          orderedItems = [...this.items].sort((a, b) => b.weightLbs - a.weightLbs);
-          break;
+          return [...items].sort((a, b) => b.weightLbs - a.weightLbs);
         case 'lightest':
-          orderedItems = [...this.items].sort((a, b) => a.weightLbs - b.weightLbs);
-          break;
+          return [...items].sort((a, b) => a.weightLbs - b.weightLbs);
         case 'front-to-back':
-          orderedItems = [...this.items].sort((a, b) => a.posX - b.posX);
-          break;
+          return [...items].sort((a, b) => a.posX - b.posX);
         case 'category':
-          orderedItems = [...this.items].sort((a, b) =>
+          return [...items].sort((a, b) =>
             (CATEGORY_PRIORITY[a.category] ?? 99) - (CATEGORY_PRIORITY[b.category] ?? 99)
           );
-          break;
+        default:
+          return smartSortItems(items);
       }
     };
 
+    // Work with a mutable copy of items in desired order
+    let sortMode = 'smart';
+    let orderedItems: CargoItem[] = sortItems(this.items, sortMode);
+
+    const applySort = (mode: string) => {
+      sortMode = mode;
+      orderedItems = sortItems(this.items, mode);
+    };
+
     const renderList = (): string => orderedItems.map((item, idx) => `
       <div class="lpo-item" data-lpo-idx="${idx}">
         <button class="lpo-move-btn" data-lpo-dir="up" data-lpo-idx="${idx}" ${idx === 0 ? 'disabled' : ''} title="Move up">&#9650;</button>
         <button class="lpo-move-btn" data-lpo-dir="down" data-lpo-idx="${idx}" ${idx === orderedItems.length - 1 ? 'disabled' : ''} title="Move down">&#9660;</button>
         <span class="lpo-step-num">${idx + 1}</span>
         <span class="lpo-color" style="background:${item.color}"></span>
-        <span class="lpo-label">${item.label}</span>
+        <span class="lpo-label">${escapeHtml(item.label)}</span>
         <span class="category-badge ${item.category}">${item.category}</span>
-        <span class="lpo-weight">${item.weightLbs.toLocaleString()} lbs</span>
-        <span class="lpo-dims">${item.lengthIn}"x${item.widthIn}"x${item.heightIn}"</span>
+        <span class="lpo-weight">${formatMass(item.weightLbs)}</span>
+        <span class="lpo-dims">${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</span>
       </div>
     `).join('');
 
@@ -1495,6 +3558,7 @@ export class ContainerVizApp {
 
         <div style="display:flex;gap:8px;justify-content:flex-end;margin-top:16px;padding-top:12px;border-top:1px solid var(--border-color)">
           <button class="btn btn-secondary" id="lpo-cancel">Cancel</button>
+          ${this.shipment.length > 1 ? `<button class="btn btn-secondary" id="lpo-generate-shipment" title="Steps for every container of the shipment, this one in the order above">Whole Shipment Plan</button>` : ''}
           <button class="btn btn-primary" id="lpo-generate">Generate Load Plan</button>
         </div>
       </div>
@@ -1521,6 +3585,7 @@ export class ContainerVizApp {
           // Swap items
           [orderedItems[idx], orderedItems[newIdx]] = [orderedItems[newIdx], orderedItems[idx]];
           // Clear active preset since order is now manual
+          sortMode = 'manual';
           overlay.querySelectorAll('.lpo-preset-btn').forEach(b => b.classList.remove('active'));
           refreshList();
         });
@@ -1546,6 +3611,11 @@ export class ContainerVizApp {
       this.generateAndShowLoadPlan(orderedItems);
     });
 
+    document.getElementById('lpo-generate-shipment')?.addEventListener('click', () => {
+      overlay.remove();
+      this.generateAndShowShipmentLoadPlan(orderedItems, items => sortItems(items, sortMode));
+    });
+
     overlay.addEventListener('click', (e) => {
       if (e.target === overlay) overlay.remove();
     });
@@ -1554,13 +3624,58 @@ export class ContainerVizApp {
   /**
    * Generates incremental snapshots and opens the load plan result modal
    * using the given pre-ordered items array.
-   * 
-   * Each step snapshot is rendered at a fixed 800×480 resolution from the
-   * isometric view angle so that print output is always consistent.
    */
   private generateAndShowLoadPlan(orderedItems: CargoItem[]): void {
-    const steps = generateLoadPlan(this.items, this.containerSpec, orderedItems);
+    const steps = generateLoadPlan(this.items, this.containerSpec, orderedItems, this.placedAnnotations());
+    this.snapshotLoadSteps(steps);
+    this.showLoadPlanModal([{ index: this.activeContainerIndex, container: this.containerSpec, items: this.items, steps }]);
+  }
+
+  /**
+   * Generates the plan of every shipment container and opens the load plan
+   * result modal. The active container is loaded in the given order, the
+   * others in the order sortItems gives. Each loaded container is shown in
+   * the 3D view in turn for its snapshots, then the active one is shown again.
+   */
+  private generateAndShowShipmentLoadPlan(
+    orderedItems: CargoItem[],
+    sortItems: (items: CargoItem[]) => CargoItem[]
+  ): void {
+    this.syncActiveContainer();
+    const activeIndex = this.activeContainerIndex;
+    const live = liveAnnotations(this.annotations, this.shipment, this.stagedItems);
+    const plans = generateShipmentLoadPlan(this.shipment.map((c, index) => ({
+      container: CONTAINER_SPECS[c.containerType] ?? this.containerSpec,
+      items: c.items,
+      preOrderedItems: index === activeIndex ? orderedItems : sortItems(c.items),
+      annotations: placeAnnotations(live, index, c.items),
+    })));
+
+    const camPos = this.camera.position.clone();
+    const camTarget = this.controls.target.clone();
+    for (const plan of plans) {
+      if (plan.steps.length === 0) continue;
+      this.switchContainer(plan.index);
+      this.snapshotLoadSteps(plan.steps);
+    }
+    if (this.activeContainerIndex !== activeIndex) {
+      this.switchContainer(activeIndex);
+      this.camera.position.copy(camPos);
+      this.controls.target.copy(camTarget);
+      this.controls.update();
+    }
+
+    this.showLoadPlanModal(plans);
+  }
 
+  /**
+   * Renders a snapshot for each step of the container shown in the 3D view,
+   * revealing the items one step at a time.
+   *
+   * Each step snapshot is rendered at a fixed 800×480 resolution from the
+   * isometric view angle so that print output is always consistent.
+   */
+  private snapshotLoadSteps(steps: LoadStep[]): void {
     // Save original visibility
     const originalVisibility: Map<string, boolean> = new Map();
     for (const item of this.items) {
@@ -1574,9 +3689,10 @@ export class ContainerVizApp {
       if (mesh) mesh.visible = false;
     }
 
-    // Temporarily hide labels for clean snapshots
+    // Temporarily hide labels and note markers for clean snapshots
     const labelsWereVisible = this.labelManager.isVisible;
     this.labelManager.setVisible(false);
+    if (this.annotationMarkers) this.annotationMarkers.visible = false;
 
     // ── Fixed-size snapshot setup ──────────────────────────────────────────
     // Resize the renderer to a consistent 800×480 pixel buffer (at 1:1 DPR)
@@ -1643,22 +3759,32 @@ export class ContainerVizApp {
     }
 
     this.labelManager.setVisible(labelsWereVisible);
-
-    this.showLoadPlanModal(steps);
+    if (this.annotationMarkers) this.annotationMarkers.visible = labelsWereVisible;
   }
 
-  private showLoadPlanModal(steps: LoadStep[]): void {
+  /**
+   * Shows load plan results: one plan for a single container, or the plan of
+   * every shipment container for a shipment-wide plan.
+   */
+  private showLoadPlanModal(plans: ContainerLoadPlan[]): void {
+    const wholeShipment = plans.length > 1;
+    const plan = plans[0];
+    const loadedCount = plans.filter(p => p.steps.length > 0).length;
     const overlay = document.createElement('div');
     overlay.className = 'modal-overlay';
     overlay.innerHTML = `
       <div class="modal large" style="position:relative" id="loadplan-modal">
         <h2>Step-by-Step Load Plan</h2>
         <div style="font-size:12px;color:var(--text-muted);margin-bottom:16px">
-          Container: <strong style="color:var(--text-bright)">${this.containerSpec.label}</strong> &nbsp;|&nbsp;
-          ${this.containerSpec.lengthIn}" x ${this.containerSpec.widthIn}" x ${this.containerSpec.heightIn}" &nbsp;|&nbsp;
+          ${wholeShipment
+            ? `Shipment: <strong style="color:var(--text-bright)">${plans.length} containers</strong> (${loadedCount} loaded)`
+            : `Container: <strong style="color:var(--text-bright)">${escapeHtml(plan.container.label)}</strong>${this.shipment.length > 1 ? ` (${plan.index + 1} of ${this.shipment.length})` : ''} &nbsp;|&nbsp;
+          ${formatDimensions(plan.container.lengthIn, plan.container.widthIn, plan.container.heightIn)}`} &nbsp;|&nbsp;
           ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}
         </div>
-        ${generateLoadPlanHTML(steps, this.containerSpec, this.items)}
+        ${wholeShipment
+          ? generateShipmentLoadPlanHTML(plans, this.cogTolerance)
+          : generateLoadPlanHTML(plan.steps, plan.container, plan.items, this.cogTolerance)}
         <div class="pdf-export-section">
           <div style="display:flex;gap:8px;justify-content:flex-end;flex-wrap:wrap">
             <button class="btn btn-secondary" id="loadplan-close">Close</button>
@@ -1678,7 +3804,7 @@ export class ContainerVizApp {
     document.getElementById('loadplan-close')!.addEventListener('click', () => overlay.remove());
 
     document.getElementById('loadplan-copy')!.addEventListener('click', () => {
-      const text = this.generateLoadPlanText(steps);
+      const text = this.generateLoadPlanText(plans);
       navigator.clipboard.writeText(text).then(() => {
         showToast('Load plan copied to clipboard!', 'success');
       }).catch(() => {
@@ -1687,7 +3813,12 @@ export class ContainerVizApp {
     });
 
     document.getElementById('loadplan-print')!.addEventListener('click', () => {
-      const html = generatePrintableLoadPlan(steps, this.containerSpec, this.items);
+      const shipmentPosition = this.shipment.length > 1
+        ? { index: plan.index, count: this.shipment.length }
+        : undefined;
+      const html = wholeShipment
+        ? generatePrintableShipmentLoadPlan(plans, this.cogTolerance)
+        : generatePrintableLoadPlan(plan.steps, plan.container, plan.items, shipmentPosition, this.cogTolerance);
       try {
         const blob = new Blob([html], { type: 'text/html' });
         const url = URL.createObjectURL(blob);
@@ -1711,18 +3842,39 @@ export class ContainerVizApp {
     });
   }
 
-  private generateLoadPlanText(steps: LoadStep[]): string {
+  private generateLoadPlanText(plans: ContainerLoadPlan[]): string {
+    const wholeShipment = plans.length > 1;
     let text = `A3 SHIPPING PRO - STEP-BY-STEP LOAD PLAN\n`;
     text += `${'='.repeat(60)}\n`;
-    text += `Container: ${this.containerSpec.label}\n`;
+    if (wholeShipment) {
+      text += `Shipment: ${plans.length} containers\n`;
+    } else {
+      text += `Container: ${plans[0].container.label}`;
+      if (this.shipment.length > 1) text += ` (${plans[0].index + 1} of ${this.shipment.length})`;
+      text += `\n`;
+    }
     text += `Date: ${new Date().toLocaleString()}\n\n`;
 
+    for (const plan of plans) {
+      if (wholeShipment) {
+        text += `CONTAINER ${plan.index + 1} OF ${plans.length}: ${plan.container.label}\n`;
+        text += `${'='.repeat(60)}\n`;
+        text += plan.steps.length > 0 ? `\n` : `Empty, nothing to load\n\n`;
+      }
+      text += this.loadStepsText(plan.steps);
+    }
+
+    return text;
+  }
+
+  private loadStepsText(steps: LoadStep[]): string {
+    let text = '';
     for (const step of steps) {
       text += `STEP ${step.stepNumber}: ${step.item.label}\n`;
       text += `${'-'.repeat(40)}\n`;
-      text += `Dimensions: ${step.item.lengthIn}" x ${step.item.widthIn}" x ${step.item.heightIn}"\n`;
-      text += `Weight: ${step.item.weightLbs.toLocaleString()} lbs\n`;
-      text += `Position: X=${step.item.posX.toFixed(0)}", Y=${step.item.posY.toFixed(0)}", Z=${step.item.posZ.toFixed(0)}"\n`;
+      text += `Dimensions: ${formatDimensions(step.item.lengthIn, step.item.widthIn, step.item.heightIn)}\n`;
+      text += `Weight: ${formatMass(step.item.weightLbs)}\n`;
+      text += `Position: X=${formatLength(step.item.posX)}, Y=${formatLength(step.item.posY)}, Z=${formatLength(step.item.posZ)}\n`;
       text += `\nInstruction: ${step.instruction}\n`;
       if (step.tips.length > 0) {
         text += `\nTips:\n`;
@@ -1730,32 +3882,68 @@ export class ContainerVizApp {
           text += `  - ${tip}\n`;
         }
       }
-      text += `\nCumulative: ${step.cumulativeWeight.toLocaleString()} lbs, ${step.cumulativeUtilization.toFixed(1)}% volume\n\n`;
+      if (step.notes.length > 0) {
+        text += `\nNotes:\n`;
+        for (const note of step.notes) {
+          text += `  - ${note}\n`;
+        }
+      }
+      text += `\nCumulative: ${formatMass(step.cumulativeWeight)}, ${step.cumulativeUtilization.toFixed(1)}% volume\n\n`;
     }
 
     return text;
   }
 
   private refreshUI(): void {
-    updateStats(this.items, this.containerSpec);
+    updateStats(this.items, this.containerSpec, this.cogTolerance, this.chassis);
+    this.updateCogMarker();
     this.refreshItemsList();
     this.refreshStagingList();
+    this.refreshNotesList();
+    this.refreshShipmentTabs();
   }
 
   private refreshItemsList(): void {
-    updateItemsList(this.items, this.selectedItemId, {
-      onSelect: (id) => this.selectItem(id),
-      onDelete: (id) => this.deleteItem(id),
+    const isEditor = this.canEdit();
+    updateItemsList(this.items, this.selectedIds, {
+      onSelect: (id, additive) => additive ? this.toggleItemSelection(id) : this.selectItem(id),
+      onSelectLine: (ids, additive) => this.setSelection(ids, additive),
+      onDelete: (id) => this.withHistory('delete item', () => this.deleteItem(id)),
       onToggleVis: (id) => this.toggleItemVisibility(id),
       onEdit: (id) => this.openEditModal(id),
-      onStage: (id) => this.stageItem(id),
+      onStage: (id) => this.withHistory('stage item', () => this.stageItem(id)),
+      onUnpack: (id) => this.withHistory('unpack pallet', () => this.unpackPallet(id)),
+      onMoveToContainer: this.shipment.length > 1 ? (id) => this.openMoveToContainer(id) : undefined,
+      bulk: isEditor ? {
+        onDelete: () => this.withHistory('delete items', () => this.deleteSelected()),
+        onStage: () => this.withHistory('stage items', () => this.stageSelected()),
+        onRecolor: (color) => this.withHistory('recolor items', () => this.recolorSelected(color)),
+        onSetCategory: (category) => this.withHistory('change category', () => this.setSelectedCategory(category)),
+        onClearSelection: () => this.selectItem(null),
+      } : undefined,
     });
   }
 
+  private refreshShipmentTabs(): void {
+    this.syncActiveContainer();
+    updateShipmentTabs(
+      this.shipment.map(c => ({ label: this.containerLabel(c), itemCount: c.items.length })),
+      this.activeContainerIndex,
+      this.canEdit(),
+      {
+        onSelect: (index) => this.switchContainer(index),
+        onAdd: () => this.withHistory('add container', () => this.addContainer()),
+        onRemove: (index) => this.withHistory('remove container', () => this.removeContainer(index)),
+        onAutoSplit: () => this.withHistory('auto-split', () => this.autoSplitShipment()),
+      }
+    );
+  }
+
   private refreshStagingList(): void {
     updateStagingList(this.stagedItems, {
-      onLoad: (id) => this.loadFromStaging(id),
-      onRemove: (id) => this.removeFromStaging(id),
+      onLoad: (id) => this.withHistory('load from staging', () => this.loadFromStaging(id)),
+      onRemove: (id) => this.withHistory('remove staged item', () => this.removeFromStaging(id)),
+      onUnpack: (id) => this.withHistory('unpack pallet', () => this.unpackPallet(id)),
     });
   }
 
@@ -1765,6 +3953,7 @@ export class ContainerVizApp {
     canvas.addEventListener('mousedown', (e) => this.onMouseDown(e));
     canvas.addEventListener('mousemove', (e) => this.onMouseMove(e));
     canvas.addEventListener('mouseup', (e) => this.onMouseUp(e));
+    canvas.addEventListener('mouseleave', () => this.shareCursor(null));
     canvas.addEventListener('dblclick', (e) => this.onDoubleClick(e));
 
     window.addEventListener('keydown', (e) => {
@@ -1775,22 +3964,41 @@ export class ContainerVizApp {
       const modalOpen = document.querySelector('.modal-overlay') !== null;
 
       // Editor-only keyboard shortcuts
-      if (this.user.role === 'editor' || this.user.role === 'admin') {
+      if (this.canEdit()) {
         if (e.key === 'Delete' || e.key === 'Backspace') {
-          if (this.selectedItemId && !isInput && !modalOpen) {
-            this.deleteItem(this.selectedItemId);
+          if (this.selectedIds.size > 1 && !isInput && !modalOpen) {
+            this.withHistory('delete items', () => this.deleteSelected());
+          } else if (this.selectedItemId && !isInput && !modalOpen) {
+            const id = this.selectedItemId;
+            this.withHistory('delete item', () => this.deleteItem(id));
+          }
+        }
+
+        if ((e.ctrlKey || e.metaKey) && !isInput && !modalOpen && !this.isDragging) {
+          if (e.key === 'z' || e.key === 'Z') {
+            e.preventDefault();
+            if (e.shiftKey) this.redo();
+            else this.undo();
+            return;
+          }
+          if (e.key === 'y' || e.key === 'Y') {
+            e.preventDefault();
+            this.redo();
+            return;
           }
         }
 
-        if ((e.key === 'r' || e.key === 'R') && !isInput && !modalOpen) {
+        if ((e.key === 'r' || e.key === 'R') && !isInput && !modalOpen && !e.ctrlKey && !e.metaKey) {
           if (this.selectedItemId) {
-            this.rotateItem(this.selectedItemId, 'y');
+            const id = this.selectedItemId;
+            this.withHistory('rotate item', () => this.rotateItem(id, 'y'));
           }
         }
 
-        if ((e.key === 't' || e.key === 'T') && !isInput && !modalOpen) {
+        if ((e.key === 't' || e.key === 'T') && !isInput && !modalOpen && !e.ctrlKey && !e.metaKey) {
           if (this.selectedItemId) {
-            this.rotateItem(this.selectedItemId, 'tipForward');
+            const id = this.selectedItemId;
+            this.withHistory('rotate item', () => this.rotateItem(id, 'tipForward'));
           }
         }
 
@@ -1801,11 +4009,26 @@ export class ContainerVizApp {
             showToast('Select an item first to edit', 'warning');
           }
         }
+
+        if ((e.key === 'n' || e.key === 'N') && !isInput && !modalOpen && !e.ctrlKey && !e.metaKey) {
+          this.addItemNote();
+        }
       }
 
       if ((e.key === 'l' || e.key === 'L') && !isInput && !modalOpen) {
         this.toggleLabels();
       }
+
+      if ((e.key === 'a' || e.key === 'A') && (e.ctrlKey || e.metaKey) && !isInput && !modalOpen) {
+        e.preventDefault();
+        this.setSelection(this.items.filter(i => i.visible).map(i => i.id), false);
+      }
+
+      if (e.key === 'Escape' && !isInput && !modalOpen && this.placingPointNote) {
+        this.endPointNote();
+      } else if (e.key === 'Escape' && !isInput && !modalOpen && this.selectedIds.size > 0) {
+        this.selectItem(null);
+      }
     });
 
     window.addEventListener('keyup', (e) => {
@@ -1814,17 +4037,18 @@ export class ContainerVizApp {
 
     window.addEventListener('moveItem', ((e: CustomEvent) => {
       const { id, axis, delta } = e.detail;
-      this.moveItem(id, axis, delta);
+      this.withHistory('move item', () => this.moveItem(id, axis, delta), `nudge:${id}`);
     }) as EventListener);
 
     window.addEventListener('rotateItem', ((e: CustomEvent) => {
       const { id, rotationType } = e.detail;
-      this.rotateItem(id, rotationType);
+      this.withHistory('rotate item', () => this.rotateItem(id, rotationType));
     }) as EventListener);
 
     window.addEventListener('rotateSelected', ((e: CustomEvent) => {
       if (this.selectedItemId) {
-        this.rotateItem(this.selectedItemId, e.detail.type);
+        const id = this.selectedItemId;
+        this.withHistory('rotate item', () => this.rotateItem(id, e.detail.type));
       } else {
         showToast('No item selected to rotate', 'warning');
       }
@@ -1879,23 +4103,67 @@ export class ContainerVizApp {
     return null;
   }
 
+  /**
+   * The point under the mouse in inches (on an item, otherwise on the
+   * container floor), or null when the mouse is outside the container.
+   */
+  private containerPointAt(event: MouseEvent): { x: number; y: number; z: number } | null {
+    let point = this.raycastItems(this.getMouseNDC(event))?.point ?? null;
+    if (!point) {
+      const floorHit = new THREE.Vector3();
+      const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+      if (this.raycaster.ray.intersectPlane(floor, floorHit)) point = floorHit;
+    }
+    if (!point) return null;
+
+    const x = unitsToInches(point.x);
+    const z = unitsToInches(point.z);
+    const inside = x >= 0 && x <= this.containerSpec.lengthIn && z >= 0 && z <= this.containerSpec.widthIn;
+    return inside ? { x, y: unitsToInches(point.y), z } : null;
+  }
+
   private onMouseDown(event: MouseEvent): void {
     if (event.button !== 0) return;
 
     this.mouseDownPos = { x: event.clientX, y: event.clientY };
     this.mouseDidDrag = false;
 
+    // Placing a note: the click is handled on mouseup, dragging still orbits
+    if (this.placingPointNote) return;
+
     const ndc = this.getMouseNDC(event);
     const hit = this.raycastItems(ndc);
 
     if (hit) {
-      this.selectItem(hit.item.id);
+      const isEditor = this.canEdit();
+
+      // Ctrl/Cmd+click toggles the item in the selection without dragging
+      if (event.ctrlKey || event.metaKey) {
+        this.toggleItemSelection(hit.item.id);
+        return;
+      }
+
+      // Pressing on part of a multi-selection keeps the group so it can be
+      // dragged together; a plain click collapses it on mouseup
+      const inGroup = isEditor && this.selectedIds.size > 1 && this.selectedIds.has(hit.item.id);
+      if (inGroup) {
+        this.selectedItemId = hit.item.id;
+        showItemInfo(hit.item, this.gridSize);
+      } else {
+        this.selectItem(hit.item.id);
+      }
 
       // Viewers can select but not drag
-      if (this.user.role !== 'editor' && this.user.role !== 'admin') return;
+      if (!isEditor) return;
       
+      // Other users' edits wait until the drop so the scene holds still under the mouse
+      this.collab?.hold();
       this.dragItem = hit.item;
       this.dragStartPos = { x: hit.item.posX, y: hit.item.posY, z: hit.item.posZ };
+      this.dragStartState = this.snapshotEditor();
+      this.dragGroup = inGroup
+        ? this.getSelectedItems().map(item => ({ item, start: { x: item.posX, y: item.posY, z: item.posZ } }))
+        : [];
       this.controls.enabled = false;
 
       if (this.dragPlane) this.scene.remove(this.dragPlane);
@@ -1914,14 +4182,38 @@ export class ContainerVizApp {
       }
 
       if (this.ghostMesh) this.scene.remove(this.ghostMesh);
-      this.ghostMesh = createGhostMesh(hit.item);
-      this.scene.add(this.ghostMesh);
+      this.ghostMesh = null;
+      if (this.dragGroup.length === 0) {
+        this.ghostMesh = createGhostMesh(hit.item);
+        this.scene.add(this.ghostMesh);
+      }
+    } else if (event.shiftKey || event.altKey) {
+      // Shift+drag draws a selection box, Alt+drag a freehand lasso
+      this.marquee = {
+        mode: event.altKey ? 'lasso' : 'box',
+        points: [this.getViewportPoint(event)],
+        additive: event.ctrlKey || event.metaKey,
+      };
+      this.controls.enabled = false;
     } else {
       this.selectItem(null);
     }
   }
 
   private onMouseMove(event: MouseEvent): void {
+    if (this.collab) this.shareCursor(event);
+
+    if (this.marquee) {
+      const point = this.getViewportPoint(event);
+      if (this.marquee.mode === 'box') {
+        this.marquee.points = [this.marquee.points[0], point];
+      } else {
+        this.marquee.points.push(point);
+      }
+      updateSelectionMarquee(this.marquee.points, this.marquee.mode);
+      return;
+    }
+
     if (!this.dragItem || !this.dragPlane) return;
 
     const dx = event.clientX - this.mouseDownPos.x;
@@ -1949,6 +4241,11 @@ export class ContainerVizApp {
         newZ = snapToGrid(newZ, this.gridSize);
       }
 
+      if (this.dragGroup.length > 0) {
+        this.moveDragGroup(newX - this.dragStartPos.x, newZ - this.dragStartPos.z);
+        return;
+      }
+
       newX = Math.max(0, Math.min(newX, this.containerSpec.lengthIn - this.dragItem.lengthIn));
       newZ = Math.max(0, Math.min(newZ, this.containerSpec.widthIn - this.dragItem.widthIn));
 
@@ -1965,12 +4262,12 @@ export class ContainerVizApp {
 
         if (stackResult.stackedOn) {
           updateDropIndicator(
-            `Stacking on "${stackResult.stackedOn.label}" at Y=${this.dragItem.posY.toFixed(0)}"`,
+            `Stacking on "${stackResult.stackedOn.label}" at Y=${formatLength(this.dragItem.posY)}`,
             true
           );
         } else {
           updateDropIndicator(
-            `Floor level - X:${newX.toFixed(0)}" Z:${newZ.toFixed(0)}"`,
+            `Floor level - X:${formatLength(newX)} Z:${formatLength(newZ)}`,
             false
           );
         }
@@ -2016,7 +4313,23 @@ export class ContainerVizApp {
   }
 
   private onMouseUp(event: MouseEvent): void {
-    if (this.isDragging && this.dragItem) {
+    if (this.placingPointNote) {
+      // A drag orbited the camera instead
+      const moved = Math.hypot(event.clientX - this.mouseDownPos.x, event.clientY - this.mouseDownPos.y) >= 5;
+      const point = moved ? null : this.containerPointAt(event);
+      if (point) this.placePointNote(point);
+      return;
+    }
+
+    if (this.marquee) {
+      this.finishMarqueeSelection();
+    } else if (this.dragGroup.length > 0) {
+      if (this.isDragging) {
+        this.dropDragGroup();
+      } else if (this.dragItem) {
+        this.selectItem(this.dragItem.id);
+      }
+    } else if (this.isDragging && this.dragItem) {
       const result = validatePlacement(this.dragItem, this.items, this.containerSpec);
       
       if (!result.valid) {
@@ -2069,10 +4382,14 @@ export class ContainerVizApp {
       this.updateItemMesh(this.dragItem);
       showItemInfo(this.dragItem, this.gridSize);
       this.refreshUI();
+
+      if (this.dragStartState) this.recordHistory('move item', this.dragStartState);
     }
 
     this.isDragging = false;
     this.dragItem = null;
+    this.dragGroup = [];
+    this.dragStartState = null;
     this.controls.enabled = true;
     updateDropIndicator(null);
 
@@ -2085,6 +4402,132 @@ export class ContainerVizApp {
       this.scene.remove(this.ghostMesh);
       this.ghostMesh = null;
     }
+
+    this.collab?.release();
+  }
+
+  /**
+   * Moves every item of a group drag by the same horizontal offset, keeping
+   * their relative positions. The group is clamped to the container walls
+   * and lifted as a unit onto whatever it overlaps (or dropped to the floor
+   * with Shift).
+   */
+  private moveDragGroup(dx: number, dz: number): void {
+    const { lengthIn, widthIn } = this.containerSpec;
+    for (const { item, start } of this.dragGroup) {
+      dx = Math.max(-start.x, Math.min(dx, lengthIn - item.lengthIn - start.x));
+      dz = Math.max(-start.z, Math.min(dz, widthIn - item.widthIn - start.z));
+    }
+
+    const groupIds = new Set(this.dragGroup.map(g => g.item.id));
+    const others = this.items.filter(i => !groupIds.has(i.id));
+    const baseY = Math.min(...this.dragGroup.map(g => g.start.y));
+
+    let lift = 0;
+    for (const { item, start } of this.dragGroup) {
+      item.posX = start.x + dx;
+      item.posZ = start.z + dz;
+      if (!this.shiftHeld) {
+        const stack = findStackingY(item, others, this.containerSpec);
+        lift = Math.max(lift, stack.y - (start.y - baseY));
+      }
+    }
+    if (this.snapEnabled) lift = snapToGrid(lift, this.gridSize);
+
+    for (const { item, start } of this.dragGroup) {
+      item.posY = lift + (start.y - baseY);
+      const mesh = this.itemMeshes.get(item.id);
+      if (mesh) {
+        mesh.position.set(inchesToUnits(item.posX), inchesToUnits(item.posY), inchesToUnits(item.posZ));
+      }
+    }
+
+    const valid = this.dragGroup.every(g => validatePlacement(g.item, this.items, this.containerSpec).valid);
+    const count = this.dragGroup.length;
+    if (this.shiftHeld) {
+      updateDropIndicator(`Shift: Floor level forced - ${count} items`, false);
+    } else {
+      updateDropIndicator(valid ? `Moving ${count} items` : `Moving ${count} items - cannot place here`, valid);
+    }
+
+    this.updateSelectionHighlight();
+    if (this.dragPlane) {
+      this.dragPlane.position.y = inchesToUnits(this.dragItem!.posY);
+    }
+  }
+
+  /**
+   * Validates a dropped group as a unit: if any item is misplaced the whole
+   * group returns to where it started.
+   */
+  private dropDragGroup(): void {
+    const results = this.dragGroup.map(g => validatePlacement(g.item, this.items, this.containerSpec));
+    const failed = results.find(r => !r.valid);
+
+    if (failed) {
+      for (const { item, start } of this.dragGroup) {
+        item.posX = start.x;
+        item.posY = start.y;
+        item.posZ = start.z;
+      }
+      showValidationWarnings(failed);
+      showToast(`Could not place the ${this.dragGroup.length} selected items there — positions reverted`, 'warning');
+    } else {
+      const warned = results.find(r => r.warnings.length > 0);
+      if (warned) showValidationWarnings(warned);
+    }
+
+    for (const { item } of this.dragGroup) {
+      this.replaceItemMesh(item);
+    }
+    this.updateAnnotationMarkers();
+    this.updateSelectionHighlight();
+    this.refreshUI();
+
+    if (this.dragStartState) this.recordHistory('move items', this.dragStartState);
+  }
+
+  /**
+   * Selects the visible items whose centers fall inside the box or lasso.
+   */
+  private finishMarqueeSelection(): void {
+    const marquee = this.marquee!;
+    this.marquee = null;
+    updateSelectionMarquee(null);
+
+    const [a, b] = [marquee.points[0], marquee.points[marquee.points.length - 1]];
+    if (marquee.points.length < 2 || (Math.abs(b.x - a.x) < 3 && Math.abs(b.y - a.y) < 3)) {
+      if (!marquee.additive) this.selectItem(null);
+      return;
+    }
+
+    const rect = document.getElementById('viewport-container')!.getBoundingClientRect();
+    const ids: string[] = [];
+    for (const item of this.items) {
+      if (!item.visible) continue;
+      const center = new THREE.Vector3(
+        inchesToUnits(item.posX + item.lengthIn / 2),
+        inchesToUnits(item.posY + item.heightIn / 2),
+        inchesToUnits(item.posZ + item.widthIn / 2)
+      ).project(this.camera);
+      const point = {
+        x: (center.x + 1) / 2 * rect.width,
+        y: (1 - center.y) / 2 * rect.height,
+      };
+
+      const inside = marquee.mode === 'box'
+        ? point.x >= Math.min(a.x, b.x) && point.x <= Math.max(a.x, b.x) &&
+          point.y >= Math.min(a.y, b.y) && point.y <= Math.max(a.y, b.y)
+        : pointInPolygon(point, marquee.points);
+      if (inside) ids.push(item.id);
+    }
+
+    this.setSelection(ids, marquee.additive);
+  }
+
+  private getViewportPoint(event: MouseEvent): { x: number; y: number } {
+    const rect = document.getElementById('viewport-container')!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
   }
 
   private onDoubleClick(event: MouseEvent): void {
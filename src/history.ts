@@ -0,0 +1,150 @@
+/**
+ * Undo / Redo History
+ *
+ * Keeps a bounded stack of reversible commands for scene edits. This file contains:
+ * - The HistoryCommand interface every undoable action implements
+ * - UndoHistory, which runs undo/redo and merges repeated commands
+ *   (e.g. consecutive keyboard nudges of the same item) into a single step
+ *
+ * Commands say which items they change, so steps that touch items another
+ * user has since changed can be dropped without losing the rest.
+ */
+
+/**
+ * A reversible edit.
+ * undo() and redo() must be safe to call any number of times in alternation.
+ */
+export interface HistoryCommand {
+  /** Short description shown in the toolbar tooltips, e.g. 'Rotate item' */
+  label: string;
+
+  undo(): void;
+  redo(): void;
+
+  /**
+   * Commands pushed back to back with the same mergeKey collapse into one
+   * step that undoes to the first command's state and redoes to the last.
+   */
+  mergeKey?: string;
+
+  /** IDs of the cargo items the command changes */
+  itemIds?: ReadonlySet<string>;
+}
+
+/**
+ * Undo/redo stacks for the editor.
+ *
+ * @example
+ * const history = new UndoHistory(100, () => updateButtons());
+ * history.push({ label: 'Delete item', undo: () => restore(), redo: () => remove() });
+ * history.undo();
+ */
+export class UndoHistory {
+  /** Commands that can be undone, oldest first */
+  private undoStack: HistoryCommand[] = [];
+
+  /** Commands that were undone and can be redone, most recently undone last */
+  private redoStack: HistoryCommand[] = [];
+
+  /**
+   * Creates an empty history.
+   * @param limit - Maximum number of undo steps kept
+   * @param onChange - Called whenever either stack changes
+   */
+  constructor(private limit: number = 100, private onChange: () => void = () => {}) {}
+
+  /**
+   * Records a command that has already been performed.
+   * Clears the redo stack.
+   */
+  push(command: HistoryCommand): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (command.mergeKey && last && last.mergeKey === command.mergeKey && this.redoStack.length === 0) {
+      this.undoStack[this.undoStack.length - 1] = {
+        label: command.label,
+        mergeKey: command.mergeKey,
+        undo: last.undo,
+        redo: command.redo,
+        itemIds: new Set([...(last.itemIds ?? []), ...(command.itemIds ?? [])]),
+      };
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.onChange();
+  }
+
+  /**
+   * Undoes the most recent command.
+   * @returns The command that was undone, or null if there was nothing to undo
+   */
+  undo(): HistoryCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    this.onChange();
+    return command;
+  }
+
+  /**
+   * Redoes the most recently undone command.
+   * @returns The command that was redone, or null if there was nothing to redo
+   */
+  redo(): HistoryCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.redo();
+    // Strip the merge key so a following edit never folds into a redone step
+    this.undoStack.push({ ...command, mergeKey: undefined });
+    this.onChange();
+    return command;
+  }
+
+  /**
+   * Forgets the commands that change any of the given items, and the
+   * commands that depend on them: older ones on the undo stack, newer ones
+   * on the redo stack. Used when someone else changed those items, so undo
+   * never reverts their work.
+   */
+  forgetItems(ids: ReadonlySet<string>): void {
+    const touches = (command: HistoryCommand) => Array.from(command.itemIds ?? []).some(id => ids.has(id));
+    const keepAfter = (stack: HistoryCommand[]) => {
+      for (let i = stack.length - 1; i >= 0; i--) {
+        if (touches(stack[i])) return stack.slice(i + 1);
+      }
+      return stack;
+    };
+    const undoCount = this.undoStack.length;
+    const redoCount = this.redoStack.length;
+    this.undoStack = keepAfter(this.undoStack);
+    this.redoStack = keepAfter(this.redoStack);
+    if (this.undoStack.length !== undoCount || this.redoStack.length !== redoCount) this.onChange();
+  }
+
+  /** Forgets all history (e.g. after loading a different project) */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.onChange();
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Label of the command undo() would revert, if any */
+  get undoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /** Label of the command redo() would reapply, if any */
+  get redoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+}
@@ -0,0 +1,473 @@
+/**
+ * Packing List Import
+ *
+ * Turns customer packing lists (CSV or Excel) into cargo items. This file contains:
+ * - CSV parsing (quoted fields, comma / semicolon / tab delimiters)
+ * - A minimal XLSX reader (first worksheet only, no external dependencies)
+ * - Column mapping with header-based guessing
+ * - Row conversion with unit handling (in/cm/mm, lbs/kg) and validation
+ *
+ * The reader only returns cell text; everything item-specific happens in
+ * convertImportRows so the wizard can re-run it live as the mapping changes.
+ */
+
+import {
+  CargoItem,
+  ItemCategory,
+  HazmatLevel,
+  HAZMAT_CLASSES,
+  CATEGORY_COLORS,
+  CM_PER_INCH,
+  LBS_PER_KG,
+} from "./definitions";
+import { MAX_LINE_QUANTITY } from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Item fields a packing-list column can be mapped to */
+export type ImportField =
+  | 'label' | 'sku' | 'length' | 'width' | 'height' | 'weight'
+  | 'quantity' | 'category' | 'hazmat' | 'stackable';
+
+/** Display labels for each field, and whether a column must be mapped */
+export const IMPORT_FIELDS: Record<ImportField, { label: string; required: boolean }> = {
+  'label': { label: 'Label', required: false },
+  'sku': { label: 'SKU', required: false },
+  'length': { label: 'Length', required: true },
+  'width': { label: 'Width', required: true },
+  'height': { label: 'Height', required: true },
+  'weight': { label: 'Weight', required: true },
+  'quantity': { label: 'Quantity', required: false },
+  'category': { label: 'Category', required: false },
+  'hazmat': { label: 'Hazmat Class', required: false },
+  'stackable': { label: 'Stackable', required: false },
+};
+
+/** Column index for each mapped field (unmapped fields are absent) */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type LengthUnit = 'in' | 'cm' | 'mm';
+export type WeightUnit = 'lbs' | 'kg';
+
+/** Inches per length unit */
+export const LENGTH_UNITS: Record<LengthUnit, number> = { 'in': 1, 'cm': 1 / CM_PER_INCH, 'mm': 0.1 / CM_PER_INCH };
+
+/** Pounds per weight unit */
+export const WEIGHT_UNITS: Record<WeightUnit, number> = { 'lbs': 1, 'kg': LBS_PER_KG };
+
+/** New-item data, as passed to the app's add-item path */
+export type ImportedItemData = Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>;
+
+/** One converted packing-list row */
+export interface ImportRow {
+  /** 1-based row number in the file (blank rows not counted), for messages */
+  rowNumber: number;
+
+  /** The item to create, or null when the row has errors */
+  item: ImportedItemData | null;
+
+  quantity: number;
+
+  /** Problems that prevent the row from being imported */
+  errors: string[];
+
+  /** Values that were defaulted or ignored */
+  warnings: string[];
+}
+
+// ============================================================================
+// FILE READING
+// ============================================================================
+
+/**
+ * Reads a packing list file into rows of cell text.
+ * .xlsx files are unzipped and the first worksheet is read; anything else
+ * is treated as delimited text.
+ *
+ * @throws Error with a readable message when the file can't be parsed
+ */
+export async function readPackingListFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls workbooks are not supported — save the sheet as .xlsx or CSV');
+  }
+  return parseCsv(await file.text());
+}
+
+/**
+ * Parses delimited text (RFC 4180 quoting). The delimiter is whichever of
+ * comma, semicolon or tab appears most in the first line.
+ * Blank lines are dropped.
+ *
+ * @example
+ * parseCsv('Label,Qty\n"Carton, large",4') // [['Label', 'Qty'], ['Carton, large', '4']]
+ */
+export function parseCsv(text: string): string[][] {
+  text = text.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell !== ''));
+}
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text.
+ * Handles shared strings, inline strings, numbers and booleans; formulas
+ * are read as their cached values.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await unzip(buffer);
+  const read = (path: string) => files.get(path) ?? null;
+  const parse = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+  const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+  // Shared string table
+  const sharedXml = read('xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? byTag(parse(sharedXml), 'si').map(si => byTag(si, 't').map(t => t.textContent ?? '').join(''))
+    : [];
+
+  // First sheet, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbookXml = read('xl/workbook.xml');
+  const relsXml = read('xl/_rels/workbook.xml.rels');
+  if (workbookXml && relsXml) {
+    const firstSheet = byTag(parse(workbookXml), 'sheet')[0];
+    const relId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const rel = byTag(parse(relsXml), 'Relationship').find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  const sheetXml = read(sheetPath);
+  if (!sheetXml) throw new Error('The workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowEl of byTag(parse(sheetXml), 'row')) {
+    const row: string[] = [];
+    for (const cell of byTag(rowEl, 'c')) {
+      const ref = cell.getAttribute('r') ?? '';
+      const letters = ref.replace(/[0-9]/g, '');
+      const col = letters
+        ? letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1
+        : row.length;
+      const type = cell.getAttribute('t');
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') text = shared[parseInt(value, 10)] ?? '';
+      else if (type === 'inlineStr') text = byTag(cell, 't').map(t => t.textContent ?? '').join('');
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = value;
+      while (row.length < col) row.push('');
+      row[col] = text.trim();
+    }
+    if (row.some(cell => cell !== '')) rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Extracts the text files of a zip archive (stored or deflated entries),
+ * keyed by path. Uses the browser's DecompressionStream for deflate.
+ */
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record, searched for from the end
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const files = new Map<string, string>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Not a valid .xlsx file');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, await new Response(stream).text());
+    }
+  }
+  return files;
+}
+
+// ============================================================================
+// COLUMN MAPPING
+// ============================================================================
+
+/** Header names recognised for each field (compared lowercase, letters and digits only) */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  'label': ['label', 'name', 'description', 'desc', 'item', 'product'],
+  'sku': ['sku', 'partno', 'partnumber', 'part', 'itemno', 'code'],
+  'length': ['length', 'len', 'l'],
+  'width': ['width', 'wid', 'w'],
+  'height': ['height', 'hgt', 'ht', 'h'],
+  'weight': ['weight', 'wt', 'grossweight', 'gw', 'mass'],
+  'quantity': ['quantity', 'qty', 'count', 'pcs', 'pieces', 'units'],
+  'category': ['category', 'cat', 'type'],
+  'hazmat': ['hazmat', 'hazmatclass', 'dgclass', 'dg', 'unclass', 'imdg', 'class'],
+  'stackable': ['stackable', 'stack', 'stacking'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which column holds each field from the header row.
+ * Aliases longer than two letters also match as a prefix, so
+ * "Length (cm)" maps to length. Each column is used at most once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+    for (const alias of HEADER_ALIASES[field]) {
+      const col = normalized.findIndex((h, i) =>
+        !used.has(i) && (h === alias || (alias.length > 2 && h.startsWith(alias)))
+      );
+      if (col >= 0) {
+        mapping[field] = col;
+        used.add(col);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Guesses the units from unit hints in the headers, e.g. "Length (cm)" or "Weight kg".
+ * Headers without a hint get the fallback units (the user's unit system).
+ */
+export function guessUnits(
+  headers: string[],
+  fallback: { length: LengthUnit; weight: WeightUnit } = { length: 'in', weight: 'lbs' }
+): { length: LengthUnit; weight: WeightUnit } {
+  const text = headers.join(' ').toLowerCase();
+  return {
+    length: /\bmm\b/.test(text) ? 'mm' : /\bcm\b/.test(text) ? 'cm' : /\(in\)|\binch(es)?\b/.test(text) ? 'in' : fallback.length,
+    weight: /\bkgs?\b/.test(text) ? 'kg' : /\blbs?\b|\bpounds?\b/.test(text) ? 'lbs' : fallback.weight,
+  };
+}
+
+// ============================================================================
+// ROW CONVERSION
+// ============================================================================
+
+/**
+ * Parses a number, accepting thousands separators and a decimal comma
+ * ("1,234.5" and "1.234,5" are both 1234.5). A lone separator followed by
+ * three digits ("1,234" or "1.234") could be either, so it is flagged as
+ * ambiguous: a comma is read as thousands, a point as the decimal.
+ */
+function parseNumber(text: string): { value: number; ambiguous: boolean } {
+  const cleaned = text.replace(/[^0-9.,-]/g, '');
+  const ambiguous = /^-?\d{1,3}[.,]\d{3}$/.test(cleaned);
+
+  // The last separator is the decimal one unless it repeats ("1,234,567") or is an ambiguous comma
+  const last = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  const separator = cleaned[last];
+  const isDecimal = last >= 0 && cleaned.indexOf(separator) === last && !(ambiguous && separator === ',');
+  const whole = isDecimal ? cleaned.slice(0, last) : cleaned;
+  const fraction = isDecimal ? cleaned.slice(last + 1) : '';
+
+  // Thousands separators must all be the same and group exactly three digits
+  const grouped = /^-?(\d*|\d{1,3}(,\d{3})+|\d{1,3}(\.\d{3})+)$/.test(whole);
+  if (!grouped || !/^\d*$/.test(fraction) || (whole + fraction).replace(/\D/g, '') === '') {
+    return { value: NaN, ambiguous: false };
+  }
+  return { value: parseFloat(whole.replace(/[.,]/g, '') + '.' + (fraction || '0')), ambiguous };
+}
+
+/** Matches "3", "Class 3", "2.1" or a class name like "Flammable liquid" */
+function parseHazmat(text: string): HazmatLevel | null {
+  const value = text.trim().toLowerCase();
+  if (value === '' || ['none', 'no', 'n', '0', '-', 'n/a'].includes(value)) return 'none';
+  const classNum = value.match(/^(?:class\s*)?([1-9])(?:\.\d+)?$/)?.[1];
+  const keys = Object.keys(HAZMAT_CLASSES) as HazmatLevel[];
+  if (classNum) return keys.find(k => k.startsWith(`${classNum}-`)) ?? null;
+  return keys.find(k => {
+    const name = k.slice(2).replace(/-/g, ' ');
+    return k !== 'none' && (name.includes(value) || value.includes(name));
+  }) ?? null;
+}
+
+/** Reads yes/no style text; null when unrecognised */
+function parseYesNo(text: string): boolean | null {
+  const value = text.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x'].includes(value)) return true;
+  if (['no', 'n', 'false', '0'].includes(value)) return false;
+  return null;
+}
+
+/**
+ * Converts data rows to items using a column mapping and units.
+ * Dimensions are rounded to 0.1" and weights to 0.1 lb.
+ *
+ * @param rows - Data rows (header excluded)
+ * @param mapping - Column for each field
+ * @param units - Units the file's dimensions and weights are in
+ * @param firstRowNumber - File row number of rows[0], for messages
+ *
+ * @example
+ * const rows = convertImportRows(table.slice(1), guessColumnMapping(table[0]), { length: 'cm', weight: 'kg' }, 2);
+ * const ready = rows.filter(r => r.item);
+ */
+export function convertImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  units: { length: LengthUnit; weight: WeightUnit },
+  firstRowNumber = 1
+): ImportRow[] {
+  return rows.map((cells, i) => {
+    const rowNumber = firstRowNumber + i;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: ImportField) => mapping[field] !== undefined ? (cells[mapping[field]!] ?? '').trim() : '';
+    const number = (field: ImportField) => {
+      const { value, ambiguous } = parseNumber(cell(field));
+      if (ambiguous) {
+        warnings.push(`${IMPORT_FIELDS[field].label} "${cell(field)}" is ambiguous (thousands or decimal separator), read as ${value}`);
+      }
+      return value;
+    };
+
+    const dim = (field: 'length' | 'width' | 'height') => {
+      const value = number(field);
+      const inches = Math.round(value * LENGTH_UNITS[units.length] * 10) / 10;
+      if (!(value > 0)) {
+        errors.push(`${IMPORT_FIELDS[field].label} "${cell(field)}" is not a positive number`);
+        return 0;
+      }
+      if (inches <= 0) {
+        errors.push(`${IMPORT_FIELDS[field].label} "${cell(field)}" is under 0.1"`);
+        return 0;
+      }
+      return inches;
+    };
+    const lengthIn = dim('length');
+    const widthIn = dim('width');
+    const heightIn = dim('height');
+
+    const weight = number('weight');
+    const weightLbs = Math.round(weight * WEIGHT_UNITS[units.weight] * 10) / 10;
+    if (!(weight > 0)) errors.push(`Weight "${cell('weight')}" is not a positive number`);
+    else if (weightLbs <= 0) errors.push(`Weight "${cell('weight')}" is under 0.1 lb`);
+
+    let quantity = 1;
+    if (cell('quantity') !== '') {
+      quantity = number('quantity');
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+        errors.push(`Quantity "${cell('quantity')}" must be a whole number from 1 to ${MAX_LINE_QUANTITY}`);
+      }
+    }
+
+    let hazmatLevel = parseHazmat(cell('hazmat'));
+    if (hazmatLevel === null) {
+      warnings.push(`Unknown hazmat class "${cell('hazmat')}" ignored`);
+      hazmatLevel = 'none';
+    }
+
+    let category: ItemCategory = hazmatLevel !== 'none' ? 'hazardous' : 'general';
+    if (cell('category') !== '') {
+      const match = (Object.keys(CATEGORY_COLORS) as ItemCategory[]).find(c => c === cell('category').toLowerCase());
+      if (match) category = match;
+      else warnings.push(`Unknown category "${cell('category')}", using ${category}`);
+    }
+
+    let stackable = true;
+    if (cell('stackable') !== '') {
+      const parsed = parseYesNo(cell('stackable'));
+      if (parsed === null) warnings.push(`Stackable "${cell('stackable')}" not understood, assuming yes`);
+      else stackable = parsed;
+    }
+
+    const label = cell('label') || `Row ${rowNumber}`;
+    const sku = cell('sku') || undefined;
+
+    return {
+      rowNumber,
+      quantity,
+      errors,
+      warnings,
+      item: errors.length > 0 ? null : {
+        label,
+        sku,
+        lengthIn,
+        widthIn,
+        heightIn,
+        weightLbs,
+        category,
+        acceptsOnTop: stackable ? 'all' : 'none',
+        canStackOn: 'all',
+        allowedOrientations: 'any',
+        hazmatLevel,
+      },
+    };
+  });
+}
@@ -17,7 +17,7 @@
 
 import * as THREE from "three";
 import { CargoItem, HAZMAT_CLASSES } from "./definitions";
-import { inchesToUnits } from "./utils";
+import { inchesToUnits, formatDimensions, formatWeight, weightUnit } from "./utils";
 
 /**
  * Manages 3D text labels for cargo items.
@@ -186,10 +186,8 @@ export class ItemLabelManager {
 
     // Format label text
     const catLabel = this.getCategoryLabel(item.category);
-    const weightStr = item.weightLbs >= 1000
-      ? (item.weightLbs / 1000).toFixed(1) + 'k lbs'
-      : item.weightLbs + ' lbs';
-    const dimsStr = `${item.lengthIn} x ${item.widthIn} x ${item.heightIn}"`;
+    const weightStr = `${formatWeight(item.weightLbs)} ${weightUnit()}`;
+    const dimsStr = formatDimensions(item.lengthIn, item.widthIn, item.heightIn);
 
     const primaryLine = item.label;
     const secondaryLine = `${catLabel} | ${weightStr}`;
@@ -30,6 +30,17 @@ export interface ProjectSummary {
   visibility: 'public' | 'restricted';
   created_at: string;
   updated_at: string;
+  /** Latest revision number; send it back as baseRevision when saving */
+  revision: number;
+}
+
+/** Body of the 409 response to a save based on an outdated revision */
+export interface ProjectConflict {
+  error: string;
+  /** The project's latest revision */
+  revision: number;
+  updated_at: string;
+  updated_by: string;
 }
 
 export interface ProjectViewerEntry {
@@ -43,6 +54,44 @@ export interface ProjectFull extends ProjectSummary {
   data: object;
 }
 
+export interface ProjectRevisionSummary {
+  id: number;
+  project_id: number;
+  /** Counts up from 1 per project */
+  revision: number;
+  /** Null when the author's account was deleted */
+  author_id: number | null;
+  author_name: string;
+  /** Project name at the time of the save */
+  name: string;
+  /** Set for restores and forks, e.g. "Restored from revision 3" */
+  note: string | null;
+  created_at: string;
+}
+
+export interface ProjectRevisionFull extends ProjectRevisionSummary {
+  /** Parsed SavedLoad object */
+  data: object;
+}
+
+/** Error thrown for non-2xx responses, with the status and parsed body */
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** The conflict details when a save was rejected because the project changed since it was opened */
+export function projectConflictOf(err: unknown): ProjectConflict | null {
+  return err instanceof ApiError && err.status === 409 ? err.body as ProjectConflict : null;
+}
+
 // ── Constants ─────────────────────────────────────────────────────────────────
 
 /** In production, the frontend and API are on the same origin so /api works. */
@@ -123,7 +172,7 @@ async function request<T>(
   const body = await res.json().catch(() => ({}));
 
   if (!res.ok) {
-    throw new Error((body as { error?: string }).error || `HTTP ${res.status}`);
+    throw new ApiError((body as { error?: string }).error || `HTTP ${res.status}`, res.status, body);
   }
 
   return body as T;
@@ -172,10 +221,14 @@ export async function apiCreateProject(
   });
 }
 
-/** Update an existing project. Editor-only. */
+/**
+ * Update an existing project. Editor-only.
+ * With baseRevision set, the save fails with a 409 ApiError (see
+ * projectConflictOf) when the project has a newer revision.
+ */
 export async function apiUpdateProject(
   id: number,
-  fields: { name?: string; data?: object; visibility?: 'public' | 'restricted' },
+  fields: { name?: string; data?: object; visibility?: 'public' | 'restricted'; baseRevision?: number },
 ): Promise<ProjectFull> {
   return request<ProjectFull>(`/projects/${id}`, {
     method: 'PUT',
@@ -188,6 +241,48 @@ export async function apiDeleteProject(id: number): Promise<void> {
   await request<{ success: boolean }>(`/projects/${id}`, { method: 'DELETE' });
 }
 
+// ── Project revisions ─────────────────────────────────────────────────────────
+
+/** List a project's saved revisions, newest first (no data blobs). */
+export async function apiListProjectRevisions(projectId: number): Promise<ProjectRevisionSummary[]> {
+  return request<ProjectRevisionSummary[]>(`/projects/${projectId}/revisions`);
+}
+
+/** Fetch one revision including its full data blob. */
+export async function apiGetProjectRevision(projectId: number, revision: number): Promise<ProjectRevisionFull> {
+  return request<ProjectRevisionFull>(`/projects/${projectId}/revisions/${revision}`);
+}
+
+/** Make an earlier revision the project's current data (saved as a new revision). Editor-only. */
+export async function apiRestoreProjectRevision(projectId: number, revision: number): Promise<ProjectFull> {
+  return request<ProjectFull>(`/projects/${projectId}/revisions/${revision}/restore`, { method: 'POST' });
+}
+
+/** Copy a revision into a new project owned by the current user. Editor-only. */
+export async function apiForkProjectRevision(
+  projectId: number,
+  revision: number,
+  name?: string,
+  visibility?: 'public' | 'restricted',
+): Promise<ProjectFull> {
+  return request<ProjectFull>(`/projects/${projectId}/revisions/${revision}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ ...(name ? { name } : {}), ...(visibility ? { visibility } : {}) }),
+  });
+}
+
+// ── Live collaboration ────────────────────────────────────────────────────────
+
+/**
+ * WebSocket URL of a project's live session. Browsers cannot set headers on
+ * WebSocket requests, and a token in the URL would end up in proxy logs, so
+ * the session sends getToken() in its first message instead.
+ */
+export function collabSocketUrl(projectId: number): string {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${location.host}${API_BASE}/collab?project=${projectId}`;
+}
+
 // ── User management endpoints (admin-only) ────────────────────────────────────
 
 /** List all users. Admin-only. */
@@ -12,6 +12,12 @@
  * - Visual snapshots for each step
  * - Cumulative weight and utilization tracking
  * - Weight distribution warnings
+ * - Door opening checks for each item's loading orientation
+ * - Center of gravity position and tolerance warnings
+ * - Cargo lines summary collapsing items entered with a quantity
+ * - Dangerous goods declaration lines for hazmat items
+ * - Crew notes shown at the step of the item they are pinned to (or nearest to)
+ * - Shipment-wide plans with the steps of every container, container by container
  */
 
 import {
@@ -19,6 +25,8 @@ import {
   ContainerSpec,
   CATEGORY_COLORS,
   HAZMAT_CLASSES,
+  CogTolerance,
+  DEFAULT_COG_TOLERANCE,
 } from "./definitions";
 import { getLogoDataUrl } from "./logo";
 import {
@@ -27,7 +35,22 @@ import {
   getWeightDistribution,
   formatDimensions,
   getRotationLabel,
+  fitsThroughDoor,
+  calculateCenterOfGravity,
+  checkCogTolerance,
+  formatCog,
+  describeCogOffset,
+  groupItemsByLine,
+  formatItemLine,
+  formatDangerousGoods,
+  dangerousGoodsItems,
+  formatLength,
+  formatMass,
+  formatVolume,
+  formatWeightNumber,
+  weightUnit,
 } from "./utils";
+import { PlacedAnnotation, formatAnnotation } from "./annotations";
 
 // ============================================================================
 // LOAD PLAN DATA STRUCTURES
@@ -49,6 +72,9 @@ export interface LoadStep {
   
   /** Array of safety tips and handling notes */
   tips: string[];
+
+  /** Crew notes for this step (see formatAnnotation) */
+  notes: string[];
   
   /** Total weight of all items loaded up to and including this step */
   cumulativeWeight: number;
@@ -60,6 +86,24 @@ export interface LoadStep {
   snapshotDataUrl?: string;
 }
 
+/**
+ * The load plan of one container of a shipment. Step numbers start at 1 in
+ * every container, since each container is loaded on its own.
+ */
+export interface ContainerLoadPlan {
+  /** Shipment index of the container (0-based) */
+  index: number;
+
+  /** Equipment the container uses */
+  container: ContainerSpec;
+
+  /** Items loaded in the container */
+  items: CargoItem[];
+
+  /** Loading sequence for the container; empty when nothing is loaded */
+  steps: LoadStep[];
+}
+
 // ============================================================================
 // LOAD PLAN GENERATION
 // ============================================================================
@@ -105,10 +149,15 @@ const CATEGORY_PRIORITY: Record<string, number> = {
  * 4. Left to right (lower Z first)
  * 
  * Pass a `preOrderedItems` array to skip auto-sorting and use a custom order instead.
+ *
+ * Item notes go to the step that loads their item. Point notes go to the
+ * step of the item closest to the point, so the crew reads them while
+ * working in that part of the container.
  * 
  * @param items - Array of cargo items in the container
  * @param container - Container specifications
  * @param preOrderedItems - Optional pre-sorted array; if provided, skips auto-sort
+ * @param annotations - Notes placed in this container
  * @returns Array of LoadStep objects in the chosen loading order
  * 
  * @example
@@ -120,7 +169,8 @@ const CATEGORY_PRIORITY: Record<string, number> = {
 export function generateLoadPlan(
   items: CargoItem[],
   container: ContainerSpec,
-  preOrderedItems?: CargoItem[]
+  preOrderedItems?: CargoItem[],
+  annotations: PlacedAnnotation[] = []
 ): LoadStep[] {
   if (items.length === 0) return [];
 
@@ -144,14 +194,68 @@ export function generateLoadPlan(
       item,
       instruction,
       tips,
+      notes: [],
       cumulativeWeight,
       cumulativeUtilization: (cumulativeVolume / containerVolume) * 100,
     });
   }
 
+  for (const placed of annotations) {
+    const step = placed.item
+      ? steps.find(s => s.item.id === placed.item!.id)
+      : nearestStep(steps, placed.point);
+    step?.notes.push(formatAnnotation(placed));
+  }
+
   return steps;
 }
 
+/**
+ * Generates the load plan of a whole shipment, one plan per container in
+ * shipment order (empty containers included, with no steps).
+ *
+ * @example
+ * const plans = generateShipmentLoadPlan(shipment.map(c => ({
+ *   container: CONTAINER_SPECS[c.containerType],
+ *   items: c.items,
+ * })));
+ */
+export function generateShipmentLoadPlan(
+  containers: {
+    container: ContainerSpec;
+    items: CargoItem[];
+    preOrderedItems?: CargoItem[];
+    annotations?: PlacedAnnotation[];
+  }[]
+): ContainerLoadPlan[] {
+  return containers.map((c, index) => ({
+    index,
+    container: c.container,
+    items: c.items,
+    steps: generateLoadPlan(c.items, c.container, c.preOrderedItems, c.annotations),
+  }));
+}
+
+/** The step whose item is closest to a point (0 inside the item); ties go to the earlier step */
+function nearestStep(steps: LoadStep[], point: { x: number; y: number; z: number }): LoadStep | undefined {
+  const gap = (p: number, min: number, size: number) => Math.max(min - p, 0, p - (min + size));
+  let best: LoadStep | undefined;
+  let bestDistance = Infinity;
+  for (const step of steps) {
+    const { item } = step;
+    const distance = Math.hypot(
+      gap(point.x, item.posX, item.lengthIn),
+      gap(point.y, item.posY, item.heightIn),
+      gap(point.z, item.posZ, item.widthIn)
+    );
+    if (distance < bestDistance) {
+      best = step;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
 // ============================================================================
 // INSTRUCTION BUILDING HELPERS
 // ============================================================================
@@ -190,7 +294,7 @@ function buildInstruction(
       const names = below.map(b => `"${b.label}"`).join(', ');
       return `Stack "${item.label}" on top of ${names}, ${posDesc}. ${orientation}`;
     } else {
-      return `Place "${item.label}" at height ${item.posY.toFixed(0)}", ${posDesc}. ${orientation}`;
+      return `Place "${item.label}" at height ${formatLength(item.posY)}, ${posDesc}. ${orientation}`;
     }
   }
 }
@@ -222,8 +326,9 @@ function getPositionDescription(item: CargoItem, container: ContainerSpec): stri
  */
 function getOrientationDesc(item: CargoItem): string {
   const rot = getRotationLabel(item);
-  if (!rot) return `Orientation: ${item.lengthIn}"L x ${item.widthIn}"W x ${item.heightIn}"H (standard).`;
-  return `Orientation: ${item.lengthIn}"L x ${item.widthIn}"W x ${item.heightIn}"H (rotated ${rot}).`;
+  const dims = `${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)} (L x W x H`;
+  if (!rot) return `Orientation: ${dims}, standard).`;
+  return `Orientation: ${dims}, rotated ${rot}).`;
 }
 
 /**
@@ -274,8 +379,21 @@ function buildTips(
     tips.push('HEAVY: Use forklift or mechanical lift. Ensure floor-level placement.');
   }
 
+  if (item.palletContents) {
+    const p = item.palletContents;
+    tips.push(`PALLET: ${p.cartons.length} cartons in ${p.layers} layers on a ${p.base.label} base. Load with a forklift or pallet jack; stretch-wrap before moving.`);
+  } else if (item.allowedOrientations === 'upright') {
+    tips.push('THIS SIDE UP: Keep upright. Do not tip or lay on its side.');
+  } else if (item.allowedOrientations === 'long-side-down') {
+    tips.push('LONG SIDE DOWN: Keep the longest side horizontal. Do not stand on end.');
+  }
+
+  if (!fitsThroughDoor(item, container)) {
+    tips.push(`⚠ DOOR: ${formatLength(item.widthIn)} W x ${formatLength(item.heightIn)} H will not pass through the ${formatLength(container.doorWidthIn ?? container.widthIn)} x ${formatLength(container.doorHeightIn ?? container.heightIn)} door opening in this orientation.`);
+  }
+
   if (cumulativeWeight > container.maxWeightLbs * 0.9) {
-    tips.push(`Container approaching weight limit (${cumulativeWeight.toLocaleString()} / ${container.maxWeightLbs.toLocaleString()} lbs)`);
+    tips.push(`Container approaching weight limit (${formatWeightNumber(cumulativeWeight)} / ${formatMass(container.maxWeightLbs)})`);
   }
 
   if (item.posY > 0) {
@@ -313,6 +431,11 @@ function getCategoryText(cat: string): string {
   return labels[cat] || 'General';
 }
 
+/** Escapes user-written text (item labels, crew notes) for the HTML views */
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 /**
  * Generate the HTML for the load plan modal (in-app view).
  * Uses standard ASCII characters only for tips/labels.
@@ -320,7 +443,8 @@ function getCategoryText(cat: string): string {
 export function generateLoadPlanHTML(
   steps: LoadStep[],
   container: ContainerSpec,
-  items: CargoItem[]
+  items: CargoItem[],
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE
 ): string {
   if (steps.length === 0) {
     return `
@@ -335,6 +459,8 @@ export function generateLoadPlanHTML(
   const totalWeight = calculateTotalWeight(items);
   const utilization = calculateUtilization(items, container);
   const dist = getWeightDistribution(items, container);
+  const cog = calculateCenterOfGravity(items, container);
+  const cogWarnings = cog ? checkCogTolerance(cog, container, cogTolerance) : [];
 
   const netWeight = totalWeight;
   const grossWeight = netWeight + container.tareWeightLbs;
@@ -350,7 +476,7 @@ export function generateLoadPlanHTML(
     const hazmatBadges = hazmatItems.map(item => {
       const hi = HAZMAT_CLASSES[item.hazmatLevel!];
       return `<span style="display:inline-flex;align-items:center;gap:4px;padding:2px 8px;border-radius:4px;background:${hi.color};color:${hi.textColor};font-weight:700;font-size:10px;border:1px solid rgba(0,0,0,0.15)">
-        ⚠ CLASS ${hi.classNum} — ${item.label}
+        ⚠ CLASS ${hi.classNum} — ${escapeHtml(item.label)}
       </span>`;
     }).join('');
     html += `
@@ -373,40 +499,53 @@ export function generateLoadPlanHTML(
         <div class="lp-stat-label">Volume Used</div>
       </div>
       <div class="loadplan-stat">
-        <div class="lp-stat-value ${netWeight > container.maxWeightLbs ? 'lp-warn' : 'lp-ok'}">${netWeight.toLocaleString()}</div>
-        <div class="lp-stat-label">Net Weight (lbs)</div>
+        <div class="lp-stat-value ${netWeight > container.maxWeightLbs ? 'lp-warn' : 'lp-ok'}">${formatWeightNumber(netWeight)}</div>
+        <div class="lp-stat-label">Net Weight (${weightUnit()})</div>
       </div>
       <div class="loadplan-stat">
-        <div class="lp-stat-value">${grossWeight.toLocaleString()}</div>
-        <div class="lp-stat-label">Gross Weight (lbs)</div>
+        <div class="lp-stat-value">${formatWeightNumber(grossWeight)}</div>
+        <div class="lp-stat-label">Gross Weight (${weightUnit()})</div>
       </div>
       <div class="loadplan-stat">
-        <div class="lp-stat-value ${availWeight < 0 ? 'lp-warn' : 'lp-ok'}">${availWeight.toLocaleString()}</div>
-        <div class="lp-stat-label">Available (lbs)</div>
+        <div class="lp-stat-value ${availWeight < 0 ? 'lp-warn' : 'lp-ok'}">${formatWeightNumber(availWeight)}</div>
+        <div class="lp-stat-label">Available (${weightUnit()})</div>
       </div>
       <div class="loadplan-stat">
-        <div class="lp-stat-value">${container.maxWeightLbs.toLocaleString()}</div>
-        <div class="lp-stat-label">Max Payload (lbs)</div>
+        <div class="lp-stat-value">${formatWeightNumber(container.maxWeightLbs)}</div>
+        <div class="lp-stat-label">Max Payload (${weightUnit()})</div>
       </div>
       <div class="loadplan-stat">
         <div class="lp-stat-value ${Math.abs(dist.front - dist.back) > 20 ? 'lp-warn' : 'lp-ok'}">${dist.front.toFixed(0)}/${dist.back.toFixed(0)}</div>
         <div class="lp-stat-label">Front/Back %</div>
       </div>
+      ${cog ? `
+      <div class="loadplan-stat" title="${formatCog(cog)}">
+        <div class="lp-stat-value ${cogWarnings.length > 0 ? 'lp-warn' : 'lp-ok'}">${formatLength(cog.y)}</div>
+        <div class="lp-stat-label">CoG Height</div>
+      </div>` : ''}
     </div>
 
     <div class="loadplan-overview">
       <h3>Loading Strategy</h3>
       <div class="loadplan-strategy">
-        ${getLoadingStrategy(items, container)}
+        ${getLoadingStrategy(items, container, cogTolerance)}
       </div>
     </div>
 
+    ${getCargoLines(steps, false) ? `
+    <div class="loadplan-overview">
+      <h3>Cargo Lines</h3>
+      <div class="loadplan-strategy">
+        ${getCargoLines(steps, false)}
+      </div>
+    </div>` : ''}
+
     <div class="loadplan-progress-bar">
       <div class="loadplan-progress-track">
         ${steps.map((step, i) => `
           <div class="loadplan-progress-dot ${step.item.category}" 
                style="left:${((i + 1) / steps.length) * 100}%" 
-               title="Step ${step.stepNumber}: ${step.item.label}">
+               title="Step ${step.stepNumber}: ${escapeHtml(step.item.label)}">
             <span>${step.stepNumber}</span>
           </div>
         `).join('')}
@@ -435,15 +574,15 @@ export function generateLoadPlanHTML(
           <div class="step-title">
             <div class="step-item-name">
               <span class="item-color" style="background:${step.item.color}"></span>
-              ${step.item.label}
+              ${escapeHtml(step.item.label)}
               <span class="category-badge ${step.item.category}">${step.item.category}</span>
               ${hazmatBadgeHtml}
               ${rotLabel ? `<span class="rotation-badge">${rotLabel}</span>` : ''}
             </div>
             <div class="step-item-specs">
               ${formatDimensions(step.item.lengthIn, step.item.widthIn, step.item.heightIn)} |
-              ${step.item.weightLbs.toLocaleString()} lbs |
-              Vol: ${((step.item.lengthIn * step.item.widthIn * step.item.heightIn) / 1728).toFixed(1)} ft3
+              ${formatMass(step.item.weightLbs)} |
+              Vol: ${formatVolume(step.item.lengthIn * step.item.widthIn * step.item.heightIn)}
             </div>
           </div>
           <div class="step-snapshot-wrap">
@@ -459,39 +598,45 @@ export function generateLoadPlanHTML(
 
         <div class="step-instruction">
           <div class="instruction-icon" style="font-size:14px;font-weight:700;color:var(--accent-blue)">#${step.stepNumber}</div>
-          <div class="instruction-text">${step.instruction}</div>
+          <div class="instruction-text">${escapeHtml(step.instruction)}</div>
         </div>
 
         <div class="step-position-grid">
           <div class="pos-cell">
             <span class="pos-label">X Position</span>
-            <span class="pos-value">${step.item.posX.toFixed(0)}"</span>
+            <span class="pos-value">${formatLength(step.item.posX)}</span>
           </div>
           <div class="pos-cell">
             <span class="pos-label">Y Height</span>
-            <span class="pos-value">${step.item.posY.toFixed(0)}"</span>
+            <span class="pos-value">${formatLength(step.item.posY)}</span>
           </div>
           <div class="pos-cell">
             <span class="pos-label">Z Position</span>
-            <span class="pos-value">${step.item.posZ.toFixed(0)}"</span>
+            <span class="pos-value">${formatLength(step.item.posZ)}</span>
           </div>
           <div class="pos-cell">
             <span class="pos-label">Cumul. Wt</span>
-            <span class="pos-value">${step.cumulativeWeight.toLocaleString()} lbs</span>
+            <span class="pos-value">${formatMass(step.cumulativeWeight)}</span>
           </div>
         </div>
 
         ${step.tips.length > 0 ? `
           <div class="step-tips">
             ${step.tips.map(tip => {
-              const isHazTip = tip.startsWith('⚠ HAZMAT');
+              const isHazTip = tip.startsWith('⚠ HAZMAT') || tip.startsWith('⚠ DOOR');
               return isHazTip
-                ? `<div class="step-tip" style="color:#ef4444;font-weight:700;background:rgba(239,68,68,0.08);border-radius:4px;padding:4px 8px;border-left:3px solid #ef4444">${tip}</div>`
-                : `<div class="step-tip">${tip}</div>`;
+                ? `<div class="step-tip" style="color:#ef4444;font-weight:700;background:rgba(239,68,68,0.08);border-radius:4px;padding:4px 8px;border-left:3px solid #ef4444">${escapeHtml(tip)}</div>`
+                : `<div class="step-tip">${escapeHtml(tip)}</div>`;
             }).join('')}
           </div>
         ` : ''}
 
+        ${step.notes.length > 0 ? `
+          <div class="step-notes">
+            ${step.notes.map(note => `<div class="step-note">📌 ${escapeHtml(note)}</div>`).join('')}
+          </div>
+        ` : ''}
+
         <div class="step-progress">
           <div class="step-progress-label">Loading progress: ${step.cumulativeUtilization.toFixed(1)}% volume</div>
           <div class="step-progress-bar">
@@ -507,7 +652,37 @@ export function generateLoadPlanHTML(
   return html;
 }
 
-function getLoadingStrategy(items: CargoItem[], container: ContainerSpec): string {
+/**
+ * Generate the HTML for a shipment-wide load plan (in-app view): a shipment
+ * overview, then each loaded container's plan under its own heading.
+ */
+export function generateShipmentLoadPlanHTML(
+  plans: ContainerLoadPlan[],
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE
+): string {
+  let html = `
+    <div class="loadplan-overview">
+      <h3>Shipment</h3>
+      <div class="loadplan-strategy">
+        ${getShipmentOverview(plans, false)}
+      </div>
+    </div>
+  `;
+
+  for (const plan of plans) {
+    if (plan.steps.length === 0) continue;
+    html += `
+      <h3 class="loadplan-container-heading">
+        Container ${plan.index + 1} of ${plans.length} — ${escapeHtml(plan.container.label)}
+      </h3>
+      ${generateLoadPlanHTML(plan.steps, plan.container, plan.items, cogTolerance)}
+    `;
+  }
+
+  return html;
+}
+
+function getLoadingStrategy(items: CargoItem[], container: ContainerSpec, cogTolerance: CogTolerance): string {
   const heavyItems = items.filter(i => i.category === 'heavy' || i.weightLbs > 500);
   const fragileItems = items.filter(i => i.category === 'fragile');
   const hazItems = items.filter(i => i.category === 'hazardous');
@@ -535,6 +710,11 @@ function getLoadingStrategy(items: CargoItem[], container: ContainerSpec): strin
     points.push(`<strong>${perishItems.length}</strong> perishable item(s) — load last for first-out access. Maintain cold chain.`);
   }
 
+  const doorBlocked = items.filter(i => !fitsThroughDoor(i, container));
+  if (doorBlocked.length > 0) {
+    points.push(`⚠ <strong>${doorBlocked.length}</strong> item(s) will not pass through the door opening in their planned orientation.`);
+  }
+
   const dist = getWeightDistribution(items, container);
   if (Math.abs(dist.front - dist.back) > 20) {
     points.push(`⚠ Weight is unevenly distributed front/back (${dist.front.toFixed(0)}%/${dist.back.toFixed(0)}%). Consider redistributing.`);
@@ -542,94 +722,129 @@ function getLoadingStrategy(items: CargoItem[], container: ContainerSpec): strin
     points.push(`✓ Weight distribution is balanced (Front: ${dist.front.toFixed(0)}%, Back: ${dist.back.toFixed(0)}%).`);
   }
 
+  const cog = calculateCenterOfGravity(items, container);
+  if (cog) {
+    const cogWarnings = checkCogTolerance(cog, container, cogTolerance);
+    points.push(`${cogWarnings.length > 0 ? '⚠' : '✓'} Center of gravity at ${formatCog(cog)} (${describeCogOffset(cog)}).`);
+    cogWarnings.forEach(w => points.push(`⚠ ${w}.`));
+  }
+
+  return `<ul>${points.map(p => `<li>${p}</li>`).join('')}</ul>`;
+}
+
+/**
+ * Lists the packing-list lines with more than one item, with the steps that
+ * load them, e.g. "Carton A ×40, 1,400 lbs total — steps 3–42".
+ * Returns an empty string when every item was entered on its own.
+ * @param printable - Use ASCII only, for the printable plan
+ */
+function getCargoLines(steps: LoadStep[], printable: boolean): string {
+  const stepOf = new Map(steps.map(s => [s.item.id, s.stepNumber]));
+  const lines = groupItemsByLine(steps.map(s => s.item)).filter(l => l.items.length > 1);
+  if (lines.length === 0) return '';
+
+  const points = lines.map(line => {
+    const numbers = line.items.map(i => stepOf.get(i.id)!).sort((a, b) => a - b);
+    const first = numbers[0];
+    const last = numbers[numbers.length - 1];
+    const contiguous = last - first + 1 === numbers.length;
+    const stepText = contiguous ? `steps ${first}${printable ? '-' : '–'}${last}` : `steps ${numbers.join(', ')}`;
+    const text = printable
+      ? `<strong>${escapeHtml(line.label)} x${line.items.length}</strong>, ${formatMass(line.totalWeightLbs)} total`
+      : `<strong>${escapeHtml(formatItemLine(line))}</strong>`;
+    return `${text}${line.sku ? ` (SKU ${escapeHtml(line.sku)})` : ''} ${printable ? '-' : '—'} ${stepText}`;
+  });
+
+  return `<ul>${points.map(p => `<li>${p}</li>`).join('')}</ul>`;
+}
+
+/**
+ * Lists every container of the shipment with its step count, weight and
+ * volume, e.g. "Container 2 of 3: 40ft High Cube — 24 steps, 12,000 lbs, 78.3% volume".
+ * @param printable - Use ASCII only, for the printable plan
+ */
+function getShipmentOverview(plans: ContainerLoadPlan[], printable: boolean): string {
+  const dash = printable ? '-' : '—';
+  const points = plans.map(plan => {
+    const name = `Container ${plan.index + 1} of ${plans.length}: <strong>${escapeHtml(plan.container.label)}</strong>`;
+    if (plan.steps.length === 0) return `${name} ${dash} empty, nothing to load`;
+    const weight = calculateTotalWeight(plan.items);
+    const utilization = calculateUtilization(plan.items, plan.container);
+    return `${name} ${dash} ${plan.steps.length} step${plan.steps.length > 1 ? 's' : ''}, ${formatMass(weight)}, ${utilization.toFixed(1)}% volume`;
+  });
   return `<ul>${points.map(p => `<li>${p}</li>`).join('')}</ul>`;
 }
 
 /**
  * Generate printable load plan HTML -- uses only standard ASCII characters, no emojis.
  * Images use light-mode scene snapshots.
+ * When the container is part of a multi-container shipment, pass its position
+ * so the header reads "Container 2 of 3".
  */
 export function generatePrintableLoadPlan(
   steps: LoadStep[],
   container: ContainerSpec,
-  items: CargoItem[]
+  items: CargoItem[],
+  shipmentPosition?: { index: number; count: number },
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE
+): string {
+  return printableDocument(getPrintableContainerPlan(steps, container, items, shipmentPosition, cogTolerance));
+}
+
+/**
+ * Generate a printable shipment-wide load plan: a shipment overview, then each
+ * loaded container's plan starting on a new page.
+ */
+export function generatePrintableShipmentLoadPlan(
+  plans: ContainerLoadPlan[],
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE
+): string {
+  const sections = plans
+    .filter(plan => plan.steps.length > 0)
+    .map(plan => `
+  <div class="container-plan">
+${getPrintableContainerPlan(plan.steps, plan.container, plan.items, { index: plan.index, count: plans.length }, cogTolerance)}
+  </div>`);
+
+  return printableDocument(`
+  <div class="strategy">
+    <h3>Shipment</h3>
+    ${getShipmentOverview(plans, true)}
+  </div>
+${sections.join('')}`);
+}
+
+/**
+ * Header, summary, strategy and steps of one container, for the printable plan.
+ */
+function getPrintableContainerPlan(
+  steps: LoadStep[],
+  container: ContainerSpec,
+  items: CargoItem[],
+  shipmentPosition: { index: number; count: number } | undefined,
+  cogTolerance: CogTolerance
 ): string {
   const totalWeight = calculateTotalWeight(items);
   const utilization = calculateUtilization(items, container);
   const dist = getWeightDistribution(items, container);
+  const cog = calculateCenterOfGravity(items, container);
+  const cogWarnings = cog ? checkCogTolerance(cog, container, cogTolerance) : [];
 
   const logoDataUrl = getLogoDataUrl();
   const logoHtml = logoDataUrl
     ? `<img src="${logoDataUrl}" alt="Logo" style="height:38px;width:auto;display:block;object-fit:contain;margin-bottom:4px" />`
     : '';
 
-  return `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>A3 Shipping Pro - Step-by-Step Load Plan</title>
-  <style>
-    @import url("https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800&family=JetBrains+Mono:wght@400;500;600&display=swap");
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body { font-family: 'Inter', sans-serif; color: #1a202c; padding: 28px; font-size: 12px; line-height: 1.5; background: white; }
-    .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; border-bottom: 3px solid #1e40af; padding-bottom: 14px; }
-    .header-brand { display: flex; align-items: center; gap: 10px; }
-    .header h1 { font-size: 20px; font-weight: 800; color: #1e3a5f; }
-    .header .subtitle { font-size: 11px; color: #4b6280; }
-    .header .date { font-size: 10px; color: #666; text-align: right; }
-    .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; margin-bottom: 16px; }
-    .summary-card { border: 1px solid #c7d8f0; border-radius: 6px; padding: 10px; text-align: center; background: #f8fafd; }
-    .summary-card .value { font-family: 'JetBrains Mono', monospace; font-size: 18px; font-weight: 700; color: #1e40af; }
-    .summary-card .label { font-size: 8px; color: #4b6280; text-transform: uppercase; letter-spacing: 0.7px; font-weight: 600; }
-    .step { border: 1px solid #d4e4f7; border-radius: 8px; padding: 14px; margin-bottom: 12px; page-break-inside: avoid; }
-    .step-head { display: flex; align-items: flex-start; gap: 12px; margin-bottom: 10px; }
-    .step-num { width: 32px; height: 32px; border-radius: 50%; background: #1e40af; color: white; font-weight: 800; font-size: 14px; display: flex; align-items: center; justify-content: center; flex-shrink: 0; }
-    .step-info { flex: 1; }
-    .step-name { font-size: 14px; font-weight: 700; color: #1e3a5f; margin-bottom: 2px; }
-    .step-specs { font-size: 10px; color: #4b6280; font-family: 'JetBrains Mono', monospace; }
-    .step-img { width: 200px; border: 1px solid #c7d8f0; border-radius: 6px; overflow: hidden; flex-shrink: 0; page-break-inside: avoid; }
-    .step-img img { width: 800px; max-width: 100%; height: auto; display: block; }
-    .instruction { background: #f0f7f4; border-radius: 6px; padding: 10px; margin-bottom: 8px; font-size: 11px; line-height: 1.6; color: #1a3a2a; border-left: 3px solid #059669; }
-    .pos-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6px; margin-bottom: 8px; }
-    .pos-cell { background: #f0f4fa; border-radius: 4px; padding: 5px 8px; text-align: center; }
-    .pos-cell .plabel { font-size: 8px; color: #4b6280; text-transform: uppercase; letter-spacing: 0.5px; }
-    .pos-cell .pvalue { font-family: 'JetBrains Mono', monospace; font-size: 11px; font-weight: 600; color: #1e3a5f; }
-    .tip { font-size: 10px; color: #4b6280; padding: 3px 0; border-bottom: 1px dotted #d4e4f7; }
-    .tip:last-child { border-bottom: none; }
-    .cat { display: inline-block; padding: 1px 5px; border-radius: 6px; font-size: 8px; font-weight: 600; text-transform: uppercase; }
-    .cat.general { background: #e8f0fe; color: #1e40af; }
-    .cat.fragile { background: #fce7f3; color: #9d174d; }
-    .cat.heavy { background: #fef3cd; color: #78350f; }
-    .cat.hazardous { background: #ffedd5; color: #9a3412; }
-    .cat.perishable { background: #d1fae5; color: #065f46; }
-    .footer { margin-top: 20px; padding-top: 10px; border-top: 1px solid #c7d8f0; font-size: 9px; color: #7a90aa; text-align: center; }
-    .strategy { background: #f0f4fa; border: 1px solid #c7d8f0; border-radius: 6px; padding: 12px 14px; margin-bottom: 16px; }
-    .strategy h3 { font-size: 13px; margin-bottom: 8px; color: #1e3a5f; }
-    .strategy ul { list-style: none; padding: 0; }
-    .strategy li { font-size: 11px; color: #2d4a6a; padding: 3px 0; border-bottom: 1px solid #d4e4f7; line-height: 1.6; }
-    .strategy li:last-child { border-bottom: none; }
-    .progress-bar { width: 100%; height: 5px; background: #d4e4f7; border-radius: 3px; overflow: hidden; margin-top: 6px; }
-    .progress-fill { height: 100%; background: linear-gradient(90deg, #1e40af, #059669); border-radius: 3px; }
-    .hazmat-alert { border: 2px solid #dc2626; border-radius: 8px; padding: 12px 14px; margin-bottom: 16px; background: #fff5f5; page-break-inside: avoid; }
-    .hazmat-alert-title { font-size: 13px; font-weight: 800; color: #dc2626; margin-bottom: 8px; letter-spacing: 0.3px; }
-    .hazmat-alert-items { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 8px; }
-    .hazmat-badge { display: inline-block; padding: 3px 8px; border-radius: 4px; font-size: 9px; font-weight: 800; border: 1px solid rgba(0,0,0,0.2); }
-    .hazmat-alert-note { font-size: 9px; color: #7f1d1d; line-height: 1.5; }
-    .step.step-hazmat { border-left: 3px solid #dc2626; }
-    .step-hazmat-badge { display: inline-block; padding: 2px 6px; border-radius: 4px; font-size: 8px; font-weight: 800; border: 1px solid rgba(0,0,0,0.2); margin-left: 6px; vertical-align: middle; }
-    .tip.hazmat-tip { color: #991b1b; font-weight: 700; background: #fef2f2; border-radius: 4px; padding: 3px 6px; border-left: 3px solid #dc2626; }
-    @media print { body { padding: 14px; } .step { page-break-inside: avoid; } .hazmat-alert { page-break-inside: avoid; } }
-  </style>
-</head>
-<body>
+  return `
   <div class="header">
     <div class="header-brand">${logoHtml}<div>
       <h1>Shipping Pro</h1>
       <div class="subtitle">Step-by-Step Load Plan</div>
     </div></div>
     <div class="date">
-      Container: <strong>${container.label}</strong><br>
-      ${container.lengthIn}" x ${container.widthIn}" x ${container.heightIn}"<br>
+      Container: <strong>${escapeHtml(container.label)}</strong>${shipmentPosition ? ` &mdash; ${shipmentPosition.index + 1} of ${shipmentPosition.count}` : ''}<br>
+      ${formatDimensions(container.lengthIn, container.widthIn, container.heightIn)}<br>
+      ${container.doorWidthIn !== undefined || container.doorHeightIn !== undefined ? `Door: ${formatLength(container.doorWidthIn ?? container.widthIn)} x ${formatLength(container.doorHeightIn ?? container.heightIn)}<br>` : ''}
       ${new Date().toLocaleString()}
     </div>
   </div>
@@ -638,24 +853,31 @@ export function generatePrintableLoadPlan(
     <div class="summary-card"><div class="value">${steps.length}</div><div class="label">Steps</div></div>
     <div class="summary-card"><div class="value">${utilization.toFixed(1)}%</div><div class="label">Volume Used</div></div>
     <div class="summary-card"><div class="value">${dist.front.toFixed(0)}/${dist.back.toFixed(0)}</div><div class="label">F/B Balance</div></div>
-    <div class="summary-card"><div class="value" style="color:${totalWeight > container.maxWeightLbs ? '#dc2626' : '#1e40af'}">${totalWeight.toLocaleString()}</div><div class="label">Net Weight (lbs)</div></div>
-    <div class="summary-card"><div class="value">${(totalWeight + container.tareWeightLbs).toLocaleString()}</div><div class="label">Gross Weight (lbs)</div></div>
-    <div class="summary-card"><div class="value" style="color:${(container.maxWeightLbs - totalWeight) < 0 ? '#dc2626' : '#059669'}">${(container.maxWeightLbs - totalWeight).toLocaleString()}</div><div class="label">Available (lbs)</div></div>
-    <div class="summary-card"><div class="value" style="color:#78350f">${container.maxWeightLbs.toLocaleString()}</div><div class="label">Max Payload (lbs)</div></div>
+    ${cog ? `<div class="summary-card"><div class="value" style="color:${cogWarnings.length > 0 ? '#dc2626' : '#1e3a5f'}">${formatLength(cog.y)}</div><div class="label">CoG Height</div></div>` : ''}
+    <div class="summary-card"><div class="value" style="color:${totalWeight > container.maxWeightLbs ? '#dc2626' : '#1e40af'}">${formatWeightNumber(totalWeight)}</div><div class="label">Net Weight (${weightUnit()})</div></div>
+    <div class="summary-card"><div class="value">${formatWeightNumber(totalWeight + container.tareWeightLbs)}</div><div class="label">Gross Weight (${weightUnit()})</div></div>
+    <div class="summary-card"><div class="value" style="color:${(container.maxWeightLbs - totalWeight) < 0 ? '#dc2626' : '#059669'}">${formatWeightNumber(container.maxWeightLbs - totalWeight)}</div><div class="label">Available (${weightUnit()})</div></div>
+    <div class="summary-card"><div class="value" style="color:#78350f">${formatWeightNumber(container.maxWeightLbs)}</div><div class="label">Max Payload (${weightUnit()})</div></div>
   </div>
 
   <div class="strategy">
     <h3>Loading Strategy</h3>
-    ${getLoadingStrategyPrintable(items, container)}
+    ${getLoadingStrategyPrintable(items, container, cogTolerance)}
   </div>
 
+  ${getCargoLines(steps, true) ? `
+  <div class="strategy">
+    <h3>Cargo Lines</h3>
+    ${getCargoLines(steps, true)}
+  </div>` : ''}
+
   ${(() => {
     // ── Printable HAZMAT items section ────────────────────────────────────────
-    const pHazItems = items.filter(i => i.hazmatLevel && i.hazmatLevel !== 'none');
+    const pHazItems = dangerousGoodsItems(items);
     if (pHazItems.length === 0) return '';
     const badges = pHazItems.map(item => {
       const hi = HAZMAT_CLASSES[item.hazmatLevel!];
-      return `<span class="hazmat-badge" style="background:${hi.color};color:${hi.textColor}">HAZMAT CLASS ${hi.classNum} &mdash; ${item.label}</span>`;
+      return `<span class="hazmat-badge" style="background:${hi.color};color:${hi.textColor}">HAZMAT CLASS ${hi.classNum} &mdash; ${escapeHtml(item.label)}</span>`;
     }).join('');
     return `
     <div class="hazmat-alert">
@@ -665,6 +887,19 @@ export function generatePrintableLoadPlan(
     </div>`;
   })()}
 
+  ${(() => {
+    // ── Printable Dangerous Goods declaration lines ──────────────────────────
+    const dgSteps = steps.flatMap(step => dangerousGoodsItems([step.item]).map(item => ({ stepNumber: step.stepNumber, item })));
+    if (dgSteps.length === 0) return '';
+    return `
+    <div class="strategy">
+      <h3>Dangerous Goods</h3>
+      <ul>${dgSteps.map(step =>
+        `<li>Step ${step.stepNumber}: <strong>${escapeHtml(step.item.label)}</strong> &mdash; ${escapeHtml(formatDangerousGoods(step.item))} &mdash; ${formatMass(step.item.weightLbs)}</li>`
+      ).join('')}</ul>
+    </div>`;
+  })()}
+
   ${steps.map(step => {
     const catText = getCategoryText(step.item.category);
     const isHm = step.item.hazmatLevel && step.item.hazmatLevel !== 'none';
@@ -675,31 +910,100 @@ export function generatePrintableLoadPlan(
         <div class="step-num">${step.stepNumber}</div>
         <div class="step-info">
           <div class="step-name">
-            ${step.item.label}
+            ${escapeHtml(step.item.label)}
             <span class="cat ${step.item.category}">${catText}</span>
             ${hi ? `<span class="step-hazmat-badge" style="background:${hi.color};color:${hi.textColor}">HAZMAT CLASS ${hi.classNum}</span>` : ''}
           </div>
-          <div class="step-specs">${formatDimensions(step.item.lengthIn, step.item.widthIn, step.item.heightIn)} | ${step.item.weightLbs.toLocaleString()} lbs</div>
+          <div class="step-specs">${formatDimensions(step.item.lengthIn, step.item.widthIn, step.item.heightIn)} | ${formatMass(step.item.weightLbs)}</div>
         </div>
         ${step.snapshotDataUrl ? `<div class="step-img"><img src="${step.snapshotDataUrl}" /></div>` : ''}
       </div>
-      <div class="instruction">${step.instruction}</div>
+      <div class="instruction">${escapeHtml(step.instruction)}</div>
       <div class="pos-grid">
-        <div class="pos-cell"><div class="plabel">X Pos</div><div class="pvalue">${step.item.posX.toFixed(0)}"</div></div>
-        <div class="pos-cell"><div class="plabel">Y Height</div><div class="pvalue">${step.item.posY.toFixed(0)}"</div></div>
-        <div class="pos-cell"><div class="plabel">Z Pos</div><div class="pvalue">${step.item.posZ.toFixed(0)}"</div></div>
-        <div class="pos-cell"><div class="plabel">Cum. Wt</div><div class="pvalue">${step.cumulativeWeight.toLocaleString()} lbs</div></div>
+        <div class="pos-cell"><div class="plabel">X Pos</div><div class="pvalue">${formatLength(step.item.posX)}</div></div>
+        <div class="pos-cell"><div class="plabel">Y Height</div><div class="pvalue">${formatLength(step.item.posY)}</div></div>
+        <div class="pos-cell"><div class="plabel">Z Pos</div><div class="pvalue">${formatLength(step.item.posZ)}</div></div>
+        <div class="pos-cell"><div class="plabel">Cum. Wt</div><div class="pvalue">${formatMass(step.cumulativeWeight)}</div></div>
       </div>
       ${step.tips.length > 0 ? step.tips.map(t => {
-        const isHazTip = t.startsWith('⚠ HAZMAT') || t.startsWith('HAZMAT');
-        return `<div class="tip${isHazTip ? ' hazmat-tip' : ''}">${t}</div>`;
+        const isHazTip = t.startsWith('⚠ HAZMAT') || t.startsWith('HAZMAT') || t.startsWith('⚠ DOOR');
+        return `<div class="tip${isHazTip ? ' hazmat-tip' : ''}">${escapeHtml(t)}</div>`;
       }).join('') : ''}
+      ${step.notes.map(note => `<div class="tip note-tip">NOTE: ${escapeHtml(note)}</div>`).join('')}
       <div style="margin-top:6px">
         <div style="font-size:9px;color:#999;margin-bottom:3px">Progress: ${step.cumulativeUtilization.toFixed(1)}% volume</div>
         <div class="progress-bar"><div class="progress-fill" style="width:${Math.min(step.cumulativeUtilization, 100)}%"></div></div>
       </div>
     </div>
-  `;}).join('')}
+  `;}).join('')}`;
+}
+
+/**
+ * Wraps printable load plan content in a standalone HTML document with print styles.
+ */
+function printableDocument(body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>A3 Shipping Pro - Step-by-Step Load Plan</title>
+  <style>
+    @import url("https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800&family=JetBrains+Mono:wght@400;500;600&display=swap");
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: 'Inter', sans-serif; color: #1a202c; padding: 28px; font-size: 12px; line-height: 1.5; background: white; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; border-bottom: 3px solid #1e40af; padding-bottom: 14px; }
+    .header-brand { display: flex; align-items: center; gap: 10px; }
+    .header h1 { font-size: 20px; font-weight: 800; color: #1e3a5f; }
+    .header .subtitle { font-size: 11px; color: #4b6280; }
+    .header .date { font-size: 10px; color: #666; text-align: right; }
+    .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; margin-bottom: 16px; }
+    .summary-card { border: 1px solid #c7d8f0; border-radius: 6px; padding: 10px; text-align: center; background: #f8fafd; }
+    .summary-card .value { font-family: 'JetBrains Mono', monospace; font-size: 18px; font-weight: 700; color: #1e40af; }
+    .summary-card .label { font-size: 8px; color: #4b6280; text-transform: uppercase; letter-spacing: 0.7px; font-weight: 600; }
+    .step { border: 1px solid #d4e4f7; border-radius: 8px; padding: 14px; margin-bottom: 12px; page-break-inside: avoid; }
+    .step-head { display: flex; align-items: flex-start; gap: 12px; margin-bottom: 10px; }
+    .step-num { width: 32px; height: 32px; border-radius: 50%; background: #1e40af; color: white; font-weight: 800; font-size: 14px; display: flex; align-items: center; justify-content: center; flex-shrink: 0; }
+    .step-info { flex: 1; }
+    .step-name { font-size: 14px; font-weight: 700; color: #1e3a5f; margin-bottom: 2px; }
+    .step-specs { font-size: 10px; color: #4b6280; font-family: 'JetBrains Mono', monospace; }
+    .step-img { width: 200px; border: 1px solid #c7d8f0; border-radius: 6px; overflow: hidden; flex-shrink: 0; page-break-inside: avoid; }
+    .step-img img { width: 800px; max-width: 100%; height: auto; display: block; }
+    .instruction { background: #f0f7f4; border-radius: 6px; padding: 10px; margin-bottom: 8px; font-size: 11px; line-height: 1.6; color: #1a3a2a; border-left: 3px solid #059669; }
+    .pos-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6px; margin-bottom: 8px; }
+    .pos-cell { background: #f0f4fa; border-radius: 4px; padding: 5px 8px; text-align: center; }
+    .pos-cell .plabel { font-size: 8px; color: #4b6280; text-transform: uppercase; letter-spacing: 0.5px; }
+    .pos-cell .pvalue { font-family: 'JetBrains Mono', monospace; font-size: 11px; font-weight: 600; color: #1e3a5f; }
+    .tip { font-size: 10px; color: #4b6280; padding: 3px 0; border-bottom: 1px dotted #d4e4f7; }
+    .tip:last-child { border-bottom: none; }
+    .cat { display: inline-block; padding: 1px 5px; border-radius: 6px; font-size: 8px; font-weight: 600; text-transform: uppercase; }
+    .cat.general { background: #e8f0fe; color: #1e40af; }
+    .cat.fragile { background: #fce7f3; color: #9d174d; }
+    .cat.heavy { background: #fef3cd; color: #78350f; }
+    .cat.hazardous { background: #ffedd5; color: #9a3412; }
+    .cat.perishable { background: #d1fae5; color: #065f46; }
+    .footer { margin-top: 20px; padding-top: 10px; border-top: 1px solid #c7d8f0; font-size: 9px; color: #7a90aa; text-align: center; }
+    .strategy { background: #f0f4fa; border: 1px solid #c7d8f0; border-radius: 6px; padding: 12px 14px; margin-bottom: 16px; }
+    .strategy h3 { font-size: 13px; margin-bottom: 8px; color: #1e3a5f; }
+    .strategy ul { list-style: none; padding: 0; }
+    .strategy li { font-size: 11px; color: #2d4a6a; padding: 3px 0; border-bottom: 1px solid #d4e4f7; line-height: 1.6; }
+    .strategy li:last-child { border-bottom: none; }
+    .progress-bar { width: 100%; height: 5px; background: #d4e4f7; border-radius: 3px; overflow: hidden; margin-top: 6px; }
+    .progress-fill { height: 100%; background: linear-gradient(90deg, #1e40af, #059669); border-radius: 3px; }
+    .hazmat-alert { border: 2px solid #dc2626; border-radius: 8px; padding: 12px 14px; margin-bottom: 16px; background: #fff5f5; page-break-inside: avoid; }
+    .hazmat-alert-title { font-size: 13px; font-weight: 800; color: #dc2626; margin-bottom: 8px; letter-spacing: 0.3px; }
+    .hazmat-alert-items { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 8px; }
+    .hazmat-badge { display: inline-block; padding: 3px 8px; border-radius: 4px; font-size: 9px; font-weight: 800; border: 1px solid rgba(0,0,0,0.2); }
+    .hazmat-alert-note { font-size: 9px; color: #7f1d1d; line-height: 1.5; }
+    .step.step-hazmat { border-left: 3px solid #dc2626; }
+    .step-hazmat-badge { display: inline-block; padding: 2px 6px; border-radius: 4px; font-size: 8px; font-weight: 800; border: 1px solid rgba(0,0,0,0.2); margin-left: 6px; vertical-align: middle; }
+    .tip.note-tip { color: #78350f; font-weight: 600; background: #fffbeb; border-radius: 4px; padding: 3px 6px; border-left: 3px solid #d97706; }
+    .tip.hazmat-tip { color: #991b1b; font-weight: 700; background: #fef2f2; border-radius: 4px; padding: 3px 6px; border-left: 3px solid #dc2626; }
+    .container-plan + .container-plan { page-break-before: always; }
+    @media print { body { padding: 14px; } .step { page-break-inside: avoid; } .hazmat-alert { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+${body}
 
   <div class="footer">A3 Shipping Pro &mdash; Step-by-Step Load Plan &mdash; ${new Date().toLocaleString()}</div>
 </body>
@@ -709,7 +1013,7 @@ export function generatePrintableLoadPlan(
 /**
  * Print-safe loading strategy (no emojis, no special unicode).
  */
-function getLoadingStrategyPrintable(items: CargoItem[], container: ContainerSpec): string {
+function getLoadingStrategyPrintable(items: CargoItem[], container: ContainerSpec, cogTolerance: CogTolerance): string {
   const heavyItems = items.filter(i => i.category === 'heavy' || i.weightLbs > 500);
   const fragileItems = items.filter(i => i.category === 'fragile');
   const hazItems = items.filter(i => i.category === 'hazardous');
@@ -733,6 +1037,10 @@ function getLoadingStrategyPrintable(items: CargoItem[], container: ContainerSpe
   if (perishItems.length > 0) {
     points.push(`<strong>${perishItems.length}</strong> perishable item(s) &mdash; load last for first-out access. Maintain cold chain.`);
   }
+  const doorBlocked = items.filter(i => !fitsThroughDoor(i, container));
+  if (doorBlocked.length > 0) {
+    points.push(`NOTE: <strong>${doorBlocked.length}</strong> item(s) will not pass through the door opening in their planned orientation.`);
+  }
 
   const dist = getWeightDistribution(items, container);
   if (Math.abs(dist.front - dist.back) > 20) {
@@ -741,5 +1049,11 @@ function getLoadingStrategyPrintable(items: CargoItem[], container: ContainerSpe
     points.push(`Weight distribution is balanced (Front: ${dist.front.toFixed(0)}%, Back: ${dist.back.toFixed(0)}%).`);
   }
 
+  const cog = calculateCenterOfGravity(items, container);
+  if (cog) {
+    points.push(`Center of gravity at ${formatCog(cog)} (${describeCogOffset(cog)}).`);
+    checkCogTolerance(cog, container, cogTolerance).forEach(w => points.push(`NOTE: ${w}.`));
+  }
+
   return `<ul>${points.map(p => `<li>${p}</li>`).join('')}</ul>`;
 }
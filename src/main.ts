@@ -2,7 +2,8 @@
  * Application Entry Point
  *
  * 1. Verifies (or collects) user authentication.
- * 2. Passes the authenticated user into the main application.
+ * 2. Passes the authenticated user into the main application, which offers
+ *    to restore that user's autosaved session if the last tab closed unsaved.
  */
 
 import { requireAuth } from './auth';
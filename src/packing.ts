@@ -0,0 +1,484 @@
+/**
+ * Packing Engine
+ *
+ * Extreme-point bin-packing heuristic used by the auto-placer and the
+ * "Auto-pack all" action. This file contains:
+ * - Orientation generation using the standard rotation helpers
+ * - Extreme-point bookkeeping (candidate corners created by placed items)
+ * - Single-item and whole-list packing with a per-item failure reason
+ *
+ * Items are placed wall by wall: the engine prefers the lowest X (back of the
+ * container), then the lowest Y, then the lowest Z, and only accepts
+ * positions that validatePlacement reports as valid and fully supported, so
+ * stacking rules (acceptsOnTop / canStackOn) are honoured automatically.
+ * The container's maximum payload is enforced across existing and new items,
+ * and only orientations that clear the door opening and respect each item's
+ * orientation rule are used. Hazmat items are kept as far apart as the
+ * segregation table requires; when that is what stops an item, the failure
+ * names the conflicting item.
+ */
+
+import { CargoItem, ContainerSpec, SEGREGATION_LEVELS, ORIENTATION_RULES } from "./definitions";
+import {
+  validatePlacement,
+  checkOverlap,
+  rotateItemY,
+  rotateItemTipForward,
+  rotateItemTipSide,
+  calculateTotalWeight,
+  fitsThroughDoor,
+  isOrientationAllowed,
+  checkSegregation,
+  itemSegregation,
+  formatMass,
+} from "./utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Which orientations the packer may try for an item */
+export type PackOrientationMode = 'fixed' | 'horizontal' | 'all';
+
+/** Why an item could not be packed */
+export type PackFailureReason = 'too-large' | 'too-heavy' | 'no-space' | 'stacking-rule' | 'door' | 'segregation' | 'orientation';
+
+/**
+ * Options controlling a packing run.
+ */
+export interface PackOptions {
+  /** Orientations to try (default: 'all') */
+  orientations?: PackOrientationMode;
+
+  /** Grid increment in inches that X/Z positions are rounded up to (default: none) */
+  gridSize?: number;
+
+  /** Sort items largest-first before packing (default: true) */
+  sortItems?: boolean;
+
+  /** Reject items that would exceed the container's payload limit (default: true) */
+  enforcePayload?: boolean;
+}
+
+/**
+ * An item that the packer could not place, with the reason.
+ */
+export interface UnplacedItem {
+  item: CargoItem;
+  reason: PackFailureReason;
+  message: string;
+}
+
+/**
+ * Result of a packing run.
+ * Placed items are mutated in place (position, dimensions and rotationY).
+ */
+export interface PackResult {
+  placed: CargoItem[];
+  unplaced: UnplacedItem[];
+}
+
+/** A candidate corner position for the next item */
+interface ExtremePoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Dimensions and rotation counter for one orientation of an item */
+interface Orientation {
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  rotationY: number;
+}
+
+// ============================================================================
+// ORIENTATIONS
+// ============================================================================
+
+/**
+ * Lists the distinct orientations of an item, starting with its current one.
+ * Orientations are produced by applying rotateItemY / rotateItemTipForward /
+ * rotateItemTipSide to a copy, so they match what the user can do by hand.
+ * Orientations the item's allowedOrientations rule forbids are left out; if
+ * none remain, the current orientation is returned on its own.
+ *
+ * @param item - Item to orient (not modified)
+ * @param mode - Which orientations to include
+ * @returns Unique orientations in preference order
+ *
+ * @example
+ * getOrientations(item, 'horizontal') // current + rotated 90° on the floor
+ */
+export function getOrientations(item: CargoItem, mode: PackOrientationMode = 'all'): Orientation[] {
+  const variants: CargoItem[] = [{ ...item }];
+
+  if (mode !== 'fixed') {
+    const turned = { ...item };
+    rotateItemY(turned);
+    variants.push(turned);
+  }
+
+  if (mode === 'all') {
+    const tipF = { ...item };
+    rotateItemTipForward(tipF);
+    const tipFTurned = { ...tipF };
+    rotateItemY(tipFTurned);
+
+    const tipS = { ...item };
+    rotateItemTipSide(tipS);
+    const tipSTurned = { ...tipS };
+    rotateItemY(tipSTurned);
+
+    variants.push(tipF, tipFTurned, tipS, tipSTurned);
+  }
+
+  const seen = new Set<string>();
+  const result: Orientation[] = [];
+  for (const v of variants) {
+    const key = `${v.lengthIn}x${v.widthIn}x${v.heightIn}`;
+    if (seen.has(key) || !isOrientationAllowed(item, v)) continue;
+    seen.add(key);
+    result.push({ lengthIn: v.lengthIn, widthIn: v.widthIn, heightIn: v.heightIn, rotationY: v.rotationY });
+  }
+  if (result.length === 0) {
+    result.push({ lengthIn: item.lengthIn, widthIn: item.widthIn, heightIn: item.heightIn, rotationY: item.rotationY });
+  }
+  return result;
+}
+
+// ============================================================================
+// EXTREME POINTS
+// ============================================================================
+
+/**
+ * Drops a point straight down onto the highest surface beneath it
+ * (another item's top face or the container floor).
+ */
+function projectDown(pt: ExtremePoint, placed: CargoItem[]): ExtremePoint {
+  let floorY = 0;
+  for (const other of placed) {
+    const top = other.posY + other.heightIn;
+    if (top > pt.y + 0.01) continue;
+    if (pt.x >= other.posX && pt.x < other.posX + other.lengthIn &&
+        pt.z >= other.posZ && pt.z < other.posZ + other.widthIn) {
+      floorY = Math.max(floorY, top);
+    }
+  }
+  return { x: pt.x, y: floorY, z: pt.z };
+}
+
+/**
+ * Pushes a point back along X until it touches an item face or the back wall.
+ */
+function projectBack(pt: ExtremePoint, placed: CargoItem[]): ExtremePoint {
+  let wallX = 0;
+  for (const other of placed) {
+    const face = other.posX + other.lengthIn;
+    if (face > pt.x + 0.01) continue;
+    if (pt.y >= other.posY && pt.y < other.posY + other.heightIn &&
+        pt.z >= other.posZ && pt.z < other.posZ + other.widthIn) {
+      wallX = Math.max(wallX, face);
+    }
+  }
+  return { x: wallX, y: pt.y, z: pt.z };
+}
+
+/**
+ * Returns the extreme points created by a placed item: the corners in front
+ * of, beside and on top of it, plus their projections onto existing surfaces.
+ */
+function extremePointsFor(item: CargoItem, placed: CargoItem[]): ExtremePoint[] {
+  const front = { x: item.posX + item.lengthIn, y: item.posY, z: item.posZ };
+  const side = { x: item.posX, y: item.posY, z: item.posZ + item.widthIn };
+  const top = { x: item.posX, y: item.posY + item.heightIn, z: item.posZ };
+
+  return [
+    front,
+    side,
+    top,
+    projectDown(front, placed),
+    projectDown(side, placed),
+    projectBack(side, placed),
+    projectBack(top, placed),
+  ];
+}
+
+/**
+ * Returns points just far enough in front of and beside the hazmat items an
+ * item must be segregated from, dropped onto the surface below. Regular
+ * extreme points hug existing items, so these are only tried when every
+ * regular point is too close.
+ */
+function segregationPointsFor(item: CargoItem, placed: CargoItem[], container: ContainerSpec): ExtremePoint[] {
+  const points: ExtremePoint[] = [];
+  for (const other of placed) {
+    const distance = SEGREGATION_LEVELS[itemSegregation(item, other).level].minDistanceIn;
+    if (distance <= 0 || distance === Infinity) continue;
+
+    const x = other.posX + other.lengthIn + distance;
+    const z = other.posZ + other.widthIn + distance;
+    addPoints(points, [
+      projectDown({ x, y: container.heightIn, z: 0 }, placed),
+      projectDown({ x, y: container.heightIn, z: other.posZ }, placed),
+      projectDown({ x: other.posX, y: container.heightIn, z }, placed),
+    ], container);
+  }
+  return points;
+}
+
+/** Lexicographic X → Y → Z ordering (back wall first, floor first, left first) */
+function comparePoints(a: ExtremePoint, b: ExtremePoint): number {
+  return (a.x - b.x) || (a.y - b.y) || (a.z - b.z);
+}
+
+/**
+ * Adds points to the set, dropping duplicates and points outside the container.
+ */
+function addPoints(points: ExtremePoint[], add: ExtremePoint[], container: ContainerSpec): void {
+  for (const p of add) {
+    if (p.x >= container.lengthIn || p.z >= container.widthIn || p.y >= container.heightIn) continue;
+    if (points.some(q => Math.abs(q.x - p.x) < 0.01 && Math.abs(q.y - p.y) < 0.01 && Math.abs(q.z - p.z) < 0.01)) continue;
+    points.push(p);
+  }
+  points.sort(comparePoints);
+}
+
+// ============================================================================
+// PACKING
+// ============================================================================
+
+/**
+ * Rounds a coordinate up to the next grid line so snapped layouts stay snapped.
+ */
+function ceilToGrid(value: number, gridSize?: number): number {
+  if (!gridSize || gridSize <= 1) return value;
+  return Math.ceil(value / gridSize - 1e-6) * gridSize;
+}
+
+/**
+ * Returns true when the item fits inside the container in at least one
+ * of the orientations allowed by the mode.
+ */
+function fitsContainer(item: CargoItem, container: ContainerSpec, mode: PackOrientationMode): boolean {
+  return getOrientations(item, mode).some(o =>
+    o.lengthIn <= container.lengthIn + 0.5 &&
+    o.widthIn <= container.widthIn + 0.5 &&
+    o.heightIn <= container.heightIn + 0.5
+  );
+}
+
+/**
+ * Returns true when at least one allowed orientation both fits inside the
+ * container and clears the door opening.
+ */
+function fitsDoor(item: CargoItem, container: ContainerSpec, mode: PackOrientationMode): boolean {
+  return getOrientations(item, mode).some(o =>
+    o.lengthIn <= container.lengthIn + 0.5 &&
+    o.widthIn <= container.widthIn + 0.5 &&
+    o.heightIn <= container.heightIn + 0.5 &&
+    fitsThroughDoor({ ...item, ...o }, container)
+  );
+}
+
+/**
+ * Tries to place one item at the best extreme point.
+ * On success the item's position, dimensions and rotationY are updated
+ * and 'placed' is returned; otherwise the item is left unchanged and the
+ * return value says whether stacking rules were what blocked it, or gives
+ * the segregation conflict when the only free points are too close to
+ * other hazmat items.
+ */
+function placeAtBestPoint(
+  item: CargoItem,
+  placed: CargoItem[],
+  points: ExtremePoint[],
+  container: ContainerSpec,
+  options: PackOptions
+): 'placed' | 'no-space' | 'stacking-rule' | { segregation: string } {
+  const orientations = getOrientations(item, options.orientations ?? 'all');
+  const original = {
+    lengthIn: item.lengthIn, widthIn: item.widthIn, heightIn: item.heightIn,
+    rotationY: item.rotationY, posX: item.posX, posY: item.posY, posZ: item.posZ,
+  };
+  let blockedByStacking = false;
+  let segregationConflict: string | null = null;
+
+  for (const pt of points) {
+    const x = ceilToGrid(pt.x, options.gridSize);
+    const z = ceilToGrid(pt.z, options.gridSize);
+    let best: Orientation | null = null;
+
+    for (const o of orientations) {
+      if (x + o.lengthIn > container.lengthIn + 0.5) continue;
+      if (z + o.widthIn > container.widthIn + 0.5) continue;
+      if (pt.y + o.heightIn > container.heightIn + 0.5) continue;
+
+      item.lengthIn = o.lengthIn;
+      item.widthIn = o.widthIn;
+      item.heightIn = o.heightIn;
+      item.posX = x;
+      item.posY = pt.y;
+      item.posZ = z;
+
+      // Cheap overlap pass first; full validation only for survivors
+      if (placed.some(other => other.id !== item.id && checkOverlap(item, other))) continue;
+      const result = validatePlacement(item, placed, container);
+      if (!result.valid) {
+        // Bounds, overlap and the orientation rule (see packItems) already passed,
+        // so only a stacking rule or top-load limit can fail here
+        blockedByStacking = true;
+        continue;
+      }
+      if (result.warnings.length > 0) {
+        // Remember when hazmat segregation is the only thing wrong with a point
+        const conflicts = checkSegregation(item, placed);
+        if (!segregationConflict && conflicts.length === result.warnings.length) segregationConflict = conflicts[0];
+        continue;
+      }
+
+      // Prefer the orientation that uses the least depth, then the lowest height
+      if (!best ||
+          o.lengthIn < best.lengthIn ||
+          (o.lengthIn === best.lengthIn && o.heightIn < best.heightIn)) {
+        best = o;
+      }
+    }
+
+    if (best) {
+      item.lengthIn = best.lengthIn;
+      item.widthIn = best.widthIn;
+      item.heightIn = best.heightIn;
+      item.rotationY = best.rotationY;
+      item.posX = x;
+      item.posY = pt.y;
+      item.posZ = z;
+      return 'placed';
+    }
+  }
+
+  Object.assign(item, original);
+  if (segregationConflict) return { segregation: segregationConflict };
+  return blockedByStacking ? 'stacking-rule' : 'no-space';
+}
+
+/**
+ * Packs a list of items into a container around any items already loaded.
+ * Items that would push the load past the container's payload limit are
+ * skipped so that lighter items later in the list can still be packed.
+ *
+ * @param items - Items to pack (mutated in place when placed)
+ * @param existing - Items already in the container; these are never moved
+ * @param container - Container specifications
+ * @param options - Orientation, grid and ordering options
+ * @returns The placed items (in packing order) and the items that did not fit
+ *
+ * @example
+ * const { placed, unplaced } = packItems(toLoad, [], container, { gridSize: 1 });
+ * unplaced.forEach(u => console.warn(u.message));
+ */
+export function packItems(
+  items: CargoItem[],
+  existing: CargoItem[],
+  container: ContainerSpec,
+  options: PackOptions = {}
+): PackResult {
+  const mode = options.orientations ?? 'all';
+  const placed: CargoItem[] = [...existing];
+  const result: PackResult = { placed: [], unplaced: [] };
+  let payload = calculateTotalWeight(existing);
+
+  const queue = [...items];
+  if (options.sortItems ?? true) {
+    queue.sort((a, b) =>
+      (b.lengthIn * b.widthIn * b.heightIn) - (a.lengthIn * a.widthIn * a.heightIn) ||
+      b.weightLbs - a.weightLbs
+    );
+  }
+
+  const points: ExtremePoint[] = [];
+  addPoints(points, [{ x: 0, y: 0, z: 0 }], container);
+  for (const other of existing) {
+    addPoints(points, extremePointsFor(other, placed), container);
+  }
+
+  for (const item of queue) {
+    // getOrientations falls back to the current orientation even when the rule forbids it
+    if (!getOrientations(item, mode).some(o => isOrientationAllowed(item, o))) {
+      result.unplaced.push({
+        item,
+        reason: 'orientation',
+        message: `"${item.label}" must be loaded ${ORIENTATION_RULES[item.allowedOrientations!].toLowerCase()}, which it cannot be turned to here`,
+      });
+      continue;
+    }
+
+    if (!fitsContainer(item, container, mode)) {
+      result.unplaced.push({
+        item,
+        reason: 'too-large',
+        message: `"${item.label}" is larger than the container in every allowed orientation`,
+      });
+      continue;
+    }
+
+    if (!fitsDoor(item, container, mode)) {
+      result.unplaced.push({
+        item,
+        reason: 'door',
+        message: `"${item.label}" cannot pass through the door opening in any allowed orientation`,
+      });
+      continue;
+    }
+
+    if ((options.enforcePayload ?? true) && payload + item.weightLbs > container.maxWeightLbs) {
+      result.unplaced.push({
+        item,
+        reason: 'too-heavy',
+        message: `"${item.label}" (${formatMass(item.weightLbs)}) would exceed the ${formatMass(container.maxWeightLbs)} payload limit`,
+      });
+      continue;
+    }
+
+    let outcome = placeAtBestPoint(item, placed, points, container, options);
+    if (typeof outcome === 'object') {
+      // Every regular point was too close to other hazmat items: try further away
+      const farther = segregationPointsFor(item, placed, container);
+      if (farther.length > 0 && placeAtBestPoint(item, placed, farther, container, options) === 'placed') {
+        outcome = 'placed';
+      }
+    }
+    if (typeof outcome === 'object') {
+      result.unplaced.push({
+        item,
+        reason: 'segregation',
+        message: `"${item.label}" only fits too close to other hazmat cargo: ${outcome.segregation}`,
+      });
+      continue;
+    }
+    if (outcome === 'stacking-rule') {
+      result.unplaced.push({
+        item,
+        reason: 'stacking-rule',
+        message: `"${item.label}" only fits on top of items its stacking rules or their top-load limits do not allow`,
+      });
+      continue;
+    }
+    if (outcome === 'no-space') {
+      result.unplaced.push({
+        item,
+        reason: 'no-space',
+        message: `"${item.label}" could not fit in the remaining space`,
+      });
+      continue;
+    }
+
+    payload += item.weightLbs;
+    placed.push(item);
+    result.placed.push(item);
+    addPoints(points, extremePointsFor(item, placed), container);
+  }
+
+  return result;
+}
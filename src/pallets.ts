@@ -0,0 +1,332 @@
+/**
+ * Pallet Builder
+ *
+ * Stacks cartons onto a pallet base in layers and describes the result as a
+ * single composite cargo item. This file contains:
+ * - Layer layouts (column and interlocked patterns)
+ * - The layer-by-layer stacking algorithm with height, weight, top-load, stacking-rule and hazmat segregation limits
+ * - Conversion of a built pallet into CargoItem data
+ *
+ * Each layer holds cartons of one size. Cartons may be turned about the
+ * vertical axis but are never tipped. A layer that is not full tops off the
+ * pallet: nothing is stacked on a partial layer.
+ */
+
+import {
+  CargoItem,
+  ItemCategory,
+  PalletBase,
+  PalletConfig,
+  PalletContents,
+  StackingRule,
+  PALLET_BASES,
+  DEFAULT_PALLET_CONFIG,
+  HAZMAT_CLASSES,
+} from "./definitions";
+import { rotateItemY, stackingRuleAllows, topLoadCapacity, segregationRequirement, formatLength, formatMass } from "./utils";
+import { UnplacedItem, PackFailureReason } from "./packing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Result of stacking cartons on a pallet */
+export interface PalletBuildResult {
+  contents: PalletContents;
+
+  /** Built dimensions (the pallet footprint and the top of the stack) */
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+
+  /** Pallet tare plus all stacked cartons */
+  weightLbs: number;
+
+  /** Cartons that did not fit, with the reason */
+  unplaced: UnplacedItem[];
+}
+
+/** One carton position in a layer */
+interface Slot {
+  x: number;
+  z: number;
+  l: number;
+  w: number;
+}
+
+// ============================================================================
+// LAYER LAYOUTS
+// ============================================================================
+
+/**
+ * Best two-block layout of l × w cartons on an L × W deck: a block of
+ * cartons in one orientation, then the rest of the deck filled with the
+ * carton turned 90°. Covers the plain single-orientation grids as k = 0 or
+ * k = max. The layout is centered on the deck.
+ */
+function twoBlockLayout(L: number, W: number, l: number, w: number): Slot[] {
+  let best: Slot[] = [];
+
+  for (const [a, b] of [[l, w], [w, l]]) {
+    const maxK = Math.floor(L / a);
+    for (let k = 0; k <= maxK; k++) {
+      const slots: Slot[] = [];
+      const rowsA = Math.floor(W / b);
+      for (let i = 0; i < k; i++) {
+        for (let j = 0; j < rowsA; j++) {
+          slots.push({ x: i * a, z: j * b + (W - rowsA * b) / 2, l: a, w: b });
+        }
+      }
+
+      const colsB = Math.floor((L - k * a) / b);
+      const rowsB = Math.floor(W / a);
+      for (let i = 0; i < colsB; i++) {
+        for (let j = 0; j < rowsB; j++) {
+          slots.push({ x: k * a + i * b, z: j * a + (W - rowsB * a) / 2, l: b, w: a });
+        }
+      }
+
+      if (slots.length > best.length) best = slots;
+    }
+  }
+
+  // Center along the length
+  const usedL = Math.max(0, ...best.map(s => s.x + s.l));
+  const offset = (L - usedL) / 2;
+  return best.map(s => ({ ...s, x: s.x + offset }));
+}
+
+/**
+ * Layout for one layer. Interlocked patterns mirror every other layer along
+ * the length; when mirroring changes nothing (a plain grid), the odd layers
+ * use the grid turned 90° instead, if it holds as many cartons.
+ */
+function layerLayout(base: PalletBase, l: number, w: number, layerIndex: number, config: PalletConfig): Slot[] {
+  const slots = twoBlockLayout(base.lengthIn, base.widthIn, l, w);
+  if (config.pattern === 'column' || layerIndex % 2 === 0) return slots;
+
+  const mirrored = slots.map(s => ({ ...s, x: base.lengthIn - s.x - s.l }));
+  const key = (list: Slot[]) => list.map(s => `${s.x.toFixed(2)},${s.z.toFixed(2)},${s.l}`).sort().join('|');
+  if (key(mirrored) !== key(slots)) return mirrored;
+
+  const turned = twoBlockLayout(base.lengthIn, base.widthIn, w, l)
+    .filter(s => s.l !== slots[0]?.l);
+  return turned.length === slots.length ? turned : slots;
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Stacks cartons onto a pallet, heaviest carton sizes first.
+ *
+ * @param cartons - Cartons to stack (not modified; stacked cartons are copies)
+ * @param config - Pallet base, limits and pattern
+ * @returns The stacked cartons, built dimensions and any cartons left over
+ *
+ * @example
+ * const result = buildPallet(staged, DEFAULT_PALLET_CONFIG);
+ * console.log(`${result.contents.cartons.length} cartons, ${result.heightIn}" high`);
+ */
+export function buildPallet(cartons: CargoItem[], config: PalletConfig): PalletBuildResult {
+  const base = PALLET_BASES[config.baseName] ?? PALLET_BASES[DEFAULT_PALLET_CONFIG.baseName];
+  const sizeKey = (c: CargoItem) =>
+    `${Math.max(c.lengthIn, c.widthIn)}x${Math.min(c.lengthIn, c.widthIn)}x${c.heightIn}`;
+
+  // Hazmat cartons that must be segregated cannot share a pallet; the first in the list stays
+  const unplaced: UnplacedItem[] = [];
+  const accepted: CargoItem[] = [];
+  for (const carton of cartons) {
+    const conflict = accepted.find(other =>
+      segregationRequirement(carton.hazmatLevel ?? 'none', other.hazmatLevel ?? 'none') !== 'none'
+    );
+    if (conflict) {
+      const classNum = HAZMAT_CLASSES[conflict.hazmatLevel!].classNum;
+      unplaced.push({ item: carton, reason: 'segregation', message: `Must be segregated from "${conflict.label}" (Class ${classNum}), so it cannot share the pallet` });
+    } else {
+      accepted.push(carton);
+    }
+  }
+
+  // Group cartons by size, heaviest sizes at the bottom
+  const groups = new Map<string, CargoItem[]>();
+  for (const carton of accepted) {
+    const key = sizeKey(carton);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(carton);
+  }
+  const ordered = Array.from(groups.values())
+    .sort((a, b) => b[0].weightLbs - a[0].weightLbs)
+    .flatMap(group => group);
+
+  const stacked: CargoItem[] = [];
+  const layers: { cartons: CargoItem[]; weight: number }[] = [];
+  let y = base.heightIn;
+  let weight = base.weightLbs;
+  let stop: { reason: PackFailureReason; message: string } | null = null;
+
+  let index = 0;
+  while (index < ordered.length && !stop) {
+    const first = ordered[index];
+    const key = sizeKey(first);
+    const group: CargoItem[] = [];
+    while (index < ordered.length && sizeKey(ordered[index]) === key) group.push(ordered[index++]);
+
+    let remaining = group;
+    while (remaining.length > 0 && !stop) {
+      if (y + first.heightIn > config.maxHeightIn + 0.01) {
+        const message = `Exceeds the ${formatLength(config.maxHeightIn)} pallet height limit`;
+        remaining.forEach(item => unplaced.push({ item, reason: 'too-large', message }));
+        remaining = [];
+        break;
+      }
+
+      const slots = layerLayout(base, first.lengthIn, first.widthIn, layers.length, config);
+      if (slots.length === 0) {
+        const message = `Larger than the ${base.label} pallet deck`;
+        remaining.forEach(item => unplaced.push({ item, reason: 'too-large', message }));
+        remaining = [];
+        break;
+      }
+
+      // Fill the layer up to the weight limit
+      const weightLimit = { reason: 'too-heavy' as const, message: `Exceeds the ${formatMass(config.maxWeightLbs)} pallet weight limit` };
+      const layer: CargoItem[] = [];
+      let layerWeight = 0;
+      let overweight = false;
+      for (const carton of remaining) {
+        if (layer.length === slots.length) break;
+        if (weight + layerWeight + carton.weightLbs > config.maxWeightLbs) {
+          overweight = true;
+          break;
+        }
+        layer.push(carton);
+        layerWeight += carton.weightLbs;
+      }
+      if (layer.length === 0) {
+        stop = weightLimit;
+        break;
+      }
+
+      // Each carton below carries an even share of everything above it
+      const crushed = layers.some((below, i) => {
+        const above = layers.slice(i + 1).reduce((sum, l) => sum + l.weight, 0) + layerWeight;
+        const share = above / below.cartons.length;
+        return below.cartons.some(c => topLoadCapacity(c) < share);
+      });
+      if (crushed) {
+        stop = { reason: 'too-heavy', message: 'Cartons below would exceed their top-load limit' };
+        break;
+      }
+
+      // Both stacking rules apply, as in validatePlacement
+      const below = layers[layers.length - 1];
+      if (below && below.cartons.some(c => layer.some(top => !stackingRuleAllows(c.acceptsOnTop, top.category)))) {
+        stop = { reason: 'stacking-rule', message: 'Cartons below do not allow stacking on top' };
+        break;
+      }
+      if (below && layer.some(top => below.cartons.some(c => !stackingRuleAllows(top.canStackOn, c.category)))) {
+        stop = { reason: 'stacking-rule', message: 'Cartons may not be stacked on the cartons below' };
+        break;
+      }
+
+      layer.forEach((carton, i) => {
+        const slot = slots[i];
+        const placed: CargoItem = { ...carton, posX: slot.x, posY: y, posZ: slot.z, visible: true, stagingReason: undefined };
+        if (placed.lengthIn !== slot.l) rotateItemY(placed);
+        stacked.push(placed);
+      });
+      layers.push({ cartons: layer, weight: layerWeight });
+      weight += layerWeight;
+      y += first.heightIn;
+      remaining = remaining.slice(layer.length);
+
+      // A partial layer tops off the pallet
+      if (overweight) {
+        stop = weightLimit;
+      } else if (layer.length < slots.length) {
+        stop = { reason: 'no-space', message: 'The layer below is not full, so nothing more can be stacked' };
+      }
+    }
+
+    remaining.forEach(item => unplaced.push({ item, ...stop! }));
+  }
+  ordered.slice(index).forEach(item => unplaced.push({ item, ...(stop ?? { reason: 'no-space', message: 'Did not fit on the pallet' }) }));
+
+  return {
+    contents: { base, pattern: config.pattern, layers: layers.length, cartons: stacked },
+    lengthIn: base.lengthIn,
+    widthIn: base.widthIn,
+    heightIn: y,
+    weightLbs: weight,
+    unplaced,
+  };
+}
+
+// ============================================================================
+// COMPOSITE ITEMS
+// ============================================================================
+
+/** Categories in order of how much care they need; the pallet takes the strictest */
+const CATEGORY_PRIORITY: ItemCategory[] = ['hazardous', 'fragile', 'perishable', 'heavy', 'general'];
+
+/** The rule that allows only what every one of the given rules allows */
+function strictestStackingRule(rules: StackingRule[]): StackingRule {
+  if (rules.includes('none')) return 'none';
+  const lists = rules.filter((rule): rule is ItemCategory[] => Array.isArray(rule));
+  if (lists.length === 0) return 'all';
+  const allowed = lists[0].filter(category => lists.every(list => list.includes(category)));
+  return allowed.length > 0 ? allowed : 'none';
+}
+
+/**
+ * Describes a built pallet as new-item data for the container. The pallet
+ * takes the strictest carton category, may not be tipped, and accepts on
+ * top only the categories every carton in its top layer accepts. It is marked with the class
+ * of its first hazmat carton; segregation checks and the dangerous goods
+ * lists use every carton's class and declaration (see hazmatUnits).
+ *
+ * @param result - A build with at least one stacked carton
+ * @param label - Name for the pallet item
+ */
+export function palletItemData(result: PalletBuildResult, label: string): Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'> {
+  const cartons = result.contents.cartons;
+  const topY = Math.max(...cartons.map(c => c.posY));
+  const topLayer = cartons.filter(c => c.posY === topY);
+
+  return {
+    label,
+    lengthIn: result.lengthIn,
+    widthIn: result.widthIn,
+    heightIn: result.heightIn,
+    weightLbs: result.weightLbs,
+    category: CATEGORY_PRIORITY.find(cat => cartons.some(c => c.category === cat)) ?? 'general',
+    acceptsOnTop: strictestStackingRule(topLayer.map(c => c.acceptsOnTop)),
+    canStackOn: 'all',
+    allowedOrientations: 'upright',
+    hazmatLevel: cartons.find(c => c.hazmatLevel && c.hazmatLevel !== 'none')?.hazmatLevel ?? 'none',
+    palletContents: result.contents,
+  };
+}
+
+/**
+ * Position of a carton inside a pallet after the pallet has been turned
+ * rotationY quarter turns, in the same frame as the pallet's current
+ * length/width.
+ */
+export function palletCartonFootprint(
+  carton: CargoItem,
+  contents: PalletContents,
+  rotationY: number
+): { x: number; z: number; l: number; w: number } {
+  const L = contents.base.lengthIn;
+  const W = contents.base.widthIn;
+  const { posX: x, posZ: z, lengthIn: l, widthIn: w } = carton;
+  switch (rotationY % 4) {
+    case 1: return { x: W - z - w, z: x, l: w, w: l };
+    case 2: return { x: L - x - l, z: W - z - w, l, w };
+    case 3: return { x: z, z: L - x - l, l: w, w: l };
+    default: return { x, z, l, w };
+  }
+}
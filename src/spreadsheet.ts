@@ -0,0 +1,208 @@
+/**
+ * Spreadsheet Export
+ *
+ * Writes tables of cells as CSV text or as an .xlsx workbook. This file contains:
+ * - CSV serialisation (RFC 4180 quoting)
+ * - A minimal XLSX writer (one worksheet per table, bold header row,
+ *   stored zip entries, no external dependencies)
+ *
+ * Numbers are written as numeric cells so they stay usable in formulas;
+ * everything else is written as text.
+ */
+
+/** A cell value; undefined and null are written as empty cells */
+export type SheetCell = string | number | null | undefined;
+
+/** One worksheet: the first row is treated as the header */
+export interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/** Leading characters that make Excel and other spreadsheet apps read text as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Serialises rows as CSV with CRLF line endings. Starts with a byte order
+ * mark so Excel reads the file as UTF-8. Text cells that would be read as a
+ * formula (labels, SKUs and other typed-in text starting with = + - @, tab
+ * or CR) get a leading apostrophe; numbers are written as they are.
+ *
+ * @example
+ * toCsv([['Label', 'Weight'], ['Carton, large', 40]]) // '\uFEFFLabel,Weight\r\n"Carton, large",40\r\n'
+ * toCsv([['=SUM(A1)']])                                // "\uFEFF'=SUM(A1)\r\n"
+ */
+export function toCsv(rows: SheetCell[][]): string {
+  const escape = (cell: SheetCell) => {
+    let text = cell === null || cell === undefined ? '' : String(cell);
+    if (typeof cell === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return '\uFEFF' + rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/** Control characters, non-characters and lone surrogates, none of which XML 1.0 allows */
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g;
+
+const escapeXml = (text: string) =>
+  text.replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Makes sheet names Excel accepts: no \ / ? * [ ] :, at most 31 characters,
+ * not blank and unique ignoring case. Clashes get " (2)", " (3)"... with the
+ * name shortened to make room.
+ */
+function sheetNames(sheets: Sheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(INVALID_XML_CHARS, '').replace(/[\\/?*[\]:]/g, ' ').replace(/^'+|'+$/g, '').trim() || `Sheet${i + 1}`;
+    let name = base.slice(0, 31);
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length).trimEnd() + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/** Spreadsheet column letters for a 0-based index (0 → A, 26 → AA) */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: SheetCell[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      if (cell === null || cell === undefined || cell === '') return '';
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      if (typeof cell === 'number' && isFinite(cell)) return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${body}</sheetData></worksheet>`;
+}
+
+/**
+ * Builds an .xlsx workbook with one worksheet per sheet.
+ * Sheet names are cleaned up for Excel (see sheetNames).
+ *
+ * @example
+ * const blob = buildXlsx([{ name: 'Items', rows }, { name: 'Summary', rows: summary }]);
+ */
+export function buildXlsx(sheets: Sheet[]): Blob {
+  const names = sheetNames(sheets);
+  const files: [string, string][] = [
+    ['[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    }</Types>`],
+    ['_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`],
+    ['xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+      names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+    }</sheets></workbook>`],
+    ['xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    }<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`],
+    ['xl/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="2"><xf/><xf fontId="1" applyFont="1"/></cellXfs></styleSheet>`],
+    ...sheets.map((sheet, i): [string, string] => [`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet.rows)]),
+  ];
+
+  return new Blob([zipStored(files)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// ============================================================================
+// ZIP (stored entries)
+// ============================================================================
+
+/** CRC-32 lookup table (IEEE polynomial) */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs text files into an uncompressed zip archive.
+ * Workbooks are small, so skipping compression keeps this simple.
+ */
+function zipStored(files: [string, string][]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const entries = files.map(([name, text]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(text);
+    return { nameBytes, data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  for (const e of entries) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);               // version needed
+    view.setUint32(offset + 14, e.crc, true);
+    view.setUint32(offset + 18, e.data.length, true);   // compressed size
+    view.setUint32(offset + 22, e.data.length, true);   // uncompressed size
+    view.setUint16(offset + 26, e.nameBytes.length, true);
+    out.set(e.nameBytes, offset + 30);
+    out.set(e.data, offset + 30 + e.nameBytes.length);
+    offset += 30 + e.nameBytes.length + e.data.length;
+  }
+
+  const centralStart = offset;
+  entries.forEach((e, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);               // version made by
+    view.setUint16(offset + 6, 20, true);               // version needed
+    view.setUint32(offset + 16, e.crc, true);
+    view.setUint32(offset + 20, e.data.length, true);
+    view.setUint32(offset + 24, e.data.length, true);
+    view.setUint16(offset + 28, e.nameBytes.length, true);
+    view.setUint32(offset + 42, localOffsets[i], true);
+    out.set(e.nameBytes, offset + 46);
+    offset += 46 + e.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out.buffer;
+}
@@ -26,12 +26,31 @@ import {
   ColorMode,
   LibraryItemDef,
   DEFAULT_LIBRARY,
-  GRID_SIZES,
   DEFAULT_GRID_SIZE,
   StackingRule,
   HazmatLevel,
   HAZMAT_CLASSES,
+  PackingGroup,
+  DangerousGoodsField,
+  DANGEROUS_GOODS_FIELDS,
   SavedLoad,
+  EquipmentType,
+  EQUIPMENT_TYPES,
+  EQUIPMENT_PRESETS,
+  CogTolerance,
+  DEFAULT_COG_TOLERANCE,
+  TopLoadUnit,
+  OrientationRule,
+  ORIENTATION_RULES,
+  ChassisConfig,
+  DEFAULT_CHASSIS_CONFIG,
+  PalletConfig,
+  PalletPattern,
+  PALLET_BASES,
+  PALLET_PATTERNS,
+  UnitSystem,
+  UNIT_SYSTEMS,
+  AutosaveRecord,
 } from "./definitions";
 import {
   calculateUtilization,
@@ -42,7 +61,56 @@ import {
   getRotationLabel,
   ValidationResult,
   stackingRuleLabel,
+  formatTopLoad,
+  calculateCenterOfGravity,
+  checkCogTolerance,
+  findSegregationViolations,
+  formatSegregationViolation,
+  formatDangerousGoods,
+  dangerousGoodsItems,
+  formatCog,
+  describeCogOffset,
+  CenterOfGravity,
+  MAX_LINE_QUANTITY,
+  ItemLine,
+  groupItemsByLine,
+  formatItemLine,
+  getUnitSystem,
+  lengthUnit,
+  weightUnit,
+  volumeUnit,
+  toDisplayLength,
+  fromDisplayLength,
+  toDisplayWeight,
+  fromDisplayWeight,
+  toDisplayVolume,
+  toDisplayTopLoad,
+  fromDisplayTopLoad,
+  toInputValue,
+  gridSizeOptions,
+  formatLength,
+  formatMass,
+  formatVolume,
+  formatWeightNumber,
+  setUnitSystem,
 } from "./utils";
+import { calculateAxleLoads, checkAxleLimits, formatAxleLoad, AxleLoads } from "./axles";
+import { buildPallet } from "./pallets";
+import { generateLoadPlan } from "./loadplan";
+import { toCsv, buildXlsx, SheetCell } from "./spreadsheet";
+import {
+  ImportField,
+  IMPORT_FIELDS,
+  ImportRow,
+  ColumnMapping,
+  LengthUnit,
+  WeightUnit,
+  LENGTH_UNITS,
+  WEIGHT_UNITS,
+  guessColumnMapping,
+  guessUnits,
+  convertImportRows,
+} from "./importer";
 import { persistence } from "./libs/persistence";
 import {
   AuthUser,
@@ -58,8 +126,20 @@ import {
   apiDeleteUser,
   apiGetProjectViewers,
   apiSetProjectViewers,
+  apiListProjectRevisions,
+  apiGetProjectRevision,
+  apiRestoreProjectRevision,
+  apiForkProjectRevision,
+  projectConflictOf,
   ProjectSummary,
+  ProjectFull,
+  ProjectRevisionFull,
+  ProjectConflict,
 } from "./libs/api";
+import { UnplacedItem } from "./packing";
+import { ContainerEstimate, ContainerRates } from "./estimator";
+import { ComparisonSide, LoadComparison, ItemChange, ItemChangeKind, CHANGE_COLORS, CHANGE_LABELS } from "./compare";
+import { PlacedAnnotation, describeAnnotationPoint, formatAnnotation } from "./annotations";
 import { logout } from "./auth";
 import { loadLogoDataUrl, getLogoDataUrl } from "./logo";
 
@@ -74,8 +154,10 @@ import { loadLogoDataUrl, getLogoDataUrl } from "./logo";
  */
 export interface UICallbacks {
   onContainerChange: (specName: string) => void;
-  onAddItem: (item: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>) => void;
-  onAddItemFromLibrary: (def: LibraryItemDef) => void;
+  /** quantity > 1 adds a packing-list line of identical items */
+  onAddItem: (item: Omit<CargoItem, 'id' | 'posX' | 'posY' | 'posZ' | 'visible' | 'color' | 'rotationY' | 'origLengthIn' | 'origWidthIn' | 'origHeightIn'>, quantity?: number) => void;
+  /** Adds a library item under the name the user chose; quantity > 1 adds a packing-list line */
+  onAddItemFromLibrary: (def: LibraryItemDef, quantity: number, sku?: string) => void;
   onSelectItem: (id: string | null) => void;
   onDeleteItem: (id: string) => void;
   onToggleVisibility: (id: string) => void;
@@ -83,6 +165,7 @@ export interface UICallbacks {
   onToggleSnap: (snap: boolean) => void;
   onGridSizeChange: (size: number) => void;
   onColorModeChange: (mode: ColorMode) => void;
+  onUnitSystemChange: (system: UnitSystem) => void;
   onResetView: () => void;
   onExportImage: () => void;
   onShowManifest: () => void;
@@ -93,14 +176,30 @@ export interface UICallbacks {
   onRotateItem: (id: string, rotationType: 'y' | 'tipForward' | 'tipSide') => void;
   onToggleTheme: () => void;
   onToggleLabels: () => void;
-  onEditItem: (id: string, changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'hazmatLevel'>>) => void;
+  onEditItem: (id: string, changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'allowedOrientations' | 'maxTopLoad' | 'maxTopLoadUnit' | 'hazmatLevel' | DangerousGoodsField>>) => void;
   onSaveLoad: () => void;
   onLoadFile: () => void;
   onImportFile: () => void;
+  onImportPackingList: () => void;
   onStageItem: (id: string) => void;
   onLoadFromStaging: (id: string) => void;
   onRemoveFromStaging: (id: string) => void;
   onClearStaging: () => void;
+  onAutoPackAll: () => void;
+  onPackStaging: () => void;
+  onOpenPalletBuilder: () => void;
+  onShowEstimator: () => void;
+  onManageContainers: () => void;
+  onCogToleranceChange: (tolerance: CogTolerance) => void;
+  onChassisChange: (chassis: ChassisConfig) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Joins or leaves the live editing session of the open project */
+  onToggleLive: () => void;
+  /** Pins a new note to the selected item */
+  onAddItemNote: () => void;
+  /** Starts placing a new note at a point clicked in the container */
+  onAddPointNote: () => void;
 }
 
 // ============================================================================
@@ -119,6 +218,9 @@ let allLibraryItems: LibraryItemDef[] = [...DEFAULT_LIBRARY];
 /** Global callbacks reference (used by helper functions) */
 let _globalCallbacks: UICallbacks | null = null;
 
+/** Chassis config shown in the settings inputs; inputs left untouched read back exactly */
+let shownChassis: ChassisConfig = DEFAULT_CHASSIS_CONFIG;
+
 // ============================================================================
 // COLOR MANAGEMENT
 // ============================================================================
@@ -187,6 +289,18 @@ function buildHazmatSelectHTML(id: string, selected: HazmatLevel = 'none'): stri
   return `<select id="${id}" style="width:100%">${options}</select>`;
 }
 
+/**
+ * Builds the <select> HTML for choosing an item's allowed orientations.
+ * @param id - The element id to assign to the <select>
+ * @param selected - The currently-selected OrientationRule (default 'any')
+ */
+function buildOrientationSelectHTML(id: string, selected: OrientationRule = 'any'): string {
+  const options = (Object.keys(ORIENTATION_RULES) as OrientationRule[]).map(key =>
+    `<option value="${key}" ${selected === key ? 'selected' : ''}>${ORIENTATION_RULES[key]}</option>`
+  ).join('');
+  return `<select id="${id}" style="width:100%">${options}</select>`;
+}
+
 // ============================================================================
 // STACKING RULE UI HELPERS
 // ============================================================================
@@ -250,6 +364,170 @@ function readStackingRule(idPrefix: string): StackingRule {
   return checked.length > 0 ? checked : 'none';
 }
 
+// ============================================================================
+// TOP-LOAD UI HELPERS
+// ============================================================================
+
+/**
+ * Generates HTML for a max top load input with a unit selector.
+ * The two generated element IDs are `${idPrefix}-value` and `${idPrefix}-unit`.
+ * The value is shown in the current unit system (kg and kg/m² in metric).
+ */
+function buildTopLoadHTML(idPrefix: string, value?: number, unit: TopLoadUnit = 'lbs'): string {
+  const metric = getUnitSystem() === 'metric';
+  const shown = value !== undefined ? toInputValue(toDisplayTopLoad(value, unit)) : '';
+  return `
+    <div class="form-group">
+      <label>Max Top Load</label>
+      <div style="display:flex;gap:6px">
+        <input type="number" id="${idPrefix}-value" value="${shown}" placeholder="No limit" min="0" style="flex:1" />
+        <select id="${idPrefix}-unit" style="width:92px">
+          <option value="lbs" ${unit === 'lbs' ? 'selected' : ''}>${metric ? 'kg' : 'lbs'}</option>
+          <option value="lbs/sqft" ${unit === 'lbs/sqft' ? 'selected' : ''}>${metric ? 'kg/m²' : 'lbs/ft²'}</option>
+        </select>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Reads a max top load control. An empty value means no limit.
+ * Returns null (after showing an error toast) when the value is invalid.
+ * When `original` is given and the value was left as shown, it is returned unchanged.
+ */
+function readTopLoad(
+  idPrefix: string,
+  original?: { maxTopLoad?: number; maxTopLoadUnit?: TopLoadUnit }
+): { maxTopLoad?: number; maxTopLoadUnit: TopLoadUnit } | null {
+  const input = document.getElementById(`${idPrefix}-value`) as HTMLInputElement;
+  const raw = input.value.trim();
+  const maxTopLoadUnit = (document.getElementById(`${idPrefix}-unit`) as HTMLSelectElement).value as TopLoadUnit;
+  if (raw === '') return { maxTopLoad: undefined, maxTopLoadUnit };
+  if (original && input.value === input.defaultValue && maxTopLoadUnit === (original.maxTopLoadUnit ?? 'lbs')) {
+    return { maxTopLoad: original.maxTopLoad, maxTopLoadUnit };
+  }
+  const maxTopLoad = parseFloat(raw);
+  if (isNaN(maxTopLoad) || maxTopLoad < 0) {
+    showToast('Please enter a valid max top load', 'error');
+    return null;
+  }
+  return { maxTopLoad: fromDisplayTopLoad(maxTopLoad, maxTopLoadUnit), maxTopLoadUnit };
+}
+
+// ============================================================================
+// DANGEROUS GOODS UI HELPERS
+// ============================================================================
+
+/**
+ * Generates HTML for the dangerous goods fields (UN number, proper shipping
+ * name, packing group, subsidiary risk, flash point, marine pollutant).
+ * Element IDs are `${idPrefix}-un`, `-psn`, `-pg`, `-subrisk`, `-flash` and `-mp`;
+ * the wrapper is `${idPrefix}` and is hidden unless `visible` is set.
+ */
+function buildDangerousGoodsHTML(idPrefix: string, item: Partial<Pick<CargoItem, DangerousGoodsField>>, visible: boolean): string {
+  const groups: PackingGroup[] = ['I', 'II', 'III'];
+  return `
+    <div id="${idPrefix}" style="display:${visible ? 'block' : 'none'};margin-top:8px;padding:10px 12px;background:var(--bg-card);border:1px solid var(--border-color);border-radius:var(--radius-sm)">
+      <div class="form-row">
+        <div class="form-group">
+          <label>UN Number</label>
+          <input type="text" id="${idPrefix}-un" value="${escapeHtml(item.unNumber ?? '')}" placeholder="e.g. 1263" maxlength="6" />
+        </div>
+        <div class="form-group">
+          <label>Packing Group</label>
+          <select id="${idPrefix}-pg">
+            <option value="">—</option>
+            ${groups.map(pg => `<option value="${pg}" ${item.packingGroup === pg ? 'selected' : ''}>${pg}</option>`).join('')}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Subsidiary Risk</label>
+          <input type="text" id="${idPrefix}-subrisk" value="${escapeHtml(item.subsidiaryRisk ?? '')}" placeholder="e.g. 6.1" />
+        </div>
+      </div>
+      <div class="form-group">
+        <label>Proper Shipping Name</label>
+        <input type="text" id="${idPrefix}-psn" value="${escapeHtml(item.properShippingName ?? '')}" placeholder="e.g. PAINT" />
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>Flash Point (°C)</label>
+          <input type="number" id="${idPrefix}-flash" value="${item.flashPointC ?? ''}" placeholder="None" step="1" />
+        </div>
+        <div class="form-group" style="justify-content:flex-end">
+          <label style="display:flex;align-items:center;gap:6px;cursor:pointer;text-transform:none">
+            <input type="checkbox" id="${idPrefix}-mp" ${item.marinePollutant ? 'checked' : ''} /> Marine pollutant
+          </label>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Reads the dangerous goods fields. Empty fields come back undefined.
+ * Returns null (after showing an error toast) when the UN number or flash point is invalid.
+ */
+function readDangerousGoods(idPrefix: string): Pick<CargoItem, DangerousGoodsField> | null {
+  const text = (suffix: string) => (document.getElementById(`${idPrefix}-${suffix}`) as HTMLInputElement).value.trim();
+  const unNumber = text('un').replace(/^UN\s*/i, '');
+  if (unNumber && !/^\d{4}$/.test(unNumber)) {
+    showToast('UN number must be four digits, e.g. 1263', 'error');
+    return null;
+  }
+  const flash = text('flash');
+  const flashPointC = flash === '' ? undefined : parseFloat(flash);
+  if (flashPointC !== undefined && isNaN(flashPointC)) {
+    showToast('Please enter a valid flash point', 'error');
+    return null;
+  }
+  return {
+    unNumber: unNumber || undefined,
+    properShippingName: text('psn').toUpperCase() || undefined,
+    packingGroup: (text('pg') || undefined) as PackingGroup | undefined,
+    subsidiaryRisk: text('subrisk') || undefined,
+    flashPointC,
+    marinePollutant: (document.getElementById(`${idPrefix}-mp`) as HTMLInputElement).checked || undefined,
+  };
+}
+
+// ============================================================================
+// UNIT INPUT HELPERS
+// ============================================================================
+
+/** Label suffix spans; setUnitLabels() rewrites them when the unit system changes */
+const lengthUnitHTML = () => `<span class="unit-length">${lengthUnit()}</span>`;
+const weightUnitHTML = () => `<span class="unit-weight">${weightUnit()}</span>`;
+
+/** Input value for a length in inches, shown in the current unit */
+const lengthInputValue = (inches: number) => toInputValue(toDisplayLength(inches));
+
+/** Input value for a weight in pounds, shown in the current unit */
+const weightInputValue = (lbs: number) => toInputValue(toDisplayWeight(lbs));
+
+/**
+ * Reads a length input in the current unit and returns inches (NaN when empty).
+ * An input left at its initial value returns `original`, so opening and saving
+ * a form in metric never rounds the stored inches.
+ */
+function readLengthInput(input: HTMLInputElement, original?: number): number {
+  if (original !== undefined && input.value === input.defaultValue) return original;
+  return fromDisplayLength(parseFloat(input.value));
+}
+
+/** Weight counterpart of readLengthInput: returns pounds */
+function readWeightInput(input: HTMLInputElement, original?: number): number {
+  if (original !== undefined && input.value === input.defaultValue) return original;
+  return fromDisplayWeight(parseFloat(input.value));
+}
+
+/** Grid size buttons for the current unit system; values are in inches */
+function buildGridSizeButtonsHTML(activeInches: number): string {
+  return gridSizeOptions().map(option => `
+    <button class="grid-size-btn ${option.inches === activeInches ? 'active' : ''}" data-grid-size="${option.inches}">${option.label}</button>
+  `).join('');
+}
+
 // ============================================================================
 // UI BUILDING
 // ============================================================================
@@ -329,17 +607,14 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
   const containerSection = document.createElement('div');
   containerSection.className = 'panel-section compact';
   containerSection.innerHTML = `
-    <div class="panel-section-title">Container Type</div>
-    <div class="container-selector" id="container-selector">
-      ${Object.entries(CONTAINER_SPECS).map(([key, spec]) => `
-        <button class="container-btn ${key === '20ft' ? 'active' : ''}" data-container="${key}">
-          ${spec.label}
-          <small>${spec.lengthFt.toFixed(0)}' x ${spec.widthFt.toFixed(0)}' x ${spec.heightFt.toFixed(0)}'</small>
-        </button>
-      `).join('')}
+    <div style="display:flex;align-items:center;justify-content:space-between;margin-bottom:8px">
+      <div class="panel-section-title" style="margin-bottom:0">Container Type</div>
+      <button class="btn btn-sm btn-secondary" id="btn-manage-containers" title="Define trucks, trailers and other equipment">+ Custom</button>
     </div>
+    <div class="container-selector" id="container-selector"></div>
   `;
   cargoScroll.appendChild(containerSection);
+  renderContainerSelector(callbacks);
 
   // Stats section
   const statsSection = document.createElement('div');
@@ -362,24 +637,42 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
         </div>
         <div class="stat-card">
           <div class="stat-label">Net Weight (Cargo)</div>
-          <div class="stat-value accent-blue" id="stat-net-weight">0 lbs</div>
+          <div class="stat-value accent-blue" id="stat-net-weight">0 ${weightUnit()}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Gross Weight</div>
-          <div class="stat-value" id="stat-gross-weight">0 lbs</div>
+          <div class="stat-value" id="stat-gross-weight">0 ${weightUnit()}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Available Weight</div>
-          <div class="stat-value accent-green" id="stat-avail-weight">0 lbs</div>
+          <div class="stat-value accent-green" id="stat-avail-weight">0 ${weightUnit()}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Max Payload</div>
-          <div class="stat-value accent-yellow" id="stat-max-weight">47,900 lbs</div>
+          <div class="stat-value accent-yellow" id="stat-max-weight">${formatMass(47900)}</div>
         </div>
         <div class="stat-card full-width">
           <div class="stat-label">Weight Utilization</div>
           <div class="utilization-bar"><div class="utilization-fill" id="utilization-fill" style="width: 0%"></div></div>
         </div>
+        <div class="stat-card full-width">
+          <div class="stat-label" id="stat-dist-label">Weight Distribution</div>
+          <div class="weight-dist">
+            <div class="weight-dist-segment" id="stat-dist-front" style="flex:50;background:var(--accent-cyan)"></div>
+            <div class="weight-dist-segment" id="stat-dist-back" style="flex:50;background:var(--accent-blue)"></div>
+          </div>
+          <div id="stat-axles" style="margin-top:6px"></div>
+        </div>
+        <div class="stat-card full-width">
+          <div class="stat-label">Center of Gravity</div>
+          <div class="stat-value" id="stat-cog" style="font-size:12px">—</div>
+          <div id="stat-cog-offset" style="font-size:10.5px;color:var(--text-muted);margin-top:2px"></div>
+          <div id="stat-cog-warnings"></div>
+        </div>
+        <div class="stat-card full-width" id="stat-segregation-card" style="display:none">
+          <div class="stat-label">Hazmat Segregation (IMDG)</div>
+          <div id="stat-segregation"></div>
+        </div>
       </div>
     </div>
   `;
@@ -412,19 +705,29 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
       </div>
       <div class="form-row">
         <div class="form-group">
-          <label>L (in)</label>
+          <label>Qty</label>
+          <input type="number" id="item-qty" value="1" min="1" max="${MAX_LINE_QUANTITY}" />
+        </div>
+        <div class="form-group" style="flex:2">
+          <label>SKU (optional)</label>
+          <input type="text" id="item-sku" placeholder="e.g. CTN-2418" />
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>L (${lengthUnitHTML()})</label>
           <input type="number" id="item-length" placeholder="48" min="1" />
         </div>
         <div class="form-group">
-          <label>W (in)</label>
+          <label>W (${lengthUnitHTML()})</label>
           <input type="number" id="item-width" placeholder="40" min="1" />
         </div>
         <div class="form-group">
-          <label>H (in)</label>
+          <label>H (${lengthUnitHTML()})</label>
           <input type="number" id="item-height" placeholder="48" min="1" />
         </div>
         <div class="form-group">
-          <label>Wt (lbs)</label>
+          <label>Wt (${weightUnitHTML()})</label>
           <input type="number" id="item-weight" placeholder="500" min="0" />
         </div>
       </div>
@@ -432,6 +735,13 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
         ${buildStackingRuleHTML('item-aot', 'Accepts on Top', 'all')}
         ${buildStackingRuleHTML('item-cso', 'Can Stack On', 'all')}
       </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>Orientation</label>
+          ${buildOrientationSelectHTML('item-orientation')}
+        </div>
+      </div>
+      ${buildTopLoadHTML('item-topload')}
       <div class="form-group" style="margin-top:6px">
         <label>Hazmat Class (UN/DOT)</label>
         ${buildHazmatSelectHTML('item-hazmat', 'none')}
@@ -451,11 +761,19 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     <div style="display:flex;gap:4px">
       <button class="btn btn-sm btn-secondary" id="btn-show-all" title="Show All">Show</button>
       <button class="btn btn-sm btn-secondary" id="btn-hide-all" title="Hide All">Hide</button>
+      <button class="btn btn-sm btn-secondary" id="btn-group-lines" title="Collapse items by packing-list line">Lines</button>
+      <button class="btn btn-sm btn-secondary" id="btn-auto-pack" title="Re-pack all loaded items with the packing engine">Auto-pack</button>
       <button class="btn btn-sm btn-danger" id="btn-clear-all" title="Clear All">Clear</button>
     </div>
   `;
   cargoTab.appendChild(itemsHeader);
 
+  // Bulk actions for a multi-selection (filled in by updateItemsList)
+  const bulkBar = document.createElement('div');
+  bulkBar.className = 'items-bulk-bar';
+  bulkBar.id = 'items-bulk-bar';
+  cargoTab.appendChild(bulkBar);
+
   // Items list
   const itemsList = document.createElement('div');
   itemsList.className = 'items-list-container';
@@ -477,7 +795,11 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
       <div class="panel-section-title" style="margin-bottom:0">Staging</div>
       <span class="staging-count-badge" id="staging-count"></span>
     </div>
-    <button class="btn btn-sm btn-secondary" id="btn-clear-staging" title="Permanently remove all staged items" style="display:none">Clear</button>
+    <div style="display:flex;gap:4px">
+      <button class="btn btn-sm btn-secondary" id="btn-pack-staging" title="Pack all staged items into the container" style="display:none">Pack</button>
+      <button class="btn btn-sm btn-secondary" id="btn-palletize" title="Stack staged cartons onto a pallet" style="display:none">Palletize</button>
+      <button class="btn btn-sm btn-secondary" id="btn-clear-staging" title="Remove all staged items" style="display:none">Clear</button>
+    </div>
   `;
   cargoTab.appendChild(stagingHeader);
 
@@ -488,6 +810,30 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
   stagingList.innerHTML = `<div class="staging-empty">No items in staging</div>`;
   cargoTab.appendChild(stagingList);
 
+  // Notes section header
+  const notesHeader = document.createElement('div');
+  notesHeader.className = 'items-list-header notes-header';
+  notesHeader.innerHTML = `
+    <div style="display:flex;align-items:center;gap:6px">
+      <div class="panel-section-title" style="margin-bottom:0">Notes</div>
+      <span class="notes-count-badge" id="notes-count"></span>
+    </div>
+    ${user.role !== 'viewer' ? `
+      <div style="display:flex;gap:4px">
+        <button class="btn btn-sm btn-secondary" id="btn-add-item-note" title="Pin a note to the selected item (N)">+ Item</button>
+        <button class="btn btn-sm btn-secondary" id="btn-add-point-note" title="Pin a note to a point in the container">+ Point</button>
+      </div>
+    ` : ''}
+  `;
+  cargoTab.appendChild(notesHeader);
+
+  // Notes list
+  const notesList = document.createElement('div');
+  notesList.className = 'notes-list-container';
+  notesList.id = 'notes-list';
+  notesList.innerHTML = `<div class="staging-empty">No notes</div>`;
+  cargoTab.appendChild(notesList);
+
   leftPanel.appendChild(cargoTab);
 
   // ===== TAB: LIBRARY =====
@@ -528,22 +874,27 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
         </div>
         <div class="form-row">
           <div class="form-group">
-            <label>L (in)</label>
+            <label>L (${lengthUnitHTML()})</label>
             <input type="number" id="lib-length" placeholder="48" min="1" />
           </div>
           <div class="form-group">
-            <label>W (in)</label>
+            <label>W (${lengthUnitHTML()})</label>
             <input type="number" id="lib-width" placeholder="40" min="1" />
           </div>
           <div class="form-group">
-            <label>H (in)</label>
+            <label>H (${lengthUnitHTML()})</label>
             <input type="number" id="lib-height" placeholder="48" min="1" />
           </div>
           <div class="form-group">
-            <label>Wt (lbs)</label>
+            <label>Wt (${weightUnitHTML()})</label>
             <input type="number" id="lib-weight" placeholder="500" min="0" />
           </div>
         </div>
+        <div class="form-group">
+          <label>Orientation</label>
+          ${buildOrientationSelectHTML('lib-orientation')}
+        </div>
+        ${buildTopLoadHTML('lib-topload')}
         <button class="btn btn-success btn-full btn-sm" id="btn-save-preset">Save to Library</button>
       </div>
     </div>
@@ -594,11 +945,9 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
       </div>
     </div>
     <div style="margin-top:4px">
-      <label style="font-size:10.5px;color:var(--text-secondary);font-weight:500;display:block;margin-bottom:6px">Grid Size (inches)</label>
+      <label style="font-size:10.5px;color:var(--text-secondary);font-weight:500;display:block;margin-bottom:6px">Grid Size</label>
       <div class="grid-size-options" id="grid-size-options">
-        ${GRID_SIZES.map(size => `
-          <button class="grid-size-btn ${size === DEFAULT_GRID_SIZE ? 'active' : ''}" data-grid-size="${size}">${size}"</button>
-        `).join('')}
+        ${buildGridSizeButtonsHTML(DEFAULT_GRID_SIZE)}
       </div>
     </div>
   `;
@@ -622,9 +971,69 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
         <option value="weight">By Weight</option>
       </select>
     </div>
+    <div class="form-group" style="max-width:200px">
+      <label>Units</label>
+      <select id="unit-system">
+        ${(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map(u => `<option value="${u}" ${u === getUnitSystem() ? 'selected' : ''}>${UNIT_SYSTEMS[u]}</option>`).join('')}
+      </select>
+    </div>
   `;
   settingsScroll.appendChild(settingsSection1b);
 
+  const settingsSectionBalance = document.createElement('div');
+  settingsSectionBalance.className = 'panel-section';
+  settingsSectionBalance.innerHTML = `
+    <div class="panel-section-title">Load Balance</div>
+    <p style="font-size:11.5px;color:var(--text-muted);margin-bottom:10px">Warn when the center of gravity leaves this envelope.</p>
+    <div class="form-row">
+      <div class="form-group">
+        <label>Max Height (% of H)</label>
+        <input type="number" id="cog-max-height" min="1" max="100" value="${DEFAULT_COG_TOLERANCE.maxHeightPct}" />
+      </div>
+      <div class="form-group">
+        <label>Fore/Aft (% of L)</label>
+        <input type="number" id="cog-max-long" min="0" max="50" step="0.5" value="${DEFAULT_COG_TOLERANCE.maxLongitudinalOffsetPct}" />
+      </div>
+      <div class="form-group">
+        <label>Sideways (% of W)</label>
+        <input type="number" id="cog-max-lat" min="0" max="50" step="0.5" value="${DEFAULT_COG_TOLERANCE.maxLateralOffsetPct}" />
+      </div>
+    </div>
+  `;
+  settingsScroll.appendChild(settingsSectionBalance);
+
+  const settingsSectionChassis = document.createElement('div');
+  settingsSectionChassis.className = 'panel-section';
+  settingsSectionChassis.innerHTML = `
+    <div class="panel-section-title">Chassis &amp; Axle Limits</div>
+    <p style="font-size:11.5px;color:var(--text-muted);margin-bottom:10px">Used to split the gross weight between the kingpin and the rear axle group.</p>
+    <div class="form-row">
+      <div class="form-group">
+        <label>Kingpin from Front (${lengthUnitHTML()})</label>
+        <input type="number" id="chassis-kingpin" min="0" value="${lengthInputValue(DEFAULT_CHASSIS_CONFIG.kingpinFromFrontIn)}" />
+      </div>
+      <div class="form-group">
+        <label>Axles from Rear (${lengthUnitHTML()})</label>
+        <input type="number" id="chassis-axle" min="0" value="${lengthInputValue(DEFAULT_CHASSIS_CONFIG.axleFromRearIn)}" />
+      </div>
+    </div>
+    <div class="form-group">
+      <label>Chassis Tare (${weightUnitHTML()})</label>
+      <input type="number" id="chassis-tare" min="0" value="${weightInputValue(DEFAULT_CHASSIS_CONFIG.chassisTareLbs)}" />
+    </div>
+    <div class="form-row">
+      <div class="form-group">
+        <label>Kingpin Limit (${weightUnitHTML()})</label>
+        <input type="number" id="chassis-kingpin-limit" min="0" value="${weightInputValue(DEFAULT_CHASSIS_CONFIG.kingpinLimitLbs)}" />
+      </div>
+      <div class="form-group">
+        <label>Axle Limit (${weightUnitHTML()})</label>
+        <input type="number" id="chassis-axle-limit" min="0" value="${weightInputValue(DEFAULT_CHASSIS_CONFIG.axleLimitLbs)}" />
+      </div>
+    </div>
+  `;
+  settingsScroll.appendChild(settingsSectionChassis);
+
   const settingsSection2 = document.createElement('div');
   settingsSection2.className = 'panel-section';
   settingsSection2.innerHTML = `
@@ -820,6 +1229,9 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     <button class="toolbar-btn" id="btn-view-side" title="Side View">Side</button>
     <button class="toolbar-btn" id="btn-view-iso" title="Isometric">3D</button>
     <div class="toolbar-divider"></div>
+    <button class="toolbar-btn" id="btn-undo" title="Undo (Ctrl+Z)" disabled>↶ Undo</button>
+    <button class="toolbar-btn" id="btn-redo" title="Redo (Ctrl+Shift+Z)" disabled>↷ Redo</button>
+    <div class="toolbar-divider"></div>
     <button class="toolbar-btn active" id="btn-toggle-labels" title="Toggle 3D Item Labels (L)">Labels</button>
     <button class="toolbar-btn" id="btn-rotate-sel" title="Rotate Selected 90° (R)">Rotate</button>
     <button class="toolbar-btn" id="btn-edit-sel" title="Edit Selected Item (E)">Edit</button>
@@ -827,9 +1239,12 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     <button class="toolbar-btn" id="btn-save-load" title="Save Load to File">💾 Save</button>
     <button class="toolbar-btn" id="btn-load-file" title="Load File">📂 Load</button>
     <button class="toolbar-btn" id="btn-import-file" title="Import layout from a local JSON file">⬆ Import</button>
+    <button class="toolbar-btn" id="btn-import-list" title="Import a packing list from CSV or Excel">📄 Packing List</button>
+    <button class="toolbar-btn" id="btn-live" title="Edit the open project live with other users">👥 Live</button>
     <div class="toolbar-divider"></div>
     <button class="toolbar-btn" id="btn-loadplan" title="Step-by-Step Load Plan">Load Plan</button>
     <button class="toolbar-btn" id="btn-manifest" title="Loading Manifest">Manifest</button>
+    <button class="toolbar-btn" id="btn-estimator" title="How many containers does this cargo need?">Estimate</button>
     <button class="toolbar-btn" id="btn-export" title="Export Image">Export</button>
   `;
   viewport.appendChild(toolbarDiv);
@@ -845,14 +1260,31 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
   const snapIndicator = document.createElement('div');
   snapIndicator.className = 'snap-indicator';
   snapIndicator.id = 'snap-indicator';
-  snapIndicator.innerHTML = `<span class="snap-dot"></span><span id="snap-label">Snap: ${DEFAULT_GRID_SIZE}" grid</span>`;
+  snapIndicator.innerHTML = `<span class="snap-dot"></span><span id="snap-label">Snap: ${gridSizeOptions().find(o => o.inches === DEFAULT_GRID_SIZE)?.label ?? `${DEFAULT_GRID_SIZE}"`} grid</span>`;
   viewport.appendChild(snapIndicator);
 
+  const shipmentTabs = document.createElement('div');
+  shipmentTabs.id = 'shipment-tabs';
+  viewport.appendChild(shipmentTabs);
+
   const dropIndicator = document.createElement('div');
   dropIndicator.className = 'drop-indicator';
   dropIndicator.id = 'drop-indicator';
   viewport.appendChild(dropIndicator);
 
+  const revisionBanner = document.createElement('div');
+  revisionBanner.id = 'revision-banner';
+  viewport.appendChild(revisionBanner);
+
+  const comparePanel = document.createElement('div');
+  comparePanel.id = 'compare-panel';
+  viewport.appendChild(comparePanel);
+
+  const marquee = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  marquee.id = 'selection-marquee';
+  marquee.classList.add('selection-marquee');
+  viewport.appendChild(marquee);
+
   // Floating "Reveal panel" button — visible only when left panel is collapsed
   const revealBtn = document.createElement('button');
   revealBtn.id = 'btn-panel-reveal';
@@ -976,32 +1408,35 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     });
   });
 
-  containerSection.querySelectorAll('.container-btn').forEach(btn => {
-    btn.addEventListener('click', () => {
-      containerSection.querySelectorAll('.container-btn').forEach(b => b.classList.remove('active'));
-      btn.classList.add('active');
-      callbacks.onContainerChange((btn as HTMLElement).dataset.container!);
-    });
-  });
+  document.getElementById('btn-manage-containers')!.addEventListener('click', () => callbacks.onManageContainers());
 
   document.getElementById('btn-add-item')!.addEventListener('click', () => {
     const label = (document.getElementById('item-label') as HTMLInputElement).value.trim();
     const category = (document.getElementById('item-category') as HTMLSelectElement).value as ItemCategory;
-    const lengthIn = parseFloat((document.getElementById('item-length') as HTMLInputElement).value);
-    const widthIn = parseFloat((document.getElementById('item-width') as HTMLInputElement).value);
-    const heightIn = parseFloat((document.getElementById('item-height') as HTMLInputElement).value);
-    const weightLbs = parseFloat((document.getElementById('item-weight') as HTMLInputElement).value);
+    const lengthIn = readLengthInput(document.getElementById('item-length') as HTMLInputElement);
+    const widthIn = readLengthInput(document.getElementById('item-width') as HTMLInputElement);
+    const heightIn = readLengthInput(document.getElementById('item-height') as HTMLInputElement);
+    const weightLbs = readWeightInput(document.getElementById('item-weight') as HTMLInputElement);
+    const quantity = parseInt((document.getElementById('item-qty') as HTMLInputElement).value);
+    const sku = (document.getElementById('item-sku') as HTMLInputElement).value.trim() || undefined;
 
     if (!label) { showToast('Please enter a label', 'error'); return; }
     if (!lengthIn || !widthIn || !heightIn) { showToast('Please enter valid dimensions', 'error'); return; }
     if (isNaN(weightLbs) || weightLbs < 0) { showToast('Please enter a valid weight', 'error'); return; }
+    if (!quantity || quantity < 1 || quantity > MAX_LINE_QUANTITY) { showToast(`Quantity must be between 1 and ${MAX_LINE_QUANTITY}`, 'error'); return; }
+
+    const topLoad = readTopLoad('item-topload');
+    if (!topLoad) return;
 
     const acceptsOnTop = readStackingRule('item-aot');
     const canStackOn = readStackingRule('item-cso');
+    const allowedOrientations = (document.getElementById('item-orientation') as HTMLSelectElement).value as OrientationRule;
     const hazmatLevel = (document.getElementById('item-hazmat') as HTMLSelectElement).value as HazmatLevel;
-    callbacks.onAddItem({ label, category, lengthIn, widthIn, heightIn, weightLbs, acceptsOnTop, canStackOn, hazmatLevel });
+    callbacks.onAddItem({ label, category, lengthIn, widthIn, heightIn, weightLbs, acceptsOnTop, canStackOn, allowedOrientations, ...topLoad, hazmatLevel, sku }, quantity);
 
     (document.getElementById('item-label') as HTMLInputElement).value = '';
+    (document.getElementById('item-qty') as HTMLInputElement).value = '1';
+    (document.getElementById('item-sku') as HTMLInputElement).value = '';
     (document.getElementById('item-length') as HTMLInputElement).value = '';
     (document.getElementById('item-width') as HTMLInputElement).value = '';
     (document.getElementById('item-height') as HTMLInputElement).value = '';
@@ -1033,17 +1468,53 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     document.getElementById('grid-size-options')!.addEventListener('click', (e) => {
       const btn = (e.target as HTMLElement).closest('.grid-size-btn') as HTMLElement;
       if (!btn) return;
-      const size = parseInt(btn.dataset.gridSize!);
+      const size = parseFloat(btn.dataset.gridSize!);
       document.querySelectorAll('.grid-size-btn').forEach(b => b.classList.remove('active'));
       btn.classList.add('active');
       callbacks.onGridSizeChange(size);
       const snapLabel = document.getElementById('snap-label');
-      if (snapLabel) snapLabel.textContent = `Snap: ${size}" grid`;
+      if (snapLabel) snapLabel.textContent = `Snap: ${btn.textContent} grid`;
     });
 
     document.getElementById('color-mode')!.addEventListener('change', (e) => {
       callbacks.onColorModeChange((e.target as HTMLSelectElement).value as ColorMode);
     });
+
+    document.getElementById('unit-system')!.addEventListener('change', (e) => {
+      callbacks.onUnitSystemChange((e.target as HTMLSelectElement).value as UnitSystem);
+    });
+
+    ['cog-max-height', 'cog-max-long', 'cog-max-lat'].forEach(id => {
+      document.getElementById(id)!.addEventListener('change', () => {
+        const read = (inputId: string, fallback: number) => {
+          const value = parseFloat((document.getElementById(inputId) as HTMLInputElement).value);
+          return isNaN(value) || value < 0 ? fallback : value;
+        };
+        callbacks.onCogToleranceChange({
+          maxHeightPct: read('cog-max-height', DEFAULT_COG_TOLERANCE.maxHeightPct),
+          maxLongitudinalOffsetPct: read('cog-max-long', DEFAULT_COG_TOLERANCE.maxLongitudinalOffsetPct),
+          maxLateralOffsetPct: read('cog-max-lat', DEFAULT_COG_TOLERANCE.maxLateralOffsetPct),
+        });
+      });
+    });
+
+    ['chassis-kingpin', 'chassis-axle', 'chassis-tare', 'chassis-kingpin-limit', 'chassis-axle-limit'].forEach(id => {
+      document.getElementById(id)!.addEventListener('change', () => {
+        const read = (inputId: string, key: keyof ChassisConfig, readInput: typeof readLengthInput) => {
+          const value = readInput(document.getElementById(inputId) as HTMLInputElement, shownChassis[key]);
+          return isNaN(value) || value < 0 ? DEFAULT_CHASSIS_CONFIG[key] : value;
+        };
+        const chassis: ChassisConfig = {
+          kingpinFromFrontIn: read('chassis-kingpin', 'kingpinFromFrontIn', readLengthInput),
+          axleFromRearIn: read('chassis-axle', 'axleFromRearIn', readLengthInput),
+          chassisTareLbs: read('chassis-tare', 'chassisTareLbs', readWeightInput),
+          kingpinLimitLbs: read('chassis-kingpin-limit', 'kingpinLimitLbs', readWeightInput),
+          axleLimitLbs: read('chassis-axle-limit', 'axleLimitLbs', readWeightInput),
+        };
+        setChassisInputs(chassis);
+        callbacks.onChassisChange(chassis);
+      });
+    });
   }
 
   document.getElementById('btn-toggle-labels')!.addEventListener('click', () => {
@@ -1054,11 +1525,17 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
   document.getElementById('btn-export')!.addEventListener('click', () => callbacks.onExportImage());
   document.getElementById('btn-manifest')!.addEventListener('click', () => callbacks.onShowManifest());
   document.getElementById('btn-loadplan')!.addEventListener('click', () => callbacks.onShowLoadPlan());
+  document.getElementById('btn-estimator')!.addEventListener('click', () => callbacks.onShowEstimator());
   
   // Save/Load/Import buttons
   document.getElementById('btn-save-load')!.addEventListener('click', () => callbacks.onSaveLoad());
   document.getElementById('btn-load-file')!.addEventListener('click', () => callbacks.onLoadFile());
   document.getElementById('btn-import-file')!.addEventListener('click', () => callbacks.onImportFile());
+  document.getElementById('btn-import-list')!.addEventListener('click', () => callbacks.onImportPackingList());
+  document.getElementById('btn-live')!.addEventListener('click', () => callbacks.onToggleLive());
+
+  document.getElementById('btn-undo')!.addEventListener('click', () => callbacks.onUndo());
+  document.getElementById('btn-redo')!.addEventListener('click', () => callbacks.onRedo());
 
   document.getElementById('btn-rotate-sel')!.addEventListener('click', () => {
     window.dispatchEvent(new CustomEvent('rotateSelected', { detail: { type: 'y' } }));
@@ -1070,18 +1547,34 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
 
   document.getElementById('btn-show-all')!.addEventListener('click', () => callbacks.onToggleAllVisibility(true));
   document.getElementById('btn-hide-all')!.addEventListener('click', () => callbacks.onToggleAllVisibility(false));
+  document.getElementById('btn-group-lines')!.addEventListener('click', (e) => {
+    groupItemsListByLine = !groupItemsListByLine;
+    (e.currentTarget as HTMLElement).classList.toggle('active', groupItemsListByLine);
+    if (lastItemsListArgs) updateItemsList(...lastItemsListArgs);
+  });
   document.getElementById('btn-clear-all')!.addEventListener('click', () => {
     if (confirm('Remove all items from the container?')) {
       callbacks.onClearAll();
     }
   });
 
+  document.getElementById('btn-auto-pack')!.addEventListener('click', () => {
+    if (confirm('Re-pack all loaded items? Current positions will be replaced.')) {
+      callbacks.onAutoPackAll();
+    }
+  });
+
   document.getElementById('btn-clear-staging')?.addEventListener('click', () => {
-    if (confirm('Permanently remove all staged items? This cannot be undone.')) {
+    if (confirm('Remove all staged items?')) {
       callbacks.onClearStaging();
     }
   });
 
+  document.getElementById('btn-pack-staging')?.addEventListener('click', () => callbacks.onPackStaging());
+  document.getElementById('btn-palletize')?.addEventListener('click', () => callbacks.onOpenPalletBuilder());
+  document.getElementById('btn-add-item-note')?.addEventListener('click', () => callbacks.onAddItemNote());
+  document.getElementById('btn-add-point-note')?.addEventListener('click', () => callbacks.onAddPointNote());
+
   // Library tab controls — only wired when the tab exists in the DOM (non-viewer)
   if (user.role !== 'viewer') {
     document.getElementById('library-search')!.addEventListener('input', (e) => {
@@ -1092,14 +1585,16 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     document.getElementById('btn-save-preset')!.addEventListener('click', async () => {
       const name = (document.getElementById('lib-name') as HTMLInputElement).value.trim();
       const category = (document.getElementById('lib-category') as HTMLSelectElement).value as ItemCategory;
-      const lengthIn = parseFloat((document.getElementById('lib-length') as HTMLInputElement).value);
-      const widthIn = parseFloat((document.getElementById('lib-width') as HTMLInputElement).value);
-      const heightIn = parseFloat((document.getElementById('lib-height') as HTMLInputElement).value);
-      const weightLbs = parseFloat((document.getElementById('lib-weight') as HTMLInputElement).value);
+      const lengthIn = readLengthInput(document.getElementById('lib-length') as HTMLInputElement);
+      const widthIn = readLengthInput(document.getElementById('lib-width') as HTMLInputElement);
+      const heightIn = readLengthInput(document.getElementById('lib-height') as HTMLInputElement);
+      const weightLbs = readWeightInput(document.getElementById('lib-weight') as HTMLInputElement);
 
       if (!name) { showToast('Please enter a name', 'error'); return; }
       if (!lengthIn || !widthIn || !heightIn) { showToast('Please enter valid dimensions', 'error'); return; }
       if (isNaN(weightLbs) || weightLbs < 0) { showToast('Please enter a valid weight', 'error'); return; }
+      const topLoad = readTopLoad('lib-topload');
+      if (!topLoad) return;
 
       const newItem: LibraryItemDef = {
         name,
@@ -1111,6 +1606,12 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
         category,
         group: 'My Presets',
       };
+      const allowedOrientations = (document.getElementById('lib-orientation') as HTMLSelectElement).value as OrientationRule;
+      if (allowedOrientations !== 'any') newItem.allowedOrientations = allowedOrientations;
+      if (topLoad.maxTopLoad !== undefined) {
+        newItem.maxTopLoad = topLoad.maxTopLoad;
+        newItem.maxTopLoadUnit = topLoad.maxTopLoadUnit;
+      }
 
       userLibrary.push(newItem);
       rebuildAllLibrary();
@@ -1122,6 +1623,7 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
       (document.getElementById('lib-width') as HTMLInputElement).value = '';
       (document.getElementById('lib-height') as HTMLInputElement).value = '';
       (document.getElementById('lib-weight') as HTMLInputElement).value = '';
+      (document.getElementById('lib-topload-value') as HTMLInputElement).value = '';
 
       showToast('Preset saved to library!', 'success');
     });
@@ -1145,7 +1647,7 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     if (addSection) (addSection as HTMLElement).style.display = 'none';
 
     // Hide editor toolbar buttons
-    const editorToolbarBtns = ['btn-rotate-sel', 'btn-edit-sel', 'btn-save-load'];
+    const editorToolbarBtns = ['btn-undo', 'btn-redo', 'btn-rotate-sel', 'btn-edit-sel', 'btn-save-load', 'btn-manage-containers'];
     editorToolbarBtns.forEach(id => {
       const el = document.getElementById(id);
       if (el) el.style.display = 'none';
@@ -1155,9 +1657,11 @@ export function buildUI(callbacks: UICallbacks, user: AuthUser): void {
     const loadBtn = document.getElementById('btn-load-file');
     if (loadBtn) loadBtn.textContent = '📂 Projects';
 
-    // Hide "Clear All" button from items header
+    // Hide "Clear All" and "Auto-pack" buttons from items header
     const clearBtn = document.getElementById('btn-clear-all');
     if (clearBtn) clearBtn.style.display = 'none';
+    const packBtn = document.getElementById('btn-auto-pack');
+    if (packBtn) packBtn.style.display = 'none';
 
     // Show view-only notice in empty state
     const itemsList = document.getElementById('items-list');
@@ -1247,7 +1751,7 @@ function renderLibraryItems(search: string, callbacks: UICallbacks): void {
           <div class="library-item-icon">${item.icon}</div>
           <div class="library-item-info">
             <div class="library-item-name">${item.name}</div>
-            <div class="library-item-dims">${item.lengthIn}"×${item.widthIn}"×${item.heightIn}" | ${item.weightLbs} lbs</div>
+            <div class="library-item-dims">${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)} | ${formatMass(item.weightLbs)}</div>
           </div>
           ${isUserItem ? `<button class="item-action-btn danger lib-delete-btn" title="Remove preset" data-lib-del="${item.name}">×</button>` : ''}
           <button class="library-item-add">+ Add</button>
@@ -1300,7 +1804,7 @@ function showLibraryNamingModal(def: LibraryItemDef, callbacks: UICallbacks): vo
     <div class="modal small" style="position:relative">
       <h2>Add ${def.name}</h2>
       <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
-        ${def.lengthIn}" × ${def.widthIn}" × ${def.heightIn}" | ${def.weightLbs} lbs | <span class="category-badge ${def.category}">${def.category}</span>
+        ${formatDimensions(def.lengthIn, def.widthIn, def.heightIn)} | ${formatMass(def.weightLbs)} | <span class="category-badge ${def.category}">${def.category}</span>
       </p>
       <div class="form-group" style="margin-bottom:14px">
         <label>Item Name / Label</label>
@@ -1309,7 +1813,11 @@ function showLibraryNamingModal(def: LibraryItemDef, callbacks: UICallbacks): vo
       <div class="form-row" style="margin-bottom:14px">
         <div class="form-group">
           <label>Quantity</label>
-          <input type="number" id="lib-add-qty" value="1" min="1" max="50" style="width:100%" />
+          <input type="number" id="lib-add-qty" value="1" min="1" max="${MAX_LINE_QUANTITY}" style="width:100%" />
+        </div>
+        <div class="form-group" style="flex:2">
+          <label>SKU (optional)</label>
+          <input type="text" id="lib-add-sku" style="width:100%" />
         </div>
       </div>
       <div style="display:flex;gap:8px;justify-content:flex-end">
@@ -1327,22 +1835,10 @@ function showLibraryNamingModal(def: LibraryItemDef, callbacks: UICallbacks): vo
 
   const doAdd = () => {
     const name = nameInput.value.trim() || def.name;
-    const qty = Math.max(1, Math.min(50, parseInt((document.getElementById('lib-add-qty') as HTMLInputElement).value) || 1));
-
-    for (let i = 0; i < qty; i++) {
-      const label = qty > 1 ? `${name} #${i + 1}` : name;
-      callbacks.onAddItem({
-        label,
-        lengthIn: def.lengthIn,
-        widthIn: def.widthIn,
-        heightIn: def.heightIn,
-        weightLbs: def.weightLbs,
-        category: def.category,
-        acceptsOnTop: def.acceptsOnTop ?? 'all',
-        canStackOn: def.canStackOn ?? 'all',
-        hazmatLevel: def.hazmatLevel ?? 'none',
-      });
-    }
+    const qty = Math.max(1, Math.min(MAX_LINE_QUANTITY, parseInt((document.getElementById('lib-add-qty') as HTMLInputElement).value) || 1));
+    const sku = (document.getElementById('lib-add-sku') as HTMLInputElement).value.trim() || undefined;
+
+    callbacks.onAddItemFromLibrary({ ...def, name }, qty, sku);
 
     overlay.remove();
 
@@ -1374,12 +1870,12 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
     <div class="modal small" style="position:relative">
       <h2>Edit Item</h2>
       <p style="font-size:12px;color:var(--text-muted);margin-bottom:6px">
-        Modify the properties of <strong style="color:var(--text-bright)">"${item.label}"</strong>. Dimension changes update the item in-place.
+        Modify the properties of <strong style="color:var(--text-bright)">"${escapeHtml(item.label)}"</strong>. Dimension changes update the item in-place.
       </p>
       <div style="display:flex;align-items:center;gap:8px;margin-bottom:16px;padding:8px 12px;background:var(--bg-card);border:1px solid var(--border-color);border-radius:var(--radius-sm)">
         <span class="item-color" style="background:${item.color};width:12px;height:12px;border-radius:3px;display:inline-block;flex-shrink:0"></span>
         <span style="font-size:11px;color:var(--text-muted);font-family:'JetBrains Mono',monospace">
-          Current: ${item.lengthIn}" × ${item.widthIn}" × ${item.heightIn}" | ${item.weightLbs.toLocaleString()} lbs |
+          Current: ${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)} | ${formatMass(item.weightLbs)} |
           <span class="category-badge ${item.category}">${item.category}</span>
         </span>
       </div>
@@ -1401,20 +1897,20 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
       </div>
       <div class="form-row">
         <div class="form-group">
-          <label>L (in)</label>
-          <input type="number" id="edit-length" value="${item.lengthIn}" min="1" step="1" />
+          <label>L (${lengthUnit()})</label>
+          <input type="number" id="edit-length" value="${lengthInputValue(item.lengthIn)}" min="1" step="1" />
         </div>
         <div class="form-group">
-          <label>W (in)</label>
-          <input type="number" id="edit-width" value="${item.widthIn}" min="1" step="1" />
+          <label>W (${lengthUnit()})</label>
+          <input type="number" id="edit-width" value="${lengthInputValue(item.widthIn)}" min="1" step="1" />
         </div>
         <div class="form-group">
-          <label>H (in)</label>
-          <input type="number" id="edit-height" value="${item.heightIn}" min="1" step="1" />
+          <label>H (${lengthUnit()})</label>
+          <input type="number" id="edit-height" value="${lengthInputValue(item.heightIn)}" min="1" step="1" />
         </div>
         <div class="form-group">
-          <label>Weight (lbs)</label>
-          <input type="number" id="edit-weight" value="${item.weightLbs}" min="0" step="1" />
+          <label>Weight (${weightUnit()})</label>
+          <input type="number" id="edit-weight" value="${weightInputValue(item.weightLbs)}" min="0" step="1" />
         </div>
       </div>
       <div class="form-row" style="margin-bottom:4px">
@@ -1432,10 +1928,22 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
         ${buildStackingRuleHTML('edit-cso', 'Can Stack On', item.canStackOn ?? 'all')}
       </div>
 
+      <div class="form-row" style="margin-top:8px">
+        <div class="form-group">
+          <label>Orientation</label>
+          ${buildOrientationSelectHTML('edit-orientation', item.allowedOrientations ?? 'any')}
+        </div>
+      </div>
+
+      <div style="margin-top:8px">
+        ${buildTopLoadHTML('edit-topload', item.maxTopLoad, item.maxTopLoadUnit ?? 'lbs')}
+      </div>
+
       <div class="form-group" style="margin-top:8px">
         <label>Hazmat Class (UN/DOT)</label>
         ${buildHazmatSelectHTML('edit-hazmat', (item.hazmatLevel ?? 'none') as HazmatLevel)}
       </div>
+      ${buildDangerousGoodsHTML('edit-dg', item, (item.hazmatLevel ?? 'none') !== 'none')}
 
       <div id="edit-validation-msg" style="margin-top:8px;min-height:24px"></div>
 
@@ -1450,6 +1958,11 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
   attachStackingRuleListener('edit-aot');
   attachStackingRuleListener('edit-cso');
 
+  const hazmatSelect = document.getElementById('edit-hazmat') as HTMLSelectElement;
+  hazmatSelect.addEventListener('change', () => {
+    document.getElementById('edit-dg')!.style.display = hazmatSelect.value !== 'none' ? 'block' : 'none';
+  });
+
   const labelInput = document.getElementById('edit-label') as HTMLInputElement;
   const catSelect = document.getElementById('edit-category') as HTMLSelectElement;
   const lengthInput = document.getElementById('edit-length') as HTMLInputElement;
@@ -1497,10 +2010,10 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
   const doSave = () => {
     const label = labelInput.value.trim();
     const category = catSelect.value as ItemCategory;
-    const lengthIn = parseFloat(lengthInput.value);
-    const widthIn = parseFloat(widthInput.value);
-    const heightIn = parseFloat(heightInput.value);
-    const weightLbs = parseFloat(weightInput.value);
+    const lengthIn = readLengthInput(lengthInput, item.lengthIn);
+    const widthIn = readLengthInput(widthInput, item.widthIn);
+    const heightIn = readLengthInput(heightInput, item.heightIn);
+    const weightLbs = readWeightInput(weightInput, item.weightLbs);
     const color = colorInput.value;
 
     if (!label) { showToast('Please enter a label', 'error'); return; }
@@ -1513,7 +2026,7 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
       return;
     }
 
-    const changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'hazmatLevel'>> = {};
+    const changes: Partial<Pick<CargoItem, 'label' | 'lengthIn' | 'widthIn' | 'heightIn' | 'weightLbs' | 'category' | 'color' | 'acceptsOnTop' | 'canStackOn' | 'allowedOrientations' | 'maxTopLoad' | 'maxTopLoadUnit' | 'hazmatLevel' | DangerousGoodsField>> = {};
     
     if (label !== item.label) changes.label = label;
     if (category !== item.category) changes.category = category;
@@ -1528,9 +2041,26 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
     if (JSON.stringify(newAot) !== JSON.stringify(item.acceptsOnTop ?? 'all')) changes.acceptsOnTop = newAot;
     if (JSON.stringify(newCso) !== JSON.stringify(item.canStackOn ?? 'all')) changes.canStackOn = newCso;
 
-    const newHazmat = (document.getElementById('edit-hazmat') as HTMLSelectElement).value as HazmatLevel;
+    const newOrientation = (document.getElementById('edit-orientation') as HTMLSelectElement).value as OrientationRule;
+    if (newOrientation !== (item.allowedOrientations ?? 'any')) changes.allowedOrientations = newOrientation;
+
+    const topLoad = readTopLoad('edit-topload', item);
+    if (!topLoad) return;
+    if (topLoad.maxTopLoad !== item.maxTopLoad) changes.maxTopLoad = topLoad.maxTopLoad;
+    if (topLoad.maxTopLoad !== undefined && topLoad.maxTopLoadUnit !== (item.maxTopLoadUnit ?? 'lbs')) {
+      changes.maxTopLoadUnit = topLoad.maxTopLoadUnit;
+    }
+
+    const newHazmat = hazmatSelect.value as HazmatLevel;
     if (newHazmat !== (item.hazmatLevel ?? 'none')) changes.hazmatLevel = newHazmat;
 
+    // Dangerous goods details only apply to hazmat items
+    const dg = newHazmat !== 'none' ? readDangerousGoods('edit-dg') : {} as Partial<Pick<CargoItem, DangerousGoodsField>>;
+    if (!dg) return;
+    for (const field of DANGEROUS_GOODS_FIELDS) {
+      if (dg[field] !== item[field]) Object.assign(changes, { [field]: dg[field] });
+    }
+
     if (Object.keys(changes).length === 0) {
       overlay.remove();
       return;
@@ -1558,22 +2088,58 @@ export function showEditItemModal(item: CargoItem, callbacks: UICallbacks): void
   });
 }
 
-function escapeHtml(str: string): string {
+/** Escapes text for use in HTML content and attribute values */
+export function escapeHtml(str: string): string {
   return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
+/** Actions applied to every selected item at once */
+export interface BulkItemCallbacks {
+  onDelete: () => void;
+  onStage: () => void;
+  onRecolor: (color: string) => void;
+  onSetCategory: (category: ItemCategory) => void;
+  onClearSelection: () => void;
+}
+
+/** Whether the items list collapses items by packing-list line */
+let groupItemsListByLine = false;
+
+/** Keys of the lines expanded while the list is collapsed by line */
+const expandedItemLines = new Set<string>();
+
+/** Badge showing how many cartons a built pallet holds (empty for other items) */
+function palletBadge(item: CargoItem): string {
+  if (!item.palletContents) return '';
+  return `<span class="pallet-badge" title="${escapeHtml(item.palletContents.base.label)} pallet, ${item.palletContents.layers} layers">▦ ${item.palletContents.cartons.length}</span>`;
+}
+
+/** Arguments of the last updateItemsList call, for re-rendering when the grouping toggles */
+let lastItemsListArgs: Parameters<typeof updateItemsList> | null = null;
+
 export function updateItemsList(
   items: CargoItem[],
-  selectedId: string | null,
+  selectedIds: ReadonlySet<string>,
   callbacks: {
-    onSelect: (id: string) => void;
+    /** additive is true for Ctrl/Cmd+click, which toggles the item in the selection */
+    onSelect: (id: string, additive: boolean) => void;
+    /** Selects every item of a packing-list line (line card click) */
+    onSelectLine: (ids: string[], additive: boolean) => void;
     onDelete: (id: string) => void;
     onToggleVis: (id: string) => void;
     onEdit: (id: string) => void;
     onStage: (id: string) => void;
+    /** Breaks a built pallet back into cartons in staging */
+    onUnpack: (id: string) => void;
+    /** Only provided when the shipment has more than one container */
+    onMoveToContainer?: (id: string) => void;
+    /** Only provided for editors; shown when more than one item is selected */
+    bulk?: BulkItemCallbacks;
   }
 ): void {
   const list = document.getElementById('items-list')!;
+  lastItemsListArgs = [items, selectedIds, callbacks];
+  renderBulkBar(items.filter(i => selectedIds.has(i.id)), callbacks.bulk);
   
   if (items.length === 0) {
     list.innerHTML = `
@@ -1586,32 +2152,64 @@ export function updateItemsList(
     return;
   }
 
-  list.innerHTML = items.map(item => {
+  const renderItemCard = (item: CargoItem, inLine = false): string => {
     const rotLabel = getRotationLabel(item);
     return `
-    <div class="item-card ${item.id === selectedId ? 'selected' : ''}" data-item-id="${item.id}">
+    <div class="item-card${inLine ? ' in-line' : ''} ${selectedIds.has(item.id) ? 'selected' : ''}" data-item-id="${item.id}">
       <div class="item-header">
         <span class="item-name">
           <span class="item-color" style="background:${item.color};opacity:${item.visible ? 1 : 0.3}"></span>
-          <span class="item-name-text" style="opacity:${item.visible ? 1 : 0.5}">${item.label}</span>
+          <span class="item-name-text" style="opacity:${item.visible ? 1 : 0.5}">${escapeHtml(item.label)}</span>
           <span class="category-badge ${item.category}">${item.category}</span>
           ${item.hazmatLevel && item.hazmatLevel !== 'none' ? (() => { const hi = HAZMAT_CLASSES[item.hazmatLevel!]; return `<span style="display:inline-flex;align-items:center;gap:2px;font-size:9px;font-weight:700;padding:1px 5px;border-radius:3px;background:${hi.color};color:${hi.textColor};border:1px solid rgba(0,0,0,0.15)">⚠ ${hi.shortLabel}</span>`; })() : ''}
           ${rotLabel ? `<span class="rotation-badge">${rotLabel}</span>` : ''}
+          ${palletBadge(item)}
         </span>
         <div class="item-actions">
+          ${item.palletContents ? `<button class="item-action-btn" data-action="unpack" data-item-id="${item.id}" title="Unpack pallet into staging">⊟</button>` : ''}
           <button class="item-action-btn" data-action="edit" data-item-id="${item.id}" title="Edit item (E)">✎</button>
           <button class="item-action-btn" data-action="visibility" data-item-id="${item.id}" title="${item.visible ? 'Hide' : 'Show'}">${item.visible ? '●' : '○'}</button>
+          ${callbacks.onMoveToContainer ? `<button class="item-action-btn" data-action="move-container" data-item-id="${item.id}" title="Move to another container">⇄</button>` : ''}
           <button class="item-action-btn stage" data-action="stage" data-item-id="${item.id}" title="Move to Staging">↩</button>
           <button class="item-action-btn danger" data-action="delete" data-item-id="${item.id}" title="Remove Permanently">×</button>
         </div>
       </div>
       <div class="item-details">
         <span>${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</span>
-        <span>${item.weightLbs.toLocaleString()} lbs</span>
-        <span>Y: ${item.posY.toFixed(0)}"</span>
+        <span>${formatMass(item.weightLbs)}</span>
+        <span>Y: ${formatLength(item.posY)}</span>
+        ${item.sku && !inLine ? `<span>SKU ${escapeHtml(item.sku)}</span>` : ''}
       </div>
     </div>
-  `;}).join('');
+  `;};
+
+  const renderLineCard = (line: ItemLine): string => {
+    const first = line.items[0];
+    const expanded = expandedItemLines.has(line.key);
+    const allSelected = line.items.every(i => selectedIds.has(i.id));
+    return `
+    <div class="item-line-card ${allSelected ? 'selected' : ''}" data-line-key="${line.key}">
+      <div class="item-header">
+        <span class="item-name">
+          <button class="line-expand" data-line-toggle="${line.key}" title="${expanded ? 'Collapse' : 'Expand'} line">${expanded ? '▾' : '▸'}</button>
+          <span class="item-color" style="background:${first.color}"></span>
+          <span class="item-name-text">${escapeHtml(line.label)}</span>
+          <span class="line-qty">×${line.items.length}</span>
+          <span class="category-badge ${first.category}">${first.category}</span>
+        </span>
+      </div>
+      <div class="item-details">
+        <span>${formatDimensions(first.origLengthIn, first.origWidthIn, first.origHeightIn)} each</span>
+        <span>${formatMass(line.totalWeightLbs)} total</span>
+        ${line.sku ? `<span>SKU ${escapeHtml(line.sku)}</span>` : ''}
+      </div>
+    </div>
+    ${expanded ? line.items.map(i => renderItemCard(i, true)).join('') : ''}
+  `;};
+
+  list.innerHTML = groupItemsListByLine
+    ? groupItemsByLine(items).map(line => line.items.length > 1 ? renderLineCard(line) : renderItemCard(line.items[0])).join('')
+    : items.map(item => renderItemCard(item)).join('');
 
   list.querySelectorAll('.item-card').forEach(card => {
     card.addEventListener('click', (e) => {
@@ -1622,11 +2220,14 @@ export function updateItemsList(
         const itemId = actionBtn.dataset.itemId!;
         if (action === 'delete') callbacks.onDelete(itemId);
         else if (action === 'stage') callbacks.onStage(itemId);
+        else if (action === 'unpack') callbacks.onUnpack(itemId);
         else if (action === 'visibility') callbacks.onToggleVis(itemId);
         else if (action === 'edit') callbacks.onEdit(itemId);
+        else if (action === 'move-container') callbacks.onMoveToContainer?.(itemId);
         return;
       }
-      callbacks.onSelect((card as HTMLElement).dataset.itemId!);
+      const mouse = e as MouseEvent;
+      callbacks.onSelect((card as HTMLElement).dataset.itemId!, mouse.ctrlKey || mouse.metaKey);
     });
 
     card.addEventListener('dblclick', (e) => {
@@ -1635,6 +2236,67 @@ export function updateItemsList(
       callbacks.onEdit((card as HTMLElement).dataset.itemId!);
     });
   });
+
+  // Line cards: the arrow expands the line, anywhere else selects all its items
+  list.querySelectorAll<HTMLElement>('.item-line-card').forEach(card => {
+    card.addEventListener('click', (e) => {
+      const key = card.dataset.lineKey!;
+      if ((e.target as HTMLElement).closest('[data-line-toggle]')) {
+        if (!expandedItemLines.delete(key)) expandedItemLines.add(key);
+        updateItemsList(items, selectedIds, callbacks);
+        return;
+      }
+      const ids = items.filter(i => (i.lineId ?? i.id) === key).map(i => i.id);
+      callbacks.onSelectLine(ids, e.ctrlKey || e.metaKey);
+    });
+  });
+}
+
+/**
+ * Shows the bulk action bar above the items list while more than one item is
+ * selected: delete, stage, recolor and set category for the whole selection.
+ */
+function renderBulkBar(selected: CargoItem[], bulk: BulkItemCallbacks | undefined): void {
+  const bar = document.getElementById('items-bulk-bar');
+  if (!bar) return;
+
+  if (!bulk || selected.length < 2) {
+    bar.classList.remove('visible');
+    bar.innerHTML = '';
+    return;
+  }
+
+  const weight = selected.reduce((sum, i) => sum + i.weightLbs, 0);
+  bar.classList.add('visible');
+  bar.innerHTML = `
+    <div class="bulk-summary">
+      <strong>${selected.length} selected</strong>
+      <span>${formatMass(weight)}</span>
+      <button class="bulk-clear" id="bulk-clear" title="Clear selection (Esc)">×</button>
+    </div>
+    <div class="bulk-actions">
+      <select id="bulk-category" title="Set category of selected items">
+        <option value="">Category…</option>
+        ${ALL_ITEM_CATEGORIES.map(c => `<option value="${c}">${c.charAt(0).toUpperCase() + c.slice(1)}</option>`).join('')}
+      </select>
+      <input type="color" id="bulk-color" value="${selected[0].color}" title="Recolor selected items" />
+      <button class="btn btn-sm btn-secondary" id="bulk-stage" title="Move selected items to staging">↩ Stage</button>
+      <button class="btn btn-sm btn-danger" id="bulk-delete" title="Remove selected items permanently">Delete</button>
+    </div>
+  `;
+
+  document.getElementById('bulk-clear')!.addEventListener('click', () => bulk.onClearSelection());
+  document.getElementById('bulk-stage')!.addEventListener('click', () => bulk.onStage());
+  document.getElementById('bulk-delete')!.addEventListener('click', () => {
+    if (confirm(`Remove ${selected.length} selected items from the container?`)) bulk.onDelete();
+  });
+  document.getElementById('bulk-color')!.addEventListener('change', (e) => {
+    bulk.onRecolor((e.target as HTMLInputElement).value);
+  });
+  document.getElementById('bulk-category')!.addEventListener('change', (e) => {
+    const value = (e.target as HTMLSelectElement).value;
+    if (value) bulk.onSetCategory(value as ItemCategory);
+  });
 }
 
 // ============================================================================
@@ -1651,21 +2313,31 @@ export function updateStagingList(
   callbacks: {
     onLoad: (id: string) => void;
     onRemove: (id: string) => void;
+    /** Breaks a built pallet back into cartons */
+    onUnpack: (id: string) => void;
   }
 ): void {
   const list = document.getElementById('staging-list');
   const countBadge = document.getElementById('staging-count');
   const clearBtn = document.getElementById('btn-clear-staging') as HTMLButtonElement | null;
+  const packBtn = document.getElementById('btn-pack-staging') as HTMLButtonElement | null;
+  const palletizeBtn = document.getElementById('btn-palletize') as HTMLButtonElement | null;
 
   if (!list) return;
 
-  // Update count badge and clear button visibility
+  // Update count badge and clear/pack button visibility
   if (countBadge) {
     countBadge.textContent = stagedItems.length > 0 ? `${stagedItems.length}` : '';
   }
   if (clearBtn) {
     clearBtn.style.display = stagedItems.length > 0 ? '' : 'none';
   }
+  if (packBtn) {
+    packBtn.style.display = stagedItems.length > 0 ? '' : 'none';
+  }
+  if (palletizeBtn) {
+    palletizeBtn.style.display = stagedItems.some(i => !i.palletContents) ? '' : 'none';
+  }
 
   if (stagedItems.length === 0) {
     list.innerHTML = `<div class="staging-empty">No items in staging</div>`;
@@ -1677,18 +2349,21 @@ export function updateStagingList(
       <div class="staging-card-header">
         <span class="item-name">
           <span class="item-color" style="background:${item.color}"></span>
-          <span class="item-name-text">${item.label}</span>
+          <span class="item-name-text">${escapeHtml(item.label)}</span>
           <span class="category-badge ${item.category}">${item.category}</span>
+          ${palletBadge(item)}
         </span>
         <div class="item-actions">
+          ${item.palletContents ? `<button class="item-action-btn" data-action="unpack" data-item-id="${item.id}" title="Unpack pallet into staging">⊟</button>` : ''}
           <button class="item-action-btn load" data-action="load" data-item-id="${item.id}" title="Load back into container">↩</button>
           <button class="item-action-btn danger" data-action="remove" data-item-id="${item.id}" title="Remove permanently">×</button>
         </div>
       </div>
       <div class="item-details">
         <span>${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</span>
-        <span>${item.weightLbs.toLocaleString()} lbs</span>
+        <span>${formatMass(item.weightLbs)}</span>
       </div>
+      ${item.stagingReason ? `<div class="staging-reason">⚠ ${escapeHtml(item.stagingReason)}</div>` : ''}
     </div>
   `).join('');
 
@@ -1701,57 +2376,1294 @@ export function updateStagingList(
       const itemId = actionBtn.dataset.itemId!;
       if (action === 'load') callbacks.onLoad(itemId);
       else if (action === 'remove') callbacks.onRemove(itemId);
+      else if (action === 'unpack') callbacks.onUnpack(itemId);
     });
   });
 }
 
-export function updateStats(items: CargoItem[], container: ContainerSpec): void {
-  const utilization = calculateUtilization(items, container);
-  const netWeight = calculateTotalWeight(items);        // cargo only
-  const grossWeight = netWeight + container.tareWeightLbs; // tare + cargo
-  const availWeight = container.maxWeightLbs - netWeight;  // remaining payload
-  const weightPct = (netWeight / container.maxWeightLbs) * 100;
-
-  const volEl      = document.getElementById('stat-volume');
-  const itemsEl    = document.getElementById('stat-items');
-  const netWtEl    = document.getElementById('stat-net-weight');
-  const grossWtEl  = document.getElementById('stat-gross-weight');
-  const availWtEl  = document.getElementById('stat-avail-weight');
-  const maxWtEl    = document.getElementById('stat-max-weight');
-  const fillEl     = document.getElementById('utilization-fill');
-
-  if (volEl)     volEl.textContent = utilization.toFixed(1) + '%';
-  if (itemsEl)   itemsEl.textContent = items.length.toString();
-  if (maxWtEl)   maxWtEl.textContent = container.maxWeightLbs.toLocaleString() + ' lbs';
+// ============================================================================
+// NOTES
+// ============================================================================
 
-  if (netWtEl) {
-    netWtEl.textContent = netWeight.toLocaleString() + ' lbs';
-    netWtEl.className = netWeight > container.maxWeightLbs
-      ? 'stat-value accent-red'
-      : 'stat-value accent-blue';
-  }
+/** A note as listed in the Notes panel */
+export interface NoteListEntry {
+  id: string;
+  /** Same number as the note's marker in the 3D view */
+  number: number;
+  text: string;
+  /** What the note is pinned to, e.g. 'Pallet 3' or 'Point in #2 at X 120", Y 0", Z 46"' */
+  where: string;
+  author?: string;
+}
 
-  if (grossWtEl) {
-    grossWtEl.textContent = grossWeight.toLocaleString() + ' lbs';
-    grossWtEl.className = 'stat-value';
+/**
+ * Renders the notes in the Cargo tab panel. Clicking a note shows it in the
+ * 3D view; editors can also change or delete it.
+ */
+export function updateNotesList(
+  notes: NoteListEntry[],
+  canEdit: boolean,
+  callbacks: {
+    onShow: (id: string) => void;
+    onEdit: (id: string) => void;
+    onDelete: (id: string) => void;
   }
+): void {
+  const list = document.getElementById('notes-list');
+  const countBadge = document.getElementById('notes-count');
+  if (!list) return;
 
-  if (availWtEl) {
-    availWtEl.textContent = availWeight.toLocaleString() + ' lbs';
-    availWtEl.className = availWeight < 0
-      ? 'stat-value accent-red'
-      : 'stat-value accent-green';
+  if (countBadge) {
+    countBadge.textContent = notes.length > 0 ? `${notes.length}` : '';
   }
 
-  if (fillEl) {
-    fillEl.style.width = Math.min(weightPct, 100) + '%';
-    fillEl.className = 'utilization-fill';
-    if (weightPct > 90) fillEl.classList.add('danger');
-    else if (weightPct > 70) fillEl.classList.add('warning');
+  if (notes.length === 0) {
+    list.innerHTML = `<div class="staging-empty">No notes</div>`;
+    return;
   }
-}
 
-export function showItemInfo(item: CargoItem | null, gridSize: number): void {
+  list.innerHTML = notes.map(note => `
+    <div class="note-card" data-note-id="${note.id}" title="Show in the 3D view">
+      <div class="note-card-header">
+        <span class="note-number">${note.number}</span>
+        <span class="note-text">${escapeHtml(note.text)}</span>
+        ${canEdit ? `
+          <div class="item-actions">
+            <button class="item-action-btn" data-action="edit" data-note-id="${note.id}" title="Edit note">✎</button>
+            <button class="item-action-btn danger" data-action="delete" data-note-id="${note.id}" title="Delete note">×</button>
+          </div>
+        ` : ''}
+      </div>
+      <div class="note-where">${escapeHtml(note.where)}${note.author ? ` · ${escapeHtml(note.author)}` : ''}</div>
+    </div>
+  `).join('');
+
+  list.querySelectorAll('.note-card').forEach(card => {
+    card.addEventListener('click', (e) => {
+      const actionBtn = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      const noteId = (card as HTMLElement).dataset.noteId!;
+      if (!actionBtn) callbacks.onShow(noteId);
+      else if (actionBtn.dataset.action === 'edit') callbacks.onEdit(noteId);
+      else if (actionBtn.dataset.action === 'delete') callbacks.onDelete(noteId);
+    });
+  });
+}
+
+// ============================================================================
+// SHIPMENT TABS
+// ============================================================================
+
+/**
+ * Renders the container tabs overlaid on the 3D view.
+ * Each tab is one container in the shipment; editors also get add,
+ * remove and auto-split controls.
+ */
+export function updateShipmentTabs(
+  containers: { label: string; itemCount: number }[],
+  activeIndex: number,
+  canEdit: boolean,
+  callbacks: {
+    onSelect: (index: number) => void;
+    onAdd: () => void;
+    onRemove: (index: number) => void;
+    onAutoSplit: () => void;
+  }
+): void {
+  const bar = document.getElementById('shipment-tabs');
+  if (!bar) return;
+
+  bar.innerHTML = `
+    ${containers.map((c, i) => `
+      <button class="shipment-tab ${i === activeIndex ? 'active' : ''}" data-index="${i}" title="${escapeHtml(c.label)} — ${c.itemCount} item${c.itemCount !== 1 ? 's' : ''}">
+        <span class="shipment-tab-num">${i + 1}</span>
+        ${escapeHtml(c.label)}
+        <small>${c.itemCount}</small>
+        ${canEdit && containers.length > 1 && i === activeIndex ? `<span class="shipment-tab-remove" data-remove="${i}" title="Remove this container">×</span>` : ''}
+      </button>
+    `).join('')}
+    ${canEdit ? `
+      <button class="shipment-tab shipment-tab-action" id="btn-add-container" title="Add a container to the shipment">+</button>
+      <button class="shipment-tab shipment-tab-action" id="btn-auto-split" title="Re-pack the shipment, spilling overflow into the next container">Auto-split</button>
+    ` : ''}
+  `;
+
+  bar.querySelectorAll('.shipment-tab[data-index]').forEach(tab => {
+    tab.addEventListener('click', (e) => {
+      const removeEl = (e.target as HTMLElement).closest('[data-remove]') as HTMLElement | null;
+      if (removeEl) {
+        e.stopPropagation();
+        callbacks.onRemove(parseInt(removeEl.dataset.remove!));
+        return;
+      }
+      callbacks.onSelect(parseInt((tab as HTMLElement).dataset.index!));
+    });
+  });
+  document.getElementById('btn-add-container')?.addEventListener('click', () => callbacks.onAdd());
+  document.getElementById('btn-auto-split')?.addEventListener('click', () => {
+    if (confirm('Re-pack every item across the shipment? Current container assignments will be replaced.')) {
+      callbacks.onAutoSplit();
+    }
+  });
+}
+
+/**
+ * Asks which container an item should be moved to.
+ */
+export function showMoveToContainerModal(
+  item: CargoItem,
+  targets: { index: number; label: string }[],
+  onPick: (index: number) => void
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+  overlay.innerHTML = `
+    <div class="modal small" style="position:relative">
+      <h2>Move "${escapeHtml(item.label)}"</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        Choose the container to move this item into. It will be placed at the first free position.
+      </p>
+      <div style="display:flex;flex-direction:column;gap:6px;margin-bottom:14px">
+        ${targets.map(t => `
+          <button class="btn btn-secondary btn-full" data-target="${t.index}">#${t.index + 1} — ${escapeHtml(t.label)}</button>
+        `).join('')}
+      </div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="move-container-cancel">Cancel</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  overlay.querySelectorAll('[data-target]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      overlay.remove();
+      onPick(parseInt((btn as HTMLElement).dataset.target!));
+    });
+  });
+  document.getElementById('move-container-cancel')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+// ============================================================================
+// SESSION RESTORE
+// ============================================================================
+
+/**
+ * Offers to restore an autosaved session left over from a tab that was
+ * closed (or crashed) with unsaved changes. The user must pick one option.
+ */
+export function showRestoreSessionModal(
+  record: AutosaveRecord,
+  onRestore: () => void,
+  onDiscard: () => void
+): void {
+  const containers = record.data.containers && record.data.containers.length > 0
+    ? record.data.containers
+    : [{ containerType: record.data.containerType, items: record.data.items }];
+  const itemCount = containers.reduce((sum, c) => sum + c.items.length, 0);
+  const stagedCount = record.data.staged?.length ?? 0;
+
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+  overlay.innerHTML = `
+    <div class="modal small" style="position:relative">
+      <h2>Restore Unsaved Session?</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        Your last session was closed with changes that were not saved to a project.
+      </p>
+      <div style="padding:10px 12px;background:var(--bg-card);border:1px solid var(--border-color);border-radius:var(--radius-sm);margin-bottom:14px;font-size:12px">
+        <div style="color:var(--text-bright);font-weight:600">
+          ${itemCount} item${itemCount === 1 ? '' : 's'}${containers.length > 1 ? ` in ${containers.length} containers` : ''}${stagedCount > 0 ? `, ${stagedCount} in staging` : ''}
+        </div>
+        <div style="font-size:11px;color:var(--text-muted);margin-top:2px">Autosaved ${new Date(record.savedAt).toLocaleString()}</div>
+      </div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="restore-session-discard">Discard</button>
+        <button class="btn btn-primary" id="restore-session-restore">Restore</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  document.getElementById('restore-session-discard')!.addEventListener('click', () => {
+    overlay.remove();
+    onDiscard();
+  });
+  document.getElementById('restore-session-restore')!.addEventListener('click', () => {
+    overlay.remove();
+    onRestore();
+  });
+}
+
+// ============================================================================
+// REVISION PREVIEW
+// ============================================================================
+
+/**
+ * Shows (or, with null, hides) the banner over the 3D view while a project
+ * revision is previewed read-only. Editors also get Restore and Fork.
+ */
+export function updateRevisionBanner(
+  preview: { projectName: string; revision: number; author: string; savedAt: string } | null,
+  canEdit: boolean,
+  callbacks: {
+    onRestore: () => void;
+    onFork: () => void;
+    onExit: () => void;
+  }
+): void {
+  const banner = document.getElementById('revision-banner');
+  if (!banner) return;
+  if (!preview) {
+    banner.innerHTML = '';
+    return;
+  }
+
+  banner.innerHTML = `
+    <span class="revision-banner-text">
+      👁 <strong>${escapeHtml(preview.projectName)}</strong> · revision ${preview.revision}
+      <small>by ${escapeHtml(preview.author)} · ${parseServerDate(preview.savedAt).toLocaleString()} · read-only</small>
+    </span>
+    ${canEdit ? `
+      <button class="btn btn-sm btn-primary" id="btn-revision-restore" title="Make this revision the current project data">Restore</button>
+      <button class="btn btn-sm btn-secondary" id="btn-revision-fork" title="Copy this revision into a new project">Fork</button>
+    ` : ''}
+    <button class="btn btn-sm btn-secondary" id="btn-revision-exit" title="Go back to your load">Exit Preview</button>
+  `;
+
+  document.getElementById('btn-revision-restore')?.addEventListener('click', () => callbacks.onRestore());
+  document.getElementById('btn-revision-fork')?.addEventListener('click', () => callbacks.onFork());
+  document.getElementById('btn-revision-exit')!.addEventListener('click', () => callbacks.onExit());
+}
+
+// ============================================================================
+// LOAD COMPARISON
+// ============================================================================
+
+/** Signed difference, e.g. "+120 lbs" or "−3" */
+function formatDelta(delta: number, format: (value: number) => string): string {
+  if (Math.abs(delta) < 1e-9) return '±0';
+  return `${delta > 0 ? '+' : '−'}${format(Math.abs(delta))}`;
+}
+
+/** What changed about one item, for the change list */
+function describeChange(change: ItemChange, multiContainer: boolean): string {
+  const details: string[] = [];
+  const { before, after, containerBefore, containerAfter } = change;
+  if (change.kinds.includes('added') && multiContainer) details.push(`in #${containerAfter! + 1}`);
+  if (change.kinds.includes('removed') && multiContainer) details.push(`was in #${containerBefore! + 1}`);
+  if (change.kinds.includes('moved')) {
+    details.push(change.distanceIn !== undefined
+      ? `${formatLength(change.distanceIn, 1)} away`
+      : `#${containerBefore! + 1} → #${containerAfter! + 1}`);
+  }
+  if (change.kinds.includes('rotated') && before && after) {
+    details.push(`${formatDimensions(before.lengthIn, before.widthIn, before.heightIn)} → ${formatDimensions(after.lengthIn, after.widthIn, after.heightIn)}`);
+  }
+  return details.join(' · ');
+}
+
+/**
+ * Shows (or, with null, hides) the compare panel over the 3D view: a color
+ * legend with counts per kind of change, item/weight/utilization totals of
+ * both versions with their deltas, and the change list. Clicking a change
+ * that is still in the load selects the item.
+ */
+export function updateComparePanel(
+  view: { before: string; after: string; comparison: LoadComparison; containerCount: number } | null,
+  callbacks: {
+    onSelect: (id: string) => void;
+    onExit: () => void;
+  }
+): void {
+  const panel = document.getElementById('compare-panel');
+  if (!panel) return;
+  if (!view) {
+    panel.innerHTML = '';
+    return;
+  }
+
+  const { comparison: c } = view;
+  const kinds: ItemChangeKind[] = ['added', 'removed', 'moved', 'rotated'];
+  const count = (kind: ItemChangeKind) => c.changes.filter(ch => ch.kinds.includes(kind)).length;
+  const totalsRow = (label: string, before: number, after: number, format: (value: number) => string) => `
+    <tr>
+      <td>${label}</td>
+      <td>${format(before)}</td>
+      <td>${format(after)}</td>
+      <td class="${after > before ? 'compare-up' : after < before ? 'compare-down' : ''}">${formatDelta(after - before, format)}</td>
+    </tr>
+  `;
+  const percent = (value: number) => `${value.toFixed(1)}%`;
+
+  panel.innerHTML = `
+    <div class="compare-panel-header">
+      <span>⇄ Compare</span>
+      <button class="btn btn-sm btn-secondary" id="btn-compare-exit" title="Go back to your load">Exit</button>
+    </div>
+    <div class="compare-panel-sides">
+      <span>${escapeHtml(view.before)}</span> → <strong>${escapeHtml(view.after)}</strong>
+      <small>(shown)</small>
+    </div>
+    <div class="compare-legend">
+      ${kinds.map(kind => `
+        <span><i style="background:${CHANGE_COLORS[kind]}"></i>${CHANGE_LABELS[kind]} ${count(kind)}</span>
+      `).join('')}
+      <span><i style="background:${CHANGE_COLORS.unchanged}"></i>Unchanged ${c.unchangedCount}</span>
+    </div>
+    <table class="compare-table">
+      <thead><tr><th></th><th>Before</th><th>After</th><th>Δ</th></tr></thead>
+      <tbody>
+        ${totalsRow('Items', c.before.itemCount, c.after.itemCount, value => String(value))}
+        ${totalsRow('Weight', c.before.weightLbs, c.after.weightLbs, formatMass)}
+        ${totalsRow('Utilization', c.before.utilizationPct, c.after.utilizationPct, percent)}
+      </tbody>
+    </table>
+    ${c.changes.length === 0 ? `
+      <div class="compare-empty">No item changes between these versions.</div>
+    ` : `
+      <table class="compare-table compare-changes">
+        <thead><tr><th>Change</th><th>Item</th><th>Detail</th></tr></thead>
+        <tbody>
+          ${c.changes.map(ch => `
+            <tr ${ch.after ? `class="compare-selectable" data-item-id="${escapeHtml(ch.id)}" title="Select this item"` : ''}>
+              <td>${ch.kinds.map(kind => `<span class="compare-badge" style="color:${CHANGE_COLORS[kind]};border-color:${CHANGE_COLORS[kind]}">${CHANGE_LABELS[kind]}</span>`).join(' ')}</td>
+              <td>${escapeHtml((ch.after ?? ch.before)!.label)}</td>
+              <td>${escapeHtml(describeChange(ch, view.containerCount > 1))}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `}
+  `;
+
+  document.getElementById('btn-compare-exit')!.addEventListener('click', () => callbacks.onExit());
+  panel.querySelectorAll('.compare-selectable').forEach(row => {
+    row.addEventListener('click', () => callbacks.onSelect((row as HTMLElement).dataset.itemId!));
+  });
+}
+
+// ============================================================================
+// CONTAINER TYPES
+// ============================================================================
+
+/** Container type currently highlighted in the selector */
+let activeContainerName = '20ft';
+
+/**
+ * Renders one button per container type (built-in and custom) into the
+ * container selector and wires the click handlers.
+ */
+function renderContainerSelector(callbacks: UICallbacks): void {
+  const selector = document.getElementById('container-selector');
+  if (!selector) return;
+
+  selector.innerHTML = Object.entries(CONTAINER_SPECS).map(([key, spec]) => `
+    <button class="container-btn ${key === activeContainerName ? 'active' : ''}" data-container="${escapeHtml(key)}"
+      title="${spec.custom ? EQUIPMENT_TYPES[spec.equipment ?? 'container'] : ''}">
+      ${escapeHtml(spec.label)}
+      <small>${spec.lengthFt.toFixed(0)}' x ${spec.widthFt.toFixed(0)}' x ${spec.heightFt.toFixed(0)}'</small>
+    </button>
+  `).join('');
+
+  selector.querySelectorAll('.container-btn').forEach(btn => {
+    btn.addEventListener('click', () => {
+      activeContainerName = (btn as HTMLElement).dataset.container!;
+      selector.querySelectorAll('.container-btn').forEach(b => b.classList.remove('active'));
+      btn.classList.add('active');
+      callbacks.onContainerChange(activeContainerName);
+    });
+  });
+}
+
+/**
+ * Re-renders the container selector after custom types were added,
+ * edited or removed.
+ */
+export function refreshContainerSelector(): void {
+  if (_globalCallbacks) renderContainerSelector(_globalCallbacks);
+}
+
+/**
+ * Highlights the container-type button matching the given spec name.
+ * Used when the active container changes without the user clicking the selector.
+ */
+export function updateContainerSelector(specName: string): void {
+  activeContainerName = specName;
+  document.querySelectorAll('.container-btn').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.container === specName);
+  });
+}
+
+/**
+ * Opens the editor for user-defined equipment (trucks, trailers, reefers,
+ * non-standard containers). The caller persists the changes; onSave and
+ * onDelete return false when the change was rejected.
+ */
+export function showContainerEditorModal(callbacks: {
+  onSave: (spec: ContainerSpec) => boolean;
+  onDelete: (name: string) => boolean;
+}): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+  let editingName: string | null = null;
+
+  overlay.innerHTML = `
+    <div class="modal medium" style="position:relative">
+      <h2>Custom Equipment</h2>
+      <div id="custom-container-list" style="max-height:200px;overflow-y:auto;margin-bottom:14px"></div>
+      <div class="form-group">
+        <label>Start from</label>
+        <select id="cc-preset">
+          <option value="">— Blank —</option>
+          ${EQUIPMENT_PRESETS.map((p, i) => `<option value="${i}">${p.label}</option>`).join('')}
+        </select>
+      </div>
+      <div class="form-row">
+        <div class="form-group" style="flex:2">
+          <label>Name</label>
+          <input type="text" id="cc-label" placeholder="e.g. 53' Dry Van" />
+        </div>
+        <div class="form-group">
+          <label>Type</label>
+          <select id="cc-equipment">
+            ${(Object.keys(EQUIPMENT_TYPES) as EquipmentType[]).map(t => `<option value="${t}">${EQUIPMENT_TYPES[t]}</option>`).join('')}
+          </select>
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group"><label>Length (${lengthUnit()})</label><input type="number" id="cc-length" min="1" /></div>
+        <div class="form-group"><label>Width (${lengthUnit()})</label><input type="number" id="cc-width" min="1" /></div>
+        <div class="form-group"><label>Height (${lengthUnit()})</label><input type="number" id="cc-height" min="1" /></div>
+      </div>
+      <div class="form-row">
+        <div class="form-group"><label>Door Width (${lengthUnit()})</label><input type="number" id="cc-door-width" min="1" placeholder="Full width" /></div>
+        <div class="form-group"><label>Door Height (${lengthUnit()})</label><input type="number" id="cc-door-height" min="1" placeholder="Full height" /></div>
+      </div>
+      <div class="form-row">
+        <div class="form-group"><label>Tare (${weightUnit()})</label><input type="number" id="cc-tare" min="0" /></div>
+        <div class="form-group"><label>Max Payload (${weightUnit()})</label><input type="number" id="cc-payload" min="1" /></div>
+      </div>
+      <div style="font-size:11px;color:var(--text-muted);margin-bottom:14px">
+        Interior dimensions; for flatbeds use the deck size and the maximum legal load height.
+        Leave the door blank if it opens to the full interior (or there is none).
+      </div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="cc-close">Close</button>
+        <button class="btn btn-secondary" id="cc-new" style="display:none">New</button>
+        <button class="btn btn-primary" id="cc-save">Add Equipment</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  const field = (id: string) => document.getElementById(id) as HTMLInputElement;
+
+  // Values last filled in; fields left as filled read back without unit rounding
+  let filled: Partial<ContainerSpec> = {};
+
+  const fillForm = (spec: Partial<ContainerSpec>) => {
+    filled = spec;
+    const set = (id: string, value: string) => { field(id).value = field(id).defaultValue = value; };
+    field('cc-label').value = spec.label ?? '';
+    (document.getElementById('cc-equipment') as HTMLSelectElement).value = spec.equipment ?? 'container';
+    set('cc-length', spec.lengthIn !== undefined ? lengthInputValue(spec.lengthIn) : '');
+    set('cc-width', spec.widthIn !== undefined ? lengthInputValue(spec.widthIn) : '');
+    set('cc-height', spec.heightIn !== undefined ? lengthInputValue(spec.heightIn) : '');
+    set('cc-door-width', spec.doorWidthIn !== undefined ? lengthInputValue(spec.doorWidthIn) : '');
+    set('cc-door-height', spec.doorHeightIn !== undefined ? lengthInputValue(spec.doorHeightIn) : '');
+    set('cc-tare', spec.tareWeightLbs !== undefined ? weightInputValue(spec.tareWeightLbs) : '');
+    set('cc-payload', spec.maxWeightLbs !== undefined ? weightInputValue(spec.maxWeightLbs) : '');
+  };
+
+  const setEditing = (name: string | null) => {
+    editingName = name;
+    document.getElementById('cc-save')!.textContent = name ? 'Save Changes' : 'Add Equipment';
+    document.getElementById('cc-new')!.style.display = name ? '' : 'none';
+    if (!name) fillForm({});
+  };
+
+  const renderList = () => {
+    const list = document.getElementById('custom-container-list')!;
+    const customs = Object.values(CONTAINER_SPECS).filter(spec => spec.custom);
+    if (customs.length === 0) {
+      list.innerHTML = `<div style="font-size:12px;color:var(--text-muted);padding:8px 0">No custom equipment yet.</div>`;
+      return;
+    }
+    list.innerHTML = customs.map(spec => `
+      <div style="display:flex;align-items:center;gap:8px;padding:6px 8px;border-bottom:1px solid var(--border-color)">
+        <div style="flex:1;min-width:0">
+          <div style="font-size:12px;font-weight:600">${escapeHtml(spec.label)}</div>
+          <div style="font-size:11px;color:var(--text-muted)">
+            ${EQUIPMENT_TYPES[spec.equipment ?? 'container']} &middot;
+            ${formatDimensions(spec.lengthIn, spec.widthIn, spec.heightIn)} &middot;
+            ${spec.doorWidthIn !== undefined || spec.doorHeightIn !== undefined
+              ? `door ${formatLength(spec.doorWidthIn ?? spec.widthIn)} x ${formatLength(spec.doorHeightIn ?? spec.heightIn)} &middot;`
+              : ''}
+            ${formatMass(spec.maxWeightLbs)} payload
+          </div>
+        </div>
+        <button class="btn btn-sm btn-secondary" data-edit="${escapeHtml(spec.name)}">Edit</button>
+        <button class="btn btn-sm btn-danger" data-delete="${escapeHtml(spec.name)}">Delete</button>
+      </div>
+    `).join('');
+
+    list.querySelectorAll('[data-edit]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const spec = CONTAINER_SPECS[(btn as HTMLElement).dataset.edit!];
+        if (!spec) return;
+        setEditing(spec.name);
+        fillForm(spec);
+      });
+    });
+    list.querySelectorAll('[data-delete]').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const name = (btn as HTMLElement).dataset.delete!;
+        if (!confirm(`Delete "${CONTAINER_SPECS[name]?.label}"?`)) return;
+        if (callbacks.onDelete(name)) {
+          if (editingName === name) setEditing(null);
+          renderList();
+        }
+      });
+    });
+  };
+
+  renderList();
+
+  document.getElementById('cc-preset')!.addEventListener('change', (e) => {
+    const index = (e.target as HTMLSelectElement).value;
+    if (index !== '') fillForm(EQUIPMENT_PRESETS[parseInt(index)]);
+  });
+
+  document.getElementById('cc-save')!.addEventListener('click', () => {
+    const label = field('cc-label').value.trim();
+    const equipment = (document.getElementById('cc-equipment') as HTMLSelectElement).value as EquipmentType;
+    const lengthIn = readLengthInput(field('cc-length'), filled.lengthIn);
+    const widthIn = readLengthInput(field('cc-width'), filled.widthIn);
+    const heightIn = readLengthInput(field('cc-height'), filled.heightIn);
+    const doorWidthIn = field('cc-door-width').value.trim() ? readLengthInput(field('cc-door-width'), filled.doorWidthIn) : undefined;
+    const doorHeightIn = field('cc-door-height').value.trim() ? readLengthInput(field('cc-door-height'), filled.doorHeightIn) : undefined;
+    const tareWeightLbs = readWeightInput(field('cc-tare'), filled.tareWeightLbs);
+    const maxWeightLbs = readWeightInput(field('cc-payload'), filled.maxWeightLbs);
+
+    if (!label) { showToast('Please enter a name', 'error'); return; }
+    if (!(lengthIn > 0) || !(widthIn > 0) || !(heightIn > 0)) { showToast('Please enter valid dimensions', 'error'); return; }
+    if ((doorWidthIn !== undefined && !(doorWidthIn > 0 && doorWidthIn <= widthIn)) ||
+        (doorHeightIn !== undefined && !(doorHeightIn > 0 && doorHeightIn <= heightIn))) {
+      showToast('The door must be positive and no larger than the interior', 'error');
+      return;
+    }
+    if (isNaN(tareWeightLbs) || tareWeightLbs < 0) { showToast('Please enter a valid tare weight', 'error'); return; }
+    if (!(maxWeightLbs > 0)) { showToast('Please enter a valid payload', 'error'); return; }
+
+    const spec: ContainerSpec = {
+      name: editingName ?? 'custom_' + Date.now().toString(36),
+      label,
+      equipment,
+      custom: true,
+      lengthFt: lengthIn / 12,
+      widthFt: widthIn / 12,
+      heightFt: heightIn / 12,
+      lengthIn,
+      widthIn,
+      heightIn,
+      doorWidthIn,
+      doorHeightIn,
+      tareWeightLbs,
+      maxWeightLbs,
+    };
+    if (callbacks.onSave(spec)) {
+      setEditing(null);
+      (document.getElementById('cc-preset') as HTMLSelectElement).value = '';
+      renderList();
+    }
+  });
+
+  document.getElementById('cc-new')!.addEventListener('click', () => setEditing(null));
+  document.getElementById('cc-close')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+// ============================================================================
+// CONTAINER ESTIMATOR
+// ============================================================================
+
+/**
+ * Renders the results part of the estimator modal (everything below the rates).
+ */
+function buildEstimateHTML(estimate: ContainerEstimate): string {
+  if (estimate.itemCount === 0) {
+    return `<div style="font-size:12px;color:var(--text-muted);padding:12px 0">None of the items fit any container type.</div>`;
+  }
+
+  const rows = estimate.perType.map(t => `
+    <tr>
+      <td style="padding:6px 8px;font-weight:600">${escapeHtml(t.spec.label)}</td>
+      <td style="padding:6px 8px;text-align:center">${t.byVolume}</td>
+      <td style="padding:6px 8px;text-align:center">${t.byWeight}</td>
+      <td style="padding:6px 8px;text-align:center;font-weight:700">${t.byPacking ?? '<span style="color:var(--accent-red)" title="Some items do not fit this type">—</span>'}</td>
+      <td style="padding:6px 8px;text-align:center">${t.byPacking !== null ? t.avgUtilization.toFixed(0) + '%' : '—'}</td>
+      <td style="padding:6px 8px;text-align:right">${t.cost !== null ? '$' + t.cost.toLocaleString() : '—'}</td>
+    </tr>
+  `).join('');
+
+  const rec = estimate.recommended;
+  const recText = rec
+    ? rec.mix.map(m => `${m.count} &times; ${escapeHtml(m.spec.label)}`).join(' + ')
+    : 'No mix found';
+
+  const unpackable = estimate.unpackable.map(u => `
+    <div style="font-size:11px;color:var(--text-muted);padding:2px 0">⚠ ${escapeHtml(u.message)}</div>
+  `).join('');
+
+  return `
+    <div style="font-size:12px;color:var(--text-muted);margin-bottom:10px">
+      ${estimate.itemCount} item${estimate.itemCount !== 1 ? 's' : ''} &nbsp;|&nbsp;
+      ${formatVolume(estimate.totalVolumeCuFt * 1728)} &nbsp;|&nbsp;
+      ${formatMass(estimate.totalWeightLbs)}
+    </div>
+    <table style="width:100%;border-collapse:collapse;font-size:12px;margin-bottom:14px">
+      <thead>
+        <tr style="color:var(--text-muted);font-size:11px;text-transform:uppercase;border-bottom:1px solid var(--border-color)">
+          <th style="padding:6px 8px;text-align:left">Type</th>
+          <th style="padding:6px 8px" title="Lower bound from volume alone">By Volume</th>
+          <th style="padding:6px 8px" title="Lower bound from payload alone">By Weight</th>
+          <th style="padding:6px 8px" title="Trial-packed with the packing engine">Packed</th>
+          <th style="padding:6px 8px">Avg Fill</th>
+          <th style="padding:6px 8px;text-align:right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <div style="padding:12px 14px;background:var(--bg-card);border:1px solid var(--border-color);border-radius:var(--radius-sm);margin-bottom:12px">
+      <div style="font-size:11px;color:var(--text-muted);text-transform:uppercase;margin-bottom:4px">Recommended</div>
+      <div style="font-size:14px;font-weight:700;color:var(--text-bright)">${recText}</div>
+      ${rec ? `<div style="font-size:12px;color:var(--text-muted);margin-top:2px">Estimated cost $${rec.cost.toLocaleString()}</div>` : ''}
+    </div>
+    ${unpackable ? `<div style="margin-bottom:12px">${unpackable}</div>` : ''}
+  `;
+}
+
+/**
+ * Shows the "what box do I need" advisor: per-type container counts by
+ * volume, by weight and by trial packing, plus the cheapest mix.
+ * Editing the rates and pressing Recalculate asks the caller for a new
+ * estimate (the caller is responsible for saving the rates).
+ */
+export function showContainerEstimatorModal(
+  estimate: ContainerEstimate,
+  rates: ContainerRates,
+  onRecalculate: (rates: ContainerRates) => ContainerEstimate
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+
+  const rateInputs = estimate.perType.map(t => `
+    <div class="form-group" style="margin-bottom:0">
+      <label>${escapeHtml(t.spec.label)}</label>
+      <input type="number" min="0" step="50" data-rate="${escapeHtml(t.spec.name)}" value="${rates[t.spec.name] ?? ''}" placeholder="—" />
+    </div>
+  `).join('');
+
+  overlay.innerHTML = `
+    <div class="modal medium" style="position:relative">
+      <h2>Container Estimator</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        Loaded and staged cargo, trial-packed into each container type.
+        Only types with a rate are considered for the recommendation.
+      </p>
+      <div style="font-size:11px;color:var(--text-muted);text-transform:uppercase;margin-bottom:6px">Rate per container ($)</div>
+      <div style="display:grid;grid-template-columns:repeat(${Math.min(estimate.perType.length, 3)}, 1fr);gap:8px;margin-bottom:14px">
+        ${rateInputs}
+      </div>
+      <div id="estimate-results">${buildEstimateHTML(estimate)}</div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="estimate-close">Close</button>
+        <button class="btn btn-primary" id="estimate-recalc">Recalculate</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  document.getElementById('estimate-recalc')!.addEventListener('click', () => {
+    const newRates: ContainerRates = { ...rates };
+    overlay.querySelectorAll<HTMLInputElement>('[data-rate]').forEach(input => {
+      const value = parseFloat(input.value);
+      if (!isNaN(value) && value >= 0) newRates[input.dataset.rate!] = value;
+      else if (input.value.trim() === '') delete newRates[input.dataset.rate!];
+    });
+    document.getElementById('estimate-results')!.innerHTML = buildEstimateHTML(onRecalculate(newRates));
+  });
+  document.getElementById('estimate-close')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+// ============================================================================
+// PACKING REPORT
+// ============================================================================
+
+/**
+ * Shows the result of a packing run: how many items were placed and,
+ * for every item that was left out, the reason it could not be packed.
+ */
+export function showPackReportModal(title: string, placedCount: number, unplaced: UnplacedItem[]): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+
+  const rows = unplaced.map(u => `
+    <div style="display:flex;align-items:center;gap:8px;padding:6px 8px;border-bottom:1px solid var(--border-color)">
+      <span class="item-color" style="background:${u.item.color}"></span>
+      <div style="flex:1;min-width:0">
+        <div style="font-size:12px;font-weight:600">${escapeHtml(u.item.label)}</div>
+        <div style="font-size:11px;color:var(--text-muted)">${escapeHtml(u.message)}</div>
+      </div>
+      <span style="font-size:11px;color:var(--text-muted);white-space:nowrap">${formatDimensions(u.item.lengthIn, u.item.widthIn, u.item.heightIn)}</span>
+    </div>
+  `).join('');
+
+  overlay.innerHTML = `
+    <div class="modal small" style="position:relative;min-width:420px">
+      <h2>${escapeHtml(title)}</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        ${placedCount} item${placedCount !== 1 ? 's' : ''} packed.
+        ${unplaced.length > 0
+          ? `${unplaced.length} item${unplaced.length !== 1 ? 's' : ''} could not fit and ${unplaced.length !== 1 ? 'are' : 'is'} in staging.`
+          : 'Everything fit.'}
+      </p>
+      ${unplaced.length > 0 ? `<div style="max-height:320px;overflow-y:auto;margin-bottom:14px">${rows}</div>` : ''}
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-primary" id="pack-report-close">OK</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  document.getElementById('pack-report-close')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+// ============================================================================
+// PACKING LIST IMPORT
+// ============================================================================
+
+/**
+ * Shows the packing list import wizard: map the file's columns to item
+ * fields, pick the units, check the converted rows, then send the valid
+ * rows to staging or have them auto-placed. Rows with errors are skipped.
+ *
+ * @param fileName - Shown in the title
+ * @param table - Cell text of every non-blank row in the file
+ * @param onImport - Called with the valid rows and where they should go
+ */
+export function showImportWizardModal(
+  fileName: string,
+  table: string[][],
+  onImport: (rows: ImportRow[], destination: 'staging' | 'place') => void
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+
+  const columnCount = Math.max(...table.map(r => r.length));
+  const initialMapping = guessColumnMapping(table[0]);
+  const initialUnits = guessUnits(table[0], getUnitSystem() === 'metric' ? { length: 'cm', weight: 'kg' } : undefined);
+  // Assume a header row when it mapped to at least the required fields
+  const initialHeader = (Object.keys(IMPORT_FIELDS) as ImportField[])
+    .filter(f => IMPORT_FIELDS[f].required)
+    .every(f => initialMapping[f] !== undefined);
+
+  const mappingSelects = (Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => `
+    <div class="form-group" style="margin-bottom:0">
+      <label>${IMPORT_FIELDS[field].label}${IMPORT_FIELDS[field].required ? ' *' : ''}</label>
+      <select data-import-field="${field}">
+        <option value="">— none —</option>
+        ${Array.from({ length: columnCount }, (_, col) => `<option value="${col}" ${initialMapping[field] === col ? 'selected' : ''}></option>`).join('')}
+      </select>
+    </div>
+  `).join('');
+
+  overlay.innerHTML = `
+    <div class="modal medium" style="position:relative;min-width:640px">
+      <h2>Import Packing List</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        ${escapeHtml(fileName)} — ${table.length} row${table.length !== 1 ? 's' : ''}. Map the columns, pick the units and check the preview.
+      </p>
+      <label style="display:flex;align-items:center;gap:6px;font-size:12px;margin-bottom:10px;cursor:pointer">
+        <input type="checkbox" id="import-has-header" ${initialHeader ? 'checked' : ''} /> First row is a header
+      </label>
+      <div style="display:grid;grid-template-columns:repeat(5, 1fr);gap:8px;margin-bottom:10px">
+        ${mappingSelects}
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>Dimension Units</label>
+          <select id="import-length-unit">
+            ${(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(u => `<option value="${u}" ${u === initialUnits.length ? 'selected' : ''}>${u}</option>`).join('')}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Weight Units</label>
+          <select id="import-weight-unit">
+            ${(Object.keys(WEIGHT_UNITS) as WeightUnit[]).map(u => `<option value="${u}" ${u === initialUnits.weight ? 'selected' : ''}>${u}</option>`).join('')}
+          </select>
+        </div>
+      </div>
+      <div id="import-summary" style="font-size:12px;color:var(--text-secondary);margin-bottom:6px"></div>
+      <div id="import-preview" style="max-height:260px;overflow:auto;margin-bottom:14px"></div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="import-cancel">Cancel</button>
+        <button class="btn btn-secondary" id="import-to-staging">Send to Staging</button>
+        <button class="btn btn-primary" id="import-place">Auto-place</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  const headerBox = document.getElementById('import-has-header') as HTMLInputElement;
+  let rows: ImportRow[] = [];
+
+  const refresh = () => {
+    const hasHeader = headerBox.checked;
+
+    // Column names follow the header row when there is one
+    overlay.querySelectorAll<HTMLSelectElement>('[data-import-field]').forEach(select => {
+      Array.from(select.options).slice(1).forEach((option, col) => {
+        const letter = String.fromCharCode(65 + (col % 26));
+        option.textContent = hasHeader && table[0][col] ? `${letter}: ${table[0][col]}` : `Column ${letter}`;
+      });
+    });
+
+    const mapping: ColumnMapping = {};
+    overlay.querySelectorAll<HTMLSelectElement>('[data-import-field]').forEach(select => {
+      if (select.value !== '') mapping[select.dataset.importField as ImportField] = parseInt(select.value, 10);
+    });
+    const units = {
+      length: (document.getElementById('import-length-unit') as HTMLSelectElement).value as LengthUnit,
+      weight: (document.getElementById('import-weight-unit') as HTMLSelectElement).value as WeightUnit,
+    };
+    rows = convertImportRows(hasHeader ? table.slice(1) : table, mapping, units, hasHeader ? 2 : 1);
+
+    const ready = rows.filter(r => r.item);
+    const itemCount = ready.reduce((sum, r) => sum + r.quantity, 0);
+    const failed = rows.length - ready.length;
+    document.getElementById('import-summary')!.innerHTML = `
+      <strong>${ready.length}</strong> row${ready.length !== 1 ? 's' : ''} ready (${itemCount} item${itemCount !== 1 ? 's' : ''})
+      ${failed > 0 ? ` · <span style="color:var(--accent-red)">${failed} with errors will be skipped</span>` : ''}
+    `;
+
+    document.getElementById('import-preview')!.innerHTML = `
+      <table class="manifest-table">
+        <thead><tr><th>Row</th><th>Label</th><th>Qty</th><th>Dimensions</th><th>Weight</th><th>Category</th><th>Stackable</th><th>Status</th></tr></thead>
+        <tbody>
+          ${rows.map(r => `
+            <tr${r.errors.length > 0 ? ` style="background:rgba(220,38,38,0.055)"` : ''}>
+              <td>${r.rowNumber}</td>
+              <td style="font-family:'Inter',sans-serif">${r.item ? escapeHtml(r.item.label) : '—'}</td>
+              <td>${r.quantity}</td>
+              <td>${r.item ? formatDimensions(r.item.lengthIn, r.item.widthIn, r.item.heightIn) : '—'}</td>
+              <td>${r.item ? formatMass(r.item.weightLbs) : '—'}</td>
+              <td>${r.item ? `<span class="category-badge ${r.item.category}">${r.item.category}</span>` : '—'}</td>
+              <td>${r.item ? (r.item.acceptsOnTop === 'none' ? 'No' : 'Yes') : '—'}</td>
+              <td style="font-family:'Inter',sans-serif;font-size:10.5px">${r.errors.length > 0
+                ? `<span style="color:var(--accent-red)">✕ ${escapeHtml(r.errors.join('; '))}</span>`
+                : r.warnings.length > 0
+                  ? `<span style="color:var(--accent-orange)">⚠ ${escapeHtml(r.warnings.join('; '))}</span>`
+                  : '<span style="color:var(--accent-green)">✓</span>'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+
+    const disabled = ready.length === 0;
+    (document.getElementById('import-to-staging') as HTMLButtonElement).disabled = disabled;
+    (document.getElementById('import-place') as HTMLButtonElement).disabled = disabled;
+  };
+  refresh();
+
+  overlay.querySelectorAll('select, input').forEach(el => el.addEventListener('change', refresh));
+
+  const finish = (destination: 'staging' | 'place') => {
+    overlay.remove();
+    onImport(rows.filter(r => r.item), destination);
+  };
+  document.getElementById('import-to-staging')!.addEventListener('click', () => finish('staging'));
+  document.getElementById('import-place')!.addEventListener('click', () => finish('place'));
+  document.getElementById('import-cancel')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+// ============================================================================
+// PALLET BUILDER
+// ============================================================================
+
+/**
+ * Shows the pallet builder: choose a base, limits and stacking pattern,
+ * tick the staged cartons to use and preview the build before committing.
+ *
+ * @param cartons - Staged items that can go on a pallet
+ * @param config - Settings to start from (the last ones used)
+ * @param onBuild - Called with the chosen carton IDs, settings and pallet label
+ */
+export function showPalletBuilderModal(
+  cartons: CargoItem[],
+  config: PalletConfig,
+  onBuild: (ids: string[], config: PalletConfig, label: string) => void
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+
+  const baseOptions = Object.values(PALLET_BASES).map(b =>
+    `<option value="${b.name}" ${b.name === config.baseName ? 'selected' : ''}>${b.label}</option>`
+  ).join('');
+  const patternOptions = (Object.keys(PALLET_PATTERNS) as PalletPattern[]).map(p =>
+    `<option value="${p}" ${p === config.pattern ? 'selected' : ''}>${PALLET_PATTERNS[p]}</option>`
+  ).join('');
+  const cartonRows = cartons.map(c => `
+    <label style="display:flex;align-items:center;gap:8px;padding:4px 8px;border-bottom:1px solid var(--border-color);font-size:12px;cursor:pointer">
+      <input type="checkbox" data-carton-id="${c.id}" checked />
+      <span class="item-color" style="background:${c.color}"></span>
+      <span style="flex:1;min-width:0">${escapeHtml(c.label)}</span>
+      <span style="font-size:11px;color:var(--text-muted);white-space:nowrap">${formatDimensions(c.lengthIn, c.widthIn, c.heightIn)} · ${formatMass(c.weightLbs)}</span>
+    </label>
+  `).join('');
+
+  overlay.innerHTML = `
+    <div class="modal medium" style="position:relative">
+      <h2>Build Pallet</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        Stacks the ticked cartons in layers, heaviest first. The built pallet replaces them in staging
+        as a single item; unpack it to get the cartons back.
+      </p>
+      <div class="form-row">
+        <div class="form-group" style="flex:2">
+          <label>Pallet Base</label>
+          <select id="pallet-base">${baseOptions}</select>
+        </div>
+        <div class="form-group" style="flex:2">
+          <label>Pattern</label>
+          <select id="pallet-pattern">${patternOptions}</select>
+        </div>
+      </div>
+      <div class="form-row">
+        <div class="form-group">
+          <label>Max Height (${lengthUnit()})</label>
+          <input type="number" id="pallet-max-height" min="1" step="1" value="${lengthInputValue(config.maxHeightIn)}" />
+        </div>
+        <div class="form-group">
+          <label>Max Weight (${weightUnit()})</label>
+          <input type="number" id="pallet-max-weight" min="1" step="50" value="${weightInputValue(config.maxWeightLbs)}" />
+        </div>
+        <div class="form-group" style="flex:2">
+          <label>Label</label>
+          <input type="text" id="pallet-label" value="Pallet" />
+        </div>
+      </div>
+      <div style="font-size:11px;color:var(--text-muted);text-transform:uppercase;margin-bottom:6px">Cartons</div>
+      <div style="max-height:220px;overflow-y:auto;margin-bottom:10px">${cartonRows}</div>
+      <div id="pallet-preview" style="font-size:12px;color:var(--text-secondary);margin-bottom:14px"></div>
+      <div style="display:flex;gap:8px;justify-content:flex-end">
+        <button class="btn btn-secondary" id="pallet-cancel">Cancel</button>
+        <button class="btn btn-primary" id="pallet-build">Build</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  const readConfig = (): PalletConfig => ({
+    baseName: (document.getElementById('pallet-base') as HTMLSelectElement).value,
+    pattern: (document.getElementById('pallet-pattern') as HTMLSelectElement).value as PalletPattern,
+    maxHeightIn: readLengthInput(document.getElementById('pallet-max-height') as HTMLInputElement, config.maxHeightIn) || config.maxHeightIn,
+    maxWeightLbs: readWeightInput(document.getElementById('pallet-max-weight') as HTMLInputElement, config.maxWeightLbs) || config.maxWeightLbs,
+  });
+  const checkedIds = (): string[] =>
+    Array.from(overlay.querySelectorAll<HTMLInputElement>('[data-carton-id]'))
+      .filter(box => box.checked)
+      .map(box => box.dataset.cartonId!);
+
+  const updatePreview = () => {
+    const ids = new Set(checkedIds());
+    const result = buildPallet(cartons.filter(c => ids.has(c.id)), readConfig());
+    const stacked = result.contents.cartons.length;
+    const preview = document.getElementById('pallet-preview')!;
+    preview.innerHTML = stacked === 0
+      ? `<span style="color:var(--text-muted)">${ids.size === 0 ? 'No cartons selected' : escapeHtml(result.unplaced[0]?.message ?? 'Nothing fits')}</span>`
+      : `<strong>${stacked}</strong> carton${stacked !== 1 ? 's' : ''} in <strong>${result.contents.layers}</strong> layer${result.contents.layers !== 1 ? 's' : ''} —
+         ${formatDimensions(result.lengthIn, result.widthIn, result.heightIn)}, ${formatMass(result.weightLbs)}
+         ${result.unplaced.length > 0 ? `<div style="color:var(--text-muted);margin-top:4px">⚠ ${result.unplaced.length} left in staging: ${escapeHtml(result.unplaced[0].message)}</div>` : ''}`;
+    (document.getElementById('pallet-build') as HTMLButtonElement).disabled = stacked === 0;
+  };
+  updatePreview();
+
+  overlay.querySelectorAll('select, input').forEach(el => {
+    el.addEventListener('change', updatePreview);
+    el.addEventListener('input', updatePreview);
+  });
+  document.getElementById('pallet-build')!.addEventListener('click', () => {
+    const label = (document.getElementById('pallet-label') as HTMLInputElement).value.trim() || 'Pallet';
+    overlay.remove();
+    onBuild(checkedIds(), readConfig(), label);
+  });
+  document.getElementById('pallet-cancel')!.addEventListener('click', () => overlay.remove());
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) overlay.remove();
+  });
+}
+
+/**
+ * Fills the Load Balance settings inputs from a saved tolerance.
+ */
+export function setCogToleranceInputs(tolerance: CogTolerance): void {
+  const set = (id: string, value: number) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.value = String(value);
+  };
+  set('cog-max-height', tolerance.maxHeightPct);
+  set('cog-max-long', tolerance.maxLongitudinalOffsetPct);
+  set('cog-max-lat', tolerance.maxLateralOffsetPct);
+}
+
+/**
+ * Shows whether a live session is running and who else is in it.
+ * @param peers - Other members, or null when not in a live session
+ */
+export function updateLiveButton(peers: { username: string }[] | null): void {
+  const btn = document.getElementById('btn-live');
+  if (!btn) return;
+  btn.classList.toggle('active', peers !== null);
+  btn.textContent = peers && peers.length > 0 ? `👥 Live (${peers.length + 1})` : '👥 Live';
+  btn.title = peers === null
+    ? 'Edit the open project live with other users'
+    : peers.length > 0
+      ? `Live with ${peers.map(p => p.username).join(', ')} — click to leave`
+      : 'Live session open, waiting for others — click to leave';
+}
+
+/**
+ * Enables the Undo/Redo toolbar buttons and names the step each would apply.
+ * @param undoLabel - Label of the step Undo reverts, or null when there is none
+ * @param redoLabel - Label of the step Redo reapplies, or null when there is none
+ */
+export function updateUndoButtons(undoLabel: string | null, redoLabel: string | null): void {
+  const undoBtn = document.getElementById('btn-undo') as HTMLButtonElement | null;
+  const redoBtn = document.getElementById('btn-redo') as HTMLButtonElement | null;
+  if (undoBtn) {
+    undoBtn.disabled = !undoLabel;
+    undoBtn.title = undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)';
+  }
+  if (redoBtn) {
+    redoBtn.disabled = !redoLabel;
+    redoBtn.title = redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)';
+  }
+}
+
+/**
+ * Sets the Color Mode select without firing its change handler.
+ */
+export function setColorModeSelect(mode: ColorMode): void {
+  const select = document.getElementById('color-mode') as HTMLSelectElement | null;
+  if (select) select.value = mode;
+}
+
+/**
+ * Fills the Chassis & Axle Limits settings inputs from a saved config.
+ */
+export function setChassisInputs(chassis: ChassisConfig): void {
+  shownChassis = chassis;
+  const set = (id: string, value: string) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.value = input.defaultValue = value;
+  };
+  set('chassis-kingpin', lengthInputValue(chassis.kingpinFromFrontIn));
+  set('chassis-axle', lengthInputValue(chassis.axleFromRearIn));
+  set('chassis-tare', weightInputValue(chassis.chassisTareLbs));
+  set('chassis-kingpin-limit', weightInputValue(chassis.kingpinLimitLbs));
+  set('chassis-axle-limit', weightInputValue(chassis.axleLimitLbs));
+}
+
+/**
+ * Switches the unit system and updates the always-present forms to match:
+ * unit labels, values typed into the add-item and preset forms (converted,
+ * not cleared), the chassis settings and the grid size buttons.
+ *
+ * @param gridSizeIn - Current grid size; the nearest size offered in the new system is selected
+ * @returns The selected grid size in inches
+ */
+export function applyUnitSystem(system: UnitSystem, gridSizeIn: number): number {
+  const field = (id: string) => document.getElementById(id) as HTMLInputElement | null;
+  const lengthIds = ['item-length', 'item-width', 'item-height', 'lib-length', 'lib-width', 'lib-height'];
+  const weightIds = ['item-weight', 'lib-weight'];
+  const read = (ids: string[], toBase: (value: number) => number) => ids.map(id => {
+    const value = parseFloat(field(id)?.value ?? '');
+    return isNaN(value) ? null : toBase(value);
+  });
+  const lengths = read(lengthIds, fromDisplayLength);
+  const weights = read(weightIds, fromDisplayWeight);
+  const topLoadPrefixes = ['item-topload', 'lib-topload'];
+  const topLoadUnits = topLoadPrefixes.map(prefix =>
+    ((document.getElementById(`${prefix}-unit`) as HTMLSelectElement | null)?.value ?? 'lbs') as TopLoadUnit);
+  const topLoads = topLoadPrefixes.map((prefix, i) => read([`${prefix}-value`], value => fromDisplayTopLoad(value, topLoadUnits[i]))[0]);
+
+  setUnitSystem(system);
+
+  const write = (ids: string[], values: (number | null)[], toDisplay: (value: number) => number) => ids.forEach((id, i) => {
+    const input = field(id);
+    const value = values[i];
+    if (input && value !== null) input.value = toInputValue(toDisplay(value));
+  });
+  write(lengthIds, lengths, toDisplayLength);
+  write(weightIds, weights, toDisplayWeight);
+  topLoadPrefixes.forEach((prefix, i) => write([`${prefix}-value`], [topLoads[i]], value => toDisplayTopLoad(value, topLoadUnits[i])));
+
+  document.querySelectorAll('.unit-length').forEach(el => { el.textContent = lengthUnit(); });
+  document.querySelectorAll('.unit-weight').forEach(el => { el.textContent = weightUnit(); });
+  topLoadPrefixes.forEach(prefix => {
+    const select = document.getElementById(`${prefix}-unit`) as HTMLSelectElement | null;
+    if (!select) return;
+    select.options[0].textContent = weightUnit();
+    select.options[1].textContent = system === 'metric' ? 'kg/m²' : 'lbs/ft²';
+  });
+  const unitSelect = document.getElementById('unit-system') as HTMLSelectElement | null;
+  if (unitSelect) unitSelect.value = system;
+  setChassisInputs(shownChassis);
+
+  const options = gridSizeOptions();
+  const nearest = options.reduce((best, option) =>
+    Math.abs(option.inches - gridSizeIn) < Math.abs(best.inches - gridSizeIn) ? option : best, options[0]);
+  const gridButtons = document.getElementById('grid-size-options');
+  if (gridButtons) gridButtons.innerHTML = buildGridSizeButtonsHTML(nearest.inches);
+  const snapLabel = document.getElementById('snap-label');
+  if (snapLabel) snapLabel.textContent = `Snap: ${nearest.label} grid`;
+
+  const librarySearch = document.getElementById('library-search') as HTMLInputElement | null;
+  if (librarySearch && _globalCallbacks) renderLibraryItems(librarySearch.value, _globalCallbacks);
+
+  return nearest.inches;
+}
+
+/** Renders kingpin and axle group rows with a warning line per exceeded limit */
+function buildAxleLoadsHTML(axles: AxleLoads, warnings: string[]): string {
+  const rows = [axles.kingpin, axles.axleGroup].map(load => {
+    const over = load.weightLbs > load.limitLbs || load.weightLbs < 0;
+    return `<div style="font-family:'JetBrains Mono',monospace;font-size:10.5px;color:${over ? 'var(--accent-red)' : 'var(--text-bright)'}">${formatAxleLoad(load)}</div>`;
+  }).join('');
+  return rows + warnings
+    .map(w => `<div style="font-size:10.5px;color:var(--accent-red);margin-top:3px">⚠ ${w}</div>`)
+    .join('');
+}
+
+export function updateStats(
+  items: CargoItem[],
+  container: ContainerSpec,
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE,
+  chassis: ChassisConfig = DEFAULT_CHASSIS_CONFIG
+): void {
+  const utilization = calculateUtilization(items, container);
+  const netWeight = calculateTotalWeight(items);        // cargo only
+  const grossWeight = netWeight + container.tareWeightLbs; // tare + cargo
+  const availWeight = container.maxWeightLbs - netWeight;  // remaining payload
+  const weightPct = (netWeight / container.maxWeightLbs) * 100;
+
+  const volEl      = document.getElementById('stat-volume');
+  const itemsEl    = document.getElementById('stat-items');
+  const netWtEl    = document.getElementById('stat-net-weight');
+  const grossWtEl  = document.getElementById('stat-gross-weight');
+  const availWtEl  = document.getElementById('stat-avail-weight');
+  const maxWtEl    = document.getElementById('stat-max-weight');
+  const fillEl     = document.getElementById('utilization-fill');
+
+  if (volEl)     volEl.textContent = utilization.toFixed(1) + '%';
+  if (itemsEl)   itemsEl.textContent = items.length.toString();
+  if (maxWtEl)   maxWtEl.textContent = formatMass(container.maxWeightLbs);
+
+  if (netWtEl) {
+    netWtEl.textContent = formatMass(netWeight);
+    netWtEl.className = netWeight > container.maxWeightLbs
+      ? 'stat-value accent-red'
+      : 'stat-value accent-blue';
+  }
+
+  if (grossWtEl) {
+    grossWtEl.textContent = formatMass(grossWeight);
+    grossWtEl.className = 'stat-value';
+  }
+
+  if (availWtEl) {
+    availWtEl.textContent = formatMass(availWeight);
+    availWtEl.className = availWeight < 0
+      ? 'stat-value accent-red'
+      : 'stat-value accent-green';
+  }
+
+  if (fillEl) {
+    fillEl.style.width = Math.min(weightPct, 100) + '%';
+    fillEl.className = 'utilization-fill';
+    if (weightPct > 90) fillEl.classList.add('danger');
+    else if (weightPct > 70) fillEl.classList.add('warning');
+  }
+
+  const dist = getWeightDistribution(items, container);
+  const distLabelEl = document.getElementById('stat-dist-label');
+  const distFrontEl = document.getElementById('stat-dist-front');
+  const distBackEl  = document.getElementById('stat-dist-back');
+  const axlesEl     = document.getElementById('stat-axles');
+
+  if (distLabelEl) distLabelEl.textContent = `Weight Distribution (Front/Back: ${dist.front.toFixed(0)}% / ${dist.back.toFixed(0)}%)`;
+  if (distFrontEl) distFrontEl.style.flex = String(dist.front);
+  if (distBackEl)  distBackEl.style.flex = String(dist.back);
+  if (axlesEl) {
+    const axles = calculateAxleLoads(items, container, chassis);
+    axlesEl.innerHTML = axles
+      ? buildAxleLoadsHTML(axles, checkAxleLimits(axles))
+      : `<div style="font-size:10.5px;color:var(--text-muted)">Check chassis geometry: the axle group must sit behind the kingpin.</div>`;
+  }
+
+  const cogEl       = document.getElementById('stat-cog');
+  const cogOffsetEl = document.getElementById('stat-cog-offset');
+  const cogWarnEl   = document.getElementById('stat-cog-warnings');
+  const cog = calculateCenterOfGravity(items, container);
+  const cogWarnings = cog ? checkCogTolerance(cog, container, cogTolerance) : [];
+
+  if (cogEl) {
+    cogEl.textContent = cog ? formatCog(cog) : '—';
+    cogEl.className = cog && cogWarnings.length > 0 ? 'stat-value accent-red' : 'stat-value';
+  }
+  if (cogOffsetEl) cogOffsetEl.textContent = cog ? `Offset: ${describeCogOffset(cog)}` : '';
+  if (cogWarnEl) {
+    cogWarnEl.innerHTML = cogWarnings
+      .map(w => `<div style="font-size:10.5px;color:var(--accent-red);margin-top:3px">⚠ ${w}</div>`)
+      .join('');
+  }
+
+  const segCardEl = document.getElementById('stat-segregation-card');
+  const segEl     = document.getElementById('stat-segregation');
+  const hasHazmat = items.some(i => i.hazmatLevel && i.hazmatLevel !== 'none');
+  if (segCardEl) segCardEl.style.display = hasHazmat ? '' : 'none';
+  if (segEl && hasHazmat) {
+    const violations = findSegregationViolations(items).map(formatSegregationViolation);
+    segEl.innerHTML = violations.length > 0
+      ? violations.map(w => `<div style="font-size:10.5px;color:var(--accent-red);margin-top:3px">⚠ ${escapeHtml(w)}</div>`).join('')
+      : '<div style="font-size:10.5px;color:var(--text-muted)">✓ All hazmat items correctly segregated</div>';
+  }
+}
+
+export function showItemInfo(item: CargoItem | null, gridSize: number): void {
   const overlay = document.getElementById('info-overlay')!;
   if (!item) {
     overlay.classList.remove('visible');
@@ -1767,18 +3679,22 @@ export function showItemInfo(item: CargoItem | null, gridSize: number): void {
       <button class="close-btn" id="info-close">×</button>
       <h3>
         <span class="item-color" style="background:${item.color};width:12px;height:12px;border-radius:3px;display:inline-block"></span>
-        ${item.label}
+        ${escapeHtml(item.label)}
       </h3>
       <div class="info-row"><span class="info-label">Category</span><span class="info-value"><span class="category-badge ${item.category}">${item.category}</span></span></div>
+      ${item.sku ? `<div class="info-row"><span class="info-label">SKU</span><span class="info-value">${escapeHtml(item.sku)}</span></div>` : ''}
       <div class="info-row"><span class="info-label">Dimensions</span><span class="info-value">${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</span></div>
       <div class="info-row"><span class="info-label">Original</span><span class="info-value">${formatDimensions(item.origLengthIn, item.origWidthIn, item.origHeightIn)}</span></div>
-      <div class="info-row"><span class="info-label">Volume</span><span class="info-value">${((item.lengthIn * item.widthIn * item.heightIn) / 1728).toFixed(1)} ft³</span></div>
-      <div class="info-row"><span class="info-label">Weight</span><span class="info-value">${item.weightLbs.toLocaleString()} lbs</span></div>
-      <div class="info-row"><span class="info-label">Position X</span><span class="info-value">${item.posX.toFixed(0)}"</span></div>
-      <div class="info-row"><span class="info-label">Position Y</span><span class="info-value">${item.posY.toFixed(0)}"</span></div>
-      <div class="info-row"><span class="info-label">Position Z</span><span class="info-value">${item.posZ.toFixed(0)}"</span></div>
+      <div class="info-row"><span class="info-label">Volume</span><span class="info-value">${formatVolume(item.lengthIn * item.widthIn * item.heightIn)}</span></div>
+      <div class="info-row"><span class="info-label">Weight</span><span class="info-value">${formatMass(item.weightLbs)}</span></div>
+      ${item.allowedOrientations && item.allowedOrientations !== 'any' ? `<div class="info-row"><span class="info-label">Orientation</span><span class="info-value">${ORIENTATION_RULES[item.allowedOrientations]}</span></div>` : ''}
+      ${item.maxTopLoad !== undefined ? `<div class="info-row"><span class="info-label">Max Top Load</span><span class="info-value">${formatTopLoad(item)}</span></div>` : ''}
+      <div class="info-row"><span class="info-label">Position X</span><span class="info-value">${formatLength(item.posX)}</span></div>
+      <div class="info-row"><span class="info-label">Position Y</span><span class="info-value">${formatLength(item.posY)}</span></div>
+      <div class="info-row"><span class="info-label">Position Z</span><span class="info-value">${formatLength(item.posZ)}</span></div>
       <div class="info-row"><span class="info-label">Rotation</span><span class="info-value">${rotLabel || '0°'} ${item.rotationY > 0 ? `<span class="rotation-badge">${rotLabel}</span>` : ''}</span></div>
       ${item.hazmatLevel && item.hazmatLevel !== 'none' ? (() => { const hi = HAZMAT_CLASSES[item.hazmatLevel!]; return `<div class="info-row"><span class="info-label">Hazmat</span><span class="info-value"><span style="display:inline-flex;align-items:center;gap:4px;font-size:10px;font-weight:700;padding:2px 7px;border-radius:4px;background:${hi.color};color:${hi.textColor};border:1px solid rgba(0,0,0,0.15)">⚠ ${hi.label}</span></span></div>`; })() : ''}
+      ${item.unNumber || item.properShippingName ? `<div class="info-row"><span class="info-label">Dangerous Goods</span><span class="info-value">${escapeHtml(formatDangerousGoods(item))}</span></div>` : ''}
       
       <div style="margin-top:10px">
         <button class="btn btn-sm btn-primary btn-full" id="info-edit-btn" style="margin-bottom:8px">Edit Properties</button>
@@ -1845,17 +3761,143 @@ export function updateDropIndicator(text: string | null, stacking: boolean = fal
   }
 }
 
+/**
+ * Draws the box or lasso outline while drag-selecting in the 3D view.
+ * @param points - Outline in viewport-relative pixels (box: start and current corner), or null to hide
+ * @param mode - 'box' draws a rectangle, 'lasso' a freehand polygon
+ */
+export function updateSelectionMarquee(points: { x: number; y: number }[] | null, mode: 'box' | 'lasso' = 'box'): void {
+  const svg = document.getElementById('selection-marquee');
+  if (!svg) return;
+  if (!points || points.length < 2) {
+    svg.classList.remove('visible');
+    svg.innerHTML = '';
+    return;
+  }
+
+  svg.classList.add('visible');
+  if (mode === 'box') {
+    const [a, b] = [points[0], points[points.length - 1]];
+    svg.innerHTML = `<rect x="${Math.min(a.x, b.x)}" y="${Math.min(a.y, b.y)}" width="${Math.abs(b.x - a.x)}" height="${Math.abs(b.y - a.y)}" />`;
+  } else {
+    svg.innerHTML = `<polygon points="${points.map(p => `${p.x},${p.y}`).join(' ')}" />`;
+  }
+}
+
+/** One container's contents as listed in the manifest's shipment overview */
+export interface ShipmentManifestEntry {
+  label: string;
+  spec: ContainerSpec;
+  items: CargoItem[];
+}
+
+/** Multi-container context for the manifest (omitted for single-container loads) */
+export interface ShipmentManifest {
+  containers: ShipmentManifestEntry[];
+  activeIndex: number;
+}
+
+/**
+ * Builds the Dangerous Goods table (one row per hazmat item) shared by the
+ * in-app and printable manifests. Missing declaration fields show a dash.
+ */
+function buildDangerousGoodsTableHTML(hazmatItems: CargoItem[], tableClass = ''): string {
+  const dash = '&mdash;';
+  const rows = hazmatItems.map((item, i) => `
+    <tr>
+      <td>${i + 1}</td>
+      <td style="font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(item.label)}</td>
+      <td>${item.unNumber ? `UN${escapeHtml(item.unNumber)}` : dash}</td>
+      <td>${item.properShippingName ? escapeHtml(item.properShippingName) : dash}</td>
+      <td>${HAZMAT_CLASSES[item.hazmatLevel!].classNum}</td>
+      <td>${item.subsidiaryRisk ? escapeHtml(item.subsidiaryRisk) : dash}</td>
+      <td>${item.packingGroup ?? dash}</td>
+      <td>${item.flashPointC !== undefined ? `${item.flashPointC}°C` : dash}</td>
+      <td>${item.marinePollutant ? 'Yes' : 'No'}</td>
+      <td>${formatMass(item.weightLbs)}</td>
+    </tr>`).join('');
+  return `<table${tableClass ? ` class="${tableClass}"` : ''}>
+    <thead><tr><th>#</th><th>Item</th><th>UN No.</th><th>Proper Shipping Name</th><th>Class</th><th>Sub. Risk</th><th>PG</th><th>Flash Point</th><th>Marine Pollutant</th><th>Weight</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+/**
+ * Builds the crew notes table shared by the in-app and printable manifests.
+ */
+function buildNotesTableHTML(notes: PlacedAnnotation[], tableClass = ''): string {
+  const rows = notes.map(note => `
+    <tr>
+      <td>${note.number}</td>
+      <td>${note.item ? escapeHtml(note.item.label) : describeAnnotationPoint(note.point)}</td>
+      <td style="font-family:'Inter',sans-serif;font-weight:600;white-space:normal">${escapeHtml(note.annotation.text)}</td>
+      <td>${note.annotation.author ? escapeHtml(note.annotation.author) : '&mdash;'}</td>
+    </tr>`).join('');
+  return `<table${tableClass ? ` class="${tableClass}"` : ''}>
+    <thead><tr><th>#</th><th>Pinned To</th><th>Note</th><th>By</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+/**
+ * Builds the shipment overview table shown in the in-app manifest.
+ */
+function buildShipmentOverviewHTML(shipment: ShipmentManifest): string {
+  const allItems = shipment.containers.flatMap(c => c.items);
+  const totalWeight = calculateTotalWeight(allItems);
+  const totalGross = shipment.containers.reduce((s, c) => s + calculateTotalWeight(c.items) + c.spec.tareWeightLbs, 0);
+
+  return `
+    <h3>Shipment Overview — ${shipment.containers.length} Containers</h3>
+    <div style="overflow-x:auto;margin-bottom:18px">
+      <table class="manifest-table">
+        <thead>
+          <tr><th>#</th><th>Container</th><th>Items</th><th>Net Weight</th><th>Gross Weight</th><th>Volume Used</th></tr>
+        </thead>
+        <tbody>
+          ${shipment.containers.map((c, i) => {
+            const net = calculateTotalWeight(c.items);
+            return `
+            <tr${i === shipment.activeIndex ? ` style="background:rgba(91,138,245,0.08)"` : ''}>
+              <td>${i + 1}</td>
+              <td style="color:var(--text-bright);font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(c.label)}${i === shipment.activeIndex ? ' <span style="font-size:10px;color:var(--text-muted)">(this manifest)</span>' : ''}</td>
+              <td>${c.items.length}</td>
+              <td style="color:${net > c.spec.maxWeightLbs ? 'var(--accent-red)' : 'inherit'}">${formatMass(net)}</td>
+              <td>${formatMass(net + c.spec.tareWeightLbs)}</td>
+              <td>${calculateUtilization(c.items, c.spec).toFixed(1)}%</td>
+            </tr>`;
+          }).join('')}
+          <tr style="font-weight:700">
+            <td></td>
+            <td style="font-family:'Inter',sans-serif">Shipment Total</td>
+            <td>${allItems.length}</td>
+            <td>${formatMass(totalWeight)}</td>
+            <td>${formatMass(totalGross)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
 export function showManifestModal(
   items: CargoItem[],
   container: ContainerSpec,
   snapshots: { label: string; dataUrl: string }[],
-  onClose: () => void
+  onClose: () => void,
+  shipment?: ShipmentManifest,
+  cogTolerance: CogTolerance = DEFAULT_COG_TOLERANCE,
+  chassis: ChassisConfig = DEFAULT_CHASSIS_CONFIG,
+  notes: PlacedAnnotation[] = []
 ): void {
+  const isMulti = !!shipment && shipment.containers.length > 1;
+  const containerOf = isMulti ? ` (${shipment!.activeIndex + 1} of ${shipment!.containers.length})` : '';
   const utilization = calculateUtilization(items, container);
   const totalWeight = calculateTotalWeight(items);
   const dist = getWeightDistribution(items, container);
-  const totalVolume = items.reduce((s, i) => s + (i.lengthIn * i.widthIn * i.heightIn) / 1728, 0);
-  const containerVolume = (container.lengthIn * container.widthIn * container.heightIn) / 1728;
+  const totalVolume = items.reduce((s, i) => s + i.lengthIn * i.widthIn * i.heightIn, 0);
+  const containerVolume = container.lengthIn * container.widthIn * container.heightIn;
 
   const snapshotSectionHtml = snapshots.length > 0 ? `
     <h3>3D View Snapshots</h3>
@@ -1875,6 +3917,11 @@ export function showManifestModal(
 
   const warnFB = Math.abs(dist.front - dist.back) > 20;
   const warnLR = Math.abs(dist.left - dist.right) > 20;
+  const cog = calculateCenterOfGravity(items, container);
+  const cogWarnings = cog ? checkCogTolerance(cog, container, cogTolerance) : [];
+  const axles = calculateAxleLoads(items, container, chassis);
+  const axleWarnings = axles ? checkAxleLimits(axles) : [];
+  const segregationWarnings = findSegregationViolations(items).map(formatSegregationViolation);
 
   const overlay = document.createElement('div');
   overlay.className = 'modal-overlay';
@@ -1882,8 +3929,8 @@ export function showManifestModal(
     <div class="modal" style="position:relative" id="manifest-modal-content">
       <h2>Loading Manifest — A3 Shipping Pro</h2>
       <div style="font-size:12px;color:var(--text-muted);margin-bottom:18px">
-        Container: <strong style="color:var(--text-bright)">${container.label}</strong> |
-        Internal: ${container.lengthIn}" × ${container.widthIn}" × ${container.heightIn}" |
+        Container: <strong style="color:var(--text-bright)">${escapeHtml(container.label)}${containerOf}</strong> |
+        Internal: ${formatDimensions(container.lengthIn, container.widthIn, container.heightIn)} |
         Generated: ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}
       </div>
 
@@ -1893,8 +3940,8 @@ export function showManifestModal(
           <div class="label">Volume Utilization</div>
         </div>
         <div class="manifest-stat">
-          <div class="value">${totalWeight.toLocaleString()}</div>
-          <div class="label">Total Weight (lbs)</div>
+          <div class="value">${formatWeightNumber(totalWeight)}</div>
+          <div class="label">Total Weight (${weightUnit()})</div>
         </div>
         <div class="manifest-stat">
           <div class="value">${items.length}</div>
@@ -1905,11 +3952,11 @@ export function showManifestModal(
       <div style="display:grid;grid-template-columns:1fr 1fr;gap:10px;margin-bottom:10px">
         <div class="stat-card">
           <div class="stat-label">Volume Used</div>
-          <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:var(--text-bright)">${totalVolume.toFixed(1)} ft³ / ${containerVolume.toFixed(1)} ft³</div>
+          <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:var(--text-bright)">${formatVolume(totalVolume)} / ${formatVolume(containerVolume)}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Max Payload (Default)</div>
-          <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:var(--text-bright)">${container.maxWeightLbs.toLocaleString()} lbs</div>
+          <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:var(--text-bright)">${formatMass(container.maxWeightLbs)}</div>
         </div>
       </div>
 
@@ -1917,19 +3964,19 @@ export function showManifestModal(
         <div class="stat-card">
           <div class="stat-label">Net Weight (Cargo)</div>
           <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:${totalWeight > container.maxWeightLbs ? 'var(--accent-red)' : 'var(--accent-blue)'}">
-            ${totalWeight.toLocaleString()} lbs
+            ${formatMass(totalWeight)}
           </div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Gross Weight</div>
           <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:var(--text-bright)">
-            ${(totalWeight + container.tareWeightLbs).toLocaleString()} lbs
+            ${formatMass(totalWeight + container.tareWeightLbs)}
           </div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Available Weight</div>
           <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:${(container.maxWeightLbs - totalWeight) < 0 ? 'var(--accent-red)' : 'var(--accent-green)'}">
-            ${(container.maxWeightLbs - totalWeight).toLocaleString()} lbs
+            ${formatMass(container.maxWeightLbs - totalWeight)}
           </div>
         </div>
       </div>
@@ -1945,28 +3992,96 @@ export function showManifestModal(
           &nbsp;|&nbsp;
           ${warnLR ? '⚠ Uneven left/right weight distribution' : '✓ Balanced left/right'}
         </div>
+        ${axles ? `
+        <div class="stat-label" style="margin-top:10px">Axle Loads (gross ${formatMass(Math.round(axles.grossLbs))} incl. chassis)</div>
+        ${buildAxleLoadsHTML(axles, axleWarnings)}
+        ${axleWarnings.length === 0 ? '<div style="margin-top:3px;font-size:10.5px;color:var(--text-muted)">✓ Within axle limits</div>' : ''}` : ''}
       </div>
 
+      ${cog ? `
+      <div class="stat-card" style="margin-bottom:18px">
+        <div class="stat-label">Center of Gravity</div>
+        <div style="font-family:'JetBrains Mono',monospace;font-size:12px;color:${cogWarnings.length > 0 ? 'var(--accent-red)' : 'var(--text-bright)'}">${formatCog(cog)}</div>
+        <div style="margin-top:5px;font-size:10.5px;color:var(--text-muted)">
+          Offset from center: ${describeCogOffset(cog)}
+          ${cogWarnings.length > 0
+            ? cogWarnings.map(w => `<div style="color:var(--accent-red)">⚠ ${w}</div>`).join('')
+            : '<div>✓ Within center-of-gravity tolerance</div>'}
+        </div>
+      </div>` : ''}
+
+      ${isMulti ? buildShipmentOverviewHTML(shipment!) : ''}
+
       ${snapshotSectionHtml}
 
       ${(() => {
         // ── In-app HAZMAT alert block ──────────────────────────────────────────
-        const hmItems = items.filter(i => i.hazmatLevel && i.hazmatLevel !== 'none');
+        const hmItems = dangerousGoodsItems(items);
         if (hmItems.length === 0) return '';
         const badges = hmItems.map(item => {
           const hi = HAZMAT_CLASSES[item.hazmatLevel!];
-          return `<span style="display:inline-flex;align-items:center;gap:4px;padding:3px 9px;border-radius:4px;background:${hi.color};color:${hi.textColor};font-weight:800;font-size:10px;border:1px solid rgba(0,0,0,0.18)">⚠ HAZMAT Class ${hi.classNum} — ${item.label}</span>`;
+          return `<span style="display:inline-flex;align-items:center;gap:4px;padding:3px 9px;border-radius:4px;background:${hi.color};color:${hi.textColor};font-weight:800;font-size:10px;border:1px solid rgba(0,0,0,0.18)">⚠ HAZMAT Class ${hi.classNum} — ${escapeHtml(item.label)}</span>`;
         }).join('');
         return `
           <div style="background:rgba(220,38,38,0.11);border:1.5px solid rgba(220,38,38,0.4);border-radius:8px;padding:11px 14px;margin-bottom:16px">
             <div style="font-size:12px;font-weight:800;color:#ef4444;margin-bottom:7px;letter-spacing:0.4px">⚠ HAZARDOUS MATERIALS — ${hmItems.length} item${hmItems.length > 1 ? 's' : ''} in this load</div>
             <div style="display:flex;flex-wrap:wrap;gap:5px;margin-bottom:7px">${badges}</div>
+            <div style="font-size:10.5px;margin-bottom:7px">
+              ${segregationWarnings.length > 0
+                ? segregationWarnings.map(w => `<div style="color:var(--accent-red)">⚠ ${escapeHtml(w)}</div>`).join('')
+                : '<div style="color:var(--text-muted)">✓ IMDG segregation distances met</div>'}
+            </div>
             <div style="font-size:10px;color:rgba(239,68,68,0.8)">All IMDG/DOT regulations apply. Verify separation requirements and placard compliance before and during loading.</div>
-          </div>`;
+          </div>
+          <h3>Dangerous Goods</h3>
+          <div style="overflow-x:auto;margin-bottom:18px">${buildDangerousGoodsTableHTML(hmItems, 'manifest-table')}</div>`;
       })()}
 
-      <h3>Item Details</h3>
-      <div style="overflow-x:auto">
+      ${notes.length > 0 ? `
+        <h3>Notes</h3>
+        <div style="overflow-x:auto;margin-bottom:18px">${buildNotesTableHTML(notes, 'manifest-table')}</div>
+      ` : ''}
+
+      <div style="display:flex;justify-content:space-between;align-items:center">
+        <h3>Item Details</h3>
+        <label style="display:flex;align-items:center;gap:6px;font-size:11px;color:var(--text-muted);cursor:pointer">
+          <input type="checkbox" id="manifest-collapse-lines" /> Collapse by line
+        </label>
+      </div>
+      <div style="overflow-x:auto;display:none" id="manifest-lines-table">
+        <table class="manifest-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Line</th>
+              <th>SKU</th>
+              <th>Category</th>
+              <th>Qty</th>
+              <th>Unit Dimensions (L×W×H)</th>
+              <th>Total Weight</th>
+              <th>Total Volume</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${groupItemsByLine(items).map((line, i) => {
+              const first = line.items[0];
+              const volume = line.items.reduce((sum, item) => sum + item.lengthIn * item.widthIn * item.heightIn, 0);
+              return `
+              <tr>
+                <td>${i + 1}</td>
+                <td style="color:var(--text-bright);font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(line.label)}</td>
+                <td>${line.sku ? escapeHtml(line.sku) : '<span style="color:var(--text-muted);font-size:10px">—</span>'}</td>
+                <td><span class="category-badge ${first.category}">${first.category}</span></td>
+                <td>${line.items.length}</td>
+                <td>${formatDimensions(first.origLengthIn, first.origWidthIn, first.origHeightIn)}</td>
+                <td>${formatMass(line.totalWeightLbs)}</td>
+                <td>${formatVolume(volume)}</td>
+              </tr>`;
+            }).join('')}
+          </tbody>
+        </table>
+      </div>
+      <div style="overflow-x:auto" id="manifest-items-table">
         <table class="manifest-table">
           <thead>
             <tr>
@@ -1988,18 +4103,30 @@ export function showManifestModal(
               return `
               <tr${isHm ? ` style="background:rgba(220,38,38,0.055)"` : ''}>
                 <td>${i + 1}</td>
-                <td style="color:var(--text-bright);font-family:'Inter',sans-serif;font-weight:600">${item.label}</td>
+                <td style="color:var(--text-bright);font-family:'Inter',sans-serif;font-weight:600">${item.palletContents
+                  ? `<button class="line-expand" data-pallet-toggle="${item.id}" title="Show cartons">▸</button>${escapeHtml(item.label)} <span class="pallet-badge">▦ ${item.palletContents.cartons.length}</span>`
+                  : escapeHtml(item.label)}</td>
                 <td><span class="category-badge ${item.category}">${item.category}</span></td>
                 <td>${hi
                   ? `<span style="display:inline-flex;align-items:center;gap:3px;padding:2px 6px;border-radius:4px;background:${hi.color};color:${hi.textColor};font-weight:800;font-size:9.5px;border:1px solid rgba(0,0,0,0.16)">⚠ Cl.${hi.classNum}</span>`
                   : '<span style="color:var(--text-muted);font-size:10px">—</span>'
                 }</td>
-                <td>${item.lengthIn}" × ${item.widthIn}" × ${item.heightIn}"</td>
-                <td>${item.weightLbs.toLocaleString()} lbs</td>
-                <td>${item.posX.toFixed(0)}", ${item.posY.toFixed(0)}", ${item.posZ.toFixed(0)}"</td>
+                <td>${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</td>
+                <td>${formatMass(item.weightLbs)}</td>
+                <td>${formatLength(item.posX)}, ${formatLength(item.posY)}, ${formatLength(item.posZ)}</td>
                 <td>${getRotationLabel(item) || '0°'}</td>
-                <td>${((item.lengthIn * item.widthIn * item.heightIn) / 1728).toFixed(1)} ft³</td>
-              </tr>`;
+                <td>${formatVolume(item.lengthIn * item.widthIn * item.heightIn)}</td>
+              </tr>
+              ${(item.palletContents?.cartons ?? []).map(carton => `
+              <tr data-pallet-of="${item.id}" style="display:none;font-size:10.5px">
+                <td></td>
+                <td style="padding-left:22px">↳ ${escapeHtml(carton.label)}${carton.sku ? ` <span style="color:var(--text-muted)">(${escapeHtml(carton.sku)})</span>` : ''}</td>
+                <td><span class="category-badge ${carton.category}">${carton.category}</span></td>
+                <td>${carton.hazmatLevel && carton.hazmatLevel !== 'none' ? `Cl.${HAZMAT_CLASSES[carton.hazmatLevel].classNum}` : '<span style="color:var(--text-muted);font-size:10px">—</span>'}</td>
+                <td>${formatDimensions(carton.lengthIn, carton.widthIn, carton.heightIn)}</td>
+                <td>${formatMass(carton.weightLbs)}</td>
+                <td colspan="3" style="color:var(--text-muted)">on pallet</td>
+              </tr>`).join('')}`;
             }).join('')}
           </tbody>
         </table>
@@ -2009,6 +4136,8 @@ export function showManifestModal(
         <div style="display:flex;gap:8px;justify-content:flex-end;flex-wrap:wrap">
           <button class="btn btn-secondary" id="manifest-close">Close</button>
           <button class="btn btn-secondary" id="manifest-copy">Copy Text</button>
+          <button class="btn btn-secondary" id="manifest-csv" title="One row per item, for ERP import">CSV</button>
+          <button class="btn btn-secondary" id="manifest-xlsx" title="Items and summary sheets">Excel</button>
           <button class="btn btn-primary" id="manifest-print">Print / PDF</button>
         </div>
       </div>
@@ -2029,8 +4158,25 @@ export function showManifestModal(
     onClose();
   });
 
+  // Pallet rows expand into their cartons
+  overlay.querySelectorAll<HTMLElement>('[data-pallet-toggle]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const rows = overlay.querySelectorAll<HTMLElement>(`[data-pallet-of="${btn.dataset.palletToggle}"]`);
+      const expand = btn.textContent === '▸';
+      rows.forEach(row => { row.style.display = expand ? '' : 'none'; });
+      btn.textContent = expand ? '▾' : '▸';
+      btn.title = expand ? 'Hide cartons' : 'Show cartons';
+    });
+  });
+
+  const collapseToggle = document.getElementById('manifest-collapse-lines') as HTMLInputElement;
+  collapseToggle.addEventListener('change', () => {
+    document.getElementById('manifest-lines-table')!.style.display = collapseToggle.checked ? '' : 'none';
+    document.getElementById('manifest-items-table')!.style.display = collapseToggle.checked ? 'none' : '';
+  });
+
   document.getElementById('manifest-copy')!.addEventListener('click', () => {
-    const text = generateManifestText(items, container, utilization, totalWeight, dist);
+    const text = generateManifestText(items, container, utilization, totalWeight, dist, isMulti ? shipment : undefined, cog, cogWarnings, axles, axleWarnings, collapseToggle.checked, notes);
     navigator.clipboard.writeText(text).then(() => {
       showToast('Manifest copied to clipboard!', 'success');
     }).catch(() => {
@@ -2038,8 +4184,21 @@ export function showManifestModal(
     });
   });
 
+  document.getElementById('manifest-csv')!.addEventListener('click', () => {
+    const rows = buildManifestItemRows(items, container);
+    downloadFile(toCsv(rows), 'text/csv;charset=utf-8', `a3-manifest-${formatDateForFilename()}.csv`);
+  });
+
+  document.getElementById('manifest-xlsx')!.addEventListener('click', () => {
+    const sheets = [
+      { name: 'Items', rows: buildManifestItemRows(items, container) },
+      { name: 'Summary', rows: buildManifestSummaryRows(items, container, utilization, totalWeight, dist, isMulti ? shipment : undefined, cog, axles) },
+    ];
+    downloadFile(buildXlsx(sheets), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', `a3-manifest-${formatDateForFilename()}.xlsx`);
+  });
+
   document.getElementById('manifest-print')!.addEventListener('click', () => {
-    printManifest(items, container, utilization, totalWeight, dist, snapshots);
+    printManifest(items, container, utilization, totalWeight, dist, snapshots, isMulti ? shipment : undefined, cog, cogWarnings, axles, axleWarnings, collapseToggle.checked, notes);
   });
 }
 
@@ -2050,6 +4209,13 @@ function printManifest(
   totalWeight: number,
   dist: { front: number; back: number; left: number; right: number },
   snapshots: { label: string; dataUrl: string }[],
+  shipment?: ShipmentManifest,
+  cog: CenterOfGravity | null = null,
+  cogWarnings: string[] = [],
+  axles: AxleLoads | null = null,
+  axleWarnings: string[] = [],
+  collapseLines = false,
+  notes: PlacedAnnotation[] = [],
 ): void {
   const totalVolume = items.reduce((s, i) => s + (i.lengthIn * i.widthIn * i.heightIn) / 1728, 0);
   const containerVolume = (container.lengthIn * container.widthIn * container.heightIn) / 1728;
@@ -2069,19 +4235,50 @@ function printManifest(
     : '';
 
   // ── Printable HAZMAT alert section ─────────────────────────────────────────
-  const printHazItems = items.filter(i => i.hazmatLevel && i.hazmatLevel !== 'none');
+  const printHazItems = dangerousGoodsItems(items);
   const hazmatAlertHtml = printHazItems.length > 0 ? (() => {
+    const segregationWarnings = findSegregationViolations(items).map(formatSegregationViolation);
     const badges = printHazItems.map(item => {
       const hi = HAZMAT_CLASSES[item.hazmatLevel!];
-      return `<span style="display:inline-block;padding:3px 8px;border-radius:4px;font-size:9px;font-weight:800;background:${hi.color};color:${hi.textColor};border:1px solid rgba(0,0,0,0.2);margin:2px">HAZMAT CLASS ${hi.classNum} &mdash; ${item.label}</span>`;
+      return `<span style="display:inline-block;padding:3px 8px;border-radius:4px;font-size:9px;font-weight:800;background:${hi.color};color:${hi.textColor};border:1px solid rgba(0,0,0,0.2);margin:2px">HAZMAT CLASS ${hi.classNum} &mdash; ${escapeHtml(item.label)}</span>`;
     }).join('');
     return `<div style="border:2px solid #dc2626;border-radius:8px;padding:12px 14px;margin-bottom:16px;background:#fff5f5;page-break-inside:avoid">
       <div style="font-size:13px;font-weight:800;color:#dc2626;margin-bottom:8px;letter-spacing:0.3px">HAZARDOUS MATERIALS PRESENT &mdash; ${printHazItems.length} item${printHazItems.length > 1 ? 's' : ''}</div>
       <div style="display:flex;flex-wrap:wrap;gap:4px;margin-bottom:8px">${badges}</div>
-      <div style="font-size:9px;color:#7f1d1d;line-height:1.5">All IMDG/DOT regulations must be observed. Verify separation requirements and proper Class placarding before and during loading of all hazardous items.</div>
+      ${segregationWarnings.length > 0
+        ? segregationWarnings.map(w => `<div style="font-size:10px;font-weight:700;color:#dc2626">SEGREGATION: ${escapeHtml(w)}</div>`).join('')
+        : '<div style="font-size:10px;color:#166534">IMDG segregation distances met</div>'}
+      <div style="font-size:9px;color:#7f1d1d;line-height:1.5;margin-top:6px">All IMDG/DOT regulations must be observed. Verify separation requirements and proper Class placarding before and during loading of all hazardous items.</div>
     </div>`;
   })() : '';
 
+  // ── Printable center of gravity ───────────────────────────────────────────
+  const cogHtml = cog ? `<div style="border:1px solid ${cogWarnings.length > 0 ? '#dc2626' : '#c7d8f0'};border-radius:6px;padding:10px 12px;margin-bottom:16px;page-break-inside:avoid">
+    <div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px;margin-bottom:4px">Center of Gravity</div>
+    <div style="font-family:'JetBrains Mono',monospace;font-size:12px;font-weight:700;color:#1e3a5f">${formatCog(cog)}</div>
+    <div style="font-size:10px;color:#4b6280">Offset from center: ${describeCogOffset(cog)}</div>
+    ${cogWarnings.map(w => `<div style="font-size:10px;font-weight:700;color:#dc2626">WARNING: ${w}</div>`).join('')}
+  </div>` : '';
+
+  // ── Printable axle loads ──────────────────────────────────────────────────
+  const axleHtml = axles ? `<div style="border:1px solid ${axleWarnings.length > 0 ? '#dc2626' : '#c7d8f0'};border-radius:6px;padding:10px 12px;margin-bottom:16px;page-break-inside:avoid">
+    <div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px;margin-bottom:4px">Weight Distribution &amp; Axle Loads</div>
+    <div style="font-size:10px;color:#4b6280">Front/Back: ${dist.front.toFixed(0)}% / ${dist.back.toFixed(0)}% &nbsp;|&nbsp; Gross ${formatMass(Math.round(axles.grossLbs))} incl. chassis</div>
+    ${[axles.kingpin, axles.axleGroup].map(load => `<div style="font-family:'JetBrains Mono',monospace;font-size:11px;font-weight:700;color:#1e3a5f">${formatAxleLoad(load)}</div>`).join('')}
+    ${axleWarnings.map(w => `<div style="font-size:10px;font-weight:700;color:#dc2626">WARNING: ${w}</div>`).join('')}
+  </div>` : '';
+
+  // ── Printable shipment overview (multi-container loads only) ──────────────
+  const shipmentHtml = shipment ? `<div style="margin-bottom:16px;page-break-inside:avoid">
+    <div style="font-size:14px;font-weight:700;color:#1e3a5f;margin-bottom:8px">Shipment Overview &mdash; ${shipment.containers.length} Containers</div>
+    <table><thead><tr><th>#</th><th>Container</th><th>Items</th><th>Net Weight</th><th>Gross Weight</th><th>Volume Used</th></tr></thead><tbody>
+    ${shipment.containers.map((c, i) => {
+      const net = calculateTotalWeight(c.items);
+      return `<tr${i === shipment.activeIndex ? ' style="background:#eef4ff"' : ''}><td>${i + 1}</td><td style="font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(c.label)}</td><td>${c.items.length}</td><td>${formatMass(net)}</td><td>${formatMass(net + c.spec.tareWeightLbs)}</td><td>${calculateUtilization(c.items, c.spec).toFixed(1)}%</td></tr>`;
+    }).join('')}
+    </tbody></table>
+  </div>` : '';
+
   const html = `<!DOCTYPE html>
 <html><head>
 <meta charset="UTF-8">
@@ -2105,25 +4302,39 @@ tr.hazmat-row{background:#fff5f5}
 @media print{body{padding:14px}.snapshot{page-break-inside:avoid}}
 </style></head><body>
 <div class="header"><div class="header-brand">${logoHtml}<div><h1>Shipping Pro</h1><div class="subtitle">Container Loading Manifest</div></div></div>
-<div class="date">Container: <strong>${container.label}</strong><br>${container.lengthIn}" &times; ${container.widthIn}" &times; ${container.heightIn}"<br>${new Date().toLocaleString()}</div></div>
+<div class="date">Container: <strong>${escapeHtml(container.label)}${shipment ? ` (${shipment.activeIndex + 1} of ${shipment.containers.length})` : ''}</strong><br>${formatDimensions(container.lengthIn, container.widthIn, container.heightIn)}<br>${new Date().toLocaleString()}</div></div>
 <div style="display:grid;grid-template-columns:repeat(4,1fr);gap:8px;margin-bottom:16px;border:1px solid #c7d8f0;border-radius:6px;padding:12px;background:#f8fafd">
-  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#1e40af">${totalWeight.toLocaleString()}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Net Weight (lbs)</div></div>
-  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#1e3a5f">${(totalWeight + container.tareWeightLbs).toLocaleString()}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Gross Weight (lbs)</div></div>
-  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:${(container.maxWeightLbs - totalWeight) < 0 ? '#dc2626' : '#059669'}">${(container.maxWeightLbs - totalWeight).toLocaleString()}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Available (lbs)</div></div>
-  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#78350f">${container.maxWeightLbs.toLocaleString()}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Max Payload (lbs)</div></div>
+  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#1e40af">${formatWeightNumber(totalWeight)}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Net Weight (${weightUnit()})</div></div>
+  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#1e3a5f">${formatWeightNumber(totalWeight + container.tareWeightLbs)}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Gross Weight (${weightUnit()})</div></div>
+  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:${(container.maxWeightLbs - totalWeight) < 0 ? '#dc2626' : '#059669'}">${formatWeightNumber(container.maxWeightLbs - totalWeight)}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Available (${weightUnit()})</div></div>
+  <div style="text-align:center"><div style="font-family:'JetBrains Mono',monospace;font-size:14px;font-weight:700;color:#78350f">${formatWeightNumber(container.maxWeightLbs)}</div><div style="font-size:8px;font-weight:700;text-transform:uppercase;color:#4b6280;letter-spacing:0.6px">Max Payload (${weightUnit()})</div></div>
 </div>
+${cogHtml}
+${axleHtml}
+${shipmentHtml}
 ${hazmatAlertHtml}
+${printHazItems.length > 0 ? `<div style="font-size:11px;font-weight:800;color:#1e3a5f;text-transform:uppercase;letter-spacing:0.6px;margin-bottom:6px">Dangerous Goods</div><div style="margin-bottom:16px;page-break-inside:avoid">${buildDangerousGoodsTableHTML(printHazItems)}</div>` : ''}
+${notes.length > 0 ? `<div style="font-size:11px;font-weight:800;color:#1e3a5f;text-transform:uppercase;letter-spacing:0.6px;margin-bottom:6px">Notes</div><div style="margin-bottom:16px;page-break-inside:avoid">${buildNotesTableHTML(notes)}</div>` : ''}
 ${snapshotHtmlBlocks ? `<div class="snapshots-section"><div class="snapshots-heading">3D View Snapshots</div>${snapshotHtmlBlocks}</div>` : ''}
-<table><thead><tr><th>#</th><th>Label</th><th>Category</th><th>HAZMAT</th><th>Dimensions</th><th>Weight</th><th>Position</th><th>Volume</th></tr></thead><tbody>
+${collapseLines ? `<table><thead><tr><th>#</th><th>Line</th><th>SKU</th><th>Category</th><th>Qty</th><th>Unit Dimensions</th><th>Total Weight</th><th>Total Volume</th></tr></thead><tbody>
+${groupItemsByLine(items).map((line, i) => {
+  const first = line.items[0];
+  const volume = line.items.reduce((sum, item) => sum + item.lengthIn * item.widthIn * item.heightIn, 0);
+  return `<tr><td>${i+1}</td><td style="font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(line.label)}</td><td>${line.sku ? escapeHtml(line.sku) : '&mdash;'}</td><td>${first.category}</td><td>${line.items.length}</td><td>${formatDimensions(first.origLengthIn, first.origWidthIn, first.origHeightIn)}</td><td>${formatMass(line.totalWeightLbs)}</td><td>${formatVolume(volume)}</td></tr>`;
+}).join('')}
+</tbody></table>` : `<table><thead><tr><th>#</th><th>Label</th><th>Category</th><th>HAZMAT</th><th>Dimensions</th><th>Weight</th><th>Position</th><th>Volume</th></tr></thead><tbody>
 ${items.map((item, i) => {
   const isHm = item.hazmatLevel && item.hazmatLevel !== 'none';
   const hi = isHm ? HAZMAT_CLASSES[item.hazmatLevel!] : null;
   const hazCell = hi
     ? `<span class="hazmat-cell" style="background:${hi.color};color:${hi.textColor}">CLASS ${hi.classNum}</span>`
     : '&mdash;';
-  return `<tr${isHm ? ' class="hazmat-row"' : ''}><td>${i+1}</td><td style="font-family:'Inter',sans-serif;font-weight:600">${item.label}</td><td>${item.category}</td><td>${hazCell}</td><td>${item.lengthIn}" &times; ${item.widthIn}" &times; ${item.heightIn}"</td><td>${item.weightLbs.toLocaleString()} lbs</td><td>${item.posX.toFixed(0)}", ${item.posY.toFixed(0)}", ${item.posZ.toFixed(0)}"</td><td>${((item.lengthIn*item.widthIn*item.heightIn)/1728).toFixed(1)} ft&#179;</td></tr>`;
+  const cartonRows = (item.palletContents?.cartons ?? []).map(c =>
+    `<tr><td></td><td style="padding-left:22px;color:#4b6280">&#8627; ${escapeHtml(c.label)}${c.sku ? ` (${escapeHtml(c.sku)})` : ''}</td><td>${c.category}</td><td>${c.hazmatLevel && c.hazmatLevel !== 'none' ? `CLASS ${HAZMAT_CLASSES[c.hazmatLevel].classNum}` : '&mdash;'}</td><td>${formatDimensions(c.lengthIn, c.widthIn, c.heightIn)}</td><td>${formatMass(c.weightLbs)}</td><td colspan="2">on pallet</td></tr>`
+  ).join('');
+  return `<tr${isHm ? ' class="hazmat-row"' : ''}><td>${i+1}</td><td style="font-family:'Inter',sans-serif;font-weight:600">${escapeHtml(item.label)}${item.palletContents ? ` (${escapeHtml(item.palletContents.base.label)} pallet, ${item.palletContents.cartons.length} cartons)` : ''}</td><td>${item.category}</td><td>${hazCell}</td><td>${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)}</td><td>${formatMass(item.weightLbs)}</td><td>${formatLength(item.posX)}, ${formatLength(item.posY)}, ${formatLength(item.posZ)}</td><td>${formatVolume(item.lengthIn * item.widthIn * item.heightIn)}</td></tr>${cartonRows}`;
 }).join('')}
-</tbody></table>
+</tbody></table>`}
 <div class="footer">A3 Shipping Pro &mdash; ${new Date().toLocaleString()}</div></body></html>`;
 
   try {
@@ -2141,7 +4352,7 @@ ${items.map((item, i) => {
   }
 }
 
-function downloadFile(content: string, type: string, filename: string): void {
+function downloadFile(content: BlobPart, type: string, filename: string): void {
   try {
     const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
@@ -2167,30 +4378,172 @@ export function formatDateForFilename(): string {
   return `${y}-${m}-${day}`;
 }
 
+/**
+ * Builds the manifest item table for CSV/Excel export: one row per item in
+ * load-plan order, in the selected unit system.
+ */
+function buildManifestItemRows(items: CargoItem[], container: ContainerSpec): SheetCell[][] {
+  const len = lengthUnit();
+  const wt = weightUnit();
+  const vol = volumeUnit().replace('³', '3');
+  const header: SheetCell[] = [
+    'Step', 'Label', 'SKU', 'Category', 'Hazmat Class',
+    `Length (${len})`, `Width (${len})`, `Height (${len})`, 'Rotation',
+    `Pos X (${len})`, `Pos Y (${len})`, `Pos Z (${len})`, `Weight (${wt})`, `Volume (${vol})`,
+  ];
+  const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+  const length = (inches: number) => round(toDisplayLength(inches), 1);
+  const rows = generateLoadPlan(items, container).map(step => {
+    const item = step.item;
+    const hazmat = item.hazmatLevel && item.hazmatLevel !== 'none' ? HAZMAT_CLASSES[item.hazmatLevel].classNum : '';
+    return [
+      step.stepNumber, item.label, item.sku ?? '', item.category, hazmat,
+      length(item.lengthIn), length(item.widthIn), length(item.heightIn), item.rotationY * 90,
+      length(item.posX), length(item.posY), length(item.posZ),
+      round(toDisplayWeight(item.weightLbs), 1), round(toDisplayVolume(item.lengthIn * item.widthIn * item.heightIn), 3),
+    ];
+  });
+  return [header, ...rows];
+}
+
+/**
+ * Builds the manifest summary sheet for Excel export as field/value/unit rows.
+ */
+function buildManifestSummaryRows(
+  items: CargoItem[],
+  container: ContainerSpec,
+  utilization: number,
+  totalWeight: number,
+  dist: { front: number; back: number; left: number; right: number },
+  shipment?: ShipmentManifest,
+  cog: CenterOfGravity | null = null,
+  axles: AxleLoads | null = null
+): SheetCell[][] {
+  const round1 = (n: number) => Math.round(n * 10) / 10;
+  const len = lengthUnit();
+  const wt = weightUnit();
+  const length = (inches: number) => round1(toDisplayLength(inches));
+  const weight = (lbs: number) => round1(toDisplayWeight(lbs));
+  const rows: SheetCell[][] = [
+    ['Field', 'Value', 'Unit'],
+    ['Container', `${container.label}${shipment ? ` (${shipment.activeIndex + 1} of ${shipment.containers.length})` : ''}`, ''],
+    ['Internal Length', length(container.lengthIn), len],
+    ['Internal Width', length(container.widthIn), len],
+    ['Internal Height', length(container.heightIn), len],
+    ['Generated', new Date().toLocaleString(), ''],
+    ['Items', items.length, ''],
+    ['Volume Utilization', round1(utilization), '%'],
+    ['Net Weight', weight(totalWeight), wt],
+    ['Gross Weight', weight(totalWeight + container.tareWeightLbs), wt],
+    ['Max Payload', weight(container.maxWeightLbs), wt],
+    ['Available Weight', weight(container.maxWeightLbs - totalWeight), wt],
+    ['Weight Front', round1(dist.front), '%'],
+    ['Weight Back', round1(dist.back), '%'],
+    ['Weight Left', round1(dist.left), '%'],
+    ['Weight Right', round1(dist.right), '%'],
+  ];
+  if (cog) {
+    rows.push(
+      ['Center of Gravity X', length(cog.x), len],
+      ['Center of Gravity Y', length(cog.y), len],
+      ['Center of Gravity Z', length(cog.z), len],
+    );
+  }
+  if (axles) {
+    rows.push(
+      [axles.kingpin.label, Math.round(toDisplayWeight(axles.kingpin.weightLbs)), wt],
+      [axles.axleGroup.label, Math.round(toDisplayWeight(axles.axleGroup.weightLbs)), wt],
+    );
+  }
+  return rows;
+}
+
 function generateManifestText(
   items: CargoItem[],
   container: ContainerSpec,
   utilization: number,
   totalWeight: number,
-  dist: { front: number; back: number; left: number; right: number }
+  dist: { front: number; back: number; left: number; right: number },
+  shipment?: ShipmentManifest,
+  cog: CenterOfGravity | null = null,
+  cogWarnings: string[] = [],
+  axles: AxleLoads | null = null,
+  axleWarnings: string[] = [],
+  collapseLines = false,
+  notes: PlacedAnnotation[] = []
 ): string {
   let text = `A3 SHIPPING PRO - CONTAINER LOADING MANIFEST\n`;
   text += `${'='.repeat(60)}\n`;
-  text += `Container: ${container.label}\n`;
-  text += `Internal: ${container.lengthIn}" x ${container.widthIn}" x ${container.heightIn}"\n`;
+  text += `Container: ${container.label}${shipment ? ` (${shipment.activeIndex + 1} of ${shipment.containers.length})` : ''}\n`;
+  text += `Internal: ${formatDimensions(container.lengthIn, container.widthIn, container.heightIn)}\n`;
   text += `Date: ${new Date().toLocaleString()}\n\n`;
   text += `SUMMARY\n${'-'.repeat(40)}\n`;
   text += `Volume Utilization: ${utilization.toFixed(1)}%\n`;
-  text += `Net Weight (Cargo):  ${totalWeight.toLocaleString()} lbs\n`;
-  text += `Gross Weight:        ${(totalWeight + container.tareWeightLbs).toLocaleString()} lbs\n`;
-  text += `Available Weight:    ${(container.maxWeightLbs - totalWeight).toLocaleString()} lbs\n`;
-  text += `Max Payload (Default): ${container.maxWeightLbs.toLocaleString()} lbs\n`;
-  text += `Total Items: ${items.length}\n\n`;
+  text += `Net Weight (Cargo):  ${formatMass(totalWeight)}\n`;
+  text += `Gross Weight:        ${formatMass(totalWeight + container.tareWeightLbs)}\n`;
+  text += `Available Weight:    ${formatMass(container.maxWeightLbs - totalWeight)}\n`;
+  text += `Max Payload (Default): ${formatMass(container.maxWeightLbs)}\n`;
+  text += `Total Items: ${items.length}\n`;
+  if (cog) {
+    text += `Center of Gravity:   ${formatCog(cog)}\n`;
+    text += `CoG Offset:          ${describeCogOffset(cog)}\n`;
+    cogWarnings.forEach(w => { text += `WARNING: ${w}\n`; });
+  }
+  text += `Weight Distribution: Front ${dist.front.toFixed(0)}% / Back ${dist.back.toFixed(0)}%\n`;
+  if (axles) {
+    text += `${formatAxleLoad(axles.kingpin)}\n`;
+    text += `${formatAxleLoad(axles.axleGroup)}\n`;
+    axleWarnings.forEach(w => { text += `WARNING: ${w}\n`; });
+  }
+  if (items.some(i => i.hazmatLevel && i.hazmatLevel !== 'none')) {
+    const violations = findSegregationViolations(items);
+    text += `Hazmat Segregation:  ${violations.length === 0 ? 'IMDG distances met' : `${violations.length} violation(s)`}\n`;
+    violations.forEach(v => { text += `WARNING: ${formatSegregationViolation(v)}\n`; });
+  }
+  text += `\n`;
+  if (shipment) {
+    text += `SHIPMENT (${shipment.containers.length} containers)\n${'-'.repeat(40)}\n`;
+    shipment.containers.forEach((c, i) => {
+      text += `${i + 1}. ${c.label}: ${c.items.length} items, ${formatMass(calculateTotalWeight(c.items))} net, ${calculateUtilization(c.items, c.spec).toFixed(1)}% volume\n`;
+    });
+    text += `\n`;
+  }
+  const dgItems = dangerousGoodsItems(items);
+  if (dgItems.length > 0) {
+    text += `DANGEROUS GOODS\n${'-'.repeat(40)}\n`;
+    dgItems.forEach((item, i) => {
+      text += `${i + 1}. ${item.label}: ${formatDangerousGoods(item)} | ${formatMass(item.weightLbs)}\n`;
+    });
+    text += `\n`;
+  }
+  if (notes.length > 0) {
+    text += `NOTES\n${'-'.repeat(40)}\n`;
+    notes.forEach(note => {
+      text += `${formatAnnotation(note)}${note.annotation.author ? ` (${note.annotation.author})` : ''}\n`;
+    });
+    text += `\n`;
+  }
+  if (collapseLines) {
+    text += `ITEM LINES\n${'-'.repeat(40)}\n`;
+    groupItemsByLine(items).forEach((line, i) => {
+      const first = line.items[0];
+      text += `${i + 1}. ${formatItemLine(line)} [${first.category}]${line.sku ? ` SKU ${line.sku}` : ''}\n`;
+      text += `   ${formatDimensions(first.origLengthIn, first.origWidthIn, first.origHeightIn)} each\n\n`;
+    });
+    return text;
+  }
   text += `ITEMS\n${'-'.repeat(40)}\n`;
   items.forEach((item, i) => {
     text += `${i + 1}. ${item.label} [${item.category}]\n`;
-    text += `   ${item.lengthIn}" x ${item.widthIn}" x ${item.heightIn}" | ${item.weightLbs.toLocaleString()} lbs\n`;
-    text += `   Pos: X=${item.posX.toFixed(0)}", Y=${item.posY.toFixed(0)}", Z=${item.posZ.toFixed(0)}"\n\n`;
+    text += `   ${formatDimensions(item.lengthIn, item.widthIn, item.heightIn)} | ${formatMass(item.weightLbs)}\n`;
+    text += `   Pos: X=${formatLength(item.posX)}, Y=${formatLength(item.posY)}, Z=${formatLength(item.posZ)}\n`;
+    if (item.palletContents) {
+      text += `   Pallet: ${item.palletContents.base.label}, ${item.palletContents.layers} layers, ${item.palletContents.cartons.length} cartons\n`;
+      item.palletContents.cartons.forEach(c => {
+        text += `     - ${c.label}${c.sku ? ` (${c.sku})` : ''}: ${formatDimensions(c.lengthIn, c.widthIn, c.heightIn)} | ${formatMass(c.weightLbs)}\n`;
+      });
+    }
+    text += `\n`;
   });
   return text;
 }
@@ -2264,8 +4617,27 @@ export interface ProjectsModalOptions {
   user: AuthUser;
   /** Present when mode === 'save'. The current container state to persist. */
   saveData?: SavedLoad;
-  /** Called when mode === 'load' and the user selects a project. */
-  onLoad?: (savedLoad: SavedLoad) => void;
+  /**
+   * The project the scene was opened from. Overwriting it sends this
+   * revision as the base, so a newer save by someone else is a conflict.
+   */
+  currentProject?: { id: number; revision: number } | null;
+  /** Called when the user opens a project (or reloads theirs after a save conflict). */
+  onLoad?: (savedLoad: SavedLoad, project: ProjectFull) => void;
+  /** Called when mode === 'save' and the project was saved. */
+  onSaved?: (project: ProjectFull) => void;
+  /** Called when the user previews a revision from a project's history. */
+  onPreviewRevision?: (project: ProjectSummary, revision: ProjectRevisionFull) => void;
+  /**
+   * Called when the user compares revisions from a project's history.
+   * `after` is null when a revision is compared with the current scene.
+   */
+  onCompare?: (before: ComparisonSide, after: ComparisonSide | null) => void;
+}
+
+/** Parses a SQLite datetime('now') timestamp, which is UTC without a zone suffix. */
+function parseServerDate(value: string): Date {
+  return new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
 }
 
 /**
@@ -2273,9 +4645,11 @@ export interface ProjectsModalOptions {
  *
  * Save mode: lets editors give the project a name and save (create or overwrite).
  * Load mode: lists all projects with a Load button; editors also see a Delete button.
+ * In both modes the 🕘 button opens a project's revision history, where any
+ * revision can be previewed or compared and editors can restore or fork it.
  */
 export function showProjectsModal(options: ProjectsModalOptions): void {
-  const { mode, user, saveData, onLoad } = options;
+  const { mode, user, saveData, currentProject, onLoad, onSaved, onPreviewRevision, onCompare } = options;
   const isEditor = user.role === 'editor' || user.role === 'admin';
 
   const overlay = document.createElement('div');
@@ -2328,6 +4702,161 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
   const nameInput = document.getElementById('proj-name-input') as HTMLInputElement | null;
   if (nameInput) nameInput.focus();
 
+  // ── Revision history ─────────────────────────────────────────────────────
+  const showRevisionHistory = async (project: ProjectSummary) => {
+    listArea.innerHTML = `<div style="padding:16px;text-align:center;color:var(--text-muted);font-size:12px">Loading history…</div>`;
+
+    try {
+      const revisions = await apiListProjectRevisions(project.id);
+      const latest = revisions[0]?.revision;
+
+      listArea.innerHTML = `
+        <div style="display:flex;align-items:center;gap:8px;padding:8px 12px;border-bottom:1px solid var(--border-color)">
+          <button class="btn btn-sm btn-secondary" id="proj-history-back">← Back</button>
+          <div style="flex:1;min-width:0;font-size:12px;font-weight:600;color:var(--text-bright);white-space:nowrap;overflow:hidden;text-overflow:ellipsis">
+            🕘 ${escapeHtml(project.name)}
+          </div>
+          ${onCompare ? `
+            <button class="btn btn-sm btn-secondary" id="proj-compare-two" disabled title="Tick two revisions to compare them">Compare 2</button>
+            <button class="btn btn-sm btn-secondary" id="proj-compare-scene" disabled title="Tick one revision to compare it with the current scene">vs Scene</button>
+          ` : ''}
+        </div>
+        ${revisions.map(r => `
+          <div class="proj-rev-row" style="display:flex;align-items:center;gap:8px;padding:9px 12px;border-bottom:1px solid var(--border-color)">
+            ${onCompare ? `<input type="checkbox" class="proj-rev-check" data-rev="${r.revision}" title="Select for comparison" />` : ''}
+            <div style="flex:1;min-width:0">
+              <div style="font-size:12.5px;font-weight:600;color:var(--text-bright);display:flex;align-items:center;gap:5px">
+                Revision ${r.revision}
+                ${r.revision === latest ? `<span style="font-size:9.5px;padding:1px 5px;border-radius:3px;border:1px solid var(--border-color);color:var(--accent-green)">current</span>` : ''}
+              </div>
+              <div style="font-size:10px;color:var(--text-muted)">
+                by ${escapeHtml(r.author_name)} · ${parseServerDate(r.created_at).toLocaleString()}
+                ${r.name !== project.name ? ` · saved as "${escapeHtml(r.name)}"` : ''}
+              </div>
+              ${r.note ? `<div style="font-size:10px;color:var(--text-secondary)">${escapeHtml(r.note)}</div>` : ''}
+            </div>
+            ${onPreviewRevision ? `
+              <button class="btn btn-sm btn-secondary proj-rev-preview-btn" data-rev="${r.revision}" title="Show this revision in the 3D view (read-only)">Preview</button>
+            ` : ''}
+            ${isEditor && r.revision !== latest ? `
+              <button class="btn btn-sm btn-primary proj-rev-restore-btn" data-rev="${r.revision}" title="Make this revision the current project data">Restore</button>
+            ` : ''}
+            ${isEditor ? `
+              <button class="btn btn-sm btn-secondary proj-rev-fork-btn" data-rev="${r.revision}" title="Copy this revision into a new project">Fork</button>
+            ` : ''}
+          </div>
+        `).join('')}
+      `;
+
+      document.getElementById('proj-history-back')!.addEventListener('click', () => loadProjectsList());
+
+      // ── Compare buttons ────────────────────────────────────────────────────
+      const compareTwoBtn = document.getElementById('proj-compare-two') as HTMLButtonElement | null;
+      const compareSceneBtn = document.getElementById('proj-compare-scene') as HTMLButtonElement | null;
+      const checkedRevisions = () => Array.from(
+        listArea.querySelectorAll<HTMLInputElement>('.proj-rev-check:checked')
+      ).map(cb => Number(cb.dataset.rev)).sort((a, b) => a - b);
+
+      listArea.querySelectorAll('.proj-rev-check').forEach(cb => {
+        cb.addEventListener('change', () => {
+          const count = checkedRevisions().length;
+          if (compareTwoBtn) compareTwoBtn.disabled = count !== 2;
+          if (compareSceneBtn) compareSceneBtn.disabled = count !== 1;
+        });
+      });
+
+      const compare = async (btn: HTMLButtonElement, withScene: boolean) => {
+        const revs = checkedRevisions();
+        const label = btn.textContent;
+        try {
+          btn.disabled = true;
+          btn.textContent = '…';
+          // Older revision first, so the newer one is shown as the result
+          const loaded = await Promise.all(revs.map(rev => apiGetProjectRevision(project.id, rev)));
+          const sides = loaded.map(r => ({ label: `Revision ${r.revision}`, load: r.data as SavedLoad }));
+          overlay.remove();
+          onCompare?.(sides[0], withScene ? null : sides[1]);
+        } catch (err) {
+          showToast((err as Error).message || 'Could not load revisions', 'error');
+          btn.disabled = false;
+          btn.textContent = label;
+        }
+      };
+      compareTwoBtn?.addEventListener('click', () => compare(compareTwoBtn, false));
+      compareSceneBtn?.addEventListener('click', () => compare(compareSceneBtn, true));
+
+      // ── Preview button ─────────────────────────────────────────────────────
+      listArea.querySelectorAll('.proj-rev-preview-btn').forEach(btn => {
+        btn.addEventListener('click', async () => {
+          const rev = Number((btn as HTMLElement).dataset.rev);
+          try {
+            (btn as HTMLButtonElement).disabled = true;
+            (btn as HTMLButtonElement).textContent = '…';
+            const revision = await apiGetProjectRevision(project.id, rev);
+            overlay.remove();
+            onPreviewRevision?.(project, revision);
+          } catch (err) {
+            showToast((err as Error).message || 'Could not load revision', 'error');
+            (btn as HTMLButtonElement).disabled = false;
+            (btn as HTMLButtonElement).textContent = 'Preview';
+          }
+        });
+      });
+
+      // ── Restore button ─────────────────────────────────────────────────────
+      listArea.querySelectorAll('.proj-rev-restore-btn').forEach(btn => {
+        btn.addEventListener('click', async () => {
+          const rev = Number((btn as HTMLElement).dataset.rev);
+          if (!confirm(`Restore revision ${rev} of "${project.name}"? The current data stays in the history.`)) return;
+          try {
+            (btn as HTMLButtonElement).disabled = true;
+            const restored = await apiRestoreProjectRevision(project.id, rev);
+            showToast(`Restored revision ${rev} of "${restored.name}"`, 'success');
+            if (mode === 'load' && onLoad) {
+              overlay.remove();
+              onLoad(restored.data as SavedLoad, restored);
+            } else {
+              await showRevisionHistory({ ...project, name: restored.name });
+            }
+          } catch (err) {
+            showToast((err as Error).message || 'Could not restore revision', 'error');
+            (btn as HTMLButtonElement).disabled = false;
+          }
+        });
+      });
+
+      // ── Fork button ────────────────────────────────────────────────────────
+      listArea.querySelectorAll('.proj-rev-fork-btn').forEach(btn => {
+        btn.addEventListener('click', async () => {
+          const rev = Number((btn as HTMLElement).dataset.rev);
+          const name = prompt('Name for the new project:', `${project.name} (rev ${rev})`);
+          if (name === null) return;
+          try {
+            (btn as HTMLButtonElement).disabled = true;
+            const fork = await apiForkProjectRevision(project.id, rev, name.trim() || undefined);
+            showToast(`Forked revision ${rev} as "${fork.name}"`, 'success');
+            if (mode === 'load' && onLoad) {
+              overlay.remove();
+              onLoad(fork.data as SavedLoad, fork);
+            } else {
+              await loadProjectsList();
+            }
+          } catch (err) {
+            showToast((err as Error).message || 'Could not fork revision', 'error');
+            (btn as HTMLButtonElement).disabled = false;
+          }
+        });
+      });
+
+    } catch (err) {
+      listArea.innerHTML = `
+        <div style="padding:16px;color:var(--accent-red);font-size:12px">
+          ✕ Could not load history: ${escapeHtml((err as Error).message)}
+        </div>
+      `;
+    }
+  };
+
   // ── Load projects list ───────────────────────────────────────────────────
   const loadProjectsList = async () => {
     try {
@@ -2361,6 +4890,7 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
             ` : `
               <button class="btn btn-sm btn-secondary proj-overwrite-btn" data-proj-id="${p.id}" data-proj-name="${p.name}">Overwrite</button>
             `}
+            <button class="btn btn-sm btn-secondary proj-history-btn" data-proj-id="${p.id}" title="Version history">🕘</button>
             ${user.role === 'admin' ? `
               <button class="btn btn-sm btn-secondary proj-access-btn" data-proj-id="${p.id}" data-proj-name="${p.name}" data-proj-visibility="${p.visibility}" title="Manage viewer access">🔑</button>
             ` : ''}
@@ -2371,6 +4901,16 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
         `;
       }).join('');
 
+      // ── History button ───────────────────────────────────────────────────
+      listArea.querySelectorAll('.proj-history-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => {
+          e.stopPropagation();
+          const id = Number((btn as HTMLElement).dataset.projId);
+          const project = projects.find(p => p.id === id);
+          if (project) showRevisionHistory(project);
+        });
+      });
+
       // ── Access button (admin only) ────────────────────────────────────────
       listArea.querySelectorAll('.proj-access-btn').forEach(btn => {
         btn.addEventListener('click', (e) => {
@@ -2392,7 +4932,7 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
             (btn as HTMLButtonElement).textContent = '…';
             const project = await apiGetProject(id);
             overlay.remove();
-            if (onLoad) onLoad(project.data as SavedLoad);
+            if (onLoad) onLoad(project.data as SavedLoad, project);
           } catch (err) {
             showToast((err as Error).message || 'Could not load project', 'error');
             (btn as HTMLButtonElement).disabled = false;
@@ -2402,19 +4942,30 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
       });
 
       // ── Overwrite button (save mode) ──────────────────────────────────────
+      // The base revision is the one the scene was opened from, or the one
+      // listed here when overwriting a different project.
       listArea.querySelectorAll('.proj-overwrite-btn').forEach(btn => {
         btn.addEventListener('click', async (e) => {
           e.stopPropagation();
           const id = Number((btn as HTMLElement).dataset.projId);
           const projName = (btn as HTMLElement).dataset.projName!;
+          const project = projects.find(p => p.id === id)!;
+          const baseRevision = currentProject?.id === id ? currentProject.revision : project.revision;
           if (!confirm(`Overwrite project "${projName}" with the current load?`)) return;
           try {
             (btn as HTMLButtonElement).disabled = true;
             (btn as HTMLButtonElement).textContent = '…';
-            await apiUpdateProject(id, { name: projName, data: saveData as object });
+            const saved = await apiUpdateProject(id, { name: projName, data: saveData as object, baseRevision });
             overlay.remove();
             showToast(`Project "${projName}" updated!`, 'success');
+            onSaved?.(saved);
           } catch (err) {
+            const conflict = projectConflictOf(err);
+            if (conflict) {
+              overlay.remove();
+              showSaveConflictModal(project, conflict, saveData as SavedLoad, { onSaved, onLoad });
+              return;
+            }
             showToast((err as Error).message || 'Could not update project', 'error');
             (btn as HTMLButtonElement).disabled = false;
             (btn as HTMLButtonElement).textContent = 'Overwrite';
@@ -2471,6 +5022,7 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
         const project = await apiCreateProject(name, saveData as object, visibility);
         overlay.remove();
         showToast(`Project "${project.name}" saved!`, 'success');
+        onSaved?.(project);
         // If the project is restricted, immediately open the access manager
         // so the editor/admin can choose which viewers can see it.
         if (visibility === 'restricted' && user.role === 'admin') {
@@ -2491,6 +5043,93 @@ export function showProjectsModal(options: ProjectsModalOptions): void {
   }
 }
 
+// ============================================================================
+// SAVE CONFLICT MODAL
+// ============================================================================
+
+/**
+ * Shown when an overwrite was rejected because someone else saved the
+ * project after it was opened. Nothing is lost whichever option is picked:
+ * overwriting keeps their save as an earlier revision, a copy leaves their
+ * project alone, and reloading theirs drops only the local changes.
+ */
+function showSaveConflictModal(
+  project: ProjectSummary,
+  conflict: ProjectConflict,
+  saveData: SavedLoad,
+  handlers: Pick<ProjectsModalOptions, 'onSaved' | 'onLoad'>,
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'modal-overlay';
+  overlay.innerHTML = `
+    <div class="modal small" style="position:relative;min-width:420px">
+      <h2>⚠️ Save Conflict</h2>
+      <p style="font-size:12px;color:var(--text-muted);margin-bottom:14px">
+        <strong style="color:var(--text-bright)">${escapeHtml(project.name)}</strong> was saved by
+        <strong style="color:var(--text-bright)">${escapeHtml(conflict.updated_by)}</strong>
+        on ${parseServerDate(conflict.updated_at).toLocaleString()} (revision ${conflict.revision}), after you opened it.
+      </p>
+      <div style="display:flex;flex-direction:column;gap:8px;margin-bottom:14px">
+        <button class="btn btn-primary btn-full" id="conflict-overwrite">Overwrite — save mine as the latest (theirs stays in the history)</button>
+        <button class="btn btn-secondary btn-full" id="conflict-copy">Save as Copy — keep both projects</button>
+        <button class="btn btn-secondary btn-full" id="conflict-reload"${handlers.onLoad ? '' : ' disabled'}>Reload Theirs — discard my changes</button>
+      </div>
+      <div id="conflict-error" style="display:none;font-size:11px;color:var(--accent-red);margin-bottom:8px"></div>
+      <div style="display:flex;justify-content:flex-end">
+        <button class="btn btn-secondary" id="conflict-cancel">Cancel</button>
+      </div>
+    </div>
+  `;
+
+  document.body.appendChild(overlay);
+
+  const errorEl = document.getElementById('conflict-error') as HTMLDivElement;
+  const buttons = Array.from(overlay.querySelectorAll<HTMLButtonElement>('button'));
+
+  // Runs one choice with the buttons disabled; a fresh conflict reopens this modal
+  const run = async (action: () => Promise<void>) => {
+    buttons.forEach(b => { b.disabled = true; });
+    errorEl.style.display = 'none';
+    try {
+      await action();
+      overlay.remove();
+    } catch (err) {
+      const again = projectConflictOf(err);
+      if (again) {
+        overlay.remove();
+        showSaveConflictModal(project, again, saveData, handlers);
+        return;
+      }
+      errorEl.textContent = (err as Error).message || 'Could not save project';
+      errorEl.style.display = 'block';
+      buttons.forEach(b => { b.disabled = b.id === 'conflict-reload' && !handlers.onLoad; });
+    }
+  };
+
+  document.getElementById('conflict-overwrite')!.addEventListener('click', () => run(async () => {
+    const saved = await apiUpdateProject(project.id, { name: project.name, data: saveData, baseRevision: conflict.revision });
+    showToast(`Project "${saved.name}" updated!`, 'success');
+    handlers.onSaved?.(saved);
+  }));
+
+  document.getElementById('conflict-copy')!.addEventListener('click', () => {
+    const name = prompt('Name for the copy:', `${project.name} (copy)`);
+    if (name === null) return;
+    run(async () => {
+      const copy = await apiCreateProject(name.trim() || `${project.name} (copy)`, saveData, project.visibility);
+      showToast(`Saved as "${copy.name}"`, 'success');
+      handlers.onSaved?.(copy);
+    });
+  });
+
+  document.getElementById('conflict-reload')!.addEventListener('click', () => run(async () => {
+    const theirs = await apiGetProject(project.id);
+    handlers.onLoad?.(theirs.data as SavedLoad, theirs);
+  }));
+
+  document.getElementById('conflict-cancel')!.addEventListener('click', () => overlay.remove());
+}
+
 // ============================================================================
 // MANAGE PROJECT ACCESS MODAL (admin-only)
 // ============================================================================
@@ -5,12 +5,22 @@
  * - Grid snapping and coordinate conversion
  * - Item placement validation
  * - Overlap detection and stacking logic
+ * - Top-load (crush strength) limits through multi-level stacks
+ * - IMDG hazmat segregation checks and dangerous goods descriptions
+ * - Checking custom equipment read from saved loads
  * - Container utilization calculations
+ * - Center of gravity and tolerance checks
  * - Item rotation operations
+ * - Unit system (imperial/metric) conversion
  * - Formatting helpers
  */
 
-import { CargoItem, ContainerSpec, ItemCategory, StackingRule, SCALE_FACTOR, DEFAULT_GRID_SIZE } from "./definitions";
+import {
+  CargoItem, ContainerSpec, ItemCategory, StackingRule, TopLoadUnit, SCALE_FACTOR, DEFAULT_GRID_SIZE, CogTolerance, ORIENTATION_RULES,
+  UnitSystem, DEFAULT_UNIT_SYSTEM, CM_PER_INCH, LBS_PER_KG, GRID_SIZES, METRIC_GRID_SIZES_CM,
+  HazmatLevel, HAZMAT_CLASSES, SegregationLevel, SEGREGATION_LEVELS, IMDG_SEGREGATION_TABLE,
+  BUILT_IN_CONTAINER_TYPES, EQUIPMENT_TYPES, EquipmentType,
+} from "./definitions";
 
 // ============================================================================
 // COORDINATE AND GRID UTILITIES
@@ -70,6 +80,27 @@ export function generateId(): string {
   return 'item_' + Date.now().toString(36) + '_' + Math.random().toString(36).substr(2, 5);
 }
 
+/**
+ * Tests whether a 2D point lies inside a polygon (even-odd ray casting).
+ * Used for lasso selection in screen space.
+ * 
+ * @param point - Point to test
+ * @param polygon - Polygon vertices in order; the last vertex connects back to the first
+ * @returns true if the point is inside the polygon
+ */
+export function pointInPolygon(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
 // ============================================================================
 // STACKING RULE HELPERS
 // ============================================================================
@@ -123,6 +154,8 @@ export interface ValidationResult {
  * - Container boundary violations
  * - Overlaps with other items
  * - Adequate support (not floating)
+ * - Cross-section too large for the door opening
+ * - IMDG segregation distances to other hazmat items (warning only)
  * 
  * @param item - Item to validate
  * @param allItems - All items in the container (including the item to validate)
@@ -165,6 +198,19 @@ export function validatePlacement(
     }
   }
 
+  // Check the item's orientation rule ("this side up" etc.)
+  if (!isOrientationAllowed(item, item)) {
+    result.errors.push(`"${item.label}" must be loaded ${ORIENTATION_RULES[item.allowedOrientations!].toLowerCase()}`);
+    result.valid = false;
+  }
+
+  // Check that the item can be brought in through the door in this orientation
+  if (!fitsThroughDoor(item, container)) {
+    result.warnings.push(
+      `"${item.label}" (${formatLength(item.widthIn)} W x ${formatLength(item.heightIn)} H) will not pass through the ${formatLength(container.doorWidthIn ?? container.widthIn)} x ${formatLength(container.doorHeightIn ?? container.heightIn)} door opening`
+    );
+  }
+
   // Check if item is adequately supported (not floating)
   if (item.posY > 0) {
     const supported = isSupported(item, allItems);
@@ -173,6 +219,16 @@ export function validatePlacement(
     }
   }
 
+  // Check IMDG segregation distances to other hazmat items
+  result.warnings.push(...checkSegregation(item, allItems));
+
+  // Check that no item ends up carrying more than its top-load limit
+  const topLoadErrors = checkTopLoads(item, allItems);
+  if (topLoadErrors.length > 0) {
+    result.errors.push(...topLoadErrors);
+    result.valid = false;
+  }
+
   // Check stacking category rules when the item is elevated above the floor
   if (item.posY > 0.5) {
     for (const other of allItems) {
@@ -211,6 +267,25 @@ export function validatePlacement(
   return result;
 }
 
+/**
+ * Checks whether an item can pass through the container door in its current
+ * orientation. Items travel lengthwise (along X) through the door, so the
+ * cross-section that must clear the opening is width x height.
+ * Equipment without door dimensions (e.g. flatbeds) always passes.
+ *
+ * @param item - Cargo item in its loading orientation
+ * @param container - Container specifications
+ * @returns true if the item clears the door opening
+ *
+ * @example
+ * fitsThroughDoor(tallCrate, CONTAINER_SPECS['40ft']) // false if taller than 89.5"
+ */
+export function fitsThroughDoor(item: CargoItem, container: ContainerSpec): boolean {
+  const widthOk = container.doorWidthIn === undefined || item.widthIn <= container.doorWidthIn + 0.5;
+  const heightOk = container.doorHeightIn === undefined || item.heightIn <= container.doorHeightIn + 0.5;
+  return widthOk && heightOk;
+}
+
 /**
  * Checks if two items overlap in 3D space.
  * Uses axis-aligned bounding box (AABB) collision detection with small epsilon
@@ -335,6 +410,8 @@ export function findStackingY(
       
       // Use this level if it's higher and item will fit
       if (topY > bestY && topY + item.heightIn <= container.heightIn + 0.5) {
+        // Skip levels where the items below could not carry the extra weight
+        if (checkTopLoads({ ...item, posY: topY }, allItems).length > 0) continue;
         bestY = topY;
         stackedOn = other;
       }
@@ -344,6 +421,438 @@ export function findStackingY(
   return { y: bestY, stackedOn };
 }
 
+// ============================================================================
+// TOP-LOAD LIMITS
+// ============================================================================
+
+/** Area (sq in) where item rests on the top face of other; 0 when not in contact */
+function contactArea(item: CargoItem, other: CargoItem): number {
+  if (Math.abs(other.posY + other.heightIn - item.posY) >= 1) return 0;
+  const overlapX = Math.min(item.posX + item.lengthIn, other.posX + other.lengthIn) -
+                   Math.max(item.posX, other.posX);
+  const overlapZ = Math.min(item.posZ + item.widthIn, other.posZ + other.widthIn) -
+                   Math.max(item.posZ, other.posZ);
+  return overlapX > 0.5 && overlapZ > 0.5 ? overlapX * overlapZ : 0;
+}
+
+/**
+ * Returns the total weight (lbs) an item can carry on top in its current
+ * orientation. Per-square-foot limits are scaled by the top face area.
+ *
+ * @param item - Cargo item
+ * @returns Capacity in lbs, or Infinity when the item has no limit
+ *
+ * @example
+ * topLoadCapacity({ ...carton, maxTopLoad: 150, maxTopLoadUnit: 'lbs/sqft' }) // 150 x top area in sq ft
+ */
+export function topLoadCapacity(item: CargoItem): number {
+  if (item.maxTopLoad === undefined) return Infinity;
+  if (item.maxTopLoadUnit === 'lbs/sqft') {
+    return item.maxTopLoad * (item.lengthIn * item.widthIn) / 144;
+  }
+  return item.maxTopLoad;
+}
+
+/**
+ * Calculates the weight resting on top of every item.
+ * Each item passes its own weight plus everything on it down to the items
+ * directly beneath, shared in proportion to contact area, so loads add up
+ * through multi-level stacks.
+ *
+ * @param items - All items in the container
+ * @returns Map of item ID to weight carried on top (lbs)
+ *
+ * @example
+ * const loads = calculateTopLoads(items);
+ * console.log(`${loads.get(bottom.id)} lbs on the bottom pallet`);
+ */
+export function calculateTopLoads(items: CargoItem[]): Map<string, number> {
+  return distributeTopLoads(items, items);
+}
+
+/**
+ * Passes the weight of the stacked items down to their supports (see
+ * calculateTopLoads). Supports are looked up in allItems, so a subset can be
+ * worked out on its own as long as it holds everything stacked on the items
+ * whose loads are needed.
+ */
+function distributeTopLoads(stacked: CargoItem[], allItems: CargoItem[]): Map<string, number> {
+  const loads = new Map<string, number>(stacked.map(item => [item.id, 0]));
+
+  // Work from the top down so an item's load is complete before it is passed on
+  const byHeight = [...stacked].sort((a, b) => b.posY - a.posY);
+  for (const item of byHeight) {
+    if (item.posY <= 0.1) continue;
+
+    const supports: { id: string; area: number }[] = [];
+    let totalArea = 0;
+    for (const other of allItems) {
+      if (other.id === item.id) continue;
+      const area = contactArea(item, other);
+      if (area <= 0) continue;
+      supports.push({ id: other.id, area });
+      totalArea += area;
+    }
+    if (totalArea <= 0) continue;
+
+    const carried = item.weightLbs + loads.get(item.id)!;
+    for (const support of supports) {
+      loads.set(support.id, (loads.get(support.id) ?? 0) + carried * support.area / totalArea);
+    }
+  }
+
+  return loads;
+}
+
+/**
+ * Calculates the weight on top of the given items only, from the items
+ * stacked on them (directly or higher up) rather than the whole container.
+ */
+function topLoadsOn(targets: CargoItem[], allItems: CargoItem[]): Map<string, number> {
+  const stacked = [...targets];
+  const ids = new Set(targets.map(item => item.id));
+  for (let i = 0; i < stacked.length; i++) {
+    for (const other of allItems) {
+      if (ids.has(other.id) || contactArea(other, stacked[i]) <= 0) continue;
+      ids.add(other.id);
+      stacked.push(other);
+    }
+  }
+  return distributeTopLoads(stacked, allItems);
+}
+
+/**
+ * Checks whether placing an item would overload any item's top-load limit.
+ * Only items whose load grows because of this item (and the item itself)
+ * are reported, so existing problems elsewhere do not block unrelated moves.
+ *
+ * @param item - Item at its proposed position
+ * @param allItems - All items in the container (may include item)
+ * @returns Error messages; empty when every limit holds
+ *
+ * @example
+ * const errors = checkTopLoads({ ...crate, posY: 48 }, items);
+ * if (errors.length > 0) console.warn(errors[0]);
+ */
+export function checkTopLoads(item: CargoItem, allItems: CargoItem[]): string[] {
+  const others = allItems.filter(other => other.id !== item.id);
+
+  // Only the item and the items beneath it (down to the floor) can end up carrying more
+  const affected = [item];
+  const ids = new Set([item.id]);
+  for (let i = 0; i < affected.length; i++) {
+    for (const other of others) {
+      if (ids.has(other.id) || contactArea(affected[i], other) <= 0) continue;
+      ids.add(other.id);
+      affected.push(other);
+    }
+  }
+  if (!affected.some(other => other.maxTopLoad !== undefined)) return [];
+
+  const before = topLoadsOn(affected.slice(1), others);
+  const after = topLoadsOn(affected, [...others, item]);
+  const errors: string[] = [];
+
+  for (const other of affected) {
+    const capacity = topLoadCapacity(other);
+    const load = after.get(other.id)!;
+    if (load <= capacity + 0.5) continue;
+    if (other.id !== item.id && load <= before.get(other.id)! + 0.5) continue;
+    errors.push(
+      `"${other.label}" would carry ${formatMass(Math.round(load))} on top, over its ${formatMass(Math.round(capacity))} top-load limit`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Formats an item's top-load limit, e.g. '1,200 lbs' or '150 lbs/sq ft'
+ * ('544 kg' or '732 kg/m²' in metric).
+ * Returns 'No limit' when the item has none.
+ */
+export function formatTopLoad(item: CargoItem): string {
+  if (item.maxTopLoad === undefined) return 'No limit';
+  if (item.maxTopLoadUnit !== 'lbs/sqft') return formatMass(item.maxTopLoad);
+  return unitSystem === 'metric'
+    ? `${Math.round(toDisplayTopLoad(item.maxTopLoad, 'lbs/sqft')).toLocaleString()} kg/m²`
+    : `${item.maxTopLoad.toLocaleString()} lbs/sq ft`;
+}
+
+// ============================================================================
+// HAZMAT SEGREGATION
+// ============================================================================
+
+/** Two hazmat items closer together than their classes allow */
+export interface SegregationViolation {
+  a: CargoItem;
+  b: CargoItem;
+  level: SegregationLevel;
+
+  /** The conflicting classes (a pallet can carry cartons of several) */
+  aClass: HazmatLevel;
+  bClass: HazmatLevel;
+
+  /** Horizontal gap between the two items (inches) */
+  distanceIn: number;
+}
+
+/**
+ * Returns the IMDG segregation required between two hazmat classes.
+ *
+ * @example
+ * segregationRequirement('3-flammable-liquid', '5-oxidizer') // 'separated'
+ */
+export function segregationRequirement(a: HazmatLevel, b: HazmatLevel): SegregationLevel {
+  if (a === 'none' || b === 'none') return 'none';
+  return IMDG_SEGREGATION_TABLE[HAZMAT_CLASSES[a].classNum - 1][HAZMAT_CLASSES[b].classNum - 1];
+}
+
+/**
+ * Shortest horizontal distance (inches) between two items' footprints.
+ * Items stacked on or beside each other are 0 apart.
+ */
+export function horizontalGap(a: CargoItem, b: CargoItem): number {
+  const gapX = Math.max(0, Math.max(a.posX, b.posX) - Math.min(a.posX + a.lengthIn, b.posX + b.lengthIn));
+  const gapZ = Math.max(0, Math.max(a.posZ, b.posZ) - Math.min(a.posZ + a.widthIn, b.posZ + b.widthIn));
+  return Math.hypot(gapX, gapZ);
+}
+
+/**
+ * The hazmat units an item stands for: the hazmat cartons on a pallet, or
+ * the item itself. Empty for items that carry no hazmat.
+ */
+export function hazmatUnits(item: CargoItem): CargoItem[] {
+  const isHazmat = (unit: CargoItem) => unit.hazmatLevel !== undefined && unit.hazmatLevel !== 'none';
+  const cartons = item.palletContents?.cartons.filter(isHazmat) ?? [];
+  if (cartons.length > 0) return cartons;
+  return isHazmat(item) ? [item] : [];
+}
+
+/**
+ * Returns the strictest segregation required between two items, checking
+ * every hazmat carton of a pallet.
+ *
+ * @example
+ * itemSegregation(paintPallet, bleach) // { level: 'separated', aClass: '3-flammable-liquid', bClass: '5-oxidizer' }
+ */
+export function itemSegregation(a: CargoItem, b: CargoItem): { level: SegregationLevel; aClass: HazmatLevel; bClass: HazmatLevel } {
+  let strictest: { level: SegregationLevel; aClass: HazmatLevel; bClass: HazmatLevel } = { level: 'none', aClass: 'none', bClass: 'none' };
+  for (const unitA of hazmatUnits(a)) {
+    for (const unitB of hazmatUnits(b)) {
+      const level = segregationRequirement(unitA.hazmatLevel!, unitB.hazmatLevel!);
+      if (SEGREGATION_LEVELS[level].minDistanceIn > SEGREGATION_LEVELS[strictest.level].minDistanceIn) {
+        strictest = { level, aClass: unitA.hazmatLevel!, bClass: unitB.hazmatLevel! };
+      }
+    }
+  }
+  return strictest;
+}
+
+function segregationViolation(a: CargoItem, b: CargoItem): SegregationViolation | null {
+  const { level, aClass, bClass } = itemSegregation(a, b);
+  if (level === 'none') return null;
+  const distanceIn = horizontalGap(a, b);
+  return distanceIn < SEGREGATION_LEVELS[level].minDistanceIn ? { a, b, level, aClass, bClass, distanceIn } : null;
+}
+
+/**
+ * Finds every pair of hazmat items in a container that is closer than the
+ * IMDG segregation table allows.
+ *
+ * @param items - Items in one container
+ * @returns One violation per offending pair
+ *
+ * @example
+ * findSegregationViolations(items).map(formatSegregationViolation)
+ */
+export function findSegregationViolations(items: CargoItem[]): SegregationViolation[] {
+  const hazmat = items.filter(item => hazmatUnits(item).length > 0);
+  const violations: SegregationViolation[] = [];
+  for (let i = 0; i < hazmat.length; i++) {
+    for (let j = i + 1; j < hazmat.length; j++) {
+      const violation = segregationViolation(hazmat[i], hazmat[j]);
+      if (violation) violations.push(violation);
+    }
+  }
+  return violations;
+}
+
+/**
+ * Checks an item at its proposed position against every other hazmat item.
+ *
+ * @param item - Item at its proposed position
+ * @param allItems - All items in the container (may include item)
+ * @returns Warning messages; empty when the item is correctly segregated
+ */
+export function checkSegregation(item: CargoItem, allItems: CargoItem[]): string[] {
+  if (hazmatUnits(item).length === 0) return [];
+  return allItems
+    .filter(other => other.id !== item.id)
+    .map(other => segregationViolation(item, other))
+    .filter((v): v is SegregationViolation => v !== null)
+    .map(formatSegregationViolation);
+}
+
+/**
+ * Formats a violation, e.g. '"Paint" (Class 3) must be separated from
+ * "Bleach" (Class 5) (at least 236" apart, now 48")'.
+ */
+export function formatSegregationViolation(v: SegregationViolation): string {
+  const name = (item: CargoItem, level: HazmatLevel) => `"${item.label}" (Class ${HAZMAT_CLASSES[level].classNum})`;
+  if (v.level === 'compartment') {
+    return `${name(v.a, v.aClass)} and ${name(v.b, v.bClass)} must be separated by a complete compartment and may not share a container`;
+  }
+  const minimum = SEGREGATION_LEVELS[v.level].minDistanceIn;
+  return `${name(v.a, v.aClass)} must be ${SEGREGATION_LEVELS[v.level].label.toLowerCase()} ${name(v.b, v.bClass)} (at least ${formatLength(minimum)} apart, now ${formatLength(v.distanceIn)})`;
+}
+
+// ============================================================================
+// DANGEROUS GOODS
+// ============================================================================
+
+/**
+ * Lists the entries to declare for a set of items: each hazmat item, and
+ * for pallets each hazmat carton, labelled with the pallet it is on.
+ *
+ * @example
+ * dangerousGoodsItems(items).map(formatDangerousGoods)
+ */
+export function dangerousGoodsItems(items: CargoItem[]): CargoItem[] {
+  return items.flatMap(item => hazmatUnits(item).map(unit =>
+    unit === item ? item : { ...unit, label: `${unit.label} (on ${item.label})` }
+  ));
+}
+
+/**
+ * Formats an item's dangerous goods description in IMDG order: UN number,
+ * proper shipping name, class with subsidiary risk, packing group, flash
+ * point and marine pollutant mark. Missing fields are left out.
+ *
+ * @example
+ * formatDangerousGoods(paint) // 'UN1263, PAINT, 3 (6.1), PG II, (23°C c.c.), MARINE POLLUTANT'
+ */
+export function formatDangerousGoods(item: CargoItem): string {
+  const parts: string[] = [];
+  if (item.unNumber) parts.push(`UN${item.unNumber}`);
+  if (item.properShippingName) parts.push(item.properShippingName);
+  if (item.hazmatLevel && item.hazmatLevel !== 'none') {
+    const classNum = HAZMAT_CLASSES[item.hazmatLevel].classNum;
+    parts.push(item.subsidiaryRisk ? `${classNum} (${item.subsidiaryRisk})` : String(classNum));
+  }
+  if (item.packingGroup) parts.push(`PG ${item.packingGroup}`);
+  if (item.flashPointC !== undefined) parts.push(`(${item.flashPointC}°C c.c.)`);
+  if (item.marinePollutant) parts.push('MARINE POLLUTANT');
+  return parts.join(', ');
+}
+
+// ============================================================================
+// ITEM LINES
+// ============================================================================
+
+/** Largest quantity accepted for one packing-list line */
+export const MAX_LINE_QUANTITY = 200;
+
+/**
+ * Items that share a packing-list line, e.g. "40 x cartons 24x18x16".
+ * An item entered on its own forms a line of one.
+ */
+export interface ItemLine {
+  /** The shared lineId, or the item id for an item without one */
+  key: string;
+
+  /** Line name: the first item's label without its "#n" suffix */
+  label: string;
+
+  sku?: string;
+  items: CargoItem[];
+  totalWeightLbs: number;
+}
+
+/**
+ * Generates an ID shared by all items of one packing-list line.
+ */
+export function generateLineId(): string {
+  return 'line_' + Date.now().toString(36) + '_' + Math.random().toString(36).substr(2, 5);
+}
+
+/**
+ * Groups items by packing-list line, in order of first appearance.
+ * 
+ * @example
+ * groupItemsByLine(items).map(formatItemLine) // ['Carton A ×40, 1,400 lbs total', ...]
+ */
+export function groupItemsByLine(items: CargoItem[]): ItemLine[] {
+  const lines = new Map<string, ItemLine>();
+  for (const item of items) {
+    const key = item.lineId ?? item.id;
+    let line = lines.get(key);
+    if (!line) {
+      line = { key, label: item.label.replace(/\s+#\d+$/, ''), sku: item.sku, items: [], totalWeightLbs: 0 };
+      lines.set(key, line);
+    }
+    line.items.push(item);
+    line.totalWeightLbs += item.weightLbs;
+  }
+  return Array.from(lines.values());
+}
+
+/**
+ * Formats a line, e.g. 'Carton A ×40, 1,400 lbs total' or 'Crate B, 600 lbs'.
+ */
+export function formatItemLine(line: ItemLine): string {
+  return line.items.length > 1
+    ? `${line.label} ×${line.items.length}, ${formatMass(line.totalWeightLbs)} total`
+    : `${line.label}, ${formatMass(line.totalWeightLbs)}`;
+}
+
+// ============================================================================
+// CUSTOM EQUIPMENT
+// ============================================================================
+
+/**
+ * Rebuilds a custom equipment spec read from a saved load or local storage,
+ * keeping only the known fields. Returns null when the name is not a plain
+ * identifier or is taken by a built-in type, a dimension or the payload is
+ * not a positive number, or the equipment type is unknown. The foot fields are
+ * worked out from the inches.
+ */
+export function containerSpecFromData(raw: unknown): ContainerSpec | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  const positive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  const { name, label, equipment } = data;
+  if (typeof name !== 'string' || !/^[\w.-]+$/.test(name)) return null;
+  // Names are keys of CONTAINER_SPECS: built-in types and keys such as __proto__ are off limits
+  if (BUILT_IN_CONTAINER_TYPES.includes(name) || name in Object.prototype) return null;
+  if (typeof label !== 'string' || !label.trim()) return null;
+  if (equipment !== undefined && !(typeof equipment === 'string' && Object.prototype.hasOwnProperty.call(EQUIPMENT_TYPES, equipment))) return null;
+
+  const { lengthIn, widthIn, heightIn, maxWeightLbs, tareWeightLbs, doorWidthIn, doorHeightIn } = data;
+  if (!positive(lengthIn) || !positive(widthIn) || !positive(heightIn) || !positive(maxWeightLbs)) return null;
+  if (typeof tareWeightLbs !== 'number' || !Number.isFinite(tareWeightLbs) || tareWeightLbs < 0) return null;
+  if (doorWidthIn !== undefined && !(positive(doorWidthIn) && doorWidthIn <= widthIn)) return null;
+  if (doorHeightIn !== undefined && !(positive(doorHeightIn) && doorHeightIn <= heightIn)) return null;
+
+  return {
+    name,
+    label,
+    equipment: (equipment as EquipmentType | undefined) ?? 'container',
+    custom: true,
+    lengthFt: lengthIn / 12,
+    widthFt: widthIn / 12,
+    heightFt: heightIn / 12,
+    lengthIn,
+    widthIn,
+    heightIn,
+    doorWidthIn,
+    doorHeightIn,
+    tareWeightLbs,
+    maxWeightLbs,
+  };
+}
+
 // ============================================================================
 // CALCULATIONS AND MEASUREMENTS
 // ============================================================================
@@ -441,12 +950,250 @@ export function getWeightDistribution(
   };
 }
 
+/**
+ * Center of gravity of the loaded cargo.
+ * x/y/z are measured from the back-left floor corner of the container;
+ * offsets are measured from the container's geometric center.
+ */
+export interface CenterOfGravity {
+  x: number;
+  y: number;
+  z: number;
+  offsetX: number;
+  offsetY: number;
+  offsetZ: number;
+}
+
+/**
+ * Calculates the 3D center of gravity of the cargo, treating each item as
+ * a uniform box whose weight acts at its geometric center.
+ *
+ * @param items - Array of cargo items
+ * @param container - Container specifications
+ * @returns Center of gravity in inches, or null when the cargo has no weight
+ *
+ * @example
+ * const cog = calculateCenterOfGravity(items, container);
+ * if (cog) console.log(`CoG is ${cog.y.toFixed(0)}" above the floor`);
+ */
+export function calculateCenterOfGravity(items: CargoItem[], container: ContainerSpec): CenterOfGravity | null {
+  let totalW = 0, mx = 0, my = 0, mz = 0;
+  for (const item of items) {
+    mx += item.weightLbs * (item.posX + item.lengthIn / 2);
+    my += item.weightLbs * (item.posY + item.heightIn / 2);
+    mz += item.weightLbs * (item.posZ + item.widthIn / 2);
+    totalW += item.weightLbs;
+  }
+  if (totalW <= 0) return null;
+
+  const x = mx / totalW;
+  const y = my / totalW;
+  const z = mz / totalW;
+  return {
+    x, y, z,
+    offsetX: x - container.lengthIn / 2,
+    offsetY: y - container.heightIn / 2,
+    offsetZ: z - container.widthIn / 2,
+  };
+}
+
+/**
+ * Checks a center of gravity against a tolerance envelope.
+ *
+ * @param cog - Center of gravity (from calculateCenterOfGravity)
+ * @param container - Container specifications
+ * @param tolerance - Allowed CoG envelope
+ * @returns Warning messages; empty when the CoG is within tolerance
+ */
+export function checkCogTolerance(cog: CenterOfGravity, container: ContainerSpec, tolerance: CogTolerance): string[] {
+  const warnings: string[] = [];
+
+  const heightPct = (cog.y / container.heightIn) * 100;
+  if (heightPct > tolerance.maxHeightPct) {
+    warnings.push(`Center of gravity is too high: ${formatLength(cog.y)} (${heightPct.toFixed(0)}% of height, limit ${tolerance.maxHeightPct}%)`);
+  }
+
+  const maxLong = container.lengthIn * tolerance.maxLongitudinalOffsetPct / 100;
+  if (Math.abs(cog.offsetX) > maxLong) {
+    warnings.push(`Center of gravity is ${formatLength(Math.abs(cog.offsetX))} toward the ${cog.offsetX < 0 ? 'front' : 'back'} (limit ${formatLength(maxLong)})`);
+  }
+
+  const maxLat = container.widthIn * tolerance.maxLateralOffsetPct / 100;
+  if (Math.abs(cog.offsetZ) > maxLat) {
+    warnings.push(`Center of gravity is ${formatLength(Math.abs(cog.offsetZ), 1)} toward the ${cog.offsetZ < 0 ? 'left' : 'right'} (limit ${formatLength(maxLat, 1)})`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Formats a center of gravity position, e.g. 'X 120", Y 36", Z 46"'
+ * or 'X 305 cm, Y 91 cm, Z 117 cm'.
+ */
+export function formatCog(cog: CenterOfGravity): string {
+  return `X ${formatLength(cog.x)}, Y ${formatLength(cog.y)}, Z ${formatLength(cog.z)}`;
+}
+
+/**
+ * Describes the CoG offset from the container center in words,
+ * e.g. '12" back, 1.5" left, 10" below center'.
+ */
+export function describeCogOffset(cog: CenterOfGravity): string {
+  const fb = `${formatLength(Math.abs(cog.offsetX))} ${cog.offsetX < 0 ? 'front' : 'back'}`;
+  const lr = `${formatLength(Math.abs(cog.offsetZ), 1)} ${cog.offsetZ < 0 ? 'left' : 'right'}`;
+  const ud = `${formatLength(Math.abs(cog.offsetY))} ${cog.offsetY < 0 ? 'below' : 'above'} center`;
+  return `${fb}, ${lr}, ${ud}`;
+}
+
+// ============================================================================
+// UNIT SYSTEM
+// ============================================================================
+
+/** Unit system used for display and input; set from the user's preference */
+let unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM;
+
+/**
+ * Sets the unit system used by all formatting and input conversion helpers.
+ * Stored item data is unaffected.
+ */
+export function setUnitSystem(system: UnitSystem): void {
+  unitSystem = system;
+}
+
+export function getUnitSystem(): UnitSystem {
+  return unitSystem;
+}
+
+/** Length unit symbol for input labels and column headers: 'in' or 'cm' */
+export function lengthUnit(): string {
+  return unitSystem === 'metric' ? 'cm' : 'in';
+}
+
+/** Weight unit symbol: 'lbs' or 'kg' */
+export function weightUnit(): string {
+  return unitSystem === 'metric' ? 'kg' : 'lbs';
+}
+
+/** Volume unit symbol: 'ft³' or 'm³' */
+export function volumeUnit(): string {
+  return unitSystem === 'metric' ? 'm³' : 'ft³';
+}
+
+/** Converts inches to the display length unit */
+export function toDisplayLength(inches: number): number {
+  return unitSystem === 'metric' ? inches * CM_PER_INCH : inches;
+}
+
+/** Converts a length entered in the display unit to inches */
+export function fromDisplayLength(value: number): number {
+  return unitSystem === 'metric' ? value / CM_PER_INCH : value;
+}
+
+/** Converts pounds to the display weight unit */
+export function toDisplayWeight(lbs: number): number {
+  return unitSystem === 'metric' ? lbs / LBS_PER_KG : lbs;
+}
+
+/** Converts a weight entered in the display unit to pounds */
+export function fromDisplayWeight(value: number): number {
+  return unitSystem === 'metric' ? value * LBS_PER_KG : value;
+}
+
+/** Converts cubic inches to the display volume unit (ft³ or m³) */
+export function toDisplayVolume(cubicInches: number): number {
+  return unitSystem === 'metric'
+    ? cubicInches * Math.pow(CM_PER_INCH / 100, 3)
+    : cubicInches / 1728;
+}
+
+/** Square feet to square meters */
+const SQM_PER_SQFT = Math.pow(12 * CM_PER_INCH / 100, 2);
+
+/**
+ * Converts a top-load limit to the display unit: lbs → kg, lbs/ft² → kg/m².
+ */
+export function toDisplayTopLoad(value: number, unit: TopLoadUnit): number {
+  const weight = toDisplayWeight(value);
+  return unit === 'lbs/sqft' && unitSystem === 'metric' ? weight / SQM_PER_SQFT : weight;
+}
+
+/** Converts a top-load limit entered in the display unit back to lbs or lbs/ft² */
+export function fromDisplayTopLoad(value: number, unit: TopLoadUnit): number {
+  const weight = fromDisplayWeight(value);
+  return unit === 'lbs/sqft' && unitSystem === 'metric' ? weight * SQM_PER_SQFT : weight;
+}
+
+/**
+ * Rounds a value for an input field, so a converted value reads
+ * '121.9' rather than '121.92000000000002'.
+ */
+export function toInputValue(value: number, decimals: number = 1): string {
+  return String(Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals));
+}
+
+/**
+ * Grid sizes offered for the current unit system.
+ * Metric sizes are whole centimeters; snapping still works in inches.
+ *
+ * @example
+ * gridSizeOptions() // metric: [{ label: '1 cm', inches: 0.3937 }, { label: '2 cm', ... }, ...]
+ */
+export function gridSizeOptions(): { label: string; inches: number }[] {
+  return unitSystem === 'metric'
+    ? METRIC_GRID_SIZES_CM.map(cm => ({ label: `${cm} cm`, inches: cm / CM_PER_INCH }))
+    : GRID_SIZES.map(size => ({ label: `${size}"`, inches: size }));
+}
+
 // ============================================================================
 // FORMATTING UTILITIES
 // ============================================================================
 
 /**
- * Formats weight for compact display.
+ * Formats a length in the current unit system.
+ *
+ * @param inches - Length in inches
+ * @param decimals - Fixed decimal places to show
+ *
+ * @example
+ * formatLength(120)      // imperial: '120"', metric: '305 cm'
+ * formatLength(1.5, 1)   // imperial: '1.5"', metric: '3.8 cm'
+ */
+export function formatLength(inches: number, decimals: number = 0): string {
+  const value = toDisplayLength(inches).toFixed(decimals);
+  return unitSystem === 'metric' ? `${value} cm` : `${value}"`;
+}
+
+/**
+ * Formats a weight as a number in the current unit, without the unit,
+ * for tables and stat cards whose header names the unit.
+ *
+ * @example
+ * formatWeightNumber(1400) // imperial: '1,400', metric: '635'
+ */
+export function formatWeightNumber(lbs: number): string {
+  return toDisplayWeight(lbs).toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+/**
+ * Formats a weight with its unit in the current unit system.
+ *
+ * @example
+ * formatMass(1400) // imperial: '1,400 lbs', metric: '635 kg'
+ */
+export function formatMass(lbs: number): string {
+  return `${formatWeightNumber(lbs)} ${weightUnit()}`;
+}
+
+/**
+ * Formats a volume given in cubic inches, e.g. '40.0 ft³' or '1.13 m³'.
+ */
+export function formatVolume(cubicInches: number): string {
+  const decimals = unitSystem === 'metric' ? 2 : 1;
+  return `${toDisplayVolume(cubicInches).toFixed(decimals)} ${volumeUnit()}`;
+}
+
+/**
+ * Formats weight for compact display in the current unit system.
  * Converts large weights to "k" notation (e.g., 1500 → "1.5k").
  * 
  * @param lbs - Weight in pounds
@@ -457,12 +1204,13 @@ export function getWeightDistribution(
  * formatWeight(1500) // Returns "1.5k"
  */
 export function formatWeight(lbs: number): string {
-  if (lbs >= 1000) return (lbs / 1000).toFixed(1) + 'k';
-  return lbs.toFixed(0);
+  const value = toDisplayWeight(lbs);
+  if (value >= 1000) return (value / 1000).toFixed(1) + 'k';
+  return value.toFixed(0);
 }
 
 /**
- * Formats item dimensions as a readable string.
+ * Formats item dimensions as a readable string in the current unit system.
  * Uses the × symbol for professional appearance.
  * 
  * @param l - Length in inches
@@ -471,10 +1219,11 @@ export function formatWeight(lbs: number): string {
  * @returns Formatted dimension string
  * 
  * @example
- * formatDimensions(48, 40, 36) // Returns '48" × 40" × 36"'
+ * formatDimensions(48, 40, 36) // imperial: '48" × 40" × 36"', metric: '121.9 × 101.6 × 91.4 cm'
  */
 export function formatDimensions(l: number, w: number, h: number): string {
-  return `${l}" × ${w}" × ${h}"`;
+  const [dl, dw, dh] = [l, w, h].map(v => toInputValue(toDisplayLength(v)));
+  return unitSystem === 'metric' ? `${dl} × ${dw} × ${dh} cm` : `${dl}" × ${dw}" × ${dh}"`;
 }
 
 /**
@@ -557,6 +1306,34 @@ export function rotateItemTipSide(item: CargoItem): void {
   item.heightIn = oldWidth;
 }
 
+/**
+ * Checks whether a set of dimensions is an orientation the item's rule allows.
+ * Orientations are judged against the item's original dimensions.
+ *
+ * @param item - Item whose rule applies
+ * @param dims - Candidate dimensions (e.g. the item after a rotation)
+ * @returns true if the orientation is allowed
+ *
+ * @example
+ * const tipped = { ...drum };
+ * rotateItemTipForward(tipped);
+ * isOrientationAllowed(drum, tipped) // false for an 'upright' drum
+ */
+export function isOrientationAllowed(
+  item: CargoItem,
+  dims: { lengthIn: number; widthIn: number; heightIn: number }
+): boolean {
+  const rule = item.allowedOrientations ?? 'any';
+  if (rule === 'upright') {
+    return Math.abs(dims.heightIn - item.origHeightIn) < 0.01;
+  }
+  if (rule === 'long-side-down') {
+    const longest = Math.max(item.origLengthIn, item.origWidthIn, item.origHeightIn);
+    return Math.max(dims.lengthIn, dims.widthIn) >= longest - 0.01;
+  }
+  return true;
+}
+
 /**
  * Gets a display label for the item's current rotation state.
  * Returns empty string if item is in original orientation, otherwise
@@ -13,6 +13,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3001',
         changeOrigin: true,
+        // Live collaboration sessions use a WebSocket at /api/collab
+        ws: true,
       },
     },
   },